@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "companies" ADD COLUMN     "requireTwoFactorForAdmins" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "twoFactorEnabled" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "twoFactorEnabledAt" TIMESTAMP(3),
+ADD COLUMN     "twoFactorRecoveryCodes" TEXT[],
+ADD COLUMN     "twoFactorSecret" TEXT;
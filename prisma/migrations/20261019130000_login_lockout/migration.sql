@@ -0,0 +1,26 @@
+-- AlterEnum
+ALTER TYPE "ActivityType" ADD VALUE 'LOGIN_FAILED';
+ALTER TYPE "ActivityType" ADD VALUE 'ACCOUNT_LOCKED';
+ALTER TYPE "ActivityType" ADD VALUE 'ACCOUNT_UNLOCKED';
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "failedLoginAttempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "lastFailedLoginAt" TIMESTAMP(3),
+ADD COLUMN     "lockedUntil" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "failed_logins" (
+    "id" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "ipAddress" TEXT,
+    "userAgent" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "failed_logins_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "failed_logins_ipAddress_createdAt_idx" ON "failed_logins"("ipAddress", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "failed_logins_createdAt_idx" ON "failed_logins"("createdAt");
@@ -0,0 +1,37 @@
+-- CreateEnum
+CREATE TYPE "DeviceAuthorizationStatus" AS ENUM ('PENDING', 'APPROVED', 'DENIED', 'CONSUMED');
+
+-- CreateTable
+CREATE TABLE "device_authorizations" (
+    "id" TEXT NOT NULL,
+    "deviceCodeHash" TEXT NOT NULL,
+    "userCode" TEXT NOT NULL,
+    "status" "DeviceAuthorizationStatus" NOT NULL DEFAULT 'PENDING',
+    "userId" TEXT,
+    "deviceName" TEXT,
+    "ipAddress" TEXT,
+    "userAgent" TEXT,
+    "interval" INTEGER NOT NULL DEFAULT 5,
+    "lastPolledAt" TIMESTAMP(3),
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "approvedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "device_authorizations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "device_authorizations_deviceCodeHash_key" ON "device_authorizations"("deviceCodeHash");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "device_authorizations_userCode_key" ON "device_authorizations"("userCode");
+
+-- CreateIndex
+CREATE INDEX "device_authorizations_expiresAt_idx" ON "device_authorizations"("expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "device_authorizations" ADD CONSTRAINT "device_authorizations_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Desktop codes are now stored hashed; plaintext codes from before this release are unusable
+DELETE FROM "OneTimeCode" WHERE "type" = 'DESKTOP_AUTH';
@@ -0,0 +1,54 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "ssoSubject" TEXT;
+
+-- CreateTable
+CREATE TABLE "sso_configurations" (
+    "id" TEXT NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "issuer" TEXT NOT NULL,
+    "clientId" TEXT NOT NULL,
+    "clientSecret" TEXT,
+    "allowedDomains" TEXT[],
+    "defaultRole" "UserRole" NOT NULL DEFAULT 'USER',
+    "enabled" BOOLEAN NOT NULL DEFAULT false,
+    "disablePasswordLogin" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "sso_configurations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "sso_login_requests" (
+    "id" TEXT NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "stateHash" TEXT NOT NULL,
+    "nonce" TEXT NOT NULL,
+    "codeVerifier" TEXT NOT NULL,
+    "redirectUri" TEXT NOT NULL,
+    "ipAddress" TEXT,
+    "userAgent" TEXT,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "usedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "sso_login_requests_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "users_companyId_ssoSubject_key" ON "users"("companyId", "ssoSubject");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "sso_configurations_companyId_key" ON "sso_configurations"("companyId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "sso_login_requests_stateHash_key" ON "sso_login_requests"("stateHash");
+
+-- CreateIndex
+CREATE INDEX "sso_login_requests_expiresAt_idx" ON "sso_login_requests"("expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "sso_configurations" ADD CONSTRAINT "sso_configurations_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "companies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "sso_login_requests" ADD CONSTRAINT "sso_login_requests_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "companies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
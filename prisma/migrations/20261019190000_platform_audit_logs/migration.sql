@@ -0,0 +1,32 @@
+-- CreateEnum
+CREATE TYPE "PlatformAuditAction" AS ENUM ('COMPANIES_LISTED', 'COMPANY_VIEWED', 'COMPANY_SUBSCRIPTION_UPDATED', 'COMPANY_ACTIVATED', 'COMPANY_DEACTIVATED', 'PLATFORM_HEALTH_VIEWED', 'AUDIT_LOG_VIEWED');
+
+-- CreateTable
+CREATE TABLE "platform_audit_logs" (
+    "id" TEXT NOT NULL,
+    "actorId" TEXT,
+    "actorEmail" TEXT NOT NULL,
+    "action" "PlatformAuditAction" NOT NULL,
+    "targetCompanyId" TEXT,
+    "metadata" JSONB,
+    "ipAddress" TEXT,
+    "userAgent" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "platform_audit_logs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "platform_audit_logs_actorId_idx" ON "platform_audit_logs"("actorId");
+
+-- CreateIndex
+CREATE INDEX "platform_audit_logs_targetCompanyId_idx" ON "platform_audit_logs"("targetCompanyId");
+
+-- CreateIndex
+CREATE INDEX "platform_audit_logs_action_idx" ON "platform_audit_logs"("action");
+
+-- CreateIndex
+CREATE INDEX "platform_audit_logs_createdAt_idx" ON "platform_audit_logs"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "platform_audit_logs" ADD CONSTRAINT "platform_audit_logs_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,18 @@
+-- AlterEnum
+ALTER TYPE "ActivityType" ADD VALUE 'IMPERSONATION_STARTED';
+ALTER TYPE "ActivityType" ADD VALUE 'IMPERSONATION_STOPPED';
+
+-- AlterEnum
+ALTER TYPE "PlatformAuditAction" ADD VALUE 'IMPERSONATION_STARTED';
+ALTER TYPE "PlatformAuditAction" ADD VALUE 'IMPERSONATION_STOPPED';
+ALTER TYPE "PlatformAuditAction" ADD VALUE 'IMPERSONATED_REQUEST';
+
+-- AlterTable
+ALTER TABLE "user_sessions" ADD COLUMN     "impersonationReason" TEXT,
+ADD COLUMN     "impersonatorId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "user_sessions_impersonatorId_idx" ON "user_sessions"("impersonatorId");
+
+-- AddForeignKey
+ALTER TABLE "user_sessions" ADD CONSTRAINT "user_sessions_impersonatorId_fkey" FOREIGN KEY ("impersonatorId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,28 @@
+-- CreateEnum
+CREATE TYPE "SubscriptionPlan" AS ENUM ('STARTER', 'PROFESSIONAL', 'ENTERPRISE');
+
+-- AlterTable: existing companies keep unrestricted access; new companies start on PROFESSIONAL
+ALTER TABLE "companies" ADD COLUMN "plan" "SubscriptionPlan" NOT NULL DEFAULT 'ENTERPRISE';
+ALTER TABLE "companies" ALTER COLUMN "plan" SET DEFAULT 'PROFESSIONAL';
+
+-- CreateTable
+CREATE TABLE "company_storage_usage" (
+    "companyId" TEXT NOT NULL,
+    "usedBytes" BIGINT NOT NULL DEFAULT 0,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "company_storage_usage_pkey" PRIMARY KEY ("companyId")
+);
+
+-- AddForeignKey
+ALTER TABLE "company_storage_usage" ADD CONSTRAINT "company_storage_usage_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "companies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill from stored screenshots (the bulk of uploaded data)
+INSERT INTO "company_storage_usage" ("companyId", "usedBytes", "updatedAt")
+SELECT p."companyId", COALESCE(SUM(s."fileSize"), 0), CURRENT_TIMESTAMP
+FROM "screenshots" s
+JOIN "time_trackings" t ON t."id" = s."timeTrackingId"
+JOIN "sub_projects" sp ON sp."id" = t."subProjectId"
+JOIN "projects" p ON p."id" = sp."projectId"
+WHERE s."isDeleted" = false
+GROUP BY p."companyId";
@@ -0,0 +1,35 @@
+-- CreateEnum
+CREATE TYPE "BillingEventStatus" AS ENUM ('RECEIVED', 'PROCESSED', 'IGNORED', 'FAILED');
+
+-- AlterTable
+ALTER TABLE "companies" ADD COLUMN "billingCustomerId" TEXT;
+
+-- CreateTable
+CREATE TABLE "billing_events" (
+    "id" TEXT NOT NULL,
+    "externalId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "companyId" TEXT,
+    "payload" JSONB NOT NULL,
+    "status" "BillingEventStatus" NOT NULL DEFAULT 'RECEIVED',
+    "error" TEXT,
+    "processedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "billing_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "companies_billingCustomerId_key" ON "companies"("billingCustomerId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "billing_events_externalId_key" ON "billing_events"("externalId");
+
+-- CreateIndex
+CREATE INDEX "billing_events_companyId_idx" ON "billing_events"("companyId");
+
+-- CreateIndex
+CREATE INDEX "billing_events_status_idx" ON "billing_events"("status");
+
+-- AddForeignKey
+ALTER TABLE "billing_events" ADD CONSTRAINT "billing_events_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "companies"("id") ON DELETE SET NULL ON UPDATE CASCADE;
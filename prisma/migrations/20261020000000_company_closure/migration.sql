@@ -0,0 +1,12 @@
+-- AlterEnum
+ALTER TYPE "ActivityType" ADD VALUE 'COMPANY_CLOSURE_REQUESTED';
+ALTER TYPE "ActivityType" ADD VALUE 'COMPANY_CLOSURE_CANCELLED';
+
+-- AlterTable
+ALTER TABLE "companies" ADD COLUMN "closureRequestedAt" TIMESTAMP(3),
+ADD COLUMN "closureRequestedById" TEXT,
+ADD COLUMN "closureReason" TEXT,
+ADD COLUMN "purgeScheduledAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "companies_purgeScheduledAt_idx" ON "companies"("purgeScheduledAt");
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "companies" ADD COLUMN "timezone" TEXT NOT NULL DEFAULT 'UTC',
+ADD COLUMN "weekStartsOn" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "workingDays" INTEGER[] DEFAULT ARRAY[1, 2, 3, 4, 5]::INTEGER[],
+ADD COLUMN "locale" TEXT NOT NULL DEFAULT 'en-US';
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "timezone" TEXT;
@@ -0,0 +1,34 @@
+-- AlterEnum
+ALTER TYPE "ActivityType" ADD VALUE 'SCORING_CONFIG_UPDATED';
+
+-- AlterTable
+ALTER TABLE "tasks" ADD COLUMN "scoringVersion" INTEGER;
+
+-- AlterTable
+ALTER TABLE "time_trackings" ADD COLUMN "pointsEarned" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "scoringVersion" INTEGER;
+
+-- AlterTable
+ALTER TABLE "leaderboard_snapshots" ADD COLUMN "scoringVersion" INTEGER;
+
+-- CreateTable
+CREATE TABLE "scoring_configs" (
+    "id" TEXT NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "rules" JSONB NOT NULL,
+    "note" TEXT,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "scoring_configs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "scoring_configs_companyId_version_key" ON "scoring_configs"("companyId", "version");
+
+-- AddForeignKey
+ALTER TABLE "scoring_configs" ADD CONSTRAINT "scoring_configs_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "companies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "scoring_configs" ADD CONSTRAINT "scoring_configs_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "companies" ADD COLUMN "emailBrandColor" TEXT,
+ADD COLUMN "emailFooterText" TEXT,
+ADD COLUMN "emailReplyTo" TEXT;
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "startDateAppliedAt" TIMESTAMP(3),
+ADD COLUMN "endDateAppliedAt" TIMESTAMP(3);
+
+-- Dates already in the past were set before the job existed; don't act on them retroactively
+UPDATE "users" SET "startDateAppliedAt" = CURRENT_TIMESTAMP WHERE "startDate" <= CURRENT_TIMESTAMP;
+UPDATE "users" SET "endDateAppliedAt" = CURRENT_TIMESTAMP WHERE "endDate" <= CURRENT_TIMESTAMP;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "sso_configurations" ADD COLUMN "verifiedDomains" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN "domainVerificationToken" TEXT;
+
+-- Existing configurations must verify their domains before email routing works again
+UPDATE "sso_configurations" SET "domainVerificationToken" = md5(random()::text || "id");
+
+ALTER TABLE "sso_configurations" ALTER COLUMN "domainVerificationToken" SET NOT NULL;
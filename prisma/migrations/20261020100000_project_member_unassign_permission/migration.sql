@@ -0,0 +1,5 @@
+-- Custom roles that could remove project members keep removing them from tasks too
+UPDATE "custom_roles"
+SET "permissions" = array_append("permissions", 'project.member.unassign')
+WHERE 'project.member.remove' = ANY("permissions")
+  AND NOT ('project.member.unassign' = ANY("permissions"));
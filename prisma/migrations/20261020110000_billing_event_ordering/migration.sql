@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "companies" ADD COLUMN "lastBillingEventAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "billing_events" ADD COLUMN "receivedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+UPDATE "billing_events" SET "receivedAt" = "createdAt";
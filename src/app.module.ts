@@ -25,6 +25,18 @@ import { LeaderboardModule } from './modules/leaderboard/leaderboard.module';
 import { EmailModule } from './modules/email/email.module';
 // NEW: Profile Module
 import { ProfileModule } from './modules/profile/profile.module';
+import { InvitationsModule } from './modules/invitations/invitations.module';
+import { ApiTokensModule } from './modules/api-tokens/api-tokens.module';
+import { PermissionsModule } from './modules/permissions/permissions.module';
+import { CustomRolesModule } from './modules/custom-roles/custom-roles.module';
+import { PlatformAdminModule } from './modules/platform-admin/platform-admin.module';
+import { ImpersonationModule } from './modules/impersonation/impersonation.module';
+import { PlansModule } from './modules/plans/plans.module';
+import { BillingModule } from './modules/billing/billing.module';
+import { DataExportModule } from './modules/data-export/data-export.module';
+import { CompanyClosureModule } from './modules/company-closure/company-closure.module';
+import { ScoringModule } from './modules/scoring/scoring.module';
+import { MembershipsModule } from './modules/memberships/memberships.module';
 
 @Module({
   imports: [
@@ -52,6 +64,18 @@ import { ProfileModule } from './modules/profile/profile.module';
     LeaderboardModule,
     // NEW: User Profile module
     ProfileModule,
+    InvitationsModule,
+    ApiTokensModule,
+    PermissionsModule,
+    CustomRolesModule,
+    PlatformAdminModule,
+    ImpersonationModule,
+    PlansModule,
+    BillingModule,
+    DataExportModule,
+    CompanyClosureModule,
+    ScoringModule,
+    MembershipsModule,
   ],
   providers: [
     {
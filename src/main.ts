@@ -1,11 +1,17 @@
 // src/main.ts
 import { NestFactory } from '@nestjs/core';
+import { NestExpressApplication } from '@nestjs/platform-express';
 import { ValidationPipe } from '@nestjs/common';
 import { SwaggerModule, DocumentBuilder } from '@nestjs/swagger';
 import { AppModule } from './app.module';
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule);
+  // rawBody keeps the exact bytes for billing webhook signature checks
+  const app = await NestFactory.create<NestExpressApplication>(AppModule, { rawBody: true });
+
+  // Client IPs (sessions, login throttling, audit logs) come from request.ip; X-Forwarded-For is only
+  // honoured for the proxies configured here
+  app.set('trust proxy', parseTrustProxy(process.env.TRUST_PROXY));
 
   // Split the FRONTEND_URL string into an array
   const frontendUrls = process.env.FRONTEND_URL
@@ -54,4 +60,16 @@ async function bootstrap() {
   console.log(`🌐 Allowed frontend origins: ${frontendUrls.join(', ')}`);
 }
 
+// "true"/"false", a hop count, or a comma-separated list of proxy addresses/subnets (Express syntax)
+function parseTrustProxy(value?: string): boolean | number | string {
+  if (!value || value === 'false') {
+    return false;
+  }
+  if (value === 'true') {
+    return true;
+  }
+
+  return /^\d+$/.test(value) ? Number(value) : value;
+}
+
 bootstrap();
\ No newline at end of file
@@ -0,0 +1,60 @@
+// src/modules/api-tokens/api-token-scopes.ts
+
+/**
+ * Controllers reachable with an API token. The scope for a request is `<read|write>:<controller path>`,
+ * so e.g. GET /tasks/:id needs read:tasks and POST /time-tracking/start needs write:time-tracking.
+ * Anything not listed here (auth, two-factor, profile, api-tokens, desktop-auth...) requires a login JWT.
+ */
+export const API_TOKEN_RESOURCES = [
+    'users',
+    'companies',
+    'departments',
+    'projects',
+    'sub-projects',
+    'tasks',
+    'time-tracking',
+    'sops',
+    'chat',
+    'notifications',
+    'activity-logs',
+    'screenshots',
+    'leaderboard',
+    'invitations',
+    'storage',
+] as const;
+
+export const API_TOKEN_SCOPES: string[] = API_TOKEN_RESOURCES.flatMap((resource) => [`read:${resource}`, `write:${resource}`]);
+
+// Bearer tokens with these prefixes are looked up as API tokens instead of being verified as JWTs
+export const PERSONAL_TOKEN_PREFIX = 'mt_pat_';
+export const COMPANY_KEY_PREFIX = 'mt_key_';
+
+export function isApiToken(token: string): boolean {
+    return token.startsWith(PERSONAL_TOKEN_PREFIX) || token.startsWith(COMPANY_KEY_PREFIX);
+}
+
+/**
+ * Scope needed for a request, or null when the controller is not open to API tokens
+ */
+export function requiredScopeFor(method: string, controllerPath: string): string | null {
+    const resource = controllerPath.replace(/^\/+|\/+$/g, '').split('/')[0];
+
+    if (!(API_TOKEN_RESOURCES as readonly string[]).includes(resource)) {
+        return null;
+    }
+
+    const action = ['GET', 'HEAD', 'OPTIONS'].includes(method.toUpperCase()) ? 'read' : 'write';
+    return `${action}:${resource}`;
+}
+
+/**
+ * A write scope also grants read access to the same resource
+ */
+export function hasScope(granted: string[], required: string): boolean {
+    if (granted.includes(required)) {
+        return true;
+    }
+
+    const [action, resource] = required.split(':');
+    return action === 'read' && granted.includes(`write:${resource}`);
+}
@@ -0,0 +1,74 @@
+// src/modules/api-tokens/api-tokens.controller.ts
+import { Controller, Get, Post, Delete, Body, Param, UseGuards, ParseUUIDPipe } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+import { ApiTokensService } from './api-tokens.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { CurrentUser, Roles, BlockWhileImpersonating } from '../auth/guards';
+import { CreateApiTokenDto } from './dto/api-tokens.dto';
+
+@ApiTags('api-tokens')
+@Controller('api-tokens')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+export class ApiTokensController {
+    constructor(private readonly apiTokensService: ApiTokensService) { }
+
+    @Get('scopes')
+    @ApiOperation({ summary: 'List scopes that can be granted to a token' })
+    getScopes() {
+        return this.apiTokensService.getAvailableScopes();
+    }
+
+    // ============================================
+    // COMPANY API KEYS (Company Admin)
+    // ============================================
+
+    @Get('company')
+    @Roles(UserRole.COMPANY)
+    @ApiOperation({ summary: 'List company API keys' })
+    async findCompany(@CurrentUser('companyId') companyId: string) {
+        return this.apiTokensService.findCompany(companyId);
+    }
+
+    @Post('company')
+    @BlockWhileImpersonating()
+    @Roles(UserRole.COMPANY)
+    @ApiOperation({ summary: 'Create a company API key (the key is only shown once)' })
+    async createCompany(@Body() dto: CreateApiTokenDto, @CurrentUser() currentUser: any) {
+        return this.apiTokensService.createCompany(dto, currentUser);
+    }
+
+    @Delete('company/:id')
+    @BlockWhileImpersonating()
+    @Roles(UserRole.COMPANY)
+    @ApiOperation({ summary: 'Revoke a company API key' })
+    async revokeCompany(@Param('id', ParseUUIDPipe) id: string, @CurrentUser('companyId') companyId: string) {
+        return this.apiTokensService.revokeCompany(id, companyId);
+    }
+
+    // ============================================
+    // PERSONAL ACCESS TOKENS
+    // ============================================
+
+    @Get()
+    @ApiOperation({ summary: 'List my personal access tokens' })
+    async findPersonal(@CurrentUser('id') userId: string) {
+        return this.apiTokensService.findPersonal(userId);
+    }
+
+    @Post()
+    @BlockWhileImpersonating()
+    @ApiOperation({ summary: 'Create a personal access token (the token is only shown once)' })
+    async createPersonal(@Body() dto: CreateApiTokenDto, @CurrentUser() currentUser: any) {
+        return this.apiTokensService.createPersonal(dto, currentUser);
+    }
+
+    @Delete(':id')
+    @BlockWhileImpersonating()
+    @ApiOperation({ summary: 'Revoke a personal access token' })
+    async revokePersonal(@Param('id', ParseUUIDPipe) id: string, @CurrentUser('id') userId: string) {
+        return this.apiTokensService.revokePersonal(id, userId);
+    }
+}
@@ -0,0 +1,15 @@
+// src/modules/api-tokens/api-tokens.module.ts
+import { Global, Module } from '@nestjs/common';
+import { ApiTokensController } from './api-tokens.controller';
+import { ApiTokensService } from './api-tokens.service';
+import { PrismaModule } from '../../prisma/prisma.module';
+
+// Global so JwtAuthGuard can resolve ApiTokensService in every module that uses it
+@Global()
+@Module({
+    imports: [PrismaModule],
+    controllers: [ApiTokensController],
+    providers: [ApiTokensService],
+    exports: [ApiTokensService],
+})
+export class ApiTokensModule { }
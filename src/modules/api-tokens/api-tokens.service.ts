@@ -0,0 +1,183 @@
+// src/modules/api-tokens/api-tokens.service.ts
+import { Injectable, NotFoundException, ForbiddenException, UnauthorizedException } from '@nestjs/common';
+import { ApiTokenType, Prisma, User } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { generateToken, hashToken } from '../auth/utils/token.util';
+import { API_TOKEN_SCOPES, COMPANY_KEY_PREFIX, PERSONAL_TOKEN_PREFIX, hasScope } from './api-token-scopes';
+import { CreateApiTokenDto } from './dto/api-tokens.dto';
+import { MembershipsService } from '../memberships/memberships.service';
+import { withMembership } from '../memberships/membership.util';
+
+const LAST_USED_UPDATE_INTERVAL_MS = 60 * 1000; // Avoid a write on every request
+const DISPLAY_PREFIX_LENGTH = 12;
+
+const API_TOKEN_SELECT = {
+    id: true,
+    type: true,
+    name: true,
+    prefix: true,
+    scopes: true,
+    expiresAt: true,
+    lastUsedAt: true,
+    lastUsedIp: true,
+    revokedAt: true,
+    createdAt: true,
+    user: { select: { id: true, firstName: true, lastName: true, email: true } },
+} satisfies Prisma.ApiTokenSelect;
+
+type TokenOwner = Pick<User, 'id' | 'companyId'>;
+
+@Injectable()
+export class ApiTokensService {
+    constructor(
+        private prisma: PrismaService,
+        private membershipsService: MembershipsService,
+    ) { }
+
+    getAvailableScopes() {
+        return { scopes: API_TOKEN_SCOPES };
+    }
+
+    // ============================================
+    // PERSONAL ACCESS TOKENS
+    // ============================================
+    async findPersonal(userId: string) {
+        return this.prisma.apiToken.findMany({
+            where: { userId, type: ApiTokenType.PERSONAL },
+            select: API_TOKEN_SELECT,
+            orderBy: { createdAt: 'desc' },
+        });
+    }
+
+    async createPersonal(dto: CreateApiTokenDto, currentUser: TokenOwner) {
+        return this.create(ApiTokenType.PERSONAL, dto, currentUser);
+    }
+
+    async revokePersonal(id: string, userId: string) {
+        const token = await this.prisma.apiToken.findFirst({
+            where: { id, userId, type: ApiTokenType.PERSONAL },
+        });
+
+        if (!token) {
+            throw new NotFoundException('Token not found');
+        }
+
+        return this.revoke(id);
+    }
+
+    // ============================================
+    // COMPANY API KEYS
+    // ============================================
+    async findCompany(companyId: string) {
+        return this.prisma.apiToken.findMany({
+            where: { companyId, type: ApiTokenType.COMPANY },
+            select: API_TOKEN_SELECT,
+            orderBy: { createdAt: 'desc' },
+        });
+    }
+
+    /**
+     * Company keys act as the admin who created them, so roles and data access follow that account
+     */
+    async createCompany(dto: CreateApiTokenDto, currentUser: TokenOwner) {
+        return this.create(ApiTokenType.COMPANY, dto, currentUser);
+    }
+
+    async revokeCompany(id: string, companyId: string) {
+        const token = await this.prisma.apiToken.findFirst({
+            where: { id, companyId, type: ApiTokenType.COMPANY },
+        });
+
+        if (!token) {
+            throw new NotFoundException('API key not found');
+        }
+
+        return this.revoke(id);
+    }
+
+    // ============================================
+    // AUTHENTICATION (used by JwtAuthGuard)
+    // ============================================
+
+    /**
+     * Resolves a bearer API token to its acting user. requiredScope is null for endpoints that tokens cannot reach.
+     */
+    async authenticate(token: string, requiredScope: string | null, ipAddress?: string) {
+        const apiToken = await this.prisma.apiToken.findUnique({
+            where: { tokenHash: hashToken(token) },
+            include: { user: true },
+        });
+
+        if (!apiToken || apiToken.revokedAt || (apiToken.expiresAt && apiToken.expiresAt <= new Date())) {
+            throw new UnauthorizedException('Invalid or expired API token');
+        }
+
+        // Tokens act in the company they were created in, with the owner's role there
+        const membership = await this.membershipsService.findMembership(apiToken.userId, apiToken.companyId);
+
+        if (!membership?.isActive || !membership.company.isActive) {
+            throw new UnauthorizedException('Account is not active');
+        }
+
+        if (!requiredScope) {
+            throw new ForbiddenException('This endpoint cannot be used with an API token');
+        }
+
+        if (!hasScope(apiToken.scopes, requiredScope)) {
+            throw new ForbiddenException(`API token is missing the ${requiredScope} scope`);
+        }
+
+        if (!apiToken.lastUsedAt || Date.now() - apiToken.lastUsedAt.getTime() > LAST_USED_UPDATE_INTERVAL_MS) {
+            await this.prisma.apiToken.update({
+                where: { id: apiToken.id },
+                data: {
+                    lastUsedAt: new Date(),
+                    lastUsedIp: ipAddress,
+                },
+            });
+        }
+
+        return {
+            ...withMembership(apiToken.user, membership),
+            apiTokenId: apiToken.id,
+            apiTokenScopes: apiToken.scopes,
+        };
+    }
+
+    // ============================================
+    // HELPERS
+    // ============================================
+    private async create(type: ApiTokenType, dto: CreateApiTokenDto, currentUser: TokenOwner) {
+        const token = (type === ApiTokenType.PERSONAL ? PERSONAL_TOKEN_PREFIX : COMPANY_KEY_PREFIX) + generateToken();
+
+        const apiToken = await this.prisma.apiToken.create({
+            data: {
+                type,
+                name: dto.name,
+                tokenHash: hashToken(token),
+                prefix: token.slice(0, DISPLAY_PREFIX_LENGTH),
+                scopes: [...new Set(dto.scopes)],
+                companyId: currentUser.companyId,
+                userId: currentUser.id,
+                expiresAt: dto.expiresInDays
+                    ? new Date(Date.now() + dto.expiresInDays * 24 * 60 * 60 * 1000)
+                    : null,
+            },
+            select: API_TOKEN_SELECT,
+        });
+
+        return {
+            ...apiToken,
+            // Only returned once; the database keeps the hash
+            token,
+        };
+    }
+
+    private async revoke(id: string) {
+        return this.prisma.apiToken.update({
+            where: { id },
+            data: { revokedAt: new Date() },
+            select: API_TOKEN_SELECT,
+        });
+    }
+}
@@ -0,0 +1,25 @@
+// src/modules/api-tokens/dto/api-tokens.dto.ts
+import { IsString, IsNotEmpty, MaxLength, IsArray, ArrayNotEmpty, IsIn, IsOptional, IsInt, Min, Max } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { API_TOKEN_SCOPES } from '../api-token-scopes';
+
+export class CreateApiTokenDto {
+    @ApiProperty({ example: 'Timesheet export script' })
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(100)
+    name: string;
+
+    @ApiProperty({ example: ['read:time-tracking', 'write:tasks'], type: [String] })
+    @IsArray()
+    @ArrayNotEmpty()
+    @IsIn(API_TOKEN_SCOPES, { each: true })
+    scopes: string[];
+
+    @ApiPropertyOptional({ example: 90, description: 'Days until the token expires (omit for no expiry)' })
+    @IsOptional()
+    @IsInt()
+    @Min(1)
+    @Max(365)
+    expiresInDays?: number;
+}
@@ -1,23 +1,77 @@
 // src/modules/auth/auth.controller.ts
-import { Controller, Post, Body, Get, UseGuards } from '@nestjs/common';
+import { Controller, Post, Body, Get, UseGuards, HttpCode, HttpStatus } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
 import { AuthService } from './auth.service';
-import { RegisterCompanyDto, RegisterUserDto, LoginDto } from './dto/auth.dto';
+import {
+    RegisterCompanyDto,
+    RegisterUserDto,
+    LoginDto,
+    ForgotPasswordDto,
+    ResetPasswordDto,
+    VerifyEmailDto,
+    ResendVerificationDto,
+    RefreshTokenDto,
+    SwitchCompanyDto,
+    TwoFactorLoginDto,
+    TwoFactorChallengeDto,
+    UnlockAccountDto,
+} from './dto/auth.dto';
 // import { SkipSubscriptionCheck } from '../../common/decorators/skip-subscription.decorator';
 import { JwtAuthGuard } from './guards/jwt-auth.guard';
-import { CurrentUser, SkipSubscriptionCheck } from './guards';
+import { CurrentUser, SkipSubscriptionCheck, ClientInfo, BlockWhileImpersonating } from './guards';
+import { TwoFactorService } from './two-factor/two-factor.service';
 // import { CurrentUser } from '../../common/decorators/current-user.decorator';
 
 @ApiTags('')
 @Controller('')
 export class AuthController {
-    constructor(private readonly authService: AuthService) { }
+    constructor(
+        private readonly authService: AuthService,
+        private readonly twoFactorService: TwoFactorService,
+    ) { }
 
     @Post('login')
     @SkipSubscriptionCheck()
     @ApiOperation({ summary: 'Login user' })
-    async login(@Body() loginDto: LoginDto) {
-        return this.authService.login(loginDto);
+    async login(@Body() loginDto: LoginDto, @ClientInfo() client: ClientInfo) {
+        return this.authService.login(loginDto, client);
+    }
+
+    @Post('login/two-factor')
+    @HttpCode(HttpStatus.OK)
+    @SkipSubscriptionCheck()
+    @ApiOperation({ summary: 'Complete login with an authenticator or recovery code' })
+    async loginTwoFactor(@Body() dto: TwoFactorLoginDto, @ClientInfo() client: ClientInfo) {
+        return this.authService.completeTwoFactorLogin(dto, client);
+    }
+
+    @Post('login/two-factor/setup')
+    @HttpCode(HttpStatus.OK)
+    @SkipSubscriptionCheck()
+    @ApiOperation({ summary: 'Get an authenticator secret during login when the company requires two-factor' })
+    async loginTwoFactorSetup(@Body() dto: TwoFactorChallengeDto) {
+        return this.twoFactorService.beginSetupForChallenge(dto.challengeToken);
+    }
+
+    @Post('refresh')
+    @HttpCode(HttpStatus.OK)
+    @SkipSubscriptionCheck()
+    @ApiOperation({ summary: 'Exchange a refresh token for a new access/refresh token pair' })
+    async refresh(@Body() dto: RefreshTokenDto, @ClientInfo() client: ClientInfo) {
+        return this.authService.refresh(dto.refreshToken, client);
+    }
+
+    @Post('logout')
+    @HttpCode(HttpStatus.OK)
+    @UseGuards(JwtAuthGuard)
+    @SkipSubscriptionCheck()
+    @ApiBearerAuth()
+    @ApiOperation({ summary: 'Log out the current session' })
+    async logout(
+        @CurrentUser('id') userId: string,
+        @CurrentUser('sessionId') sessionId: string,
+    ) {
+        return this.authService.logout(userId, sessionId);
     }
 
     @Post('register/company')
@@ -34,13 +88,68 @@ export class AuthController {
         return this.authService.registerUser(registerDto);
     }
 
+    @Post('verify-email')
+    @HttpCode(HttpStatus.OK)
+    @SkipSubscriptionCheck()
+    @ApiOperation({ summary: 'Verify email address using the emailed token' })
+    async verifyEmail(@Body() dto: VerifyEmailDto) {
+        return this.authService.verifyEmail(dto);
+    }
+
+    @Post('resend-verification')
+    @HttpCode(HttpStatus.OK)
+    @SkipSubscriptionCheck()
+    @ApiOperation({ summary: 'Resend the email verification link (rate limited)' })
+    async resendVerification(@Body() dto: ResendVerificationDto) {
+        return this.authService.resendVerification(dto);
+    }
+
+    @Post('forgot-password')
+    @HttpCode(HttpStatus.OK)
+    @SkipSubscriptionCheck()
+    @ApiOperation({ summary: 'Request a password reset link by email' })
+    async forgotPassword(@Body() dto: ForgotPasswordDto) {
+        return this.authService.forgotPassword(dto);
+    }
+
+    @Post('reset-password')
+    @HttpCode(HttpStatus.OK)
+    @SkipSubscriptionCheck()
+    @ApiOperation({ summary: 'Reset password using the emailed token' })
+    async resetPassword(@Body() dto: ResetPasswordDto) {
+        return this.authService.resetPassword(dto);
+    }
+
+    @Post('unlock-account')
+    @HttpCode(HttpStatus.OK)
+    @SkipSubscriptionCheck()
+    @ApiOperation({ summary: 'Unlock an account locked after failed logins, using the emailed token' })
+    async unlockAccount(@Body() dto: UnlockAccountDto) {
+        return this.authService.unlockAccount(dto);
+    }
+
     @Get('me')
     @UseGuards(JwtAuthGuard)
     @SkipSubscriptionCheck()
     @ApiBearerAuth()
     @ApiOperation({ summary: 'Get current authenticated user' })
-    async getMe(@CurrentUser('id') userId: string) {
-        return this.authService.getProfile(userId);
+    async getMe(@CurrentUser('id') userId: string, @CurrentUser('companyId') companyId: string) {
+        return this.authService.getProfile(userId, companyId);
+    }
+
+    @Post('switch-company')
+    @HttpCode(HttpStatus.OK)
+    @UseGuards(JwtAuthGuard)
+    @SkipSubscriptionCheck()
+    @BlockWhileImpersonating()
+    @ApiBearerAuth()
+    @ApiOperation({ summary: 'Switch to another company the user belongs to (returns new tokens for the same session)' })
+    async switchCompany(
+        @CurrentUser('id') userId: string,
+        @CurrentUser('sessionId') sessionId: string,
+        @Body() dto: SwitchCompanyDto,
+    ) {
+        return this.authService.switchCompany(userId, sessionId, dto);
     }
 
     @Get('subscription-status')
@@ -10,6 +10,13 @@ import { JwtStrategy } from './strategies/jwt.strategy';
 import { LocalStrategy } from './strategies/local.strategy';
 import { UsersModule } from '../users/users.module';
 import { DesktopAuthController } from './destop/destop-auth.controller';
+import { DesktopAuthService } from './destop/destop-auth.service';
+import { SessionsService } from './sessions.service';
+import { TwoFactorService } from './two-factor/two-factor.service';
+import { TwoFactorController } from './two-factor/two-factor.controller';
+import { LoginAttemptsService } from './login-attempts.service';
+import { SsoService } from './sso/sso.service';
+import { SsoController } from './sso/sso.controller';
 
 @Module({
     imports: [
@@ -19,15 +26,15 @@ import { DesktopAuthController } from './destop/destop-auth.controller';
             useFactory: async (configService: ConfigService) => ({
                 secret: configService.get('JWT_SECRET'),
                 signOptions: {
-                    expiresIn: configService.get('JWT_EXPIRATION') || '7d',
+                    expiresIn: configService.get('JWT_EXPIRATION') || '15m',
                 },
             }),
             inject: [ConfigService],
         }),
         UsersModule,
     ],
-    controllers: [AuthController, DesktopAuthController], // Add DesktopAuthController
-    providers: [AuthService, JwtStrategy, LocalStrategy],
-    exports: [AuthService],
+    controllers: [AuthController, DesktopAuthController, TwoFactorController, SsoController], // Add DesktopAuthController
+    providers: [AuthService, SessionsService, TwoFactorService, LoginAttemptsService, DesktopAuthService, SsoService, JwtStrategy, LocalStrategy],
+    exports: [AuthService, SessionsService],
 })
 export class AuthModule { }
\ No newline at end of file
@@ -1,61 +1,201 @@
 // src/modules/auth/auth.service.ts
-import { Injectable, UnauthorizedException, ConflictException, BadRequestException, NotFoundException } from '@nestjs/common';
-import { JwtService } from '@nestjs/jwt';
+import { Injectable, UnauthorizedException, ConflictException, BadRequestException, ForbiddenException, NotFoundException, HttpException, HttpStatus } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import * as bcrypt from 'bcryptjs';
 import { PrismaService } from '../../prisma/prisma.service';
-import { RegisterCompanyDto, RegisterUserDto, LoginDto } from './dto/auth.dto';
-import { UserRole, SubscriptionStatus } from '@prisma/client';
+import { RegisterCompanyDto, RegisterUserDto, LoginDto, ForgotPasswordDto, ResetPasswordDto, VerifyEmailDto, ResendVerificationDto, TwoFactorLoginDto, UnlockAccountDto, SwitchCompanyDto } from './dto/auth.dto';
+import { UserRole, SubscriptionStatus, User, Company } from '@prisma/client';
 import { EmailService } from '../email/email.service'; // ADD THIS
+import { OneTimeCodeType } from './interfaces/one-time-code.interface';
+import { SessionsService, SessionContext, SessionTokens } from './sessions.service';
+import { generateToken, hashToken } from './utils/token.util';
+import { getSubscriptionAccess, parseGraceDays } from './utils/subscription-access.util';
+import { TwoFactorService } from './two-factor/two-factor.service';
+import { LoginAttemptsService } from './login-attempts.service';
+import { PlansService } from '../plans';
+import { MembershipsService } from '../memberships/memberships.service';
+import { withMembership } from '../memberships/membership.util';
+
+const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000; // 1 hour, matches the email template
+const EMAIL_VERIFICATION_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+const EMAIL_VERIFICATION_RESEND_COOLDOWN_MS = 60 * 1000; // 1 minute between sends
+const EMAIL_VERIFICATION_MAX_PER_HOUR = 5;
+const TRIAL_DURATION_MS = 3 * 24 * 60 * 60 * 1000; // 3 days
+
+// Company, department and custom role of a user or of one of their memberships
+const PROFILE_MEMBER_INCLUDE = {
+    company: {
+        select: {
+            id: true,
+            name: true,
+            logo: true,
+            companyCode: true,
+            subscriptionStatus: true,
+            trialEndsAt: true,
+            subscriptionEndsAt: true,
+        },
+    },
+    department: {
+        select: {
+            id: true,
+            name: true,
+        },
+    },
+    customRole: {
+        select: {
+            id: true,
+            name: true,
+            permissions: true,
+        },
+    },
+};
 
 @Injectable()
 export class AuthService {
     constructor(
         private prisma: PrismaService,
-        private jwtService: JwtService,
         private emailService: EmailService, // ADD THIS
+        private sessionsService: SessionsService,
+        private twoFactorService: TwoFactorService,
+        private loginAttemptsService: LoginAttemptsService,
+        private plansService: PlansService,
+        private configService: ConfigService,
+        private membershipsService: MembershipsService,
     ) { }
 
-    async validateUser(email: string, password: string): Promise<any> {
+    async validateUser(email: string, password: string, context: SessionContext = {}): Promise<Omit<User, 'password'> & { company: Company }> {
+        await this.loginAttemptsService.assertIpAllowed(context.ipAddress);
+
         const user = await this.prisma.user.findUnique({
             where: { email },
             include: { company: true },
         });
 
         if (!user) {
+            await this.loginAttemptsService.recordFailure(email, context);
             throw new UnauthorizedException('Invalid credentials');
         }
 
+        await this.loginAttemptsService.claimAttempt(user);
+
         const isPasswordValid = await bcrypt.compare(password, user.password);
         if (!isPasswordValid) {
+            await this.loginAttemptsService.recordFailure(email, context, user);
             throw new UnauthorizedException('Invalid credentials');
         }
 
-        if (!user.isActive) {
+        await this.loginAttemptsService.recordSuccess(user);
+
+        // Members who can no longer work in their home company sign in to another company they belong to
+        const membership = await this.membershipsService.findDefaultMembership(user.id);
+
+        if (!membership && !user.isActive) {
             throw new UnauthorizedException('Account is inactive');
         }
 
-        if (!user.company.isActive) {
+        if (!membership) {
             throw new UnauthorizedException('Company account is inactive');
         }
 
-        const { password: _, ...result } = user;
+        if (!user.emailVerifiedAt) {
+            throw new UnauthorizedException('Please verify your email address before logging in');
+        }
+
+        // Company admins keep password access so a broken identity provider can't lock the company out
+        if (membership.role !== UserRole.COMPANY) {
+            const sso = await this.prisma.ssoConfiguration.findUnique({
+                where: { companyId: membership.companyId },
+                select: { enabled: true, disablePasswordLogin: true },
+            });
+
+            if (sso?.enabled && sso.disablePasswordLogin) {
+                throw new ForbiddenException('Your company requires signing in with single sign-on');
+            }
+        }
+
+        const { password: _, ...result } = withMembership(user, membership);
         return result;
     }
 
-    async login(loginDto: LoginDto) {
-        const user = await this.validateUser(loginDto.email, loginDto.password);
+    async login(loginDto: LoginDto, context: SessionContext = {}) {
+        const user = await this.validateUser(loginDto.email, loginDto.password, context);
 
-        const payload = {
-            sub: user.id,
-            email: user.email,
-            role: user.role,
-            companyId: user.companyId,
-        };
+        // Password was correct, but the session is only created once the second factor is checked
+        if (this.twoFactorService.isChallengeRequired(user)) {
+            return this.twoFactorService.createChallenge(user, context);
+        }
+
+        return this.buildLoginResponse(user, context);
+    }
+
+    async completeTwoFactorLogin(dto: TwoFactorLoginDto, context: SessionContext = {}) {
+        const { user, companyId, context: challengeContext, recoveryCodes } = await this.twoFactorService.completeChallenge(
+            dto.challengeToken,
+            dto.code,
+        );
+
+        const member = await this.findLoginMember(user.id, companyId);
+        if (!member) {
+            throw new UnauthorizedException('Account is inactive');
+        }
+
+        const response = await this.buildLoginResponse(member, { ...challengeContext, ...context });
+
+        return recoveryCodes ? { ...response, recoveryCodes } : response;
+    }
+
+    async refresh(refreshToken: string, context: SessionContext = {}) {
+        return this.sessionsService.refreshSession(refreshToken, context);
+    }
+
+    async logout(userId: string, sessionId: string) {
+        await this.sessionsService.revokeSession(userId, sessionId);
+        return { success: true, message: 'Logged out successfully' };
+    }
+
+    /**
+     * The user as a member of the company an earlier login step resolved (2FA challenge, desktop hand-off, device
+     * approval), or null when they can no longer work there. Without a company the login default is used.
+     */
+    async findLoginMember(userId: string, companyId?: string | null): Promise<(Omit<User, 'password'> & { company: Company }) | null> {
+        const user = await this.prisma.user.findUnique({ where: { id: userId }, omit: { password: true } });
+        const membership = companyId
+            ? await this.membershipsService.findMembership(userId, companyId)
+            : await this.membershipsService.findDefaultMembership(userId);
+
+        if (!user || !membership?.isActive || !membership.company.isActive) {
+            return null;
+        }
+
+        return withMembership(user, membership);
+    }
+
+    async buildLoginResponse(user: Omit<User, 'password'> & { company: Company }, context: SessionContext) {
+        const tokens = await this.sessionsService.createSession(user, context);
+        return this.toSessionResponse(tokens, user);
+    }
+
+    /**
+     * Re-issues the current session's tokens for another company the user belongs to
+     */
+    async switchCompany(userId: string, sessionId: string, dto: SwitchCompanyDto) {
+        const tokens = await this.sessionsService.switchCompany(sessionId, userId, dto.companyId);
+
+        const user = await this.prisma.user.findUnique({ where: { id: userId } });
+        const membership = await this.membershipsService.findMembership(userId, dto.companyId);
+
+        if (!user || !membership) {
+            throw new NotFoundException('User not found');
+        }
+
+        return this.toSessionResponse(tokens, withMembership(user, membership));
+    }
 
+    private async toSessionResponse(tokens: SessionTokens, user: Omit<User, 'password'> & { company: Company }) {
         const subscriptionStatus = await this.getSubscriptionStatus(user.companyId);
 
         return {
-            access_token: this.jwtService.sign(payload),
+            ...tokens,
             user: {
                 id: user.id,
                 email: user.email,
@@ -100,7 +240,8 @@ export class AuthService {
                     name: registerDto.companyName,
                     companyCode,
                     subscriptionStatus: SubscriptionStatus.TRIAL,
-                    trialEndsAt: new Date(Date.now() + 3 * 24 * 60 * 60 * 1000),
+                    // Restarted when the admin verifies their email, so unverified sign-ups don't use up the trial
+                    trialEndsAt: new Date(Date.now() + TRIAL_DURATION_MS),
                     isActive: true,
                 },
             });
@@ -121,28 +262,15 @@ export class AuthService {
             return { company, user };
         });
 
-        // 🔥 SEND WELCOME EMAIL TO COMPANY ADMIN
-        try {
-            await this.emailService.sendWelcomeCompanyEmail(
-                result.user.email,
-                result.user.firstName,
-                result.company.name,
-                result.company.companyCode,
-            );
-        } catch (error) {
-            // Log error but don't fail registration
-            console.error('Failed to send welcome email:', error);
-        }
-
-        // Get the login response
-        const loginResponse = await this.login({
-            email: result.user.email,
-            password: registerDto.password
-        });
+        // Welcome email is sent once the address is verified
+        await this.issueEmailVerification(result.user);
 
         return {
-            ...loginResponse,
-            companyCode: result.company.companyCode
+            success: true,
+            requiresEmailVerification: true,
+            message: 'Registration successful. Please check your email to verify your account.',
+            email: result.user.email,
+            companyCode: result.company.companyCode,
         };
     }
 
@@ -165,6 +293,10 @@ export class AuthService {
             throw new BadRequestException('Company is not active');
         }
 
+        if (!company.allowCodeRegistration) {
+            throw new ForbiddenException('This company only accepts new members by invitation');
+        }
+
         const now = new Date();
         const isSubscriptionValid = this.checkSubscriptionValid(company, now);
 
@@ -172,6 +304,8 @@ export class AuthService {
             throw new BadRequestException('Company subscription has expired. Please contact your administrator.');
         }
 
+        await this.plansService.assertSeatAvailable(company.id);
+
         const hashedPassword = await bcrypt.hash(registerDto.password, 10);
 
         const user = await this.prisma.user.create({
@@ -187,41 +321,293 @@ export class AuthService {
             },
         });
 
-        // 🔥 SEND WELCOME EMAIL TO NEW USER
+        // Welcome email is sent once the address is verified
+        await this.issueEmailVerification(user);
+
+        return {
+            success: true,
+            requiresEmailVerification: true,
+            message: 'Registration successful. Please check your email to verify your account.',
+            email: user.email,
+        };
+    }
+
+    // ============================================
+    // EMAIL VERIFICATION
+    // ============================================
+
+    /**
+     * Marks the address verified. No session is created here: signing in goes through the login checks
+     * (SSO-only companies, lockout, which company to open).
+     */
+    async verifyEmail(dto: VerifyEmailDto) {
+        const verificationCode = await this.prisma.oneTimeCode.findFirst({
+            where: {
+                code: hashToken(dto.token),
+                type: OneTimeCodeType.EMAIL_VERIFICATION,
+                usedAt: null,
+                expiresAt: { gt: new Date() },
+            },
+        });
+
+        if (!verificationCode) {
+            throw new BadRequestException('Invalid or expired verification link');
+        }
+
+        const now = new Date();
+
+        const user = await this.prisma.$transaction(async (prisma) => {
+            await prisma.oneTimeCode.updateMany({
+                where: {
+                    userId: verificationCode.userId,
+                    type: OneTimeCodeType.EMAIL_VERIFICATION,
+                    usedAt: null,
+                },
+                data: { usedAt: now },
+            });
+
+            const verifiedUser = await prisma.user.update({
+                where: { id: verificationCode.userId },
+                data: { emailVerifiedAt: now },
+                include: { company: true },
+            });
+
+            // The trial starts when the company admin proves the sign-up is real
+            if (verifiedUser.role === UserRole.COMPANY && verifiedUser.company.subscriptionStatus === SubscriptionStatus.TRIAL) {
+                verifiedUser.company = await prisma.company.update({
+                    where: { id: verifiedUser.companyId },
+                    data: { trialEndsAt: new Date(now.getTime() + TRIAL_DURATION_MS) },
+                });
+            }
+
+            return verifiedUser;
+        });
+
+        // 🔥 SEND WELCOME EMAIL
         try {
-            await this.emailService.sendWelcomeUserEmail(
-                user.email,
-                user.firstName,
-                company.name,
-            );
+            if (user.role === UserRole.COMPANY) {
+                await this.emailService.sendWelcomeCompanyEmail(
+                    user.email,
+                    user.firstName,
+                    user.company.name,
+                    user.company.companyCode,
+                );
+            } else {
+                await this.emailService.sendWelcomeUserEmail(
+                    user.email,
+                    user.firstName,
+                    user.company.name,
+                );
+            }
         } catch (error) {
+            // Log error but don't fail verification
             console.error('Failed to send welcome email:', error);
         }
 
-        return this.login({ email: registerDto.email, password: registerDto.password });
+        return {
+            success: true,
+            message: 'Email verified successfully. You can now log in.',
+        };
+    }
+
+    async resendVerification(dto: ResendVerificationDto) {
+        // Same response whether or not the email exists, to avoid account enumeration
+        const response = {
+            success: true,
+            message: 'If an unverified account exists for this email, a new verification link has been sent',
+        };
+
+        const user = await this.prisma.user.findUnique({
+            where: { email: dto.email },
+        });
+
+        if (!user || user.emailVerifiedAt) {
+            return response;
+        }
+
+        const now = Date.now();
+        const recentCodes = await this.prisma.oneTimeCode.findMany({
+            where: {
+                userId: user.id,
+                type: OneTimeCodeType.EMAIL_VERIFICATION,
+                createdAt: { gte: new Date(now - 60 * 60 * 1000) },
+            },
+            orderBy: { createdAt: 'desc' },
+            select: { createdAt: true },
+        });
+
+        if (
+            recentCodes.length >= EMAIL_VERIFICATION_MAX_PER_HOUR ||
+            (recentCodes[0] && now - recentCodes[0].createdAt.getTime() < EMAIL_VERIFICATION_RESEND_COOLDOWN_MS)
+        ) {
+            throw new HttpException(
+                'Too many verification emails requested. Please try again later.',
+                HttpStatus.TOO_MANY_REQUESTS,
+            );
+        }
+
+        await this.issueEmailVerification(user);
+
+        return response;
+    }
+
+    private async issueEmailVerification(user: Pick<User, 'id' | 'email' | 'firstName'>) {
+        const token = generateToken();
+
+        await this.prisma.$transaction([
+            // Only the most recently sent link stays valid
+            this.prisma.oneTimeCode.updateMany({
+                where: {
+                    userId: user.id,
+                    type: OneTimeCodeType.EMAIL_VERIFICATION,
+                    usedAt: null,
+                },
+                data: { usedAt: new Date() },
+            }),
+            this.prisma.oneTimeCode.create({
+                data: {
+                    code: hashToken(token),
+                    userId: user.id,
+                    type: OneTimeCodeType.EMAIL_VERIFICATION,
+                    expiresAt: new Date(Date.now() + EMAIL_VERIFICATION_TTL_MS),
+                },
+            }),
+        ]);
+
+        try {
+            await this.emailService.sendEmailVerificationEmail(user.email, user.firstName, token);
+        } catch (error) {
+            console.error('Failed to send verification email:', error);
+        }
+    }
+
+    // ============================================
+    // ACCOUNT UNLOCK
+    // ============================================
+
+    async unlockAccount(dto: UnlockAccountDto) {
+        return this.loginAttemptsService.unlockAccount(dto.token);
     }
 
-    async getProfile(userId: string) {
+    // ============================================
+    // PASSWORD RESET
+    // ============================================
+
+    async forgotPassword(dto: ForgotPasswordDto) {
+        // Same response whether or not the email exists, to avoid account enumeration
+        const response = {
+            success: true,
+            message: 'If an account exists for this email, a password reset link has been sent',
+        };
+
         const user = await this.prisma.user.findUnique({
-            where: { id: userId },
-            include: {
-                company: {
-                    select: {
-                        id: true,
-                        name: true,
-                        logo: true,
-                        companyCode: true,
-                        subscriptionStatus: true,
-                        trialEndsAt: true,
-                        subscriptionEndsAt: true,
-                    },
+            where: { email: dto.email },
+            include: { company: true },
+        });
+
+        if (!user || !user.isActive || !user.company.isActive) {
+            return response;
+        }
+
+        const token = generateToken();
+
+        await this.prisma.$transaction([
+            // Only the most recently requested link stays valid
+            this.prisma.oneTimeCode.updateMany({
+                where: {
+                    userId: user.id,
+                    type: OneTimeCodeType.PASSWORD_RESET,
+                    usedAt: null,
+                },
+                data: { usedAt: new Date() },
+            }),
+            this.prisma.oneTimeCode.create({
+                data: {
+                    code: hashToken(token),
+                    userId: user.id,
+                    type: OneTimeCodeType.PASSWORD_RESET,
+                    expiresAt: new Date(Date.now() + PASSWORD_RESET_TTL_MS),
                 },
-                department: {
-                    select: {
-                        id: true,
-                        name: true,
-                    },
+            }),
+        ]);
+
+        try {
+            await this.emailService.sendPasswordResetEmail(user.email, user.firstName, token);
+        } catch (error) {
+            console.error('Failed to send password reset email:', error);
+        }
+
+        return response;
+    }
+
+    async resetPassword(dto: ResetPasswordDto) {
+        if (dto.newPassword !== dto.confirmPassword) {
+            throw new BadRequestException('New password and confirmation do not match');
+        }
+
+        const resetCode = await this.prisma.oneTimeCode.findFirst({
+            where: {
+                code: hashToken(dto.token),
+                type: OneTimeCodeType.PASSWORD_RESET,
+                usedAt: null,
+                expiresAt: { gt: new Date() },
+            },
+            include: { user: true },
+        });
+
+        if (!resetCode) {
+            throw new BadRequestException('Invalid or expired password reset link');
+        }
+
+        const hashedPassword = await bcrypt.hash(dto.newPassword, 10);
+        const now = new Date();
+
+        await this.prisma.$transaction([
+            this.prisma.user.update({
+                where: { id: resetCode.userId },
+                data: {
+                    password: hashedPassword,
+                    // Invalidates every JWT issued before the reset (checked in JwtStrategy)
+                    passwordChangedAt: now,
+                    // The link was emailed, so using it proves the address (imported users start unverified)
+                    emailVerifiedAt: resetCode.user.emailVerifiedAt ?? now,
                 },
+            }),
+            this.prisma.oneTimeCode.updateMany({
+                where: {
+                    userId: resetCode.userId,
+                    type: OneTimeCodeType.PASSWORD_RESET,
+                    usedAt: null,
+                },
+                data: { usedAt: now },
+            }),
+        ]);
+
+        await this.sessionsService.revokeAllSessions(resetCode.userId);
+        // Proving control of the mailbox is enough to lift a brute-force lock
+        await this.loginAttemptsService.clearLock(resetCode.userId);
+
+        try {
+            await this.emailService.sendPasswordChangedEmail(resetCode.user.email, resetCode.user.firstName);
+        } catch (error) {
+            console.error('Failed to send password changed email:', error);
+        }
+
+        return {
+            success: true,
+            message: 'Password has been reset. Please log in with your new password.',
+        };
+    }
+
+    /**
+     * The current user as a member of the company they are working in, with every company they can switch to
+     */
+    async getProfile(userId: string, companyId: string) {
+        const user = await this.prisma.user.findUnique({
+            where: { id: userId },
+            include: {
+                ...PROFILE_MEMBER_INCLUDE,
+                memberships: { where: { companyId }, include: PROFILE_MEMBER_INCLUDE },
             },
         });
 
@@ -229,8 +615,27 @@ export class AuthService {
             throw new NotFoundException('User not found');
         }
 
-        const { password: _, ...result } = user;
-        return result;
+        const { password: _, memberships, ...result } = user;
+        const companies = await this.membershipsService.findCompanies(userId);
+        const [membership] = memberships;
+
+        if (user.companyId === companyId || !membership) {
+            return { ...result, homeCompanyId: user.companyId, companies };
+        }
+
+        return {
+            ...result,
+            companyId,
+            role: membership.role,
+            departmentId: membership.departmentId,
+            customRoleId: membership.customRoleId,
+            isActive: membership.isActive,
+            company: membership.company,
+            department: membership.department,
+            customRole: membership.customRole,
+            homeCompanyId: user.companyId,
+            companies,
+        };
     }
 
     async getSubscriptionStatus(companyId: string) {
@@ -279,6 +684,9 @@ export class AuthService {
                 break;
         }
 
+        const { plan, usage } = await this.plansService.getUsage(companyId);
+        const access = getSubscriptionAccess(company, parseGraceDays(this.configService.get<string>('SUBSCRIPTION_GRACE_DAYS')), now);
+
         return {
             status: company.subscriptionStatus,
             isValid,
@@ -286,6 +694,13 @@ export class AuthService {
             message,
             trialEndsAt: company.trialEndsAt,
             subscriptionEndsAt: company.subscriptionEndsAt,
+            plan,
+            usage,
+            // Lapsed companies keep full access until graceEndsAt, then become read-only
+            access: {
+                state: access.state,
+                graceEndsAt: access.graceEndsAt,
+            },
         };
     }
 
@@ -0,0 +1,8 @@
+// src/modules/auth/decorators/allow-when-read-only.decorator.ts
+import { SetMetadata } from '@nestjs/common';
+
+/**
+ * Keeps a non-GET endpoint usable for companies whose subscription lapsed past the grace period
+ */
+export const ALLOW_WHEN_READ_ONLY = 'allowWhenReadOnly';
+export const AllowWhenReadOnly = () => SetMetadata(ALLOW_WHEN_READ_ONLY, true);
@@ -0,0 +1,5 @@
+// src/modules/auth/decorators/block-while-impersonating.decorator.ts
+import { SetMetadata } from '@nestjs/common';
+
+export const BLOCK_WHILE_IMPERSONATING = 'blockWhileImpersonating';
+export const BlockWhileImpersonating = () => SetMetadata(BLOCK_WHILE_IMPERSONATING, true);
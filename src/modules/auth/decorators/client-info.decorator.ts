@@ -0,0 +1,20 @@
+// src/modules/auth/decorators/client-info.decorator.ts
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { Request } from 'express';
+
+export interface ClientInfo {
+    ipAddress?: string;
+    userAgent?: string;
+}
+
+export const ClientInfo = createParamDecorator(
+    (_data: unknown, ctx: ExecutionContext): ClientInfo => {
+        const request = ctx.switchToHttp().getRequest<Request>();
+
+        return {
+            // Resolved by Express from X-Forwarded-For only through the proxies in TRUST_PROXY
+            ipAddress: request.ip,
+            userAgent: request.headers['user-agent'],
+        };
+    },
+);
@@ -0,0 +1,28 @@
+// src/modules/auth/decorators/strong-password.decorator.ts
+import { applyDecorators } from '@nestjs/common';
+import { IsString, Matches, MaxLength, MinLength, matches, maxLength, minLength } from 'class-validator';
+
+export const STRONG_PASSWORD_MIN_LENGTH = 8;
+export const STRONG_PASSWORD_MAX_LENGTH = 100;
+export const STRONG_PASSWORD_PATTERN = /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&])[A-Za-z\d@$!%*?&]+$/;
+export const STRONG_PASSWORD_MESSAGE =
+    'Password must contain at least one uppercase letter, one lowercase letter, one number, and one special character (@$!%*?&)';
+
+/**
+ * Rules for every password a user chooses: at least 8 characters with upper and lower case, a number and a special character
+ */
+export const StrongPassword = () => applyDecorators(
+    IsString(),
+    MinLength(STRONG_PASSWORD_MIN_LENGTH),
+    MaxLength(STRONG_PASSWORD_MAX_LENGTH),
+    Matches(STRONG_PASSWORD_PATTERN, { message: STRONG_PASSWORD_MESSAGE }),
+);
+
+/**
+ * Same rules as `@StrongPassword()`, for fields that only need them in some cases
+ */
+export function isStrongPassword(value: string): boolean {
+    return minLength(value, STRONG_PASSWORD_MIN_LENGTH)
+        && maxLength(value, STRONG_PASSWORD_MAX_LENGTH)
+        && matches(value, STRONG_PASSWORD_PATTERN);
+}
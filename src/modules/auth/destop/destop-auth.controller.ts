@@ -1,60 +1,38 @@
 // src/modules/auth/desktop-auth.controller.ts
-import { Controller, Post, Body, Get, Query, Headers, HttpCode, UnauthorizedException } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiExcludeEndpoint } from '@nestjs/swagger';
-// import { AuthService } from './auth.service';
-import { JwtService } from '@nestjs/jwt';
-import { ConfigService } from '@nestjs/config';
-// import { PrismaService } from '../../prisma/prisma.service';
-import * as crypto from 'crypto';
-import { AuthService } from '../auth.service';
-import { PrismaService } from 'src/prisma/prisma.service';
+import { Controller, Post, Body, Get, Query, HttpCode, HttpException, HttpStatus, UnauthorizedException, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiExcludeEndpoint, ApiBearerAuth } from '@nestjs/swagger';
+import { SessionDeviceType } from '@prisma/client';
+import { ClientInfo } from '../decorators/client-info.decorator';
+import { CurrentUser } from '../decorators/current-user.decorator';
+import { BlockWhileImpersonating } from '../decorators/block-while-impersonating.decorator';
+import { JwtAuthGuard } from '../guards/jwt-auth.guard';
+import { DesktopAuthService } from './destop-auth.service';
+import { TwoFactorLoginDto, DeviceCodeRequestDto, DeviceTokenDto, DeviceUserCodeDto } from '../dto/auth.dto';
 
 @ApiTags('desktop-auth')
 @Controller('desktop-auth')
 export class DesktopAuthController {
-    private desktopTokens = new Map<string, { userId: string; companyId: string; expiresAt: Date }>();
-
-    constructor(
-        private readonly authService: AuthService,
-        private readonly jwtService: JwtService,
-        private readonly configService: ConfigService,
-        private readonly prisma: PrismaService,
-    ) {
-        // Clean up expired tokens every hour
-        setInterval(() => this.cleanupExpiredTokens(), 3600000);
-    }
+    constructor(private readonly desktopAuthService: DesktopAuthService) { }
 
     /**
      * Generate a desktop auth session for Electron app
      */
     @Post('initiate')
     @ApiOperation({ summary: 'Initiate desktop authentication' })
-    async initiateDesktopAuth(@Body() body: { email: string; password: string }) {
+    async initiateDesktopAuth(@Body() body: { email: string; password: string }, @ClientInfo() client: ClientInfo) {
         try {
-            // Validate credentials
-            const user = await this.authService.validateUser(body.email, body.password);
-
-            if (!user) {
-                throw new Error('Invalid credentials');
-            }
-
-            // Generate a short-lived desktop token
-            const token = crypto.randomBytes(32).toString('hex');
-            const expiresAt = new Date(Date.now() + 5 * 60 * 1000); // 5 minutes
-
-            // Store token with user info
-            this.desktopTokens.set(token, {
-                userId: user.id,
-                companyId: user.companyId,
-                expiresAt,
+            return await this.desktopAuthService.initiate(body.email, body.password, {
+                ...client,
+                deviceType: SessionDeviceType.DESKTOP,
             });
-
-            return {
-                success: true,
-                token,
-                expiresAt,
-            };
         } catch (error) {
+            if (this.isThrottled(error)) {
+                return {
+                    success: false,
+                    error: error.message,
+                };
+            }
+
             return {
                 success: false,
                 error: 'Invalid credentials',
@@ -69,130 +47,54 @@ export class DesktopAuthController {
 
     @Post('login-direct')
     @ApiOperation({ summary: 'Direct login for desktop agent' })
-    async loginDirect(@Body() dto: { email: string; password: string }) {
+    async loginDirect(
+        @Body() dto: { email: string; password: string; machineName?: string },
+        @ClientInfo() client: ClientInfo,
+    ) {
         try {
-            // Validate credentials using your existing auth service
-            const user = await this.authService.validateUser(dto.email, dto.password);
-
-            if (!user) {
-                throw new UnauthorizedException('Invalid credentials');
-            }
-
-            // Generate JWT token
-            const payload = {
-                sub: user.id,
-                email: user.email,
-                companyId: user.companyId,
-                role: user.role,
-            };
-
-            const jwtToken = this.jwtService.sign(payload, {
-                secret: this.configService.get('JWT_SECRET'),
-                expiresIn: '30d',
+            return await this.desktopAuthService.loginDirect(dto.email, dto.password, {
+                ...client,
+                deviceType: SessionDeviceType.DESKTOP,
+                deviceName: dto.machineName,
             });
-
-            return {
-                access_token: jwtToken,
-                user: {
-                    id: user.id,
-                    email: user.email,
-                    firstName: user.firstName,
-                    lastName: user.lastName,
-                    companyId: user.companyId,
-                    role: user.role,
-                },
-            };
-
         } catch (error) {
+            // Lockout / rate limit responses tell the agent how long to wait
+            if (this.isThrottled(error)) {
+                throw error;
+            }
             throw new UnauthorizedException('Invalid credentials');
         }
     }
+
+    @Post('login-direct/two-factor')
+    @HttpCode(200)
+    @ApiOperation({ summary: 'Complete desktop login with an authenticator or recovery code' })
+    async loginDirectTwoFactor(@Body() dto: TwoFactorLoginDto, @ClientInfo() client: ClientInfo) {
+        return this.desktopAuthService.completeLoginDirectTwoFactor(dto.challengeToken, dto.code, client);
+    }
+
     /**
      * Exchange desktop token for JWT (used by Electron)
      */
     @Post('exchange')
     @ApiOperation({ summary: 'Exchange desktop token for JWT' })
-    async exchangeToken(@Body() body: { token: string }) {
-        const session = this.desktopTokens.get(body.token);
-
-        if (!session) {
-            return {
-                success: false,
-                error: 'Invalid or expired token',
-            };
-        }
-
-        // Check if token expired
-        if (new Date() > session.expiresAt) {
-            this.desktopTokens.delete(body.token);
-            return {
-                success: false,
-                error: 'Token expired',
-            };
-        }
-
-        // Generate JWT
-        const payload = {
-            sub: session.userId,
-            companyId: session.companyId,
-            type: 'desktop-auth',
-        };
-
-        const jwtToken = this.jwtService.sign(payload, {
-            secret: this.configService.get('JWT_SECRET'),
-            expiresIn: '30d', // Longer expiry for desktop
+    async exchangeToken(@Body() body: { token: string; machineName?: string }, @ClientInfo() client: ClientInfo) {
+        return this.desktopAuthService.redeemDesktopCode(body.token, {
+            ...client,
+            deviceName: body.machineName,
         });
-
-        // Clean up used token
-        this.desktopTokens.delete(body.token);
-
-        return {
-            success: true,
-            token: jwtToken,
-            userId: session.userId,
-            companyId: session.companyId,
-        };
     }
 
     /**
-     * Generate a one-time login URL (for QR code or deep link)
+     * Generate a one-time login URL (for QR code or deep link) for the logged-in web user
      */
     @Get('login-url')
+    @BlockWhileImpersonating()
+    @UseGuards(JwtAuthGuard)
+    @ApiBearerAuth()
     @ApiOperation({ summary: 'Generate one-time login URL' })
-    async generateLoginUrl(@Query('userId') userId: string) {
-        const user = await this.prisma.user.findUnique({
-            where: { id: userId },
-            include: { company: true },
-        });
-
-        if (!user) {
-            throw new Error('User not found');
-        }
-
-        // Generate one-time code
-        const code = crypto.randomBytes(16).toString('hex');
-        const expiresAt = new Date(Date.now() + 10 * 60 * 1000); // 10 minutes
-
-        // Store code
-        await this.prisma.oneTimeCode.create({
-            data: {
-                code,
-                userId: user.id,
-                type: 'DESKTOP_AUTH',
-                expiresAt,
-                metadata: {
-                    platform: 'desktop',
-                },
-            },
-        });
-
-        // Return deep link URL
-        return {
-            url: `merittracker://auth?code=${code}`,
-            qrData: `merittracker://auth?code=${code}`,
-            code,
-            expiresAt,
-        };
+    async generateLoginUrl(@CurrentUser('id') userId: string, @CurrentUser('companyId') companyId: string) {
+        return this.desktopAuthService.createLoginUrl(userId, companyId);
     }
 
     /**
@@ -200,55 +102,64 @@ export class DesktopAuthController {
      */
     @Post('verify-code')
     @ApiOperation({ summary: 'Verify one-time code' })
-    async verifyCode(@Body() body: { code: string }) {
-        const oneTimeCode = await this.prisma.oneTimeCode.findUnique({
-            where: { code: body.code },
-            include: { user: true },
+    async verifyCode(@Body() body: { code: string; machineName?: string }, @ClientInfo() client: ClientInfo) {
+        return this.desktopAuthService.redeemDesktopCode(body.code, {
+            ...client,
+            deviceName: body.machineName,
         });
+    }
 
-        if (!oneTimeCode) {
-            return {
-                success: false,
-                error: 'Invalid code',
-            };
-        }
-
-        if (oneTimeCode.expiresAt < new Date()) {
-            await this.prisma.oneTimeCode.delete({ where: { code: body.code } });
-            return {
-                success: false,
-                error: 'Code expired',
-            };
-        }
+    // ============================================
+    // DEVICE AUTHORIZATION FLOW (RFC 8628)
+    // ============================================
 
-        if (oneTimeCode.type !== 'DESKTOP_AUTH') {
-            return {
-                success: false,
-                error: 'Invalid code type',
-            };
-        }
+    @Post('device/code')
+    @HttpCode(200)
+    @ApiOperation({ summary: 'Start device sign-in: returns a user code to show and a device code to poll with' })
+    async requestDeviceCode(@Body() dto: DeviceCodeRequestDto, @ClientInfo() client: ClientInfo) {
+        return this.desktopAuthService.createDeviceAuthorization({
+            ...client,
+            deviceName: dto.machineName,
+        });
+    }
 
-        // Generate JWT
-        const payload = {
-            sub: oneTimeCode.userId,
-            companyId: oneTimeCode.user.companyId,
-            type: 'desktop-auth',
-        };
+    @Post('device/token')
+    @HttpCode(200)
+    @ApiOperation({ summary: 'Poll for tokens (authorization_pending until the user approves)' })
+    async pollDeviceToken(@Body() dto: DeviceTokenDto) {
+        return this.desktopAuthService.pollDeviceToken(dto.device_code);
+    }
 
-        const jwtToken = this.jwtService.sign(payload, {
-            secret: this.configService.get('JWT_SECRET'),
-            expiresIn: '30d',
-        });
+    @Get('device')
+    @UseGuards(JwtAuthGuard)
+    @ApiBearerAuth()
+    @ApiOperation({ summary: 'Look up a pending device sign-in by user code' })
+    async getDeviceAuthorization(@Query() dto: DeviceUserCodeDto, @CurrentUser('id') userId: string) {
+        return this.desktopAuthService.getDeviceAuthorization(dto.userCode, userId);
+    }
 
-        // Delete used code
-        await this.prisma.oneTimeCode.delete({ where: { code: body.code } });
+    @Post('device/approve')
+    @BlockWhileImpersonating()
+    @HttpCode(200)
+    @UseGuards(JwtAuthGuard)
+    @ApiBearerAuth()
+    @ApiOperation({ summary: 'Approve a device sign-in for the current user' })
+    async approveDevice(
+        @Body() dto: DeviceUserCodeDto,
+        @CurrentUser('id') userId: string,
+        @CurrentUser('companyId') companyId: string,
+    ) {
+        return this.desktopAuthService.approveDeviceAuthorization(dto.userCode, userId, companyId);
+    }
 
-        return {
-            success: true,
-            token: jwtToken,
-            userId: oneTimeCode.userId,
-            companyId: oneTimeCode.user.companyId,
-        };
+    @Post('device/deny')
+    @BlockWhileImpersonating()
+    @HttpCode(200)
+    @UseGuards(JwtAuthGuard)
+    @ApiBearerAuth()
+    @ApiOperation({ summary: 'Deny a device sign-in the current user looked up' })
+    async denyDevice(@Body() dto: DeviceUserCodeDto, @CurrentUser('id') userId: string) {
+        return this.desktopAuthService.denyDeviceAuthorization(dto.userCode, userId);
     }
 
     /**
@@ -261,15 +172,7 @@ export class DesktopAuthController {
         return { status: 'ok', timestamp: new Date().toISOString() };
     }
 
-    /**
-     * Clean up expired desktop tokens
-     */
-    private cleanupExpiredTokens() {
-        const now = new Date();
-        for (const [token, session] of this.desktopTokens.entries()) {
-            if (session.expiresAt < now) {
-                this.desktopTokens.delete(token);
-            }
-        }
+    private isThrottled(error: unknown): error is HttpException {
+        return error instanceof HttpException && error.getStatus() === (HttpStatus.TOO_MANY_REQUESTS as number);
     }
-}
\ No newline at end of file
+}
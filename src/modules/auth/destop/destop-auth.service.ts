@@ -0,0 +1,413 @@
+// src/modules/auth/destop/destop-auth.service.ts
+import { Injectable, BadRequestException, NotFoundException, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import { DeviceAuthorizationStatus, SessionDeviceType, User } from '@prisma/client';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { AuthService } from '../auth.service';
+import { SessionsService, SessionContext } from '../sessions.service';
+import { TwoFactorService } from '../two-factor/two-factor.service';
+import { OneTimeCodeType } from '../interfaces/one-time-code.interface';
+import { generateToken, hashToken } from '../utils/token.util';
+
+const HANDSHAKE_TTL_MS = 5 * 60 * 1000; // initiate -> exchange
+const LOGIN_URL_TTL_MS = 10 * 60 * 1000; // login-url -> verify-code
+const DEVICE_CODE_TTL_MS = 10 * 60 * 1000;
+const DEVICE_POLL_INTERVAL_SECONDS = 5;
+const SLOW_DOWN_INCREMENT_SECONDS = 5; // RFC 8628 section 3.5
+
+// RFC 8628 section 6.1: consonants only, so codes can't spell words and are easy to read aloud
+const USER_CODE_ALPHABET = 'BCDFGHJKLMNPQRSTVWXZ';
+
+type DesktopSource = 'initiate' | 'login-url';
+
+// The desktop session signs in to the company the code was issued for
+type DesktopCodeMetadata = { platform?: 'desktop'; source?: DesktopSource; companyId?: string };
+
+@Injectable()
+export class DesktopAuthService {
+    private readonly verificationUri: string;
+
+    constructor(
+        private prisma: PrismaService,
+        private configService: ConfigService,
+        private authService: AuthService,
+        private sessionsService: SessionsService,
+        private twoFactorService: TwoFactorService,
+    ) {
+        this.verificationUri = `${this.configService.get<string>('APP_URL', 'https://merittracker.com')}/device`;
+    }
+
+    // ============================================
+    // PASSWORD HAND-OFF (initiate -> exchange)
+    // ============================================
+    async initiate(email: string, password: string, context: SessionContext) {
+        const user = await this.authService.validateUser(email, password, context);
+
+        // The browser hand-off has no step for a second factor; use login-direct or the device flow instead
+        if (this.twoFactorService.isChallengeRequired(user)) {
+            return {
+                success: false,
+                error: 'Two-factor authentication required',
+            };
+        }
+
+        const { token, expiresAt } = await this.issueDesktopCode(user.id, user.companyId, 'initiate', HANDSHAKE_TTL_MS);
+
+        return {
+            success: true,
+            token,
+            expiresAt,
+        };
+    }
+
+    // ============================================
+    // ONE-TIME LOGIN URL (login-url -> verify-code)
+    // ============================================
+    async createLoginUrl(userId: string, companyId: string) {
+        const { token: code, expiresAt } = await this.issueDesktopCode(userId, companyId, 'login-url', LOGIN_URL_TTL_MS);
+
+        return {
+            url: `merittracker://auth?code=${code}`,
+            qrData: `merittracker://auth?code=${code}`,
+            code,
+            expiresAt,
+        };
+    }
+
+    /**
+     * Consume a code from initiate or login-url and start a desktop session.
+     * Both hand-offs are single use; a second attempt with the same code fails.
+     */
+    async redeemDesktopCode(code: string, context: SessionContext) {
+        const oneTimeCode = await this.prisma.oneTimeCode.findFirst({
+            where: {
+                code: hashToken(code),
+                type: OneTimeCodeType.DESKTOP_AUTH,
+            },
+        });
+
+        if (!oneTimeCode || oneTimeCode.usedAt) {
+            return { success: false as const, error: 'Invalid or expired token' };
+        }
+
+        if (oneTimeCode.expiresAt < new Date()) {
+            return { success: false as const, error: 'Token expired' };
+        }
+
+        // Conditional update so two concurrent redemptions can't both succeed
+        const claimed = await this.prisma.oneTimeCode.updateMany({
+            where: { id: oneTimeCode.id, usedAt: null },
+            data: { usedAt: new Date() },
+        });
+
+        if (claimed.count === 0) {
+            return { success: false as const, error: 'Invalid or expired token' };
+        }
+
+        const { companyId } = (oneTimeCode.metadata ?? {}) as DesktopCodeMetadata;
+        const user = await this.authService.findLoginMember(oneTimeCode.userId, companyId);
+        if (!user) {
+            return { success: false as const, error: 'Account is inactive' };
+        }
+
+        const tokens = await this.sessionsService.createSession(user, {
+            ...context,
+            deviceType: SessionDeviceType.DESKTOP,
+        });
+
+        return {
+            success: true as const,
+            token: tokens.access_token,
+            ...tokens,
+            userId: user.id,
+            companyId: user.companyId,
+        };
+    }
+
+    // ============================================
+    // DIRECT LOGIN (email + password in the agent)
+    // ============================================
+    async loginDirect(email: string, password: string, context: SessionContext) {
+        const user = await this.authService.validateUser(email, password, context);
+
+        // Agent continues with POST /desktop-auth/login-direct/two-factor
+        if (this.twoFactorService.isChallengeRequired(user)) {
+            return this.twoFactorService.createChallenge(user, context);
+        }
+
+        return this.buildDesktopLoginResponse(user, context);
+    }
+
+    async completeLoginDirectTwoFactor(challengeToken: string, code: string, context: SessionContext) {
+        const challenge = await this.twoFactorService.completeChallenge(challengeToken, code);
+        const { context: challengeContext, recoveryCodes } = challenge;
+
+        const user = await this.authService.findLoginMember(challenge.user.id, challenge.companyId);
+        if (!user) {
+            throw new UnauthorizedException('Account is inactive');
+        }
+
+        const response = await this.buildDesktopLoginResponse(user, { ...challengeContext, ...context });
+
+        return recoveryCodes ? { ...response, recoveryCodes } : response;
+    }
+
+    // ============================================
+    // DEVICE AUTHORIZATION FLOW (RFC 8628)
+    // ============================================
+
+    /**
+     * Step 1 (agent): get a device code to poll with and a user code to show the user
+     */
+    async createDeviceAuthorization(context: SessionContext) {
+        const deviceCode = generateToken();
+        const userCode = await this.generateUniqueUserCode();
+
+        await this.prisma.deviceAuthorization.create({
+            data: {
+                deviceCodeHash: hashToken(deviceCode),
+                userCode,
+                deviceName: context.deviceName,
+                ipAddress: context.ipAddress,
+                userAgent: context.userAgent,
+                interval: DEVICE_POLL_INTERVAL_SECONDS,
+                expiresAt: new Date(Date.now() + DEVICE_CODE_TTL_MS),
+            },
+        });
+
+        return {
+            device_code: deviceCode,
+            user_code: userCode,
+            verification_uri: this.verificationUri,
+            verification_uri_complete: `${this.verificationUri}?user_code=${userCode}`,
+            expires_in: DEVICE_CODE_TTL_MS / 1000,
+            interval: DEVICE_POLL_INTERVAL_SECONDS,
+        };
+    }
+
+    /**
+     * Step 2 (web app, logged in): show what is asking for access before the user approves
+     */
+    async getDeviceAuthorization(userCode: string, userId: string) {
+        const authorization = await this.claimPendingByUserCode(userCode, userId);
+
+        return {
+            userCode: authorization.userCode,
+            deviceName: authorization.deviceName,
+            ipAddress: authorization.ipAddress,
+            userAgent: authorization.userAgent,
+            createdAt: authorization.createdAt,
+            expiresAt: authorization.expiresAt,
+        };
+    }
+
+    async approveDeviceAuthorization(userCode: string, userId: string, companyId: string) {
+        const authorization = await this.claimPendingByUserCode(userCode, userId);
+
+        await this.prisma.deviceAuthorization.update({
+            where: { id: authorization.id },
+            data: {
+                status: DeviceAuthorizationStatus.APPROVED,
+                userId,
+                companyId,
+                approvedAt: new Date(),
+            },
+        });
+
+        return { success: true, message: 'Device approved. You can return to the desktop app.' };
+    }
+
+    /**
+     * Only the user who looked the code up can deny it, so a guessed code can't be used to block someone else's sign-in
+     */
+    async denyDeviceAuthorization(userCode: string, userId: string) {
+        const authorization = await this.findPendingByUserCode(userCode);
+        if (authorization.claimedById !== userId) {
+            throw new NotFoundException('Code not found or expired. Check the code shown in the desktop app.');
+        }
+
+        await this.prisma.deviceAuthorization.update({
+            where: { id: authorization.id },
+            data: { status: DeviceAuthorizationStatus.DENIED },
+        });
+
+        return { success: true, message: 'Device access denied' };
+    }
+
+    /**
+     * Step 3 (agent): poll until the user approves. Errors use the RFC 8628 error codes.
+     */
+    async pollDeviceToken(deviceCode: string) {
+        const authorization = await this.prisma.deviceAuthorization.findUnique({
+            where: { deviceCodeHash: hashToken(deviceCode) },
+        });
+
+        if (!authorization || authorization.status === DeviceAuthorizationStatus.CONSUMED) {
+            throw this.deviceError('invalid_grant', 'Unknown or already used device code');
+        }
+
+        if (authorization.expiresAt < new Date()) {
+            throw this.deviceError('expired_token', 'The device code has expired. Start the sign-in again.');
+        }
+
+        if (authorization.status === DeviceAuthorizationStatus.DENIED) {
+            throw this.deviceError('access_denied', 'The request was denied');
+        }
+
+        if (authorization.status === DeviceAuthorizationStatus.PENDING) {
+            const now = new Date();
+            const tooFast = authorization.lastPolledAt
+                && now.getTime() - authorization.lastPolledAt.getTime() < authorization.interval * 1000;
+
+            await this.prisma.deviceAuthorization.update({
+                where: { id: authorization.id },
+                data: {
+                    lastPolledAt: now,
+                    ...(tooFast && { interval: authorization.interval + SLOW_DOWN_INCREMENT_SECONDS }),
+                },
+            });
+
+            if (tooFast) {
+                throw this.deviceError('slow_down', 'Polling too frequently', authorization.interval + SLOW_DOWN_INCREMENT_SECONDS);
+            }
+
+            throw this.deviceError('authorization_pending', 'Waiting for the user to approve the device');
+        }
+
+        // APPROVED: hand out tokens exactly once
+        const claimed = await this.prisma.deviceAuthorization.updateMany({
+            where: { id: authorization.id, status: DeviceAuthorizationStatus.APPROVED },
+            data: { status: DeviceAuthorizationStatus.CONSUMED },
+        });
+
+        if (claimed.count === 0 || !authorization.userId) {
+            throw this.deviceError('invalid_grant', 'Unknown or already used device code');
+        }
+
+        const user = await this.authService.findLoginMember(authorization.userId, authorization.companyId);
+        if (!user) {
+            throw this.deviceError('access_denied', 'Account is inactive');
+        }
+
+        return this.buildDesktopLoginResponse(user, {
+            deviceName: authorization.deviceName ?? undefined,
+            ipAddress: authorization.ipAddress ?? undefined,
+            userAgent: authorization.userAgent ?? undefined,
+        });
+    }
+
+    // ============================================
+    // HELPERS
+    // ============================================
+    private async issueDesktopCode(userId: string, companyId: string, source: DesktopSource, ttlMs: number) {
+        const token = generateToken();
+        const expiresAt = new Date(Date.now() + ttlMs);
+
+        await this.prisma.oneTimeCode.create({
+            data: {
+                code: hashToken(token),
+                userId,
+                type: OneTimeCodeType.DESKTOP_AUTH,
+                expiresAt,
+                metadata: {
+                    platform: 'desktop',
+                    source,
+                    companyId,
+                } satisfies DesktopCodeMetadata,
+            },
+        });
+
+        return { token, expiresAt };
+    }
+
+    private async buildDesktopLoginResponse(
+        user: Pick<User, 'id' | 'email' | 'firstName' | 'lastName' | 'companyId' | 'role'>,
+        context: SessionContext,
+    ) {
+        const tokens = await this.sessionsService.createSession(user, {
+            ...context,
+            deviceType: SessionDeviceType.DESKTOP,
+        });
+
+        return {
+            ...tokens,
+            user: {
+                id: user.id,
+                email: user.email,
+                firstName: user.firstName,
+                lastName: user.lastName,
+                companyId: user.companyId,
+                role: user.role,
+            },
+        };
+    }
+
+    private async findPendingByUserCode(userCode: string) {
+        const authorization = await this.prisma.deviceAuthorization.findUnique({
+            where: { userCode: this.normalizeUserCode(userCode) },
+        });
+
+        if (!authorization || authorization.status !== DeviceAuthorizationStatus.PENDING || authorization.expiresAt < new Date()) {
+            throw new NotFoundException('Code not found or expired. Check the code shown in the desktop app.');
+        }
+
+        return authorization;
+    }
+
+    /**
+     * Ties a pending code to the first user who opens it; other users get the same answer as for an unknown code
+     */
+    private async claimPendingByUserCode(userCode: string, userId: string) {
+        const authorization = await this.findPendingByUserCode(userCode);
+
+        const claimed = await this.prisma.deviceAuthorization.updateMany({
+            where: { id: authorization.id, OR: [{ claimedById: null }, { claimedById: userId }] },
+            data: { claimedById: userId },
+        });
+        if (claimed.count === 0) {
+            throw new NotFoundException('Code not found or expired. Check the code shown in the desktop app.');
+        }
+
+        return authorization;
+    }
+
+    /**
+     * Accepts codes typed in lower case, with or without the dash
+     */
+    private normalizeUserCode(userCode: string): string {
+        const compact = userCode.toUpperCase().replace(/[^A-Z]/g, '');
+        return compact.length === 8 ? `${compact.slice(0, 4)}-${compact.slice(4)}` : compact;
+    }
+
+    private async generateUniqueUserCode(): Promise<string> {
+        let code = '';
+        let isUnique = false;
+
+        while (!isUnique) {
+            code = '';
+            for (let i = 0; i < 8; i++) {
+                code += USER_CODE_ALPHABET.charAt(crypto.randomInt(USER_CODE_ALPHABET.length));
+            }
+            code = `${code.slice(0, 4)}-${code.slice(4)}`;
+
+            const existing = await this.prisma.deviceAuthorization.findUnique({
+                where: { userCode: code },
+            });
+
+            if (!existing) {
+                isUnique = true;
+            }
+        }
+
+        return code;
+    }
+
+    private deviceError(error: string, description: string, interval?: number) {
+        const body: Record<string, string | number> = { error, error_description: description };
+        if (interval) {
+            body.interval = interval;
+        }
+        return new BadRequestException(body);
+    }
+}
@@ -1,6 +1,8 @@
 // src/modules/auth/dto/auth.dto.ts
-import { IsEmail, IsString, MinLength, IsOptional, IsNotEmpty } from 'class-validator';
+import { IsEmail, IsString, MinLength, MaxLength, Matches, IsOptional, IsNotEmpty, IsUrl, IsArray, ArrayNotEmpty, IsEnum, IsBoolean, IsUUID } from 'class-validator';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+import { StrongPassword } from '../decorators/strong-password.decorator';
 
 export class LoginDto {
     @ApiProperty({ example: 'john@company.com' })
@@ -73,4 +75,177 @@ export class RegisterUserDto {
     @IsOptional()
     @IsString()
     phone?: string;
-}
\ No newline at end of file
+}
+export class ForgotPasswordDto {
+    @ApiProperty({ example: 'john@company.com' })
+    @IsEmail()
+    email: string;
+}
+
+export class ResetPasswordDto {
+    @ApiProperty({ description: 'Token from the password reset email' })
+    @IsString()
+    @IsNotEmpty()
+    token: string;
+
+    @ApiProperty({
+        description:
+            'New password (min 8 chars, must contain uppercase, lowercase, number, and special character)',
+        example: 'NewPassword123!',
+    })
+    @StrongPassword()
+    newPassword: string;
+
+    @ApiProperty({ description: 'Confirm new password', example: 'NewPassword123!' })
+    @IsString()
+    confirmPassword: string;
+}
+
+export class VerifyEmailDto {
+    @ApiProperty({ description: 'Token from the verification email' })
+    @IsString()
+    @IsNotEmpty()
+    token: string;
+}
+
+export class ResendVerificationDto {
+    @ApiProperty({ example: 'john@company.com' })
+    @IsEmail()
+    email: string;
+}
+
+export class RefreshTokenDto {
+    @ApiProperty({ description: 'Refresh token returned by login or a previous refresh' })
+    @IsString()
+    @IsNotEmpty()
+    refreshToken: string;
+}
+
+export class SwitchCompanyDto {
+    @ApiProperty({ description: 'Company to work in; must be one the user belongs to' })
+    @IsUUID()
+    companyId: string;
+}
+
+export class UnlockAccountDto {
+    @ApiProperty({ description: 'Unlock token from the account locked email' })
+    @IsString()
+    @IsNotEmpty()
+    token: string;
+}
+
+export class TwoFactorCodeDto {
+    @ApiProperty({ example: '123456', description: '6-digit code from the authenticator app' })
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(20)
+    code: string;
+}
+
+export class TwoFactorChallengeDto {
+    @ApiProperty({ description: 'Challenge token returned by login when two-factor authentication is required' })
+    @IsString()
+    @IsNotEmpty()
+    challengeToken: string;
+}
+
+export class TwoFactorLoginDto extends TwoFactorChallengeDto {
+    @ApiProperty({ example: '123456', description: 'Authenticator code, or a recovery code' })
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(20)
+    code: string;
+}
+
+export class DeviceCodeRequestDto {
+    @ApiPropertyOptional({ example: 'JANE-LAPTOP', description: 'Shown to the user when approving the device' })
+    @IsOptional()
+    @IsString()
+    @MaxLength(100)
+    machineName?: string;
+}
+
+export class DeviceTokenDto {
+    @ApiProperty({ description: 'device_code returned by /desktop-auth/device/code' })
+    @IsString()
+    @IsNotEmpty()
+    device_code: string;
+}
+
+export class DeviceUserCodeDto {
+    @ApiProperty({ example: 'BCDF-GHJK', description: 'Code displayed in the desktop app' })
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(20)
+    userCode: string;
+}
+
+export class SsoDiscoverDto {
+    @ApiProperty({ example: 'jane@acme.com' })
+    @IsEmail()
+    email: string;
+}
+
+export class SsoAuthorizeDto {
+    @ApiPropertyOptional({ example: 'jane@acme.com', description: 'Used to find the company by email domain and passed to the provider as login_hint' })
+    @IsOptional()
+    @IsEmail()
+    email?: string;
+
+    @ApiPropertyOptional({ example: 'ABC123', description: 'Company code, when signing in without an email' })
+    @IsOptional()
+    @IsString()
+    @MaxLength(20)
+    companyCode?: string;
+}
+
+export class SsoCallbackDto {
+    @ApiProperty({ description: 'Authorization code returned by the identity provider' })
+    @IsString()
+    @IsNotEmpty()
+    code: string;
+
+    @ApiProperty({ description: 'State returned by the identity provider' })
+    @IsString()
+    @IsNotEmpty()
+    state: string;
+}
+
+export class SsoConfigurationDto {
+    @ApiProperty({ example: 'https://login.acme.com/realms/acme' })
+    @IsUrl({ require_tld: false, require_protocol: true, protocols: ['http', 'https'] })
+    issuer: string;
+
+    @ApiProperty({ example: 'merit-tracker' })
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(255)
+    clientId: string;
+
+    @ApiPropertyOptional({ description: 'Omit to keep the stored secret; empty string removes it (public client)' })
+    @IsOptional()
+    @IsString()
+    @MaxLength(1000)
+    clientSecret?: string;
+
+    @ApiProperty({ example: ['acme.com'], type: [String], description: 'Email domains accepted from the provider; each must be verified with a DNS TXT record' })
+    @IsArray()
+    @ArrayNotEmpty()
+    @Matches(/^[a-z0-9-]+(\.[a-z0-9-]+)+$/i, { each: true, message: 'each allowed domain must be a domain name like acme.com' })
+    allowedDomains: string[];
+
+    @ApiPropertyOptional({ enum: UserRole, default: UserRole.USER, description: 'Role for users created on first sign-in' })
+    @IsOptional()
+    @IsEnum(UserRole)
+    defaultRole?: UserRole;
+
+    @ApiPropertyOptional({ default: false })
+    @IsOptional()
+    @IsBoolean()
+    enabled?: boolean;
+
+    @ApiPropertyOptional({ default: false, description: 'Require SSO for everyone except company admins' })
+    @IsOptional()
+    @IsBoolean()
+    disablePasswordLogin?: boolean;
+}
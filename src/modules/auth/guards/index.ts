@@ -2,5 +2,8 @@
 export * from '../decorators/current-user.decorator';
 export * from '../decorators/roles.decorator';
 export * from '../decorators/skip-subscription.decorator';
+export * from '../decorators/client-info.decorator';
+export * from '../decorators/block-while-impersonating.decorator';
+export * from '../decorators/allow-when-read-only.decorator';
 export * from '../guards/roles.guard';
 export * from '../guards/subscription.guard';
\ No newline at end of file
@@ -1,6 +1,52 @@
 // src/modules/auth/guards/jwt-auth.guard.ts
-import { Injectable } from '@nestjs/common';
+import { Injectable, ExecutionContext } from '@nestjs/common';
+import { PATH_METADATA } from '@nestjs/common/constants';
+import { ConfigService } from '@nestjs/config';
+import { Reflector } from '@nestjs/core';
 import { AuthGuard } from '@nestjs/passport';
+import { Request } from 'express';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { ApiTokensService } from '../../api-tokens/api-tokens.service';
+import { isApiToken, requiredScopeFor } from '../../api-tokens/api-token-scopes';
+import { SubscriptionGuard } from './subscription.guard';
 
+/**
+ * Accepts either a login JWT or a personal access token / company API key (scope-checked per controller).
+ */
 @Injectable()
-export class JwtAuthGuard extends AuthGuard('jwt') { }
\ No newline at end of file
+export class JwtAuthGuard extends AuthGuard('jwt') {
+    constructor(
+        private prisma: PrismaService,
+        private reflector: Reflector,
+        private apiTokensService: ApiTokensService,
+        private configService: ConfigService,
+    ) {
+        super();
+    }
+
+    async canActivate(context: ExecutionContext): Promise<boolean> {
+        const request = context.switchToHttp().getRequest<Request & { user?: unknown }>();
+        const token = this.extractBearerToken(request);
+
+        if (token && isApiToken(token)) {
+            const controllerPath = this.reflector.get<string | string[] | undefined>(PATH_METADATA, context.getClass());
+            const path = Array.isArray(controllerPath) ? controllerPath[0] : controllerPath;
+
+            request.user = await this.apiTokensService.authenticate(
+                token,
+                requiredScopeFor(request.method, path ?? ''),
+                request.ip,
+            );
+        } else if (!(await super.canActivate(context))) {
+            return false;
+        }
+
+        // The global SubscriptionGuard runs before authentication, so the check is repeated once the user is known
+        return new SubscriptionGuard(this.prisma, this.reflector, this.configService).canActivate(context);
+    }
+
+    private extractBearerToken(request: Request): string | undefined {
+        const [scheme, token] = request.headers.authorization?.split(' ') ?? [];
+        return scheme?.toLowerCase() === 'bearer' ? token : undefined;
+    }
+}
@@ -3,14 +3,20 @@ import { Injectable, CanActivate, ExecutionContext, ForbiddenException } from '@
 import { Reflector } from '@nestjs/core';
 // import { PrismaService } from '../../prisma/prisma.service';
 import { SubscriptionStatus } from '@prisma/client';
+import { ConfigService } from '@nestjs/config';
 import { SKIP_SUBSCRIPTION_CHECK } from '../decorators/skip-subscription.decorator';
+import { ALLOW_WHEN_READ_ONLY } from '../decorators/allow-when-read-only.decorator';
+import { SubscriptionAccessState, getSubscriptionAccess, parseGraceDays } from '../utils/subscription-access.util';
 import { PrismaService } from 'src/prisma/prisma.service';
 
+const READ_ONLY_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
 @Injectable()
 export class SubscriptionGuard implements CanActivate {
     constructor(
         private prisma: PrismaService,
         private reflector: Reflector,
+        private configService: ConfigService,
     ) { }
 
     async canActivate(context: ExecutionContext): Promise<boolean> {
@@ -23,13 +29,14 @@ export class SubscriptionGuard implements CanActivate {
             return true;
         }
 
-        const request = context.switchToHttp().getRequest();
+        const request = context.switchToHttp().getRequest<{ method: string; user?: { companyId?: string } }>();
         const user = request.user;
 
         if (!user || !user.companyId) {
             return true;
         }
 
+        // companyId is the company the session is switched to, so each membership is checked against its own subscription
         const company = await this.prisma.company.findUnique({
             where: { id: user.companyId },
         });
@@ -44,34 +51,34 @@ export class SubscriptionGuard implements CanActivate {
 
         const now = new Date();
 
-        switch (company.subscriptionStatus) {
-            case SubscriptionStatus.TRIAL:
-                if (company.trialEndsAt && company.trialEndsAt < now) {
-                    throw new ForbiddenException(
-                        'Your trial has expired. Please upgrade to continue using the service.'
-                    );
-                }
-                break;
-
-            case SubscriptionStatus.ACTIVE:
-                if (company.subscriptionEndsAt && company.subscriptionEndsAt < now) {
-                    await this.prisma.company.update({
-                        where: { id: company.id },
-                        data: { subscriptionStatus: SubscriptionStatus.EXPIRED },
-                    });
-                    throw new ForbiddenException(
-                        'Your subscription has expired. Please renew to continue using the service.'
-                    );
-                }
-                break;
-
-            case SubscriptionStatus.EXPIRED:
-            case SubscriptionStatus.CANCELLED:
-                throw new ForbiddenException(
-                    'Your subscription is not active. Please renew to continue using the service.'
-                );
+        // Flipped here as well as by the nightly job so the status is right on the first request after expiry
+        if (company.subscriptionStatus === SubscriptionStatus.ACTIVE && company.subscriptionEndsAt && company.subscriptionEndsAt < now) {
+            await this.prisma.company.update({
+                where: { id: company.id },
+                data: { subscriptionStatus: SubscriptionStatus.EXPIRED },
+            });
+        }
+
+        const access = getSubscriptionAccess(company, parseGraceDays(this.configService.get<string>('SUBSCRIPTION_GRACE_DAYS')), now);
+
+        if (access.state !== SubscriptionAccessState.READ_ONLY) {
+            return true;
+        }
+
+        // Read-only: viewing and exporting keep working, changes are blocked until the subscription is renewed
+        const allowWhenReadOnly = this.reflector.getAllAndOverride<boolean>(ALLOW_WHEN_READ_ONLY, [
+            context.getHandler(),
+            context.getClass(),
+        ]);
+
+        if (allowWhenReadOnly || READ_ONLY_METHODS.includes(request.method)) {
+            return true;
         }
 
-        return true;
+        throw new ForbiddenException(
+            company.subscriptionEndsAt
+                ? 'Your subscription is not active and your account is read-only. Please renew to make changes.'
+                : 'Your trial has expired and your account is read-only. Please upgrade to make changes.'
+        );
     }
 }
\ No newline at end of file
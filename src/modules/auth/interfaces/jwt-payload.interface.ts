@@ -0,0 +1,16 @@
+// src/modules/auth/interfaces/jwt-payload.interface.ts
+
+export interface JwtPayload {
+    sub: string;
+    email?: string;
+    role?: string;
+    companyId: string;
+    type?: string;
+    // UserSession id; revoked sessions are rejected by JwtStrategy
+    sid?: string;
+    // Id of the admin acting as `sub` during a support (impersonation) session
+    imp?: string;
+    // Set by jsonwebtoken when signing (seconds since epoch)
+    iat?: number;
+    exp?: number;
+}
@@ -0,0 +1,13 @@
+// src/modules/auth/interfaces/one-time-code.interface.ts
+
+/**
+ * Values stored in OneTimeCode.type
+ */
+export enum OneTimeCodeType {
+    DESKTOP_AUTH = 'DESKTOP_AUTH',
+    PASSWORD_RESET = 'PASSWORD_RESET',
+    EMAIL_VERIFICATION = 'EMAIL_VERIFICATION',
+    TWO_FACTOR_CHALLENGE = 'TWO_FACTOR_CHALLENGE',
+    ACCOUNT_UNLOCK = 'ACCOUNT_UNLOCK',
+    COMPANY_CLOSURE_CANCEL = 'COMPANY_CLOSURE_CANCEL',
+}
@@ -0,0 +1,270 @@
+// src/modules/auth/login-attempts.service.ts
+import { Injectable, BadRequestException, HttpException, HttpStatus } from '@nestjs/common';
+import { ActivityType, User } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { EmailService } from '../email/email.service';
+import { OneTimeCodeType } from './interfaces/one-time-code.interface';
+import { SessionContext } from './sessions.service';
+import { generateToken, hashToken } from './utils/token.util';
+import { ACCOUNT_LOCK_THRESHOLD, getRemainingDelayMs, shouldLockAccount } from './utils/login-throttle.util';
+
+const ACCOUNT_LOCK_DURATION_MS = 30 * 60 * 1000; // 30 minutes
+const UNLOCK_TOKEN_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+const IP_WINDOW_MS = 15 * 60 * 1000; // 15 minutes
+const IP_MAX_FAILURES = 30;
+
+type LoginUser = Pick<User, 'id' | 'email' | 'firstName' | 'companyId' | 'failedLoginAttempts' | 'lastFailedLoginAt' | 'lockedUntil'>;
+
+@Injectable()
+export class LoginAttemptsService {
+    constructor(
+        private prisma: PrismaService,
+        private emailService: EmailService,
+    ) { }
+
+    // ============================================
+    // CHECKS (before the password is compared)
+    // ============================================
+    // The IP is the socket address, or X-Forwarded-For from a proxy listed in TRUST_PROXY (see ClientInfo)
+    async assertIpAllowed(ipAddress?: string) {
+        if (!ipAddress) {
+            return;
+        }
+
+        const failures = await this.prisma.failedLogin.count({
+            where: {
+                ipAddress,
+                createdAt: { gte: new Date(Date.now() - IP_WINDOW_MS) },
+            },
+        });
+
+        if (failures >= IP_MAX_FAILURES) {
+            throw new HttpException(
+                'Too many failed login attempts from this network. Please try again later.',
+                HttpStatus.TOO_MANY_REQUESTS,
+            );
+        }
+    }
+
+    /**
+     * Checks the lock and the progressive delay, then counts the attempt before the password is compared.
+     * The count is a compare-and-set on the values just checked, so parallel attempts can't all pass the same check.
+     */
+    async claimAttempt(user: LoginUser) {
+        const now = Date.now();
+
+        if (user.lockedUntil && user.lockedUntil.getTime() > now) {
+            const minutes = Math.ceil((user.lockedUntil.getTime() - now) / 60000);
+            throw new HttpException(
+                `Account is temporarily locked after too many failed login attempts. Try again in ${minutes} minute(s) or use the unlock link sent to your email.`,
+                HttpStatus.TOO_MANY_REQUESTS,
+            );
+        }
+
+        const waitMs = getRemainingDelayMs(user.failedLoginAttempts, user.lastFailedLoginAt, now);
+        if (waitMs > 0) {
+            throw new HttpException(
+                `Too many failed login attempts. Try again in ${Math.ceil(waitMs / 1000)} second(s).`,
+                HttpStatus.TOO_MANY_REQUESTS,
+            );
+        }
+
+        const claimed = await this.prisma.user.updateMany({
+            where: {
+                id: user.id,
+                failedLoginAttempts: user.failedLoginAttempts,
+                lastFailedLoginAt: user.lastFailedLoginAt,
+            },
+            data: {
+                failedLoginAttempts: { increment: 1 },
+                lastFailedLoginAt: new Date(now),
+            },
+        });
+
+        if (claimed.count === 0) {
+            throw new HttpException(
+                'Another login attempt for this account is in progress. Try again in a moment.',
+                HttpStatus.TOO_MANY_REQUESTS,
+            );
+        }
+    }
+
+    // ============================================
+    // RECORDING
+    // ============================================
+    /**
+     * Logs a failed attempt; for a known account the attempt was already counted by `claimAttempt`
+     */
+    async recordFailure(email: string, context: SessionContext = {}, user?: LoginUser | null) {
+        await this.prisma.failedLogin.create({
+            data: {
+                email,
+                ipAddress: context.ipAddress,
+                userAgent: context.userAgent,
+            },
+        });
+
+        // Unknown emails only count towards the per-IP limit
+        if (!user) {
+            return;
+        }
+
+        const now = new Date();
+        const { failedLoginAttempts: attempts } = await this.prisma.user.update({
+            where: { id: user.id },
+            data: { lastFailedLoginAt: now },
+            select: { failedLoginAttempts: true },
+        });
+        const shouldLock = shouldLockAccount(attempts);
+
+        if (shouldLock) {
+            await this.prisma.user.update({
+                where: { id: user.id },
+                data: {
+                    // Counter restarts once the lock is in place, so the next lock needs a fresh run of failures
+                    failedLoginAttempts: 0,
+                    lockedUntil: new Date(now.getTime() + ACCOUNT_LOCK_DURATION_MS),
+                },
+            });
+        }
+
+        await this.prisma.activityLog.create({
+            data: {
+                companyId: user.companyId,
+                userId: user.id,
+                activityType: ActivityType.LOGIN_FAILED,
+                description: `Failed login attempt for ${user.email}`,
+                ipAddress: context.ipAddress,
+                metadata: {
+                    attempts,
+                    userAgent: context.userAgent ?? null,
+                    deviceType: context.deviceType ?? null,
+                },
+            },
+        });
+
+        if (shouldLock) {
+            await this.lockAccount(user, context);
+        }
+    }
+
+    async recordSuccess(user: LoginUser) {
+        // Always set: the attempt itself was counted by claimAttempt
+        await this.clearLock(user.id);
+    }
+
+    // ============================================
+    // UNLOCK
+    // ============================================
+    async unlockAccount(token: string) {
+        const unlockCode = await this.prisma.oneTimeCode.findFirst({
+            where: {
+                code: hashToken(token),
+                type: OneTimeCodeType.ACCOUNT_UNLOCK,
+                usedAt: null,
+                expiresAt: { gt: new Date() },
+            },
+            include: { user: true },
+        });
+
+        if (!unlockCode) {
+            throw new BadRequestException('Invalid or expired unlock link');
+        }
+
+        await this.prisma.$transaction([
+            this.prisma.user.update({
+                where: { id: unlockCode.userId },
+                data: {
+                    failedLoginAttempts: 0,
+                    lastFailedLoginAt: null,
+                    lockedUntil: null,
+                },
+            }),
+            this.prisma.oneTimeCode.updateMany({
+                where: {
+                    userId: unlockCode.userId,
+                    type: OneTimeCodeType.ACCOUNT_UNLOCK,
+                    usedAt: null,
+                },
+                data: { usedAt: new Date() },
+            }),
+            this.prisma.activityLog.create({
+                data: {
+                    companyId: unlockCode.user.companyId,
+                    userId: unlockCode.userId,
+                    activityType: ActivityType.ACCOUNT_UNLOCKED,
+                    description: `Account unlocked via email link for ${unlockCode.user.email}`,
+                },
+            }),
+        ]);
+
+        return {
+            success: true,
+            message: 'Your account has been unlocked. You can log in again.',
+        };
+    }
+
+    /**
+     * Clears counters and any lock without logging (used when the password is reset)
+     */
+    async clearLock(userId: string) {
+        await this.prisma.user.update({
+            where: { id: userId },
+            data: {
+                failedLoginAttempts: 0,
+                lastFailedLoginAt: null,
+                lockedUntil: null,
+            },
+        });
+    }
+
+    // ============================================
+    // HELPERS
+    // ============================================
+    private async lockAccount(user: LoginUser, context: SessionContext) {
+        const token = generateToken();
+
+        await this.prisma.$transaction([
+            this.prisma.oneTimeCode.updateMany({
+                where: {
+                    userId: user.id,
+                    type: OneTimeCodeType.ACCOUNT_UNLOCK,
+                    usedAt: null,
+                },
+                data: { usedAt: new Date() },
+            }),
+            this.prisma.oneTimeCode.create({
+                data: {
+                    code: hashToken(token),
+                    userId: user.id,
+                    type: OneTimeCodeType.ACCOUNT_UNLOCK,
+                    expiresAt: new Date(Date.now() + UNLOCK_TOKEN_TTL_MS),
+                },
+            }),
+            this.prisma.activityLog.create({
+                data: {
+                    companyId: user.companyId,
+                    userId: user.id,
+                    activityType: ActivityType.ACCOUNT_LOCKED,
+                    description: `Account locked after ${ACCOUNT_LOCK_THRESHOLD} failed login attempts for ${user.email}`,
+                    ipAddress: context.ipAddress,
+                    metadata: {
+                        lockedMinutes: ACCOUNT_LOCK_DURATION_MS / 60000,
+                    },
+                },
+            }),
+        ]);
+
+        try {
+            await this.emailService.sendAccountLockedEmail(
+                user.email,
+                user.firstName,
+                token,
+                ACCOUNT_LOCK_DURATION_MS / 60000,
+                context.ipAddress,
+            );
+        } catch (error) {
+            console.error('Failed to send account locked email:', error);
+        }
+    }
+}
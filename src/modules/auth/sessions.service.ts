@@ -0,0 +1,282 @@
+// src/modules/auth/sessions.service.ts
+import { Injectable, UnauthorizedException, NotFoundException, ForbiddenException } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { ConfigService } from '@nestjs/config';
+import { SessionDeviceType, User } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { JwtPayload } from './interfaces/jwt-payload.interface';
+import { generateToken, hashToken } from './utils/token.util';
+import { MembershipsService } from '../memberships/memberships.service';
+import { withMembership } from '../memberships/membership.util';
+
+export interface SessionContext {
+    deviceType?: SessionDeviceType;
+    deviceName?: string;
+    ipAddress?: string;
+    userAgent?: string;
+}
+
+export interface SessionTokens {
+    access_token: string;
+    refresh_token: string;
+    expires_in: number; // Access token lifetime in seconds
+    session_id: string;
+}
+
+export interface ImpersonationTokens {
+    access_token: string;
+    expires_in: number;
+    expires_at: Date;
+    session_id: string;
+}
+
+type SessionUser = Pick<User, 'id' | 'email' | 'role' | 'companyId'>;
+
+@Injectable()
+export class SessionsService {
+    private readonly refreshTokenTtlMs: number;
+
+    constructor(
+        private prisma: PrismaService,
+        private jwtService: JwtService,
+        private configService: ConfigService,
+        private membershipsService: MembershipsService,
+    ) {
+        const days = Number(this.configService.get('REFRESH_TOKEN_EXPIRATION_DAYS', 30));
+        this.refreshTokenTtlMs = days * 24 * 60 * 60 * 1000;
+    }
+
+    // ============================================
+    // CREATE SESSION (login)
+    // ============================================
+    async createSession(user: SessionUser, context: SessionContext = {}): Promise<SessionTokens> {
+        const refreshToken = generateToken(48);
+
+        const session = await this.prisma.userSession.create({
+            data: {
+                userId: user.id,
+                refreshTokenHash: hashToken(refreshToken),
+                deviceType: context.deviceType ?? SessionDeviceType.WEB,
+                deviceName: context.deviceName,
+                ipAddress: context.ipAddress,
+                userAgent: context.userAgent,
+                expiresAt: new Date(Date.now() + this.refreshTokenTtlMs),
+                companyId: user.companyId,
+            },
+        });
+
+        return this.issueTokens(user, session.id, refreshToken);
+    }
+
+    // ============================================
+    // IMPERSONATION (support access, access token only)
+    // ============================================
+    async createImpersonationSession(
+        user: SessionUser,
+        impersonatorId: string,
+        reason: string,
+        ttlMinutes: number,
+        context: SessionContext = {},
+    ): Promise<ImpersonationTokens> {
+        const expiresAt = new Date(Date.now() + ttlMinutes * 60 * 1000);
+
+        const session = await this.prisma.userSession.create({
+            data: {
+                userId: user.id,
+                // Never handed out, so the session cannot be refreshed past expiresAt
+                refreshTokenHash: hashToken(generateToken(48)),
+                deviceType: context.deviceType ?? SessionDeviceType.WEB,
+                deviceName: 'Support session',
+                ipAddress: context.ipAddress,
+                userAgent: context.userAgent,
+                expiresAt,
+                impersonatorId,
+                impersonationReason: reason,
+                companyId: user.companyId,
+            },
+        });
+
+        const payload: JwtPayload = {
+            sub: user.id,
+            email: user.email,
+            role: user.role,
+            companyId: user.companyId,
+            sid: session.id,
+            imp: impersonatorId,
+        };
+
+        return {
+            access_token: this.jwtService.sign(payload, { expiresIn: ttlMinutes * 60 }),
+            expires_in: ttlMinutes * 60,
+            expires_at: expiresAt,
+            session_id: session.id,
+        };
+    }
+
+    // ============================================
+    // REFRESH (rotates the refresh token)
+    // ============================================
+    async refreshSession(refreshToken: string, context: SessionContext = {}): Promise<SessionTokens> {
+        const session = await this.prisma.userSession.findUnique({
+            where: { refreshTokenHash: hashToken(refreshToken) },
+            include: { user: true },
+        });
+
+        if (!session || session.revokedAt || session.expiresAt < new Date() || session.impersonatorId) {
+            throw new UnauthorizedException('Invalid or expired refresh token');
+        }
+
+        // Sessions stay in the company picked at login or with the company switcher
+        const membership = await this.membershipsService.findMembership(session.userId, session.companyId ?? session.user.companyId);
+
+        if (!membership?.isActive || !membership.company.isActive) {
+            await this.prisma.userSession.update({
+                where: { id: session.id },
+                data: { revokedAt: new Date() },
+            });
+            throw new UnauthorizedException('Account is inactive');
+        }
+
+        const newRefreshToken = generateToken(48);
+
+        await this.prisma.userSession.update({
+            where: { id: session.id },
+            data: {
+                refreshTokenHash: hashToken(newRefreshToken),
+                lastUsedAt: new Date(),
+                ipAddress: context.ipAddress ?? session.ipAddress,
+                userAgent: context.userAgent ?? session.userAgent,
+            },
+        });
+
+        return this.issueTokens(withMembership(session.user, membership), session.id, newRefreshToken);
+    }
+
+    // ============================================
+    // SWITCH COMPANY (same session, tokens for another company)
+    // ============================================
+    async switchCompany(sessionId: string, userId: string, companyId: string): Promise<SessionTokens> {
+        const session = await this.prisma.userSession.findUnique({
+            where: { id: sessionId },
+            include: { user: true },
+        });
+
+        if (!session || session.userId !== userId || session.revokedAt || session.expiresAt < new Date()) {
+            throw new UnauthorizedException('Session expired. Please log in again.');
+        }
+
+        const membership = await this.membershipsService.findMembership(userId, companyId);
+
+        if (!membership) {
+            throw new NotFoundException('You are not a member of this company');
+        }
+
+        if (!membership.isActive || !membership.company.isActive) {
+            throw new ForbiddenException('Your access to this company is inactive');
+        }
+
+        // The refresh token is rotated so an older one cannot bring back the previous company
+        const newRefreshToken = generateToken(48);
+
+        await this.prisma.userSession.update({
+            where: { id: session.id },
+            data: {
+                companyId,
+                refreshTokenHash: hashToken(newRefreshToken),
+                lastUsedAt: new Date(),
+            },
+        });
+
+        return this.issueTokens(withMembership(session.user, membership), session.id, newRefreshToken);
+    }
+
+    // ============================================
+    // VALIDATE (used by JwtStrategy on every request)
+    // ============================================
+    async isSessionActive(sessionId: string, userId: string): Promise<boolean> {
+        const session = await this.prisma.userSession.findUnique({
+            where: { id: sessionId },
+            select: { userId: true, revokedAt: true, expiresAt: true },
+        });
+
+        return !!session && session.userId === userId && !session.revokedAt && session.expiresAt > new Date();
+    }
+
+    // ============================================
+    // LIST / REVOKE
+    // ============================================
+    async listSessions(userId: string, currentSessionId?: string) {
+        const sessions = await this.prisma.userSession.findMany({
+            where: {
+                userId,
+                revokedAt: null,
+                expiresAt: { gt: new Date() },
+            },
+            select: {
+                id: true,
+                deviceType: true,
+                deviceName: true,
+                ipAddress: true,
+                userAgent: true,
+                lastUsedAt: true,
+                createdAt: true,
+                expiresAt: true,
+            },
+            orderBy: { lastUsedAt: 'desc' },
+        });
+
+        return sessions.map((session) => ({
+            ...session,
+            isCurrent: session.id === currentSessionId,
+        }));
+    }
+
+    async revokeSession(userId: string, sessionId: string) {
+        const result = await this.prisma.userSession.updateMany({
+            where: { id: sessionId, userId, revokedAt: null },
+            data: { revokedAt: new Date() },
+        });
+
+        if (result.count === 0) {
+            throw new NotFoundException('Session not found');
+        }
+
+        return { success: true, message: 'Session revoked' };
+    }
+
+    async revokeAllSessions(userId: string, exceptSessionId?: string) {
+        const result = await this.prisma.userSession.updateMany({
+            where: {
+                userId,
+                revokedAt: null,
+                ...(exceptSessionId && { id: { not: exceptSessionId } }),
+            },
+            data: { revokedAt: new Date() },
+        });
+
+        return { success: true, revoked: result.count };
+    }
+
+    // ============================================
+    // HELPERS
+    // ============================================
+    private issueTokens(user: SessionUser, sessionId: string, refreshToken: string): SessionTokens {
+        const payload: JwtPayload = {
+            sub: user.id,
+            email: user.email,
+            role: user.role,
+            companyId: user.companyId,
+            sid: sessionId,
+        };
+
+        const accessToken = this.jwtService.sign(payload);
+        const decoded = this.jwtService.decode<JwtPayload>(accessToken);
+
+        return {
+            access_token: accessToken,
+            refresh_token: refreshToken,
+            expires_in: decoded.exp && decoded.iat ? decoded.exp - decoded.iat : 0,
+            session_id: sessionId,
+        };
+    }
+}
@@ -0,0 +1,30 @@
+import { getVerificationRecord, hasVerificationRecord } from './domain-verification.util';
+
+describe('domain-verification.util', () => {
+    const resolver = (records: Record<string, string[][]>) => (hostname: string) => records[hostname]
+        ? Promise.resolve(records[hostname])
+        : Promise.reject(Object.assign(new Error('queryTxt ENOTFOUND'), { code: 'ENOTFOUND' }));
+
+    it('names the record under the domain', () => {
+        expect(getVerificationRecord('acme.com', 'abc')).toEqual({
+            domain: 'acme.com',
+            recordName: '_merit-tracker-verification.acme.com',
+            recordValue: 'merit-tracker-verification=abc',
+        });
+    });
+
+    it('accepts the record among others, including chunked values', async () => {
+        const resolveTxt = resolver({
+            '_merit-tracker-verification.acme.com': [['v=spf1 -all'], ['merit-tracker-', 'verification=abc']],
+        });
+
+        await expect(hasVerificationRecord('acme.com', 'abc', resolveTxt)).resolves.toBe(true);
+    });
+
+    it('rejects another token or a missing record', async () => {
+        const resolveTxt = resolver({ '_merit-tracker-verification.acme.com': [['merit-tracker-verification=other']] });
+
+        await expect(hasVerificationRecord('acme.com', 'abc', resolveTxt)).resolves.toBe(false);
+        await expect(hasVerificationRecord('gmail.com', 'abc', resolveTxt)).resolves.toBe(false);
+    });
+});
@@ -0,0 +1,36 @@
+// src/modules/auth/sso/domain-verification.util.ts
+// Proof that a company controls an email domain before the domain routes SSO sign-ins to it.
+import { promises as dns } from 'dns';
+
+export const VERIFICATION_RECORD_PREFIX = '_merit-tracker-verification';
+
+export type TxtResolver = (hostname: string) => Promise<string[][]>;
+
+export interface DomainVerificationRecord {
+    domain: string;
+    recordName: string;
+    recordValue: string;
+}
+
+export function getVerificationRecord(domain: string, token: string): DomainVerificationRecord {
+    return {
+        domain,
+        recordName: `${VERIFICATION_RECORD_PREFIX}.${domain}`,
+        recordValue: `merit-tracker-verification=${token}`,
+    };
+}
+
+/**
+ * True when the domain publishes the company's TXT record; lookup failures (no record, NXDOMAIN) count as not verified
+ */
+export async function hasVerificationRecord(domain: string, token: string, resolveTxt: TxtResolver = dns.resolveTxt): Promise<boolean> {
+    const { recordName, recordValue } = getVerificationRecord(domain, token);
+
+    try {
+        const records = await resolveTxt(recordName);
+        // Long TXT values come back split into chunks
+        return records.some((chunks) => chunks.join('').trim() === recordValue);
+    } catch {
+        return false;
+    }
+}
@@ -0,0 +1,150 @@
+import * as crypto from 'crypto';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import {
+    assertProviderUrl, buildAuthorizationUrl, createPkcePair, discoverIssuer, exchangeAuthorizationCode, isPrivateHost, OidcDiscovery, verifyIdToken,
+} from './oidc.util';
+
+const CLIENT_ID = 'merit-tracker';
+const NONCE = 'nonce-123';
+// The mock issuer runs on 127.0.0.1, which is only allowed in development
+const LOCAL = { allowPrivateHosts: true };
+
+// Local mock issuer: discovery, JWKS and a token endpoint that checks the PKCE verifier
+describe('oidc.util', () => {
+    const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+    const { codeVerifier, codeChallenge } = createPkcePair();
+    let server: http.Server;
+    let issuer: string;
+    let idToken: string;
+
+    const sign = (claims: Record<string, unknown>, key: crypto.KeyObject = privateKey) => {
+        const header = Buffer.from(JSON.stringify({ alg: 'RS256', kid: 'test-key' })).toString('base64url');
+        const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+        const signature = crypto.sign('sha256', Buffer.from(`${header}.${payload}`), key).toString('base64url');
+        return `${header}.${payload}.${signature}`;
+    };
+
+    beforeAll(async () => {
+        server = http.createServer((req, res) => {
+            res.setHeader('Content-Type', 'application/json');
+
+            if (req.url === '/.well-known/openid-configuration') {
+                res.end(JSON.stringify({
+                    issuer,
+                    authorization_endpoint: `${issuer}/authorize`,
+                    token_endpoint: `${issuer}/token`,
+                    jwks_uri: `${issuer}/jwks`,
+                }));
+            } else if (req.url === '/jwks') {
+                res.end(JSON.stringify({ keys: [{ ...publicKey.export({ format: 'jwk' }), kid: 'test-key', use: 'sig' }] }));
+            } else if (req.url === '/token') {
+                let body = '';
+                req.on('data', (chunk: Buffer) => (body += chunk.toString()));
+                req.on('end', () => {
+                    const params = new URLSearchParams(body);
+                    const challenge = crypto.createHash('sha256').update(params.get('code_verifier') ?? '').digest('base64url');
+
+                    if (params.get('code') !== 'good-code' || challenge !== codeChallenge) {
+                        res.statusCode = 400;
+                        res.end(JSON.stringify({ error: 'invalid_grant' }));
+                        return;
+                    }
+                    res.end(JSON.stringify({ id_token: idToken, access_token: 'unused' }));
+                });
+            } else {
+                res.statusCode = 404;
+                res.end('{}');
+            }
+        });
+
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+        issuer = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+        idToken = sign({
+            iss: issuer,
+            sub: 'user-1',
+            aud: CLIENT_ID,
+            exp: Math.floor(Date.now() / 1000) + 300,
+            iat: Math.floor(Date.now() / 1000),
+            nonce: NONCE,
+            email: 'jane@acme.com',
+        });
+    });
+
+    afterAll(async () => {
+        await new Promise((resolve) => server.close(resolve));
+    });
+
+    it('rejects non-https and private issuers', async () => {
+        await expect(discoverIssuer('http://idp.example.com')).rejects.toThrow('must use https');
+        await expect(discoverIssuer(issuer)).rejects.toThrow('must use https');
+        expect(() => assertProviderUrl('https://127.0.0.1:8443')).toThrow('public host');
+        expect(() => assertProviderUrl('https://localhost/realms/acme')).toThrow('public host');
+        expect(assertProviderUrl('https://login.acme.com/realms/acme').hostname).toBe('login.acme.com');
+    });
+
+    it('recognises private and loopback hosts', () => {
+        for (const host of ['localhost', 'idp.localhost', '10.1.2.3', '172.20.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '[::1]', 'fd00::1', '::ffff:127.0.0.1']) {
+            expect(isPrivateHost(host)).toBe(true);
+        }
+        for (const host of ['login.acme.com', '8.8.8.8', '172.32.0.1', '2606:4700::1111']) {
+            expect(isPrivateHost(host)).toBe(false);
+        }
+    });
+
+    it('builds a PKCE authorization URL from discovery', async () => {
+        const discovery = await discoverIssuer(issuer, LOCAL);
+        const url = new URL(buildAuthorizationUrl(discovery, {
+            clientId: CLIENT_ID,
+            redirectUri: 'http://localhost:3000/sso/callback',
+            state: 'state-1',
+            nonce: NONCE,
+            codeChallenge,
+        }));
+
+        expect(url.origin + url.pathname).toBe(`${issuer}/authorize`);
+        expect(url.searchParams.get('code_challenge')).toBe(codeChallenge);
+        expect(url.searchParams.get('code_challenge_method')).toBe('S256');
+        expect(url.searchParams.get('scope')).toBe('openid email profile');
+    });
+
+    it('exchanges the code and validates the ID token', async () => {
+        const discovery = await discoverIssuer(issuer, LOCAL);
+        const token = await exchangeAuthorizationCode(discovery, {
+            clientId: CLIENT_ID,
+            code: 'good-code',
+            redirectUri: 'http://localhost:3000/sso/callback',
+            codeVerifier,
+        });
+        const claims = await verifyIdToken(token, { discovery, clientId: CLIENT_ID, nonce: NONCE });
+
+        expect(claims.sub).toBe('user-1');
+        expect(claims.email).toBe('jane@acme.com');
+    });
+
+    it('surfaces token endpoint errors', async () => {
+        const discovery = await discoverIssuer(issuer, LOCAL);
+
+        await expect(exchangeAuthorizationCode(discovery, {
+            clientId: CLIENT_ID,
+            code: 'good-code',
+            redirectUri: 'http://localhost:3000/sso/callback',
+            codeVerifier: 'wrong-verifier',
+        })).rejects.toThrow('invalid_grant');
+    });
+
+    it('rejects forged, replayed or foreign ID tokens', async () => {
+        const discovery: OidcDiscovery = await discoverIssuer(issuer, LOCAL);
+        const otherKey = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 }).privateKey;
+        const claims = { iss: issuer, sub: 'user-1', aud: CLIENT_ID, exp: Math.floor(Date.now() / 1000) + 300, nonce: NONCE };
+
+        await expect(verifyIdToken(sign(claims, otherKey), { discovery, clientId: CLIENT_ID, nonce: NONCE }))
+            .rejects.toThrow('signature');
+        await expect(verifyIdToken(idToken, { discovery, clientId: CLIENT_ID, nonce: 'other' }))
+            .rejects.toThrow('nonce');
+        await expect(verifyIdToken(sign({ ...claims, aud: 'other-app' }), { discovery, clientId: CLIENT_ID, nonce: NONCE }))
+            .rejects.toThrow('audience');
+        await expect(verifyIdToken(sign({ ...claims, exp: 1000 }), { discovery, clientId: CLIENT_ID, nonce: NONCE }))
+            .rejects.toThrow('expired');
+    });
+});
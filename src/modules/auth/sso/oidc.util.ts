@@ -0,0 +1,323 @@
+// src/modules/auth/sso/oidc.util.ts
+// Minimal OpenID Connect relying party: discovery, authorization code + PKCE (RFC 7636) and ID token validation.
+import * as crypto from 'crypto';
+import { promises as dns } from 'dns';
+import { isIP } from 'net';
+
+const HTTP_TIMEOUT_MS = 10 * 1000;
+const CLOCK_SKEW_SECONDS = 60;
+
+// JWS algorithms accepted for ID tokens (HS* is rejected: the client secret is not a signing key here)
+const SIGNATURE_ALGORITHMS: Record<string, { hash: string; padding?: number; dsaEncoding?: 'ieee-p1363' }> = {
+    RS256: { hash: 'sha256' },
+    RS384: { hash: 'sha384' },
+    RS512: { hash: 'sha512' },
+    PS256: { hash: 'sha256', padding: crypto.constants.RSA_PKCS1_PSS_PADDING },
+    PS384: { hash: 'sha384', padding: crypto.constants.RSA_PKCS1_PSS_PADDING },
+    PS512: { hash: 'sha512', padding: crypto.constants.RSA_PKCS1_PSS_PADDING },
+    ES256: { hash: 'sha256', dsaEncoding: 'ieee-p1363' },
+    ES384: { hash: 'sha384', dsaEncoding: 'ieee-p1363' },
+    ES512: { hash: 'sha512', dsaEncoding: 'ieee-p1363' },
+};
+
+export interface OidcDiscovery {
+    issuer: string;
+    authorization_endpoint: string;
+    token_endpoint: string;
+    jwks_uri: string;
+}
+
+export interface OidcClaims {
+    iss: string;
+    sub: string;
+    aud: string | string[];
+    exp: number;
+    iat?: number;
+    nonce?: string;
+    azp?: string;
+    email?: string;
+    email_verified?: boolean;
+    name?: string;
+    given_name?: string;
+    family_name?: string;
+}
+
+export interface AuthorizationRequest {
+    clientId: string;
+    redirectUri: string;
+    state: string;
+    nonce: string;
+    codeChallenge: string;
+    loginHint?: string;
+}
+
+export interface CodeExchange {
+    clientId: string;
+    clientSecret?: string | null;
+    code: string;
+    redirectUri: string;
+    codeVerifier: string;
+}
+
+export interface ProviderUrlPolicy {
+    // Plain http and private or loopback hosts, for local mock issuers in development only
+    allowPrivateHosts?: boolean;
+}
+
+/**
+ * The server fetches provider URLs, so they must be https on a public host; only checks the URL itself (see `assertPublicHost`)
+ */
+export function assertProviderUrl(value: string, policy: ProviderUrlPolicy = {}): URL {
+    let url: URL;
+    try {
+        url = new URL(value);
+    } catch {
+        throw new Error('Identity provider URLs must be valid URLs');
+    }
+
+    if (policy.allowPrivateHosts) {
+        if (!['https:', 'http:'].includes(url.protocol)) {
+            throw new Error('Identity provider URLs must use https');
+        }
+        return url;
+    }
+
+    if (url.protocol !== 'https:') {
+        throw new Error('Identity provider URLs must use https');
+    }
+    if (isPrivateHost(url.hostname)) {
+        throw new Error('Identity provider URLs must point to a public host');
+    }
+
+    return url;
+}
+
+/**
+ * Loopback, private, link-local and CGNAT addresses, plus localhost names
+ */
+export function isPrivateHost(hostname: string): boolean {
+    const host = hostname.toLowerCase().replace(/^\[|\]$/g, '');
+
+    if (host === 'localhost' || host.endsWith('.localhost')) {
+        return true;
+    }
+
+    if (isIP(host) === 4) {
+        const [a, b] = host.split('.').map(Number);
+        return a === 0 || a === 10 || a === 127
+            || (a === 100 && b >= 64 && b <= 127)
+            || (a === 169 && b === 254)
+            || (a === 172 && b >= 16 && b <= 31)
+            || (a === 192 && b === 168);
+    }
+
+    if (isIP(host) === 6) {
+        const mapped = host.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+        if (mapped) {
+            return isPrivateHost(mapped[1]);
+        }
+        return host === '::' || host === '::1' || /^f[cd]/.test(host) || /^fe[89ab]/.test(host);
+    }
+
+    return false;
+}
+
+export async function discoverIssuer(issuer: string, policy: ProviderUrlPolicy = {}): Promise<OidcDiscovery> {
+    await assertPublicHost(assertProviderUrl(issuer, policy), policy);
+
+    const discovery = await fetchJson<Partial<OidcDiscovery>>(
+        `${issuer.replace(/\/+$/, '')}/.well-known/openid-configuration`,
+    );
+
+    if (!discovery.authorization_endpoint || !discovery.token_endpoint || !discovery.jwks_uri) {
+        throw new Error('Discovery document is missing required endpoints');
+    }
+
+    // OIDC Discovery section 4.3: the advertised issuer must match the one we asked for
+    if (normalizeIssuer(discovery.issuer ?? '') !== normalizeIssuer(issuer)) {
+        throw new Error(`Discovery document is for issuer ${discovery.issuer}`);
+    }
+
+    // The token endpoint and JWKS are fetched by the server too
+    for (const endpoint of [discovery.token_endpoint, discovery.jwks_uri]) {
+        await assertPublicHost(assertProviderUrl(endpoint, policy), policy);
+    }
+
+    return discovery as OidcDiscovery;
+}
+
+export function createPkcePair(): { codeVerifier: string; codeChallenge: string } {
+    const codeVerifier = crypto.randomBytes(32).toString('base64url');
+    const codeChallenge = crypto.createHash('sha256').update(codeVerifier).digest('base64url');
+
+    return { codeVerifier, codeChallenge };
+}
+
+export function buildAuthorizationUrl(discovery: OidcDiscovery, request: AuthorizationRequest): string {
+    const url = new URL(discovery.authorization_endpoint);
+
+    url.searchParams.set('response_type', 'code');
+    url.searchParams.set('client_id', request.clientId);
+    url.searchParams.set('redirect_uri', request.redirectUri);
+    url.searchParams.set('scope', 'openid email profile');
+    url.searchParams.set('state', request.state);
+    url.searchParams.set('nonce', request.nonce);
+    url.searchParams.set('code_challenge', request.codeChallenge);
+    url.searchParams.set('code_challenge_method', 'S256');
+    if (request.loginHint) {
+        url.searchParams.set('login_hint', request.loginHint);
+    }
+
+    return url.toString();
+}
+
+/**
+ * Redeems the authorization code and returns the raw ID token
+ */
+export async function exchangeAuthorizationCode(discovery: OidcDiscovery, exchange: CodeExchange): Promise<string> {
+    const body = new URLSearchParams({
+        grant_type: 'authorization_code',
+        code: exchange.code,
+        redirect_uri: exchange.redirectUri,
+        client_id: exchange.clientId,
+        code_verifier: exchange.codeVerifier,
+    });
+
+    const headers: Record<string, string> = {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        Accept: 'application/json',
+    };
+
+    // client_secret_basic (the default token endpoint auth method)
+    if (exchange.clientSecret) {
+        const credentials = `${encodeURIComponent(exchange.clientId)}:${encodeURIComponent(exchange.clientSecret)}`;
+        headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+    }
+
+    const response = await fetchJson<{ id_token?: string; error?: string; error_description?: string }>(
+        discovery.token_endpoint,
+        { method: 'POST', headers, body: body.toString() },
+        true,
+    );
+
+    if (response.error) {
+        throw new Error(`Token endpoint returned ${response.error}${response.error_description ? `: ${response.error_description}` : ''}`);
+    }
+
+    if (!response.id_token) {
+        throw new Error('Token response did not include an id_token');
+    }
+
+    return response.id_token;
+}
+
+/**
+ * Checks the signature against the issuer's JWKS and the standard claims (OIDC Core section 3.1.3.7)
+ */
+export async function verifyIdToken(
+    idToken: string,
+    options: { discovery: OidcDiscovery; clientId: string; nonce: string; now?: number },
+): Promise<OidcClaims> {
+    const parts = idToken.split('.');
+    if (parts.length !== 3) {
+        throw new Error('Malformed ID token');
+    }
+
+    const [encodedHeader, encodedPayload, encodedSignature] = parts;
+    const header = decodeSegment<{ alg?: string; kid?: string }>(encodedHeader);
+    const algorithm = header.alg ? SIGNATURE_ALGORITHMS[header.alg] : undefined;
+
+    if (!algorithm) {
+        throw new Error(`Unsupported ID token algorithm ${header.alg}`);
+    }
+
+    const { keys = [] } = await fetchJson<{ keys?: (crypto.JsonWebKey & { kid?: string; use?: string })[] }>(
+        options.discovery.jwks_uri,
+    );
+    const signingKeys = keys.filter((key) => key.use !== 'enc');
+    const jwk = header.kid
+        ? signingKeys.find((key) => key.kid === header.kid)
+        : signingKeys.length === 1 ? signingKeys[0] : undefined;
+
+    if (!jwk) {
+        throw new Error('No matching signing key found for ID token');
+    }
+
+    const isValid = crypto.verify(
+        algorithm.hash,
+        Buffer.from(`${encodedHeader}.${encodedPayload}`),
+        {
+            key: crypto.createPublicKey({ key: jwk, format: 'jwk' }),
+            padding: algorithm.padding,
+            dsaEncoding: algorithm.dsaEncoding,
+        },
+        Buffer.from(encodedSignature, 'base64url'),
+    );
+
+    if (!isValid) {
+        throw new Error('Invalid ID token signature');
+    }
+
+    const claims = decodeSegment<OidcClaims>(encodedPayload);
+    const now = Math.floor((options.now ?? Date.now()) / 1000);
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+
+    if (normalizeIssuer(claims.iss ?? '') !== normalizeIssuer(options.discovery.issuer)) {
+        throw new Error('ID token issuer mismatch');
+    }
+    if (!audiences.includes(options.clientId) || (audiences.length > 1 && claims.azp !== options.clientId)) {
+        throw new Error('ID token audience mismatch');
+    }
+    if (typeof claims.exp !== 'number' || claims.exp + CLOCK_SKEW_SECONDS < now) {
+        throw new Error('ID token has expired');
+    }
+    if (typeof claims.iat === 'number' && claims.iat - CLOCK_SKEW_SECONDS > now) {
+        throw new Error('ID token was issued in the future');
+    }
+    if (claims.nonce !== options.nonce) {
+        throw new Error('ID token nonce mismatch');
+    }
+    if (!claims.sub) {
+        throw new Error('ID token has no subject');
+    }
+
+    return claims;
+}
+
+/**
+ * Rejects public-looking names that resolve to a private address
+ */
+async function assertPublicHost(url: URL, policy: ProviderUrlPolicy): Promise<void> {
+    if (policy.allowPrivateHosts || isIP(url.hostname.replace(/^\[|\]$/g, ''))) {
+        return;
+    }
+
+    const addresses = await dns.lookup(url.hostname, { all: true });
+    if (addresses.some(({ address }) => isPrivateHost(address))) {
+        throw new Error(`${url.hostname} resolves to a private address`);
+    }
+}
+
+function normalizeIssuer(issuer: string): string {
+    return issuer.replace(/\/+$/, '');
+}
+
+function decodeSegment<T>(segment: string): T {
+    try {
+        return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8')) as T;
+    } catch {
+        throw new Error('Malformed ID token');
+    }
+}
+
+async function fetchJson<T>(url: string, init: RequestInit = {}, allowErrorBody = false): Promise<T> {
+    // Redirects are not followed: they could lead to a host that was never checked
+    const response = await fetch(url, { ...init, redirect: 'error', signal: AbortSignal.timeout(HTTP_TIMEOUT_MS) });
+
+    // Token endpoint errors (RFC 6749 section 5.2) come back as 400/401 with a JSON body
+    if (!response.ok && !(allowErrorBody && [400, 401].includes(response.status))) {
+        throw new Error(`Request to ${url} failed with status ${response.status}`);
+    }
+
+    return (await response.json()) as T;
+}
@@ -0,0 +1,86 @@
+// src/modules/auth/sso/sso.controller.ts
+import { Controller, Get, Post, Put, Delete, Body, Query, UseGuards, HttpCode, HttpStatus } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+import { JwtAuthGuard } from '../guards/jwt-auth.guard';
+import { RolesGuard } from '../guards/roles.guard';
+import { CurrentUser, Roles, SkipSubscriptionCheck, ClientInfo, BlockWhileImpersonating } from '../guards';
+import { SsoService } from './sso.service';
+import { SsoAuthorizeDto, SsoCallbackDto, SsoConfigurationDto, SsoDiscoverDto } from '../dto/auth.dto';
+
+@ApiTags('sso')
+@Controller('sso')
+export class SsoController {
+    constructor(private readonly ssoService: SsoService) { }
+
+    // ============================================
+    // LOGIN (public)
+    // ============================================
+
+    @Get('discover')
+    @SkipSubscriptionCheck()
+    @ApiOperation({ summary: 'Check whether single sign-on is available for an email address' })
+    async discover(@Query() dto: SsoDiscoverDto) {
+        return this.ssoService.discover(dto.email);
+    }
+
+    @Post('authorize')
+    @HttpCode(HttpStatus.OK)
+    @SkipSubscriptionCheck()
+    @ApiOperation({ summary: 'Start single sign-on; redirect the browser to the returned authorizationUrl' })
+    async authorize(@Body() dto: SsoAuthorizeDto, @ClientInfo() client: ClientInfo) {
+        return this.ssoService.authorize(dto, client);
+    }
+
+    @Post('callback')
+    @HttpCode(HttpStatus.OK)
+    @SkipSubscriptionCheck()
+    @ApiOperation({ summary: 'Complete single sign-on with the code and state returned by the identity provider' })
+    async callback(@Body() dto: SsoCallbackDto, @ClientInfo() client: ClientInfo) {
+        return this.ssoService.callback(dto, client);
+    }
+
+    // ============================================
+    // CONFIGURATION (Company Admin)
+    // ============================================
+
+    @Get('configuration')
+    @UseGuards(JwtAuthGuard, RolesGuard)
+    @Roles(UserRole.COMPANY)
+    @ApiBearerAuth()
+    @ApiOperation({ summary: 'Get the company OpenID Connect configuration' })
+    async getConfiguration(@CurrentUser('companyId') companyId: string) {
+        return this.ssoService.getConfiguration(companyId);
+    }
+
+    @Put('configuration')
+    @BlockWhileImpersonating()
+    @UseGuards(JwtAuthGuard, RolesGuard)
+    @Roles(UserRole.COMPANY)
+    @ApiBearerAuth()
+    @ApiOperation({ summary: 'Create or update the company OpenID Connect configuration' })
+    async saveConfiguration(@CurrentUser('companyId') companyId: string, @Body() dto: SsoConfigurationDto) {
+        return this.ssoService.saveConfiguration(companyId, dto);
+    }
+
+    @Post('configuration/verify-domains')
+    @HttpCode(HttpStatus.OK)
+    @BlockWhileImpersonating()
+    @UseGuards(JwtAuthGuard, RolesGuard)
+    @Roles(UserRole.COMPANY)
+    @ApiBearerAuth()
+    @ApiOperation({ summary: 'Check the DNS TXT records of the allowed domains that are not verified yet' })
+    async verifyDomains(@CurrentUser('companyId') companyId: string) {
+        return this.ssoService.verifyDomains(companyId);
+    }
+
+    @Delete('configuration')
+    @BlockWhileImpersonating()
+    @UseGuards(JwtAuthGuard, RolesGuard)
+    @Roles(UserRole.COMPANY)
+    @ApiBearerAuth()
+    @ApiOperation({ summary: 'Remove the company OpenID Connect configuration' })
+    async removeConfiguration(@CurrentUser('companyId') companyId: string) {
+        return this.ssoService.removeConfiguration(companyId);
+    }
+}
@@ -0,0 +1,401 @@
+// src/modules/auth/sso/sso.service.ts
+import { Injectable, BadRequestException, ConflictException, ForbiddenException, NotFoundException, ServiceUnavailableException, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as bcrypt from 'bcryptjs';
+import { SsoConfiguration, UserRole } from '@prisma/client';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { AuthService } from '../auth.service';
+import { PlansService } from '../../plans';
+import { SessionContext } from '../sessions.service';
+import { generateToken, hashToken } from '../utils/token.util';
+import { SsoAuthorizeDto, SsoCallbackDto, SsoConfigurationDto } from '../dto/auth.dto';
+import { MembershipsService } from '../../memberships/memberships.service';
+import { withMembership } from '../../memberships/membership.util';
+import {
+    OidcClaims, ProviderUrlPolicy, assertProviderUrl, buildAuthorizationUrl, createPkcePair, discoverIssuer, exchangeAuthorizationCode, verifyIdToken,
+} from './oidc.util';
+import { getVerificationRecord, hasVerificationRecord } from './domain-verification.util';
+
+const LOGIN_REQUEST_TTL_MS = 10 * 60 * 1000; // Time allowed at the identity provider
+
+@Injectable()
+export class SsoService {
+    private readonly redirectUri: string;
+    private readonly providerUrlPolicy: ProviderUrlPolicy;
+
+    constructor(
+        private prisma: PrismaService,
+        private configService: ConfigService,
+        private authService: AuthService,
+        private plansService: PlansService,
+        private membershipsService: MembershipsService,
+    ) {
+        // Frontend page that receives ?code&state and posts them to /sso/callback
+        this.redirectUri = this.configService.get<string>(
+            'SSO_REDIRECT_URL',
+            `${this.configService.get<string>('APP_URL', 'https://merittracker.com')}/sso/callback`,
+        );
+        // Local mock issuers (http, localhost) are only accepted in development
+        this.providerUrlPolicy = { allowPrivateHosts: this.configService.get<string>('NODE_ENV') === 'development' };
+    }
+
+    // ============================================
+    // CONFIGURATION (company admin)
+    // ============================================
+    async getConfiguration(companyId: string) {
+        const config = await this.prisma.ssoConfiguration.findUnique({ where: { companyId } });
+
+        return {
+            redirectUri: this.redirectUri,
+            configuration: config ? this.toResponse(config) : null,
+        };
+    }
+
+    async saveConfiguration(companyId: string, dto: SsoConfigurationDto) {
+        if (dto.defaultRole === UserRole.COMPANY || dto.defaultRole === UserRole.SUPER_ADMIN) {
+            throw new BadRequestException('New SSO users cannot be given an admin role');
+        }
+
+        try {
+            assertProviderUrl(dto.issuer, this.providerUrlPolicy);
+        } catch (error) {
+            throw new BadRequestException((error as Error).message);
+        }
+
+        const allowedDomains = [...new Set(dto.allowedDomains.map((domain) => domain.toLowerCase()))];
+
+        // Verified domains route sign-ins to a company, so each one can only belong to a single configuration
+        const claimed = await this.prisma.ssoConfiguration.findFirst({
+            where: {
+                companyId: { not: companyId },
+                verifiedDomains: { hasSome: allowedDomains },
+            },
+        });
+        if (claimed) {
+            throw new ConflictException('One of these domains is already used for SSO by another company');
+        }
+
+        if (dto.enabled) {
+            await this.loadDiscovery(dto.issuer, BadRequestException);
+        }
+
+        const existing = await this.prisma.ssoConfiguration.findUnique({ where: { companyId }, select: { verifiedDomains: true } });
+        const data = {
+            issuer: dto.issuer,
+            clientId: dto.clientId,
+            allowedDomains,
+            verifiedDomains: (existing?.verifiedDomains ?? []).filter((domain) => allowedDomains.includes(domain)),
+            defaultRole: dto.defaultRole,
+            enabled: dto.enabled,
+            disablePasswordLogin: dto.disablePasswordLogin,
+            ...(dto.clientSecret !== undefined && { clientSecret: dto.clientSecret || null }),
+        };
+
+        const config = await this.prisma.ssoConfiguration.upsert({
+            where: { companyId },
+            create: { companyId, domainVerificationToken: generateToken(16), ...data },
+            update: data,
+        });
+
+        return {
+            redirectUri: this.redirectUri,
+            configuration: this.toResponse(config),
+        };
+    }
+
+    /**
+     * Looks up the TXT record of every allowed domain that is not verified yet; a domain can only be verified by one company
+     */
+    async verifyDomains(companyId: string) {
+        const config = await this.prisma.ssoConfiguration.findUnique({ where: { companyId } });
+
+        if (!config) {
+            throw new NotFoundException('SSO is not configured');
+        }
+
+        const verified: string[] = [];
+        for (const domain of config.allowedDomains.filter((domain) => !config.verifiedDomains.includes(domain))) {
+            if (await hasVerificationRecord(domain, config.domainVerificationToken)) {
+                verified.push(domain);
+            }
+        }
+
+        if (verified.length === 0) {
+            return {
+                redirectUri: this.redirectUri,
+                verified,
+                configuration: this.toResponse(config),
+            };
+        }
+
+        const claimed = await this.prisma.ssoConfiguration.findFirst({
+            where: { companyId: { not: companyId }, verifiedDomains: { hasSome: verified } },
+        });
+        if (claimed) {
+            throw new ConflictException('One of these domains is already used for SSO by another company');
+        }
+
+        const updated = await this.prisma.ssoConfiguration.update({
+            where: { companyId },
+            data: { verifiedDomains: [...config.verifiedDomains, ...verified] },
+        });
+
+        return {
+            redirectUri: this.redirectUri,
+            verified,
+            configuration: this.toResponse(updated),
+        };
+    }
+
+    async removeConfiguration(companyId: string) {
+        const config = await this.prisma.ssoConfiguration.findUnique({ where: { companyId } });
+
+        if (!config) {
+            throw new NotFoundException('SSO is not configured');
+        }
+
+        await this.prisma.ssoConfiguration.delete({ where: { companyId } });
+
+        return { success: true, message: 'SSO configuration removed' };
+    }
+
+    // ============================================
+    // LOGIN (authorization code + PKCE)
+    // ============================================
+
+    /**
+     * Lets the login page decide whether to show the SSO button and/or the password form
+     */
+    async discover(email: string) {
+        const config = await this.findConfigForEmail(email);
+
+        return {
+            ssoEnabled: !!config,
+            passwordLoginDisabled: !!config?.disablePasswordLogin,
+        };
+    }
+
+    async authorize(dto: SsoAuthorizeDto, context: SessionContext) {
+        let config: SsoConfiguration | null = null;
+
+        if (dto.companyCode) {
+            const company = await this.prisma.company.findUnique({
+                where: { companyCode: dto.companyCode },
+                include: { ssoConfiguration: true },
+            });
+            config = company?.ssoConfiguration?.enabled ? company.ssoConfiguration : null;
+        } else if (dto.email) {
+            config = await this.findConfigForEmail(dto.email);
+        } else {
+            throw new BadRequestException('Email or company code is required');
+        }
+
+        if (!config) {
+            throw new NotFoundException('Single sign-on is not enabled for this company');
+        }
+
+        const discovery = await this.loadDiscovery(config.issuer);
+        const state = generateToken();
+        const nonce = generateToken(16);
+        const { codeVerifier, codeChallenge } = createPkcePair();
+        const expiresAt = new Date(Date.now() + LOGIN_REQUEST_TTL_MS);
+
+        await this.prisma.ssoLoginRequest.create({
+            data: {
+                companyId: config.companyId,
+                stateHash: hashToken(state),
+                nonce,
+                codeVerifier,
+                redirectUri: this.redirectUri,
+                ipAddress: context.ipAddress,
+                userAgent: context.userAgent,
+                expiresAt,
+            },
+        });
+
+        return {
+            authorizationUrl: buildAuthorizationUrl(discovery, {
+                clientId: config.clientId,
+                redirectUri: this.redirectUri,
+                state,
+                nonce,
+                codeChallenge,
+                loginHint: dto.email,
+            }),
+            expiresAt,
+        };
+    }
+
+    async callback(dto: SsoCallbackDto, context: SessionContext) {
+        const request = await this.prisma.ssoLoginRequest.findUnique({
+            where: { stateHash: hashToken(dto.state) },
+            include: { company: { include: { ssoConfiguration: true } } },
+        });
+
+        if (!request || request.usedAt || request.expiresAt <= new Date()) {
+            throw new BadRequestException('Invalid or expired sign-in request. Please start again.');
+        }
+
+        // Single use, even if the code exchange below fails
+        const { count } = await this.prisma.ssoLoginRequest.updateMany({
+            where: { id: request.id, usedAt: null },
+            data: { usedAt: new Date() },
+        });
+        if (count === 0) {
+            throw new BadRequestException('Invalid or expired sign-in request. Please start again.');
+        }
+
+        const config = request.company.ssoConfiguration;
+        if (!config?.enabled) {
+            throw new ForbiddenException('Single sign-on is not enabled for this company');
+        }
+
+        let claims: OidcClaims;
+        try {
+            const discovery = await discoverIssuer(config.issuer, this.providerUrlPolicy);
+            const idToken = await exchangeAuthorizationCode(discovery, {
+                clientId: config.clientId,
+                clientSecret: config.clientSecret,
+                code: dto.code,
+                redirectUri: request.redirectUri,
+                codeVerifier: request.codeVerifier,
+            });
+            claims = await verifyIdToken(idToken, { discovery, clientId: config.clientId, nonce: request.nonce });
+        } catch (error) {
+            console.error('SSO sign-in failed:', error);
+            throw new UnauthorizedException('Sign-in with your identity provider failed');
+        }
+
+        const user = await this.resolveUser(config, claims);
+        // Signs in to the company of the identity provider, which may not be the user's home company
+        const membership = await this.membershipsService.findMembership(user.id, config.companyId);
+
+        if (!membership?.isActive) {
+            throw new UnauthorizedException('Account is inactive');
+        }
+
+        if (!membership.company.isActive) {
+            throw new UnauthorizedException('Company account is inactive');
+        }
+
+        // The identity provider is responsible for MFA, so the TOTP challenge is not applied here
+        return this.authService.buildLoginResponse(withMembership(user, membership), {
+            ...context,
+            ipAddress: context.ipAddress ?? request.ipAddress ?? undefined,
+            userAgent: context.userAgent ?? request.userAgent ?? undefined,
+        });
+    }
+
+    // ============================================
+    // HELPERS
+    // ============================================
+
+    /**
+     * Matches by provider subject first, then links an existing account by email, otherwise provisions a new user
+     */
+    private async resolveUser(config: SsoConfiguration, claims: OidcClaims) {
+        const linked = await this.prisma.user.findUnique({
+            where: { companyId_ssoSubject: { companyId: config.companyId, ssoSubject: claims.sub } },
+            include: { company: true },
+            omit: { password: true },
+        });
+        if (linked) {
+            return linked;
+        }
+
+        const email = claims.email?.trim().toLowerCase();
+        if (!email || claims.email_verified === false) {
+            throw new UnauthorizedException('Your identity provider did not return a verified email address');
+        }
+
+        // An unverified domain could otherwise link or create accounts for addresses the company doesn't own
+        const domain = email.split('@')[1];
+        if (!config.verifiedDomains.includes(domain)) {
+            throw new ForbiddenException(`Email domain ${domain} is not verified for this company`);
+        }
+
+        const existing = await this.prisma.user.findFirst({
+            where: { email: { equals: email, mode: 'insensitive' } },
+            include: { company: true },
+            omit: { password: true },
+        });
+
+        if (existing) {
+            if (existing.companyId !== config.companyId) {
+                // Members from another company sign in by verified email; the subject link belongs to the home company
+                const membership = await this.membershipsService.findMembership(existing.id, config.companyId);
+                if (!membership) {
+                    throw new ForbiddenException('This email is registered with another company');
+                }
+                return existing;
+            }
+            if (existing.ssoSubject) {
+                throw new ConflictException('This account is already linked to a different identity');
+            }
+
+            return this.prisma.user.update({
+                where: { id: existing.id },
+                data: {
+                    ssoSubject: claims.sub,
+                    // The provider vouched for the address
+                    emailVerifiedAt: existing.emailVerifiedAt ?? new Date(),
+                },
+                include: { company: true },
+                omit: { password: true },
+            });
+        }
+
+        await this.plansService.assertSeatAvailable(config.companyId);
+
+        const [firstName, ...rest] = (claims.name ?? '').trim().split(/\s+/);
+
+        return this.prisma.user.create({
+            data: {
+                email,
+                // Random, never disclosed: SSO users sign in through the provider (or reset a password later)
+                password: await bcrypt.hash(generateToken(), 10),
+                firstName: claims.given_name || firstName || email.split('@')[0],
+                lastName: claims.family_name || rest.join(' '),
+                role: config.defaultRole,
+                companyId: config.companyId,
+                ssoSubject: claims.sub,
+                isActive: true,
+                emailVerifiedAt: new Date(),
+            },
+            include: { company: true },
+            omit: { password: true },
+        });
+    }
+
+    private async findConfigForEmail(email: string) {
+        const domain = email.trim().toLowerCase().split('@')[1];
+
+        return this.prisma.ssoConfiguration.findFirst({
+            where: { enabled: true, verifiedDomains: { has: domain } },
+        });
+    }
+
+    private async loadDiscovery(issuer: string, ErrorType: new (message: string) => Error = ServiceUnavailableException) {
+        try {
+            return await discoverIssuer(issuer, this.providerUrlPolicy);
+        } catch (error) {
+            // Details stay in the log: echoing hosts and statuses would let admins probe the network from this server
+            console.error('Could not load the identity provider configuration:', error);
+            throw new ErrorType('Could not load the identity provider configuration. Check the issuer URL.');
+        }
+    }
+
+    private toResponse(config: SsoConfiguration) {
+        const { clientSecret, domainVerificationToken, ...rest } = config;
+
+        return {
+            ...rest,
+            hasClientSecret: !!clientSecret,
+            // TXT records to publish; domains only route sign-ins once verified
+            domainVerification: config.allowedDomains.map((domain) => ({
+                ...getVerificationRecord(domain, domainVerificationToken),
+                verified: config.verifiedDomains.includes(domain),
+            })),
+        };
+    }
+}
@@ -4,12 +4,18 @@ import { PassportStrategy } from '@nestjs/passport';
 import { ExtractJwt, Strategy } from 'passport-jwt';
 import { ConfigService } from '@nestjs/config';
 import { PrismaService } from '../../../prisma/prisma.service';
+import { JwtPayload } from '../interfaces/jwt-payload.interface';
+import { SessionsService } from '../sessions.service';
+import { MembershipsService } from '../../memberships/memberships.service';
+import { withMembership } from '../../memberships/membership.util';
 
 @Injectable()
 export class JwtStrategy extends PassportStrategy(Strategy) {
     constructor(
         private configService: ConfigService,
         private prisma: PrismaService,
+        private sessionsService: SessionsService,
+        private membershipsService: MembershipsService,
     ) {
         super({
             jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
@@ -18,7 +24,11 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
         });
     }
 
-    async validate(payload: any) {
+    async validate(payload: JwtPayload) {
+        if (!payload.sid || !(await this.sessionsService.isSessionActive(payload.sid, payload.sub))) {
+            throw new UnauthorizedException('Session expired. Please log in again.');
+        }
+
         const user = await this.prisma.user.findUnique({
             where: { id: payload.sub },
             include: {
@@ -31,6 +41,41 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
             throw new UnauthorizedException();
         }
 
-        return user;
+        // Reject tokens issued before the last password reset
+        if (user.passwordChangedAt && payload.iat && payload.iat < Math.floor(user.passwordChangedAt.getTime() / 1000)) {
+            throw new UnauthorizedException('Session expired. Please log in again.');
+        }
+
+        // Support session: the acting admin is kept alongside the impersonated user
+        let impersonator: { id: string; email: string; role: string } | null = null;
+        if (payload.imp) {
+            impersonator = await this.prisma.user.findUnique({
+                where: { id: payload.imp },
+                select: { id: true, email: true, role: true },
+            });
+
+            if (!impersonator) {
+                throw new UnauthorizedException('Session expired. Please log in again.');
+            }
+        }
+
+        // Tokens for another company (company switcher) act with the role, department and status held there
+        let member = { ...user, homeCompanyId: user.companyId };
+        if (payload.companyId && payload.companyId !== user.companyId) {
+            const membership = await this.membershipsService.findMembership(user.id, payload.companyId);
+
+            if (!membership?.isActive) {
+                throw new UnauthorizedException('You are no longer a member of this company');
+            }
+
+            // Deactivating a company revokes its sessions; this also stops access tokens that are still valid
+            if (!membership.company.isActive) {
+                throw new UnauthorizedException('Company account is inactive');
+            }
+
+            member = withMembership(user, membership);
+        }
+
+        return { ...member, sessionId: payload.sid, impersonator };
     }
 }
\ No newline at end of file
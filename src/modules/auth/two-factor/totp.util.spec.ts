@@ -0,0 +1,50 @@
+import { base32Decode, base32Encode, buildOtpAuthUrl, findTotpStep, generateTotp, generateTotpSecret, verifyTotp } from './totp.util';
+
+// RFC 6238 Appendix B test vectors (SHA1), truncated to 6 digits
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+describe('totp.util', () => {
+    it('round-trips base32', () => {
+        const bytes = Buffer.from('merit-tracker');
+        expect(base32Decode(base32Encode(bytes))).toEqual(bytes);
+        expect(RFC_SECRET).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+    });
+
+    it.each([
+        [59, '287082'],
+        [1111111109, '081804'],
+        [1234567890, '005924'],
+        [2000000000, '279037'],
+    ])('generates the RFC 6238 code at T=%i', (seconds, expected) => {
+        expect(generateTotp(RFC_SECRET, seconds * 1000)).toBe(expected);
+    });
+
+    it('accepts one step of clock drift and rejects older codes', () => {
+        const now = 1234567890 * 1000;
+        const previous = generateTotp(RFC_SECRET, now - 30 * 1000);
+        const stale = generateTotp(RFC_SECRET, now - 90 * 1000);
+
+        expect(verifyTotp(RFC_SECRET, '005924', now)).toBe(true);
+        expect(verifyTotp(RFC_SECRET, previous, now)).toBe(true);
+        expect(verifyTotp(RFC_SECRET, stale, now)).toBe(false);
+        expect(verifyTotp(RFC_SECRET, 'abcdef', now)).toBe(false);
+    });
+
+    it('reports the time step a code belongs to', () => {
+        const now = 1234567890 * 1000;
+        const step = Math.floor(1234567890 / 30);
+
+        expect(findTotpStep(RFC_SECRET, '005924', now)).toBe(step);
+        expect(findTotpStep(RFC_SECRET, generateTotp(RFC_SECRET, now - 30 * 1000), now)).toBe(step - 1);
+        expect(findTotpStep(RFC_SECRET, generateTotp(RFC_SECRET, now - 90 * 1000), now)).toBeNull();
+    });
+
+    it('builds an otpauth URI with issuer and account', () => {
+        const secret = generateTotpSecret();
+        const url = buildOtpAuthUrl(secret, 'jane@acme.com', 'Merit Tracker');
+
+        expect(url.startsWith('otpauth://totp/Merit%20Tracker%3Ajane%40acme.com?')).toBe(true);
+        expect(url).toContain(`secret=${secret}`);
+        expect(url).toContain('issuer=Merit+Tracker');
+    });
+});
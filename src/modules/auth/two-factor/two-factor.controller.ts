@@ -0,0 +1,54 @@
+// src/modules/auth/two-factor/two-factor.controller.ts
+import { Controller, Get, Post, Body, UseGuards, HttpCode, HttpStatus } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../guards/jwt-auth.guard';
+import { CurrentUser, SkipSubscriptionCheck, BlockWhileImpersonating } from '../guards';
+import { TwoFactorService } from './two-factor.service';
+import { TwoFactorCodeDto } from '../dto/auth.dto';
+
+@ApiTags('two-factor')
+@Controller('two-factor')
+@UseGuards(JwtAuthGuard)
+@SkipSubscriptionCheck()
+@ApiBearerAuth()
+export class TwoFactorController {
+    constructor(private readonly twoFactorService: TwoFactorService) { }
+
+    @Get('status')
+    @ApiOperation({ summary: 'Get two-factor authentication status for the current user' })
+    async getStatus(@CurrentUser('id') userId: string) {
+        return this.twoFactorService.getStatus(userId);
+    }
+
+    @Post('setup')
+    @BlockWhileImpersonating()
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({ summary: 'Generate a new authenticator secret (confirm with /two-factor/enable)' })
+    async setup(@CurrentUser('id') userId: string) {
+        return this.twoFactorService.beginSetup(userId);
+    }
+
+    @Post('enable')
+    @BlockWhileImpersonating()
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({ summary: 'Confirm setup with a code from the authenticator app and get recovery codes' })
+    async enable(@CurrentUser('id') userId: string, @Body() dto: TwoFactorCodeDto) {
+        return this.twoFactorService.enable(userId, dto.code);
+    }
+
+    @Post('disable')
+    @BlockWhileImpersonating()
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({ summary: 'Disable two-factor authentication (not allowed when the company requires it)' })
+    async disable(@CurrentUser('id') userId: string, @Body() dto: TwoFactorCodeDto) {
+        return this.twoFactorService.disable(userId, dto.code);
+    }
+
+    @Post('recovery-codes')
+    @BlockWhileImpersonating()
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({ summary: 'Replace all recovery codes with a new set' })
+    async regenerateRecoveryCodes(@CurrentUser('id') userId: string, @Body() dto: TwoFactorCodeDto) {
+        return this.twoFactorService.regenerateRecoveryCodes(userId, dto.code);
+    }
+}
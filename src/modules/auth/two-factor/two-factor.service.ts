@@ -0,0 +1,357 @@
+// src/modules/auth/two-factor/two-factor.service.ts
+import { Injectable, BadRequestException, ForbiddenException, NotFoundException, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Company, Prisma, SessionDeviceType, User, UserRole } from '@prisma/client';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { OneTimeCodeType } from '../interfaces/one-time-code.interface';
+import { SessionContext } from '../sessions.service';
+import { generateToken, hashToken } from '../utils/token.util';
+import { buildOtpAuthUrl, findTotpStep, generateTotpSecret } from './totp.util';
+
+const CHALLENGE_TTL_MS = 5 * 60 * 1000; // 5 minutes
+const MAX_CHALLENGE_ATTEMPTS = 5;
+const RECOVERY_CODE_COUNT = 10;
+
+// Roles a company can force into two-factor authentication
+const ENFORCEABLE_ROLES: UserRole[] = [UserRole.COMPANY, UserRole.QC_ADMIN];
+
+type TwoFactorUser = Pick<User, 'id' | 'role' | 'companyId' | 'twoFactorEnabled'> & {
+    company: Pick<Company, 'requireTwoFactorForAdmins'>;
+};
+
+interface ChallengeMetadata {
+    setup: boolean;
+    // Company the password login resolved; the session is created there
+    companyId?: string;
+    attempts: number;
+    deviceType?: SessionDeviceType;
+    deviceName?: string;
+}
+
+@Injectable()
+export class TwoFactorService {
+    private readonly issuer: string;
+
+    constructor(
+        private prisma: PrismaService,
+        private configService: ConfigService,
+    ) {
+        this.issuer = this.configService.get<string>('TWO_FACTOR_ISSUER', 'Merit Tracker');
+    }
+
+    // ============================================
+    // POLICY
+    // ============================================
+    isRequiredFor(user: TwoFactorUser): boolean {
+        return user.company.requireTwoFactorForAdmins && ENFORCEABLE_ROLES.includes(user.role);
+    }
+
+    /**
+     * A password alone is not enough when 2FA is enabled, or when the company requires it
+     * (in which case the challenge walks the user through enrollment first).
+     */
+    isChallengeRequired(user: TwoFactorUser): boolean {
+        return user.twoFactorEnabled || this.isRequiredFor(user);
+    }
+
+    async getStatus(userId: string) {
+        const user = await this.findUser(userId);
+
+        return {
+            enabled: user.twoFactorEnabled,
+            enabledAt: user.twoFactorEnabledAt,
+            required: this.isRequiredFor(user),
+            recoveryCodesRemaining: user.twoFactorRecoveryCodes.length,
+        };
+    }
+
+    // ============================================
+    // ENROLLMENT (authenticated)
+    // ============================================
+    async beginSetup(userId: string) {
+        const user = await this.findUser(userId);
+
+        if (user.twoFactorEnabled) {
+            throw new BadRequestException('Two-factor authentication is already enabled');
+        }
+
+        return this.issuePendingSecret(user);
+    }
+
+    async enable(userId: string, code: string) {
+        const user = await this.findUser(userId);
+
+        if (user.twoFactorEnabled) {
+            throw new BadRequestException('Two-factor authentication is already enabled');
+        }
+
+        return this.confirmEnrollment(user, code);
+    }
+
+    async disable(userId: string, code: string) {
+        const user = await this.findUser(userId);
+
+        if (!user.twoFactorEnabled) {
+            throw new BadRequestException('Two-factor authentication is not enabled');
+        }
+
+        if (this.isRequiredFor(user)) {
+            throw new ForbiddenException('Your company requires two-factor authentication for your role');
+        }
+
+        if (!(await this.verifyCode(user, code))) {
+            throw new UnauthorizedException('Invalid authentication code');
+        }
+
+        await this.prisma.user.update({
+            where: { id: userId },
+            data: {
+                twoFactorEnabled: false,
+                twoFactorSecret: null,
+                twoFactorRecoveryCodes: [],
+                twoFactorEnabledAt: null,
+                twoFactorLastUsedStep: null,
+            },
+        });
+
+        return { success: true, message: 'Two-factor authentication disabled' };
+    }
+
+    async regenerateRecoveryCodes(userId: string, code: string) {
+        const user = await this.findUser(userId);
+
+        if (!user.twoFactorEnabled || !(await this.acceptTotp(user, code))) {
+            throw new UnauthorizedException('Invalid authentication code');
+        }
+
+        const recoveryCodes = await this.replaceRecoveryCodes(userId);
+        return { recoveryCodes };
+    }
+
+    // ============================================
+    // LOGIN CHALLENGE
+    // ============================================
+    async createChallenge(user: TwoFactorUser, context: SessionContext = {}) {
+        const token = generateToken();
+        const expiresAt = new Date(Date.now() + CHALLENGE_TTL_MS);
+        const metadata: ChallengeMetadata = {
+            setup: !user.twoFactorEnabled,
+            companyId: user.companyId,
+            attempts: 0,
+            deviceType: context.deviceType,
+            deviceName: context.deviceName,
+        };
+
+        await this.prisma.oneTimeCode.create({
+            data: {
+                code: hashToken(token),
+                userId: user.id,
+                type: OneTimeCodeType.TWO_FACTOR_CHALLENGE,
+                expiresAt,
+                metadata: metadata as unknown as Prisma.InputJsonObject,
+            },
+        });
+
+        return {
+            requiresTwoFactor: true,
+            setupRequired: metadata.setup,
+            challengeToken: token,
+            expiresAt,
+        };
+    }
+
+    /**
+     * Enrollment for users whose company requires 2FA but who have not set it up yet.
+     * They have no access token, so the login challenge authorizes the setup.
+     */
+    async beginSetupForChallenge(challengeToken: string) {
+        const { challenge, metadata } = await this.findChallenge(challengeToken);
+
+        if (!metadata.setup) {
+            throw new BadRequestException('Two-factor authentication is already enabled');
+        }
+
+        return this.issuePendingSecret(await this.findUser(challenge.userId));
+    }
+
+    /**
+     * Verify the code for a login challenge. Returns the user to sign in, the company and device the
+     * challenge was started from and, when the challenge completed enrollment, the new recovery codes.
+     */
+    async completeChallenge(challengeToken: string, code: string) {
+        const { challenge, metadata } = await this.findChallenge(challengeToken);
+        const user = await this.findUser(challenge.userId);
+
+        let recoveryCodes: string[] | undefined;
+        let isValid: boolean;
+
+        if (metadata.setup) {
+            isValid = await this.acceptTotp(user, code);
+            if (isValid) {
+                recoveryCodes = await this.activate(user.id);
+            }
+        } else {
+            isValid = await this.verifyCode(user, code);
+        }
+
+        if (!isValid) {
+            const attempts = metadata.attempts + 1;
+            await this.prisma.oneTimeCode.update({
+                where: { id: challenge.id },
+                data: {
+                    metadata: { ...metadata, attempts } as unknown as Prisma.InputJsonObject,
+                    // Too many wrong codes burns the challenge; the user has to enter the password again
+                    ...(attempts >= MAX_CHALLENGE_ATTEMPTS && { usedAt: new Date() }),
+                },
+            });
+            throw new UnauthorizedException('Invalid authentication code');
+        }
+
+        await this.prisma.oneTimeCode.update({
+            where: { id: challenge.id },
+            data: { usedAt: new Date() },
+        });
+
+        const context: SessionContext = {
+            deviceType: metadata.deviceType,
+            deviceName: metadata.deviceName,
+        };
+
+        return { user, companyId: metadata.companyId, context, recoveryCodes };
+    }
+
+    // ============================================
+    // HELPERS
+    // ============================================
+    private async findUser(userId: string) {
+        const user = await this.prisma.user.findUnique({
+            where: { id: userId },
+            include: { company: true },
+        });
+
+        if (!user) {
+            throw new NotFoundException('User not found');
+        }
+
+        return user;
+    }
+
+    private async findChallenge(challengeToken: string) {
+        const challenge = await this.prisma.oneTimeCode.findFirst({
+            where: {
+                code: hashToken(challengeToken),
+                type: OneTimeCodeType.TWO_FACTOR_CHALLENGE,
+                usedAt: null,
+                expiresAt: { gt: new Date() },
+            },
+        });
+
+        if (!challenge) {
+            throw new UnauthorizedException('Login challenge is invalid or has expired. Please log in again.');
+        }
+
+        return { challenge, metadata: challenge.metadata as unknown as ChallengeMetadata };
+    }
+
+    private async issuePendingSecret(user: Pick<User, 'id' | 'email'>) {
+        const secret = generateTotpSecret();
+
+        await this.prisma.user.update({
+            where: { id: user.id },
+            data: { twoFactorSecret: secret },
+        });
+
+        return {
+            secret,
+            otpauthUrl: buildOtpAuthUrl(secret, user.email, this.issuer),
+        };
+    }
+
+    private async confirmEnrollment(user: Pick<User, 'id' | 'twoFactorSecret'>, code: string) {
+        if (!user.twoFactorSecret) {
+            throw new BadRequestException('Start two-factor setup first');
+        }
+
+        if (!(await this.acceptTotp(user, code))) {
+            throw new UnauthorizedException('Invalid authentication code');
+        }
+
+        const recoveryCodes = await this.activate(user.id);
+
+        return {
+            success: true,
+            message: 'Two-factor authentication enabled. Store your recovery codes somewhere safe.',
+            recoveryCodes,
+        };
+    }
+
+    private async activate(userId: string): Promise<string[]> {
+        await this.prisma.user.update({
+            where: { id: userId },
+            data: {
+                twoFactorEnabled: true,
+                twoFactorEnabledAt: new Date(),
+            },
+        });
+
+        return this.replaceRecoveryCodes(userId);
+    }
+
+    /**
+     * Accepts a TOTP code once: its time step is stored, and codes from that step or earlier are refused.
+     * The conditional update also stops two requests racing with the same code.
+     */
+    private async acceptTotp(user: Pick<User, 'id' | 'twoFactorSecret'>, code: string): Promise<boolean> {
+        const step = user.twoFactorSecret ? findTotpStep(user.twoFactorSecret, code) : null;
+        if (step === null) {
+            return false;
+        }
+
+        const { count } = await this.prisma.user.updateMany({
+            where: {
+                id: user.id,
+                OR: [{ twoFactorLastUsedStep: null }, { twoFactorLastUsedStep: { lt: step } }],
+            },
+            data: { twoFactorLastUsedStep: step },
+        });
+
+        return count > 0;
+    }
+
+    /**
+     * Accepts a current TOTP code or an unused recovery code (which is then consumed)
+     */
+    private async verifyCode(user: Pick<User, 'id' | 'twoFactorSecret' | 'twoFactorRecoveryCodes'>, code: string): Promise<boolean> {
+        if (await this.acceptTotp(user, code)) {
+            return true;
+        }
+
+        const hashed = hashToken(code.trim().toLowerCase());
+        if (!user.twoFactorRecoveryCodes.includes(hashed)) {
+            return false;
+        }
+
+        await this.prisma.user.update({
+            where: { id: user.id },
+            data: {
+                twoFactorRecoveryCodes: user.twoFactorRecoveryCodes.filter((c) => c !== hashed),
+            },
+        });
+
+        return true;
+    }
+
+    private async replaceRecoveryCodes(userId: string): Promise<string[]> {
+        const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+            const raw = generateToken(5);
+            return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+        });
+
+        await this.prisma.user.update({
+            where: { id: userId },
+            data: { twoFactorRecoveryCodes: codes.map((c) => hashToken(c)) },
+        });
+
+        return codes;
+    }
+}
@@ -0,0 +1,32 @@
+import {
+    ACCOUNT_LOCK_THRESHOLD, MAX_PROGRESSIVE_DELAY_SECONDS, getRemainingDelayMs, getRequiredDelaySeconds, shouldLockAccount,
+} from './login-throttle.util';
+
+describe('login-throttle.util', () => {
+    const now = new Date('2026-10-19T12:00:00Z').getTime();
+
+    it('allows the first failures without a delay', () => {
+        expect(getRequiredDelaySeconds(0)).toBe(0);
+        expect(getRequiredDelaySeconds(2)).toBe(0);
+    });
+
+    it('doubles the delay from the third failure and caps it', () => {
+        expect(getRequiredDelaySeconds(3)).toBe(1);
+        expect(getRequiredDelaySeconds(4)).toBe(2);
+        expect(getRequiredDelaySeconds(6)).toBe(8);
+        expect(getRequiredDelaySeconds(20)).toBe(MAX_PROGRESSIVE_DELAY_SECONDS);
+    });
+
+    it('counts the remaining delay from the last failure', () => {
+        expect(getRemainingDelayMs(4, new Date(now - 500), now)).toBe(1500);
+        expect(getRemainingDelayMs(4, new Date(now - 2000), now)).toBe(0);
+        expect(getRemainingDelayMs(4, null, now)).toBe(0);
+        expect(getRemainingDelayMs(1, new Date(now), now)).toBe(0);
+    });
+
+    it('locks the account at the threshold', () => {
+        expect(shouldLockAccount(ACCOUNT_LOCK_THRESHOLD - 1)).toBe(false);
+        expect(shouldLockAccount(ACCOUNT_LOCK_THRESHOLD)).toBe(true);
+        expect(shouldLockAccount(ACCOUNT_LOCK_THRESHOLD + 3)).toBe(true);
+    });
+});
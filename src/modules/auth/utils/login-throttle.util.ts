@@ -0,0 +1,32 @@
+// src/modules/auth/utils/login-throttle.util.ts
+
+export const PROGRESSIVE_DELAY_AFTER = 3; // Failures allowed before attempts are spaced out
+export const MAX_PROGRESSIVE_DELAY_SECONDS = 60;
+export const ACCOUNT_LOCK_THRESHOLD = 10;
+
+/**
+ * 1s after the 3rd failure, then 2s, 4s, 8s... capped at a minute
+ */
+export function getRequiredDelaySeconds(failedAttempts: number): number {
+    if (failedAttempts < PROGRESSIVE_DELAY_AFTER) {
+        return 0;
+    }
+
+    return Math.min(2 ** (failedAttempts - PROGRESSIVE_DELAY_AFTER), MAX_PROGRESSIVE_DELAY_SECONDS);
+}
+
+/**
+ * Milliseconds the account still has to wait before the next attempt; 0 when it may try now
+ */
+export function getRemainingDelayMs(failedAttempts: number, lastFailedLoginAt: Date | null, now: number): number {
+    const delaySeconds = getRequiredDelaySeconds(failedAttempts);
+    if (delaySeconds === 0 || !lastFailedLoginAt) {
+        return 0;
+    }
+
+    return Math.max(lastFailedLoginAt.getTime() + delaySeconds * 1000 - now, 0);
+}
+
+export function shouldLockAccount(failedAttempts: number): boolean {
+    return failedAttempts >= ACCOUNT_LOCK_THRESHOLD;
+}
@@ -0,0 +1,55 @@
+import { SubscriptionStatus } from '@prisma/client';
+import { DunningNotice, SubscriptionAccessState, getDunningNotice, getSubscriptionAccess, parseGraceDays } from './subscription-access.util';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('subscription-access.util', () => {
+    const now = new Date('2026-10-19T12:00:00Z');
+    const daysAgo = (days: number) => new Date(now.getTime() - days * DAY_MS);
+    const company = (subscriptionStatus: SubscriptionStatus, dates: { trialEndsAt?: Date; subscriptionEndsAt?: Date } = {}) => ({
+        subscriptionStatus,
+        trialEndsAt: dates.trialEndsAt ?? null,
+        subscriptionEndsAt: dates.subscriptionEndsAt ?? null,
+    });
+
+    it('keeps full access while the trial or paid period runs', () => {
+        expect(getSubscriptionAccess(company(SubscriptionStatus.TRIAL, { trialEndsAt: daysAgo(-3) }), 7, now).state)
+            .toBe(SubscriptionAccessState.ACTIVE);
+        expect(getSubscriptionAccess(company(SubscriptionStatus.ACTIVE), 7, now).state).toBe(SubscriptionAccessState.ACTIVE);
+    });
+
+    it('counts the grace period from the lapse date', () => {
+        const access = getSubscriptionAccess(company(SubscriptionStatus.ACTIVE, { subscriptionEndsAt: daysAgo(2) }), 7, now);
+
+        expect(access.state).toBe(SubscriptionAccessState.GRACE);
+        expect(access.graceEndsAt).toEqual(daysAgo(-5));
+        expect(getSubscriptionAccess(company(SubscriptionStatus.EXPIRED, { trialEndsAt: daysAgo(8) }), 7, now).state)
+            .toBe(SubscriptionAccessState.READ_ONLY);
+    });
+
+    it('goes read-only without a grace period when cancelled or undated', () => {
+        expect(getSubscriptionAccess(company(SubscriptionStatus.CANCELLED, { subscriptionEndsAt: now }), 7, now).state)
+            .toBe(SubscriptionAccessState.READ_ONLY);
+        expect(getSubscriptionAccess(company(SubscriptionStatus.EXPIRED), 7, now).state).toBe(SubscriptionAccessState.READ_ONLY);
+        expect(getSubscriptionAccess(company(SubscriptionStatus.TRIAL, { trialEndsAt: daysAgo(1) }), 0, now).state)
+            .toBe(SubscriptionAccessState.READ_ONLY);
+    });
+
+    it('escalates dunning notices over the grace period', () => {
+        const notices = Array.from({ length: 9 }, (_, day) => getDunningNotice(day, 7));
+
+        expect(notices).toEqual([
+            DunningNotice.LAPSED, null, null, DunningNotice.REMINDER, null, null, DunningNotice.FINAL, DunningNotice.READ_ONLY, null,
+        ]);
+        expect(getDunningNotice(0, 1)).toBe(DunningNotice.FINAL);
+        expect(getDunningNotice(0, 0)).toBe(DunningNotice.READ_ONLY);
+    });
+
+    it('falls back to the default grace period for invalid settings', () => {
+        expect(parseGraceDays('14')).toBe(14);
+        expect(parseGraceDays('0')).toBe(0);
+        expect(parseGraceDays(undefined)).toBe(7);
+        expect(parseGraceDays('-1')).toBe(7);
+        expect(parseGraceDays('soon')).toBe(7);
+    });
+});
@@ -0,0 +1,101 @@
+// src/modules/auth/utils/subscription-access.util.ts
+import { SubscriptionStatus } from '@prisma/client';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_SUBSCRIPTION_GRACE_DAYS = 7;
+
+export enum SubscriptionAccessState {
+    ACTIVE = 'active',
+    GRACE = 'grace',
+    READ_ONLY = 'read_only',
+}
+
+export enum DunningNotice {
+    LAPSED = 'lapsed',
+    REMINDER = 'reminder',
+    FINAL = 'final',
+    READ_ONLY = 'read_only',
+}
+
+export interface SubscriptionAccess {
+    state: SubscriptionAccessState;
+    lapsedAt: Date | null;
+    graceEndsAt: Date | null;
+}
+
+interface CompanySubscription {
+    subscriptionStatus: SubscriptionStatus;
+    trialEndsAt: Date | null;
+    subscriptionEndsAt: Date | null;
+}
+
+/**
+ * Reads SUBSCRIPTION_GRACE_DAYS, falling back to the default for missing or invalid values
+ */
+export function parseGraceDays(value: string | number | undefined): number {
+    const days = Number(value);
+    return value !== undefined && value !== '' && Number.isInteger(days) && days >= 0 ? days : DEFAULT_SUBSCRIPTION_GRACE_DAYS;
+}
+
+/**
+ * Full access until the trial or paid period ends, then a grace period, then read-only.
+ * Cancelled subscriptions go read-only straight away.
+ */
+export function getSubscriptionAccess(company: CompanySubscription, graceDays: number, now: Date = new Date()): SubscriptionAccess {
+    if (company.subscriptionStatus === SubscriptionStatus.CANCELLED) {
+        return { state: SubscriptionAccessState.READ_ONLY, lapsedAt: company.subscriptionEndsAt, graceEndsAt: null };
+    }
+
+    const lapsedAt = getLapseDate(company, now);
+
+    if (company.subscriptionStatus !== SubscriptionStatus.EXPIRED && !lapsedAt) {
+        return { state: SubscriptionAccessState.ACTIVE, lapsedAt: null, graceEndsAt: null };
+    }
+
+    // Expired without any end date on record: nothing to count the grace period from
+    if (!lapsedAt) {
+        return { state: SubscriptionAccessState.READ_ONLY, lapsedAt: null, graceEndsAt: null };
+    }
+
+    const graceEndsAt = new Date(lapsedAt.getTime() + graceDays * DAY_MS);
+
+    return {
+        state: graceEndsAt > now ? SubscriptionAccessState.GRACE : SubscriptionAccessState.READ_ONLY,
+        lapsedAt,
+        graceEndsAt,
+    };
+}
+
+/**
+ * Which dunning email is due on a given day after the lapse; the daily job sends at most one per day.
+ * Later notices win when the grace period is too short to fit them all.
+ */
+export function getDunningNotice(daysSinceLapse: number, graceDays: number): DunningNotice | null {
+    if (daysSinceLapse === graceDays) {
+        return DunningNotice.READ_ONLY;
+    }
+    if (daysSinceLapse === graceDays - 1) {
+        return DunningNotice.FINAL;
+    }
+    if (daysSinceLapse === 0) {
+        return DunningNotice.LAPSED;
+    }
+    if (daysSinceLapse === Math.floor(graceDays / 2)) {
+        return DunningNotice.REMINDER;
+    }
+    return null;
+}
+
+function getLapseDate(company: CompanySubscription, now: Date): Date | null {
+    switch (company.subscriptionStatus) {
+        case SubscriptionStatus.TRIAL:
+            return company.trialEndsAt && company.trialEndsAt < now ? company.trialEndsAt : null;
+        case SubscriptionStatus.ACTIVE:
+            return company.subscriptionEndsAt && company.subscriptionEndsAt < now ? company.subscriptionEndsAt : null;
+        case SubscriptionStatus.EXPIRED:
+            return company.subscriptionEndsAt ?? company.trialEndsAt;
+        default:
+            return null;
+    }
+}
@@ -0,0 +1,16 @@
+// src/modules/auth/utils/token.util.ts
+import * as crypto from 'crypto';
+
+/**
+ * Random hex token for links and refresh tokens. Only its hash is persisted.
+ */
+export function generateToken(bytes: number = 32): string {
+    return crypto.randomBytes(bytes).toString('hex');
+}
+
+/**
+ * SHA-256 digest used to store and look up tokens
+ */
+export function hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+}
@@ -0,0 +1,41 @@
+import { BillingEventType } from './billing.constants';
+import { BILLING_SIGNATURE_HEADER, signBillingPayload, verifyBillingSignature } from './billing-signature.util';
+import { FakeBillingProvider } from './fake-billing-provider';
+
+describe('billing webhook signatures', () => {
+    const secret = 'whsec_test';
+    const provider = new FakeBillingProvider(secret);
+
+    it('accepts requests signed by the provider', () => {
+        const { body, headers } = provider.createEvent(BillingEventType.PAYMENT_SUCCEEDED, { companyId: 'company-1' });
+
+        expect(verifyBillingSignature(body, headers[BILLING_SIGNATURE_HEADER], secret)).toBe(true);
+        expect(verifyBillingSignature(Buffer.from(body), headers[BILLING_SIGNATURE_HEADER], secret)).toBe(true);
+    });
+
+    it('rejects a tampered body, a wrong secret or a missing header', () => {
+        const { body, headers } = provider.createEvent(BillingEventType.SUBSCRIPTION_CANCELLED, { companyId: 'company-1' });
+        const signature = headers[BILLING_SIGNATURE_HEADER];
+
+        expect(verifyBillingSignature(body.replace('company-1', 'company-2'), signature, secret)).toBe(false);
+        expect(verifyBillingSignature(body, signature, 'another-secret')).toBe(false);
+        expect(verifyBillingSignature(body, undefined, secret)).toBe(false);
+        expect(verifyBillingSignature(body, 't=abc,v1=00', secret)).toBe(false);
+    });
+
+    it('rejects signatures outside the replay window', () => {
+        const signedAt = 1_700_000_000;
+        const signature = signBillingPayload('{}', secret, signedAt);
+
+        expect(verifyBillingSignature('{}', signature, secret, 300, signedAt + 299)).toBe(true);
+        expect(verifyBillingSignature('{}', signature, secret, 300, signedAt + 301)).toBe(false);
+    });
+
+    it('keeps the event id when replaying', () => {
+        const first = provider.createEvent(BillingEventType.PAYMENT_FAILED, { customerId: 'cus_1' });
+        const replay = provider.sign(first.event);
+
+        expect(replay.event.id).toBe(first.event.id);
+        expect(replay.body).toBe(first.body);
+    });
+});
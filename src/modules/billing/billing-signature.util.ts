@@ -0,0 +1,51 @@
+// src/modules/billing/billing-signature.util.ts
+import * as crypto from 'crypto';
+
+export const BILLING_SIGNATURE_HEADER = 'x-billing-signature';
+
+// Rejects replays of captured requests outside this window
+const DEFAULT_TOLERANCE_SECONDS = 5 * 60;
+
+/**
+ * Builds the signature header value: `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<raw body>">`
+ */
+export function signBillingPayload(payload: string | Buffer, secret: string, timestamp = Math.floor(Date.now() / 1000)): string {
+    const signature = crypto
+        .createHmac('sha256', secret)
+        .update(`${timestamp}.`)
+        .update(payload)
+        .digest('hex');
+
+    return `t=${timestamp},v1=${signature}`;
+}
+
+export function verifyBillingSignature(
+    payload: string | Buffer,
+    header: string | undefined,
+    secret: string,
+    toleranceSeconds = DEFAULT_TOLERANCE_SECONDS,
+    now = Math.floor(Date.now() / 1000),
+): boolean {
+    if (!header) {
+        return false;
+    }
+
+    const parts = new Map(
+        header.split(',').map((part) => {
+            const [key, ...value] = part.trim().split('=');
+            return [key, value.join('=')] as const;
+        }),
+    );
+    const timestamp = Number(parts.get('t'));
+    const received = parts.get('v1');
+
+    if (!Number.isInteger(timestamp) || !received || Math.abs(now - timestamp) > toleranceSeconds) {
+        return false;
+    }
+
+    const expected = signBillingPayload(payload, secret, timestamp).split('v1=')[1];
+    const expectedBuffer = Buffer.from(expected, 'hex');
+    const receivedBuffer = Buffer.from(received, 'hex');
+
+    return expectedBuffer.length === receivedBuffer.length && crypto.timingSafeEqual(expectedBuffer, receivedBuffer);
+}
@@ -0,0 +1,29 @@
+// src/modules/billing/billing.constants.ts
+import { SubscriptionPlan } from '@prisma/client';
+
+export enum BillingEventType {
+    PAYMENT_SUCCEEDED = 'payment.succeeded',
+    PAYMENT_FAILED = 'payment.failed',
+    SUBSCRIPTION_RENEWED = 'subscription.renewed',
+    SUBSCRIPTION_CANCELLED = 'subscription.cancelled',
+}
+
+/**
+ * Webhook body sent by the billing provider. The company is identified by `companyId`
+ * (set as checkout metadata) or by the provider's `customerId` once it has been linked.
+ */
+export interface BillingWebhookEvent {
+    id: string;
+    type: string;
+    createdAt?: string;
+    data: {
+        companyId?: string;
+        customerId?: string;
+        plan?: SubscriptionPlan;
+        // ISO date the paid period ends (renewals) or access ends (cancellations)
+        periodEnd?: string;
+        amount?: number;
+        currency?: string;
+        reason?: string;
+    };
+}
@@ -0,0 +1,22 @@
+// src/modules/billing/billing.controller.ts
+import { Controller, Post, Headers, HttpCode } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiHeader } from '@nestjs/swagger';
+import { BillingService } from './billing.service';
+import { SkipSubscriptionCheck } from '../auth/guards';
+import { BILLING_SIGNATURE_HEADER } from './billing-signature.util';
+import { RawBody } from './decorators/raw-body.decorator';
+
+@ApiTags('billing')
+@Controller('billing')
+export class BillingController {
+    constructor(private readonly billingService: BillingService) { }
+
+    @Post('webhook')
+    @HttpCode(200)
+    @SkipSubscriptionCheck()
+    @ApiHeader({ name: BILLING_SIGNATURE_HEADER, description: 't=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<raw body>">' })
+    @ApiOperation({ summary: 'Receive a signed event from the billing provider' })
+    async handleWebhook(@RawBody() rawBody: Buffer | undefined, @Headers(BILLING_SIGNATURE_HEADER) signature?: string) {
+        return this.billingService.handleWebhook(rawBody, signature);
+    }
+}
@@ -0,0 +1,16 @@
+// src/modules/billing/billing.module.ts
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { BillingController } from './billing.controller';
+import { BillingService } from './billing.service';
+import { SubscriptionNoticesService } from './subscription-notices.service';
+import { PrismaModule } from '../../prisma/prisma.module';
+import { EmailModule } from '../email/email.module';
+
+@Module({
+    imports: [PrismaModule, ConfigModule, EmailModule],
+    controllers: [BillingController],
+    providers: [BillingService, SubscriptionNoticesService],
+    exports: [SubscriptionNoticesService],
+})
+export class BillingModule { }
@@ -0,0 +1,261 @@
+// src/modules/billing/billing.service.ts
+import { Injectable, BadRequestException, ServiceUnavailableException, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { BillingEvent, BillingEventStatus, Company, Prisma, SubscriptionPlan, SubscriptionStatus } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { EmailService } from '../email/email.service';
+import { BillingEventType, BillingWebhookEvent } from './billing.constants';
+import { verifyBillingSignature } from './billing-signature.util';
+import { SubscriptionNoticesService } from './subscription-notices.service';
+
+type EventOutcome = { status: BillingEventStatus; companyId?: string; error?: string };
+
+// A delivery still RECEIVED after this long crashed mid-processing and may be processed again
+const STALE_PROCESSING_MS = 5 * 60 * 1000;
+
+@Injectable()
+export class BillingService {
+    constructor(
+        private prisma: PrismaService,
+        private configService: ConfigService,
+        private emailService: EmailService,
+        private subscriptionNoticesService: SubscriptionNoticesService,
+    ) { }
+
+    // ============================================
+    // WEBHOOK
+    // ============================================
+    async handleWebhook(rawBody: Buffer | undefined, signature: string | undefined) {
+        const secret = this.configService.get<string>('BILLING_WEBHOOK_SECRET');
+        if (!secret) {
+            throw new ServiceUnavailableException('Billing webhooks are not configured');
+        }
+
+        if (!rawBody || !verifyBillingSignature(rawBody, signature, secret)) {
+            throw new UnauthorizedException('Invalid billing signature');
+        }
+
+        const event = this.parseEvent(rawBody);
+        const stored = await this.storeEvent(event);
+
+        // Already handled: providers retry deliveries, so this is expected
+        if (!stored) {
+            return { received: true, duplicate: true };
+        }
+
+        let outcome: EventOutcome;
+        try {
+            outcome = await this.processEvent(event);
+        } catch (error) {
+            await this.prisma.billingEvent.update({
+                where: { id: stored.id },
+                data: { status: BillingEventStatus.FAILED, error: error instanceof Error ? error.message : String(error) },
+            });
+            // Non-2xx makes the provider retry; the retry reprocesses the FAILED record
+            throw error;
+        }
+
+        await this.prisma.billingEvent.update({
+            where: { id: stored.id },
+            data: {
+                status: outcome.status,
+                companyId: outcome.companyId,
+                error: outcome.error ?? null,
+                processedAt: new Date(),
+            },
+        });
+
+        return { received: true, status: outcome.status };
+    }
+
+    // ============================================
+    // EVENT HANDLERS
+    // ============================================
+    /**
+     * Providers don't guarantee delivery order, so events created before the last applied one are ignored
+     * (e.g. a delayed payment.succeeded arriving after subscription.cancelled)
+     */
+    private async processEvent(event: BillingWebhookEvent): Promise<EventOutcome> {
+        const company = await this.resolveCompany(event);
+
+        if (!company) {
+            return { status: BillingEventStatus.IGNORED, error: 'No matching company' };
+        }
+
+        const occurredAt = event.createdAt ? new Date(event.createdAt) : new Date();
+        const stale: EventOutcome = { status: BillingEventStatus.IGNORED, companyId: company.id, error: 'Older than the last applied event' };
+        if (company.lastBillingEventAt && occurredAt < company.lastBillingEventAt) {
+            return stale;
+        }
+
+        switch (event.type as BillingEventType) {
+            case BillingEventType.PAYMENT_SUCCEEDED:
+            case BillingEventType.SUBSCRIPTION_RENEWED:
+                if (!(await this.activateSubscription(company, event, occurredAt))) {
+                    return stale;
+                }
+                break;
+            case BillingEventType.PAYMENT_FAILED:
+                await this.subscriptionNoticesService.notifyAdmins(company, (admin) =>
+                    this.emailService.sendPaymentFailedEmail(admin.email, admin.firstName, company.name, event.data.reason, company.id),
+                );
+                break;
+            case BillingEventType.SUBSCRIPTION_CANCELLED:
+                if (!(await this.cancelSubscription(company, event, occurredAt))) {
+                    return stale;
+                }
+                break;
+            default:
+                return { status: BillingEventStatus.IGNORED, companyId: company.id, error: `Unhandled event type ${event.type}` };
+        }
+
+        return { status: BillingEventStatus.PROCESSED, companyId: company.id };
+    }
+
+    private async activateSubscription(company: Company, event: BillingWebhookEvent, occurredAt: Date) {
+        const periodEnd = event.data.periodEnd ? new Date(event.data.periodEnd) : undefined;
+
+        const applied = await this.applyInOrder(company.id, occurredAt, {
+            subscriptionStatus: SubscriptionStatus.ACTIVE,
+            ...(periodEnd && { subscriptionEndsAt: periodEnd }),
+            ...(event.data.plan && { plan: event.data.plan }),
+        });
+        if (!applied) {
+            return false;
+        }
+
+        const updated = await this.prisma.company.findUniqueOrThrow({ where: { id: company.id }, select: { subscriptionEndsAt: true } });
+        await this.subscriptionNoticesService.notifyAdmins(company, (admin) =>
+            this.emailService.sendSubscriptionRenewedEmail(admin.email, admin.firstName, company.name, updated.subscriptionEndsAt, company.id),
+        );
+
+        return true;
+    }
+
+    /**
+     * Cancelling at period end keeps access until then (the daily cron expires it); otherwise access stops now
+     */
+    private async cancelSubscription(company: Company, event: BillingWebhookEvent, occurredAt: Date) {
+        const now = new Date();
+        const periodEnd = event.data.periodEnd ? new Date(event.data.periodEnd) : null;
+        const accessUntil = periodEnd && periodEnd > now ? periodEnd : null;
+
+        const applied = await this.applyInOrder(company.id, occurredAt, accessUntil
+            ? { subscriptionEndsAt: accessUntil }
+            : { subscriptionStatus: SubscriptionStatus.CANCELLED, subscriptionEndsAt: now });
+        if (!applied) {
+            return false;
+        }
+
+        await this.subscriptionNoticesService.notifyAdmins(company, (admin) =>
+            this.emailService.sendSubscriptionCancelledEmail(admin.email, admin.firstName, company.name, accessUntil, company.id),
+        );
+
+        return true;
+    }
+
+    /**
+     * Updates the company only if no newer event was applied meanwhile; false when this event is stale
+     */
+    private async applyInOrder(companyId: string, occurredAt: Date, data: Prisma.CompanyUpdateManyMutationInput) {
+        const { count } = await this.prisma.company.updateMany({
+            where: {
+                id: companyId,
+                OR: [{ lastBillingEventAt: null }, { lastBillingEventAt: { lte: occurredAt } }],
+            },
+            data: { ...data, lastBillingEventAt: occurredAt },
+        });
+
+        return count > 0;
+    }
+
+    // ============================================
+    // HELPERS
+    // ============================================
+    private parseEvent(rawBody: Buffer): BillingWebhookEvent {
+        let event: BillingWebhookEvent;
+        try {
+            event = JSON.parse(rawBody.toString('utf8')) as BillingWebhookEvent;
+        } catch {
+            throw new BadRequestException('Webhook body is not valid JSON');
+        }
+
+        if (typeof event?.id !== 'string' || typeof event.type !== 'string' || typeof event.data !== 'object' || !event.data) {
+            throw new BadRequestException('Webhook event must have an id, a type and a data object');
+        }
+
+        if (event.createdAt && Number.isNaN(new Date(event.createdAt).getTime())) {
+            throw new BadRequestException('createdAt must be an ISO date');
+        }
+
+        if (event.data.periodEnd && Number.isNaN(new Date(event.data.periodEnd).getTime())) {
+            throw new BadRequestException('data.periodEnd must be an ISO date');
+        }
+
+        if (event.data.plan && !Object.values(SubscriptionPlan).includes(event.data.plan)) {
+            throw new BadRequestException(`Unknown plan ${event.data.plan}`);
+        }
+
+        return event;
+    }
+
+    /**
+     * Returns null for events that were already handled or are being processed by another delivery. Failed events,
+     * and events left RECEIVED by a crash, are claimed again so the retry processes them.
+     */
+    private async storeEvent(event: BillingWebhookEvent): Promise<BillingEvent | null> {
+        const existing = await this.prisma.billingEvent.findUnique({ where: { externalId: event.id } });
+
+        if (existing) {
+            const now = new Date();
+            const { count } = await this.prisma.billingEvent.updateMany({
+                where: {
+                    id: existing.id,
+                    OR: [
+                        { status: BillingEventStatus.FAILED },
+                        { status: BillingEventStatus.RECEIVED, receivedAt: { lt: new Date(now.getTime() - STALE_PROCESSING_MS) } },
+                    ],
+                },
+                data: { status: BillingEventStatus.RECEIVED, receivedAt: now },
+            });
+
+            return count > 0 ? existing : null;
+        }
+
+        try {
+            return await this.prisma.billingEvent.create({
+                data: {
+                    externalId: event.id,
+                    type: event.type,
+                    payload: event as unknown as Prisma.InputJsonValue,
+                },
+            });
+        } catch (error) {
+            // A concurrent delivery of the same event won the insert
+            if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+                return null;
+            }
+            throw error;
+        }
+    }
+
+    private async resolveCompany(event: BillingWebhookEvent) {
+        const { companyId, customerId } = event.data;
+
+        const company = companyId
+            ? await this.prisma.company.findUnique({ where: { id: companyId } })
+            : customerId
+                ? await this.prisma.company.findUnique({ where: { billingCustomerId: customerId } })
+                : null;
+
+        // First event from checkout links the provider customer for later events
+        if (company && customerId && !company.billingCustomerId) {
+            return this.prisma.company.update({
+                where: { id: company.id },
+                data: { billingCustomerId: customerId },
+            });
+        }
+
+        return company;
+    }
+}
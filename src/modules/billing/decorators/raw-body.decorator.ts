@@ -0,0 +1,11 @@
+// src/modules/billing/decorators/raw-body.decorator.ts
+import { createParamDecorator, ExecutionContext, RawBodyRequest } from '@nestjs/common';
+import { Request } from 'express';
+
+/**
+ * Unparsed request body (requires `rawBody: true` in main.ts), needed to verify webhook signatures
+ */
+export const RawBody = createParamDecorator(
+    (_data: unknown, ctx: ExecutionContext): Buffer | undefined =>
+        ctx.switchToHttp().getRequest<RawBodyRequest<Request>>().rawBody,
+);
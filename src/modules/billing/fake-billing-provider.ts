@@ -0,0 +1,33 @@
+// src/modules/billing/fake-billing-provider.ts
+import * as crypto from 'crypto';
+import { BillingEventType, BillingWebhookEvent } from './billing.constants';
+import { BILLING_SIGNATURE_HEADER, signBillingPayload } from './billing-signature.util';
+
+/**
+ * Produces signed webhook requests the way the billing provider would.
+ * Used by tests and for driving subscription state locally (POST the result to /billing/webhook).
+ */
+export class FakeBillingProvider {
+    constructor(private readonly secret: string) { }
+
+    createEvent(type: BillingEventType | string, data: BillingWebhookEvent['data'], id = `evt_${crypto.randomBytes(12).toString('hex')}`) {
+        const event: BillingWebhookEvent = { id, type, createdAt: new Date().toISOString(), data };
+        return this.sign(event);
+    }
+
+    /**
+     * Signs an exact body, e.g. to replay an event with the same id
+     */
+    sign(event: BillingWebhookEvent, timestamp?: number) {
+        const body = JSON.stringify(event);
+
+        return {
+            event,
+            body,
+            headers: {
+                'content-type': 'application/json',
+                [BILLING_SIGNATURE_HEADER]: signBillingPayload(body, this.secret, timestamp),
+            },
+        };
+    }
+}
@@ -0,0 +1,144 @@
+// src/modules/billing/subscription-notices.service.ts
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SubscriptionStatus, UserRole } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { EmailService } from '../email/email.service';
+import { DunningNotice, getDunningNotice, getSubscriptionAccess, parseGraceDays } from '../auth/utils/subscription-access.util';
+import { memberOf } from '../memberships/membership.util';
+import { getLocalHour, resolveTimezone } from '../companies/utils/calendar.util';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const TRIAL_REMINDER_DAYS = [7, 3, 1];
+const NOTICE_LOCAL_HOUR = 9; // Admins get the notices at 9 AM company time
+
+type CompanyRecipient = { id: string; name: string };
+type Admin = { email: string; firstName: string };
+
+/**
+ * Trial reminders and dunning emails. Run hourly; a company is handled in the hour its local time is 9 AM, so each
+ * notice (tied to a day count) is sent once.
+ */
+@Injectable()
+export class SubscriptionNoticesService {
+    constructor(
+        private prisma: PrismaService,
+        private configService: ConfigService,
+        private emailService: EmailService,
+    ) { }
+
+    // ============================================
+    // TRIAL REMINDERS
+    // ============================================
+    async sendTrialReminders(now: Date = new Date()) {
+        const companies = await this.prisma.company.findMany({
+            where: {
+                isActive: true,
+                subscriptionStatus: SubscriptionStatus.TRIAL,
+                trialEndsAt: { gt: now, lte: new Date(now.getTime() + Math.max(...TRIAL_REMINDER_DAYS) * DAY_MS) },
+            },
+            select: { id: true, name: true, trialEndsAt: true, timezone: true },
+        });
+
+        let sent = 0;
+        for (const company of companies) {
+            if (!isNoticeHour(company.timezone, now)) {
+                continue;
+            }
+
+            const daysRemaining = company.trialEndsAt ? Math.ceil((company.trialEndsAt.getTime() - now.getTime()) / DAY_MS) : 0;
+
+            if (TRIAL_REMINDER_DAYS.includes(daysRemaining)) {
+                await this.notifyAdmins(company, (admin) =>
+                    this.emailService.sendTrialEndingSoonEmail(admin.email, admin.firstName, company.name, daysRemaining, company.id),
+                );
+                sent++;
+            }
+        }
+
+        return { sent };
+    }
+
+    // ============================================
+    // DUNNING (grace period, then read-only)
+    // ============================================
+    async sendDunningNotices(now: Date = new Date()) {
+        const graceDays = parseGraceDays(this.configService.get<string>('SUBSCRIPTION_GRACE_DAYS'));
+        // A day of slack so the read-only notice on the last day is still picked up
+        const since = new Date(now.getTime() - (graceDays + 1) * DAY_MS);
+
+        const companies = await this.prisma.company.findMany({
+            where: {
+                isActive: true,
+                OR: [
+                    { subscriptionStatus: SubscriptionStatus.TRIAL, trialEndsAt: { gte: since, lt: now } },
+                    { subscriptionStatus: SubscriptionStatus.ACTIVE, subscriptionEndsAt: { gte: since, lt: now } },
+                    { subscriptionStatus: SubscriptionStatus.EXPIRED, subscriptionEndsAt: { gte: since } },
+                    { subscriptionStatus: SubscriptionStatus.EXPIRED, subscriptionEndsAt: null, trialEndsAt: { gte: since } },
+                ],
+            },
+            select: { id: true, name: true, subscriptionStatus: true, trialEndsAt: true, subscriptionEndsAt: true, timezone: true },
+        });
+
+        let sent = 0;
+        for (const company of companies) {
+            if (!isNoticeHour(company.timezone, now)) {
+                continue;
+            }
+
+            const { lapsedAt, graceEndsAt } = getSubscriptionAccess(company, graceDays, now);
+            if (!lapsedAt || !graceEndsAt) {
+                continue;
+            }
+
+            const daysSinceLapse = Math.floor((now.getTime() - lapsedAt.getTime()) / DAY_MS);
+            const notice = getDunningNotice(daysSinceLapse, graceDays);
+            if (!notice) {
+                continue;
+            }
+
+            // Never paid: the lapse is the end of the trial
+            const isTrial = !company.subscriptionEndsAt;
+
+            await this.notifyAdmins(company, (admin) => {
+                if (notice === DunningNotice.READ_ONLY) {
+                    return isTrial
+                        ? this.emailService.sendTrialExpiredEmail(admin.email, admin.firstName, company.name, company.id)
+                        : this.emailService.sendSubscriptionExpiredEmail(admin.email, admin.firstName, company.name, company.id);
+                }
+
+                return this.emailService.sendSubscriptionGracePeriodEmail(admin.email, admin.firstName, company.name, {
+                    isTrial,
+                    daysRemaining: graceDays - daysSinceLapse,
+                    readOnlyOn: graceEndsAt,
+                    isFinalNotice: notice === DunningNotice.FINAL,
+                }, company.id);
+            });
+            sent++;
+        }
+
+        return { sent };
+    }
+
+    // ============================================
+    // HELPERS
+    // ============================================
+    async notifyAdmins(company: CompanyRecipient, send: (admin: Admin) => Promise<boolean>) {
+        const admins = await this.prisma.user.findMany({
+            where: memberOf(company.id, { role: UserRole.COMPANY, isActive: true }),
+            select: { email: true, firstName: true },
+        });
+
+        for (const admin of admins) {
+            try {
+                await send(admin);
+            } catch (error) {
+                console.error('Failed to send billing email:', error);
+            }
+        }
+    }
+}
+
+function isNoticeHour(timezone: string | null, now: Date): boolean {
+    return getLocalHour(now, resolveTimezone(timezone)) === NOTICE_LOCAL_HOUR;
+}
@@ -46,7 +46,7 @@ export class ChatController {
     async getMessages(@Param('roomId') roomId: string, @CurrentUser('id') userId: string, @CurrentUser('role') role: string, @CurrentUser('companyId') companyId: string, @Query('limit') limit?: number, @Query('before') before?: string) { return this.chatService.getMessages(roomId, userId, role as any, companyId, limit || 50, before); }
 
     @Put('messages/:messageId') @ApiOperation({ summary: 'Edit a message' })
-    async updateMessage(@Param('messageId') messageId: string, @Body() dto: UpdateMessageDto, @CurrentUser('id') userId: string, @CurrentUser('companyId') companyId: string) { return this.chatService.updateMessage(messageId, dto, userId, companyId); }
+    async updateMessage(@Param('messageId') messageId: string, @Body() dto: UpdateMessageDto, @CurrentUser('id') userId: string, @CurrentUser('role') role: string, @CurrentUser('companyId') companyId: string) { return this.chatService.updateMessage(messageId, dto, userId, role as any, companyId); }
 
     @Delete('messages/:messageId') @ApiOperation({ summary: 'Delete a message' })
     async deleteMessage(@Param('messageId') messageId: string, @CurrentUser('id') userId: string, @CurrentUser('role') role: string, @CurrentUser('companyId') companyId: string) { return this.chatService.deleteMessage(messageId, userId, role as any, companyId); }
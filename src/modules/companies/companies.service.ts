@@ -5,6 +5,7 @@ import { UserRole, SubscriptionStatus } from '@prisma/client';
 import { EmailService } from '../email/email.service';
 import { StorageService } from '../storage/storage.service';
 import { UpdateCompanyDto, UpdateCompanyLogoDto, UpdateCompanyNameDto } from './dto/companies.dto';
+import { memberOf } from '../memberships/membership.util';
 
 @Injectable()
 export class CompaniesService {
@@ -101,10 +102,7 @@ export class CompaniesService {
         if ((updateDto as any).subscriptionStatus && (updateDto as any).subscriptionStatus !== company.subscriptionStatus) {
             try {
                 const companyAdmin = await this.prisma.user.findFirst({
-                    where: {
-                        companyId: id,
-                        role: UserRole.COMPANY
-                    },
+                    where: memberOf(id, { role: UserRole.COMPANY }),
                     select: { email: true, firstName: true }
                 });
 
@@ -113,7 +111,8 @@ export class CompaniesService {
                         case SubscriptionStatus.ACTIVE:
                             await this.emailService.sendAccountActivatedEmail(
                                 companyAdmin.email,
-                                companyAdmin.firstName
+                                companyAdmin.firstName,
+                                id
                             );
                             break;
                         case SubscriptionStatus.EXPIRED:
@@ -121,7 +120,8 @@ export class CompaniesService {
                             await this.emailService.sendSubscriptionExpiredEmail(
                                 companyAdmin.email,
                                 companyAdmin.firstName,
-                                updatedCompany.name
+                                updatedCompany.name,
+                                id
                             );
                             break;
                     }
@@ -299,8 +299,8 @@ export class CompaniesService {
     async getCompanyStats(companyId: string) {
         const [company, totalUsers, activeUsers, totalDepartments, totalProjects, totalSops] = await Promise.all([
             this.prisma.company.findUnique({ where: { id: companyId } }),
-            this.prisma.user.count({ where: { companyId } }),
-            this.prisma.user.count({ where: { companyId, isActive: true } }),
+            this.prisma.user.count({ where: memberOf(companyId) }),
+            this.prisma.user.count({ where: memberOf(companyId, { isActive: true }) }),
             this.prisma.department.count({ where: { companyId } }),
             this.prisma.project.count({ where: { companyId } }),
             this.prisma.sop.count({ where: { companyId } }),
@@ -310,35 +310,6 @@ export class CompaniesService {
             throw new NotFoundException('Company not found');
         }
 
-        // Check for trial ending soon (3 days or less)
-        const now = new Date();
-        if (company.subscriptionStatus === SubscriptionStatus.TRIAL && company.trialEndsAt) {
-            const daysRemaining = Math.ceil((company.trialEndsAt.getTime() - now.getTime()) / (24 * 60 * 60 * 1000));
-
-            if (daysRemaining <= 3 && daysRemaining > 0) {
-                try {
-                    const companyAdmin = await this.prisma.user.findFirst({
-                        where: {
-                            companyId,
-                            role: UserRole.COMPANY
-                        },
-                        select: { email: true, firstName: true }
-                    });
-
-                    if (companyAdmin) {
-                        await this.emailService.sendTrialEndingSoonEmail(
-                            companyAdmin.email,
-                            companyAdmin.firstName,
-                            company.name,
-                            daysRemaining
-                        );
-                    }
-                } catch (error) {
-                    console.error('Failed to send trial ending email:', error);
-                }
-            }
-        }
-
         return {
             totalUsers,
             activeUsers,
@@ -1,6 +1,10 @@
 // src/modules/companies/dto/companies.dto.ts
-import { IsString, IsOptional, IsUrl, IsBoolean, MaxLength, MinLength } from 'class-validator';
+import {
+    IsString, IsOptional, IsUrl, IsBoolean, MaxLength, MinLength, IsTimeZone, IsInt, Min, Max, IsArray, ArrayMinSize, ArrayUnique, IsLocale,
+    IsEmail, Matches,
+} from 'class-validator';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { HEX_COLOR_PATTERN } from '../../email/utils/branding.util';
 
 export class UpdateCompanyDto {
     @ApiPropertyOptional({ description: 'Company name (can only be changed once)' })
@@ -31,6 +35,60 @@ export class UpdateCompanyDto {
     @IsOptional()
     @IsBoolean()
     screenCaptureEnabled?: boolean;
+
+    @ApiPropertyOptional({ description: 'Require two-factor authentication for company admins and QC admins' })
+    @IsOptional()
+    @IsBoolean()
+    requireTwoFactorForAdmins?: boolean;
+
+    @ApiPropertyOptional({ description: 'Allow joining with the company code (disable to require invitations)' })
+    @IsOptional()
+    @IsBoolean()
+    allowCodeRegistration?: boolean;
+
+    @ApiPropertyOptional({ example: 'Europe/Berlin', description: 'IANA timezone used for leaderboard periods, streaks and daily summaries' })
+    @IsOptional()
+    @IsTimeZone()
+    timezone?: string;
+
+    @ApiPropertyOptional({ minimum: 0, maximum: 6, description: 'First day of the week (0 = Sunday, 1 = Monday)' })
+    @IsOptional()
+    @IsInt()
+    @Min(0)
+    @Max(6)
+    weekStartsOn?: number;
+
+    @ApiPropertyOptional({ type: [Number], example: [1, 2, 3, 4, 5], description: 'Working days (0 = Sunday); streaks are kept across the other days' })
+    @IsOptional()
+    @IsArray()
+    @ArrayMinSize(1)
+    @ArrayUnique()
+    @IsInt({ each: true })
+    @Min(0, { each: true })
+    @Max(6, { each: true })
+    workingDays?: number[];
+
+    @ApiPropertyOptional({ example: 'en-US', description: 'Locale clients use to format dates and numbers' })
+    @IsOptional()
+    @IsLocale()
+    locale?: string;
+
+    // Email branding; null resets a value to the Merit Tracker default
+    @ApiPropertyOptional({ example: '#0F766E', nullable: true, description: 'Header and button color of outgoing emails (#RRGGBB)' })
+    @IsOptional()
+    @Matches(HEX_COLOR_PATTERN, { message: 'emailBrandColor must be a hex color like #0F766E' })
+    emailBrandColor?: string | null;
+
+    @ApiPropertyOptional({ nullable: true, description: 'Text shown in the footer of outgoing emails' })
+    @IsOptional()
+    @IsString()
+    @MaxLength(500)
+    emailFooterText?: string | null;
+
+    @ApiPropertyOptional({ example: 'people@acme.com', nullable: true, description: 'Reply-to address of outgoing emails' })
+    @IsOptional()
+    @IsEmail()
+    emailReplyTo?: string | null;
 }
 
 export class UpdateCompanyLogoDto {
@@ -60,6 +118,13 @@ export class CompanyResponseDto {
     subscriptionEndsAt: Date | null;
     isActive: boolean;
     screenCaptureEnabled: boolean;
+    timezone: string;
+    weekStartsOn: number;
+    workingDays: number[];
+    locale: string;
+    emailBrandColor: string | null;
+    emailFooterText: string | null;
+    emailReplyTo: string | null;
     nameChangedAt: Date | null;
     canChangeName: boolean; // Helper field for frontend
     createdAt: Date;
@@ -0,0 +1,54 @@
+import {
+    daysBetween, getLocalHour, isStreakContinued, resolveTimezone, shiftDateKey, startOfDateKey, startOfPeriod, toDateKey,
+} from './calendar.util';
+
+describe('calendar.util', () => {
+    const monday = { timezone: 'America/New_York', weekStartsOn: 1 };
+
+    it('cuts days at local midnight', () => {
+        // 02:30 UTC is still the previous evening in New York and already morning in Kolkata
+        const instant = new Date('2026-10-20T02:30:00Z');
+
+        expect(toDateKey(instant, 'America/New_York')).toBe('2026-10-19');
+        expect(toDateKey(instant, 'Asia/Kolkata')).toBe('2026-10-20');
+        expect(getLocalHour(instant, 'Asia/Kolkata')).toBe(8);
+        expect(startOfPeriod('day', instant, monday)).toEqual(new Date('2026-10-19T04:00:00Z'));
+        expect(startOfDateKey('2026-10-20', 'Asia/Kolkata')).toEqual(new Date('2026-10-19T18:30:00Z'));
+    });
+
+    it('starts weeks on the configured day', () => {
+        const wednesday = new Date('2026-10-21T15:00:00Z');
+
+        expect(startOfPeriod('week', wednesday, monday)).toEqual(new Date('2026-10-19T04:00:00Z'));
+        expect(startOfPeriod('week', wednesday, { ...monday, weekStartsOn: 0 })).toEqual(new Date('2026-10-18T04:00:00Z'));
+        expect(startOfPeriod('week', wednesday, { ...monday, weekStartsOn: 3 })).toEqual(new Date('2026-10-21T04:00:00Z'));
+    });
+
+    it('uses the offset in force at the start of the period', () => {
+        // New York is on EST again in November, on EDT on the 1st of October
+        const november = new Date('2026-11-15T12:00:00Z');
+
+        expect(startOfPeriod('month', november, monday)).toEqual(new Date('2026-11-01T04:00:00Z'));
+        expect(startOfPeriod('quarter', november, monday)).toEqual(new Date('2026-10-01T04:00:00Z'));
+        expect(startOfPeriod('year', november, monday)).toEqual(new Date('2026-01-01T05:00:00Z'));
+        expect(startOfPeriod('day', november, monday)).toEqual(new Date('2026-11-15T05:00:00Z'));
+    });
+
+    it('keeps streaks across non-working days only', () => {
+        const weekdays = [1, 2, 3, 4, 5];
+
+        expect(daysBetween('2026-10-16', '2026-10-19')).toBe(3);
+        expect(shiftDateKey('2026-03-01', -1)).toBe('2026-02-28');
+        expect(isStreakContinued('2026-10-19', '2026-10-20', weekdays)).toBe(true);
+        // Friday to Monday skips the weekend
+        expect(isStreakContinued('2026-10-16', '2026-10-19', weekdays)).toBe(true);
+        expect(isStreakContinued('2026-10-15', '2026-10-19', weekdays)).toBe(false);
+        expect(isStreakContinued('2026-10-16', '2026-10-19', [0, 1, 2, 3, 4, 5, 6])).toBe(false);
+        expect(isStreakContinued('2026-10-19', '2026-10-19', weekdays)).toBe(false);
+    });
+
+    it('falls back to UTC for unknown timezones', () => {
+        expect(resolveTimezone(null, 'Not/AZone', 'Europe/Berlin')).toBe('Europe/Berlin');
+        expect(resolveTimezone(undefined, 'Mars/Olympus')).toBe('UTC');
+    });
+});
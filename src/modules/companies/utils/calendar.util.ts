@@ -0,0 +1,172 @@
+// src/modules/companies/utils/calendar.util.ts
+
+export const DEFAULT_TIMEZONE = 'UTC';
+
+/**
+ * Company calendar; days are 0 (Sunday) to 6 (Saturday)
+ */
+export interface CalendarSettings {
+    timezone: string;
+    weekStartsOn: number;
+    workingDays: number[];
+}
+
+export const DEFAULT_CALENDAR: CalendarSettings = {
+    timezone: DEFAULT_TIMEZONE,
+    weekStartsOn: 0,
+    workingDays: [1, 2, 3, 4, 5],
+};
+
+export type CalendarUnit = 'day' | 'week' | 'month' | 'quarter' | 'year';
+
+interface ZonedParts {
+    year: number;
+    month: number;
+    day: number;
+    hour: number;
+    minute: number;
+    second: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * First candidate that is a valid IANA timezone, e.g. the user's own and then the company's
+ */
+export function resolveTimezone(...candidates: (string | null | undefined)[]): string {
+    return candidates.find((timezone) => !!timezone && isValidTimezone(timezone)) ?? DEFAULT_TIMEZONE;
+}
+
+export function isValidTimezone(timezone: string): boolean {
+    try {
+        getFormatter(timezone);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Calendar date (YYYY-MM-DD) of an instant in the given timezone
+ */
+export function toDateKey(date: Date, timezone: string): string {
+    const { year, month, day } = getZonedParts(date, timezone);
+    return formatDateKey(year, month, day);
+}
+
+export function getLocalHour(date: Date, timezone: string): number {
+    return getZonedParts(date, timezone).hour;
+}
+
+/**
+ * Instant at which a calendar date (YYYY-MM-DD) starts in the given timezone
+ */
+export function startOfDateKey(dateKey: string, timezone: string): Date {
+    const [year, month, day] = dateKey.split('-').map(Number);
+    return zonedMidnight(year, month, day, timezone);
+}
+
+/**
+ * Instant at which the day, week, month, quarter or year containing `date` starts locally
+ */
+export function startOfPeriod(unit: CalendarUnit, date: Date, settings: Pick<CalendarSettings, 'timezone' | 'weekStartsOn'>): Date {
+    const { year, month, day } = getZonedParts(date, settings.timezone);
+
+    switch (unit) {
+        case 'day':
+            return zonedMidnight(year, month, day, settings.timezone);
+        case 'week': {
+            const weekday = new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+            return zonedMidnight(year, month, day - ((weekday - settings.weekStartsOn + 7) % 7), settings.timezone);
+        }
+        case 'month':
+            return zonedMidnight(year, month, 1, settings.timezone);
+        case 'quarter':
+            return zonedMidnight(year, Math.floor((month - 1) / 3) * 3 + 1, 1, settings.timezone);
+        case 'year':
+            return zonedMidnight(year, 1, 1, settings.timezone);
+    }
+}
+
+/**
+ * Date key a number of calendar days before (negative) or after another
+ */
+export function shiftDateKey(dateKey: string, days: number): string {
+    return new Date(Date.parse(dateKey) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * Whole calendar days from one date key to another
+ */
+export function daysBetween(fromKey: string, toKey: string): number {
+    return Math.round((Date.parse(toKey) - Date.parse(fromKey)) / DAY_MS);
+}
+
+/**
+ * A streak survives a gap as long as every skipped day is a non-working day
+ */
+export function isStreakContinued(lastActiveKey: string, todayKey: string, workingDays: number[]): boolean {
+    const gap = daysBetween(lastActiveKey, todayKey);
+    if (gap < 1) {
+        return false;
+    }
+
+    for (let offset = 1; offset < gap; offset++) {
+        const weekday = new Date(Date.parse(lastActiveKey) + offset * DAY_MS).getUTCDay();
+        if (workingDays.includes(weekday)) {
+            return false;
+        }
+    }
+
+    return true;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+function getFormatter(timezone: string): Intl.DateTimeFormat {
+    let formatter = formatters.get(timezone);
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat('en-US', {
+            timeZone: timezone,
+            hourCycle: 'h23',
+            year: 'numeric',
+            month: '2-digit',
+            day: '2-digit',
+            hour: '2-digit',
+            minute: '2-digit',
+            second: '2-digit',
+        });
+        formatters.set(timezone, formatter);
+    }
+    return formatter;
+}
+
+function getZonedParts(date: Date, timezone: string): ZonedParts {
+    const parts: Record<string, number> = {};
+    for (const part of getFormatter(timezone).formatToParts(date)) {
+        parts[part.type] = Number(part.value);
+    }
+    return { year: parts.year, month: parts.month, day: parts.day, hour: parts.hour, minute: parts.minute, second: parts.second };
+}
+
+function getOffsetMs(date: Date, timezone: string): number {
+    const { year, month, day, hour, minute, second } = getZonedParts(date, timezone);
+    return Date.UTC(year, month - 1, day, hour, minute, second) - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * Local midnight as an instant; out-of-range days and months roll over like Date.UTC
+ */
+function zonedMidnight(year: number, month: number, day: number, timezone: string): Date {
+    const utcMidnight = Date.UTC(year, month - 1, day);
+    const offset = getOffsetMs(new Date(utcMidnight), timezone);
+    // The offset at local midnight can differ from the one at UTC midnight around DST changes
+    const correctedOffset = getOffsetMs(new Date(utcMidnight - offset), timezone);
+    return new Date(utcMidnight - correctedOffset);
+}
+
+function formatDateKey(year: number, month: number, day: number): string {
+    return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
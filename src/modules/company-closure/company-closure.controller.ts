@@ -0,0 +1,41 @@
+// src/modules/company-closure/company-closure.controller.ts
+import { Controller, Post, Body, UseGuards, HttpCode, HttpStatus } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+import { CompanyClosureService } from './company-closure.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { AllowWhenReadOnly, BlockWhileImpersonating, CurrentUser, Roles, SkipSubscriptionCheck } from '../auth/guards';
+import { CancelCompanyClosureDto, RequestCompanyClosureDto } from './dto/company-closure.dto';
+
+@ApiTags('company-closure')
+@Controller('company-closure')
+export class CompanyClosureController {
+    constructor(private readonly companyClosureService: CompanyClosureService) { }
+
+    @Post()
+    @HttpCode(HttpStatus.OK)
+    @UseGuards(JwtAuthGuard, RolesGuard)
+    @Roles(UserRole.COMPANY)
+    @AllowWhenReadOnly()
+    @BlockWhileImpersonating()
+    @ApiBearerAuth()
+    @ApiOperation({
+        summary: 'Close the company (Company Admin)',
+        description: 'Deactivates the company right away and permanently deletes all of its data and files after the retention window',
+    })
+    async requestClosure(
+        @Body() dto: RequestCompanyClosureDto,
+        @CurrentUser() user: { id: string; companyId: string; firstName: string; lastName: string },
+    ) {
+        return this.companyClosureService.requestClosure(user, dto);
+    }
+
+    @Post('cancel')
+    @HttpCode(HttpStatus.OK)
+    @SkipSubscriptionCheck()
+    @ApiOperation({ summary: 'Cancel a scheduled company closure, using the emailed token' })
+    async cancelClosure(@Body() dto: CancelCompanyClosureDto) {
+        return this.companyClosureService.cancelClosure(dto);
+    }
+}
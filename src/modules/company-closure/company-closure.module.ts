@@ -0,0 +1,15 @@
+// src/modules/company-closure/company-closure.module.ts
+import { Module } from '@nestjs/common';
+import { CompanyClosureController } from './company-closure.controller';
+import { CompanyClosureService } from './company-closure.service';
+import { PrismaModule } from '../../prisma/prisma.module';
+import { StorageModule } from '../storage/storage.module';
+import { EmailModule } from '../email/email.module';
+
+@Module({
+    imports: [PrismaModule, StorageModule, EmailModule],
+    controllers: [CompanyClosureController],
+    providers: [CompanyClosureService],
+    exports: [CompanyClosureService],
+})
+export class CompanyClosureModule { }
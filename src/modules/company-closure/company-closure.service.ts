@@ -0,0 +1,317 @@
+// src/modules/company-closure/company-closure.service.ts
+import { Injectable, Logger, NotFoundException, BadRequestException, ConflictException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ActivityType, Prisma, UserRole } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { StorageService } from '../storage/storage.service';
+import { EmailService } from '../email/email.service';
+import { OneTimeCodeType } from '../auth/interfaces/one-time-code.interface';
+import { generateToken, hashToken } from '../auth/utils/token.util';
+import { CancelCompanyClosureDto, RequestCompanyClosureDto } from './dto/company-closure.dto';
+import { memberOf, sessionsIn } from '../memberships/membership.util';
+import { filterCompanyPaths } from './utils/purge-paths.util';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_RETENTION_DAYS = 30;
+
+type ClosureRequester = { id: string; companyId: string; firstName: string; lastName: string };
+
+// Admins can belong through a membership, so the code records which company it cancels
+type ClosureCancelMetadata = { companyId: string };
+
+const CLEARED_CLOSURE = {
+    closureRequestedAt: null,
+    closureRequestedById: null,
+    closureReason: null,
+    purgeScheduledAt: null,
+};
+
+@Injectable()
+export class CompanyClosureService {
+    private readonly logger = new Logger(CompanyClosureService.name);
+
+    constructor(
+        private prisma: PrismaService,
+        private configService: ConfigService,
+        private storageService: StorageService,
+        private emailService: EmailService,
+    ) { }
+
+    // ============================================
+    // REQUEST / CANCEL
+    // ============================================
+    async requestClosure(user: ClosureRequester, dto: RequestCompanyClosureDto) {
+        const company = await this.prisma.company.findUnique({ where: { id: user.companyId } });
+
+        if (!company) {
+            throw new NotFoundException('Company not found');
+        }
+
+        if (company.purgeScheduledAt) {
+            throw new ConflictException('Closure of this company is already scheduled');
+        }
+
+        if (dto.confirmCompanyName.trim() !== company.name) {
+            throw new BadRequestException('Company name does not match');
+        }
+
+        const now = new Date();
+        const purgeScheduledAt = new Date(now.getTime() + this.getRetentionDays() * DAY_MS);
+
+        const admins = await this.getAdmins(company.id);
+        // Every admin gets their own cancel link, valid until the purge
+        const cancelTokens = admins.map((admin) => ({ admin, token: generateToken() }));
+
+        await this.prisma.$transaction([
+            this.prisma.company.update({
+                where: { id: company.id },
+                data: {
+                    isActive: false,
+                    closureRequestedAt: now,
+                    closureRequestedById: user.id,
+                    closureReason: dto.reason ?? null,
+                    purgeScheduledAt,
+                },
+            }),
+            // Members are signed out everywhere; the company check blocks new logins
+            this.prisma.userSession.updateMany({
+                where: { ...sessionsIn(company.id), revokedAt: null },
+                data: { revokedAt: now },
+            }),
+            this.prisma.oneTimeCode.createMany({
+                data: cancelTokens.map(({ admin, token }) => ({
+                    userId: admin.id,
+                    code: hashToken(token),
+                    type: OneTimeCodeType.COMPANY_CLOSURE_CANCEL,
+                    expiresAt: purgeScheduledAt,
+                    metadata: { companyId: company.id } satisfies ClosureCancelMetadata,
+                })),
+            }),
+            this.prisma.activityLog.create({
+                data: {
+                    companyId: company.id,
+                    userId: user.id,
+                    activityType: ActivityType.COMPANY_CLOSURE_REQUESTED,
+                    description: `Requested closure of ${company.name}`,
+                    metadata: { purgeScheduledAt: purgeScheduledAt.toISOString(), reason: dto.reason ?? null },
+                },
+            }),
+        ]);
+
+        const requestedBy = `${user.firstName} ${user.lastName}`;
+        for (const { admin, token } of cancelTokens) {
+            try {
+                await this.emailService.sendCompanyClosureScheduledEmail(
+                    admin.email,
+                    admin.firstName,
+                    company.name,
+                    requestedBy,
+                    purgeScheduledAt,
+                    token,
+                    company.id,
+                );
+            } catch (error) {
+                console.error('Failed to send company closure email:', error);
+            }
+        }
+
+        return {
+            success: true,
+            purgeScheduledAt,
+            message: `${company.name} has been closed. All data will be permanently deleted on ${purgeScheduledAt.toDateString()} unless the closure is cancelled.`,
+        };
+    }
+
+    async cancelClosure(dto: CancelCompanyClosureDto) {
+        const cancelCode = await this.prisma.oneTimeCode.findFirst({
+            where: {
+                code: hashToken(dto.token),
+                type: OneTimeCodeType.COMPANY_CLOSURE_CANCEL,
+                usedAt: null,
+                expiresAt: { gt: new Date() },
+            },
+            include: { user: { select: { companyId: true } } },
+        });
+
+        // Codes issued before the company was recorded on them belong to the admin's home company
+        const companyId = cancelCode
+            ? (cancelCode.metadata as ClosureCancelMetadata | null)?.companyId ?? cancelCode.user.companyId
+            : null;
+        const company = companyId
+            ? await this.prisma.company.findUnique({ where: { id: companyId } })
+            : null;
+
+        if (!cancelCode || !company?.purgeScheduledAt) {
+            throw new BadRequestException('Invalid or expired cancel link');
+        }
+
+        await this.prisma.$transaction([
+            this.prisma.company.update({
+                where: { id: company.id },
+                data: { isActive: true, ...CLEARED_CLOSURE },
+            }),
+            this.prisma.oneTimeCode.updateMany({
+                where: {
+                    type: OneTimeCodeType.COMPANY_CLOSURE_CANCEL,
+                    usedAt: null,
+                    OR: [
+                        { metadata: { path: ['companyId'], equals: company.id } },
+                        { metadata: { equals: Prisma.AnyNull }, user: { companyId: company.id } },
+                    ],
+                },
+                data: { usedAt: new Date() },
+            }),
+            this.prisma.activityLog.create({
+                data: {
+                    companyId: company.id,
+                    userId: cancelCode.userId,
+                    activityType: ActivityType.COMPANY_CLOSURE_CANCELLED,
+                    description: `Cancelled closure of ${company.name}`,
+                },
+            }),
+        ]);
+
+        for (const admin of await this.getAdmins(company.id)) {
+            try {
+                await this.emailService.sendCompanyClosureCancelledEmail(admin.email, admin.firstName, company.name, company.id);
+            } catch (error) {
+                console.error('Failed to send company closure email:', error);
+            }
+        }
+
+        return {
+            success: true,
+            message: `The closure of ${company.name} has been cancelled. Your team can log in again.`,
+        };
+    }
+
+    // ============================================
+    // PURGE (scheduled)
+    // ============================================
+    async purgeDueCompanies(now: Date = new Date()) {
+        const companies = await this.prisma.company.findMany({
+            where: { isActive: false, purgeScheduledAt: { lte: now } },
+            select: { id: true, name: true, logo: true },
+        });
+
+        let purged = 0;
+        let failed = 0;
+        for (const company of companies) {
+            try {
+                await this.purgeCompany(company);
+                purged++;
+            } catch (error) {
+                // Nothing is deleted from the database until storage is clean, so the next run retries
+                this.logger.error(`Failed to purge company ${company.id}`, error);
+                failed++;
+            }
+        }
+
+        return { purged, failed };
+    }
+
+    /**
+     * Removes stored files first, then the rows. Files are not covered by the database cascade. Accounts created in
+     * this company that also belong to another one move there instead of being deleted with it.
+     */
+    private async purgeCompany(company: { id: string; name: string; logo: string | null }) {
+        const inCompany = { companyId: company.id };
+        const inProject = { project: inCompany };
+
+        const [admins, screenshots, users, departments, sops] = await Promise.all([
+            this.getAdmins(company.id),
+            this.prisma.screenshot.findMany({ where: { timeTracking: { user: inCompany } }, select: { filePath: true } }),
+            this.prisma.user.findMany({ where: { ...inCompany, avatar: { not: null } }, select: { avatar: true } }),
+            this.prisma.department.findMany({ where: { ...inCompany, logo: { not: null } }, select: { logo: true } }),
+            this.prisma.sop.findMany({ where: inCompany, select: { fileUrl: true, thumbnailUrl: true } }),
+        ]);
+
+        // Uploads live under the company folder; referenced paths outside it belong to someone else and are kept
+        const urls = [
+            company.logo,
+            ...users.map((user) => user.avatar),
+            ...departments.map((department) => department.logo),
+            ...sops.flatMap((sop) => [sop.fileUrl, sop.thumbnailUrl]),
+        ];
+        const extraPaths = filterCompanyPaths(company.id, [
+            ...screenshots.map((screenshot) => screenshot.filePath),
+            ...urls.map((url) => (url ? this.storageService.extractPathFromUrl(url) : null)),
+        ]);
+
+        const fileCount = await this.storageService.deleteCompanyFiles(company.id, extraPaths);
+        const rehome = await this.getRehomeOperations(company.id);
+
+        // Rows that reference users without a cascade go first; the company delete cascades the rest
+        await this.prisma.$transaction([
+            ...rehome.operations,
+            this.prisma.chatMessage.deleteMany({ where: { chatRoom: inProject } }),
+            this.prisma.chatRoom.deleteMany({ where: inProject }),
+            this.prisma.task.deleteMany({ where: { subProject: inProject } }),
+            this.prisma.subProject.deleteMany({ where: inProject }),
+            this.prisma.sop.deleteMany({ where: inCompany }),
+            this.prisma.project.deleteMany({ where: inCompany }),
+            this.prisma.company.delete({ where: { id: company.id } }),
+        ]);
+
+        this.logger.log(`Purged company ${company.id} (${fileCount} files, ${rehome.accounts} accounts moved to another company)`);
+
+        for (const admin of admins) {
+            try {
+                await this.emailService.sendCompanyPurgedEmail(admin.email, admin.firstName, company.name, fileCount, company.id);
+            } catch (error) {
+                console.error('Failed to send company purged email:', error);
+            }
+        }
+    }
+
+    // ============================================
+    // HELPERS
+    // ============================================
+
+    /**
+     * For each account whose home is this company and that has a membership elsewhere: make that company the new home
+     * (active memberships first, then the oldest) with the membership's role, department and status.
+     * Employment dates were for the closed company and are cleared.
+     */
+    private async getRehomeOperations(companyId: string): Promise<{ accounts: number; operations: Prisma.PrismaPromise<unknown>[] }> {
+        const users = await this.prisma.user.findMany({
+            where: { companyId, memberships: { some: {} } },
+            select: {
+                id: true,
+                memberships: { orderBy: [{ isActive: 'desc' }, { createdAt: 'asc' }], take: 1 },
+            },
+        });
+
+        const operations = users.flatMap(({ id, memberships: [membership] }) => [
+            this.prisma.user.update({
+                where: { id },
+                data: {
+                    companyId: membership.companyId,
+                    role: membership.role,
+                    departmentId: membership.departmentId,
+                    customRoleId: membership.customRoleId,
+                    isActive: membership.isActive,
+                    startDate: null,
+                    endDate: null,
+                    startDateAppliedAt: null,
+                    endDateAppliedAt: null,
+                },
+            }),
+            this.prisma.companyMembership.delete({ where: { id: membership.id } }),
+        ]);
+
+        return { accounts: users.length, operations };
+    }
+
+    private async getAdmins(companyId: string): Promise<{ id: string; email: string; firstName: string }[]> {
+        return this.prisma.user.findMany({
+            where: memberOf(companyId, { role: UserRole.COMPANY, isActive: true }),
+            select: { id: true, email: true, firstName: true },
+        });
+    }
+
+    private getRetentionDays(): number {
+        const days = Number(this.configService.get<string>('COMPANY_CLOSURE_RETENTION_DAYS'));
+        return Number.isInteger(days) && days > 0 ? days : DEFAULT_RETENTION_DAYS;
+    }
+}
@@ -0,0 +1,23 @@
+// src/modules/company-closure/dto/company-closure.dto.ts
+import { IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class RequestCompanyClosureDto {
+    @ApiProperty({ description: 'Company name, typed again to confirm the closure' })
+    @IsString()
+    @IsNotEmpty()
+    confirmCompanyName: string;
+
+    @ApiPropertyOptional({ description: 'Why the company is leaving' })
+    @IsOptional()
+    @IsString()
+    @MaxLength(1000)
+    reason?: string;
+}
+
+export class CancelCompanyClosureDto {
+    @ApiProperty({ description: 'Cancel token from the closure scheduled email' })
+    @IsString()
+    @IsNotEmpty()
+    token: string;
+}
@@ -0,0 +1,29 @@
+import { filterCompanyPaths } from './purge-paths.util';
+
+describe('purge-paths.util', () => {
+    const companyId = '6f1c2a9e-0000-4000-8000-000000000001';
+
+    it('keeps paths inside the company folder', () => {
+        expect(filterCompanyPaths(companyId, [
+            `${companyId}/logos/a.png`,
+            `${companyId}/screenshots/u1/t1/b.jpg`,
+            `${companyId}/logos/a.png`,
+            null,
+            undefined,
+        ])).toEqual([`${companyId}/logos/a.png`, `${companyId}/screenshots/u1/t1/b.jpg`]);
+    });
+
+    it('drops other tenants\' files and paths that escape the folder', () => {
+        expect(filterCompanyPaths(companyId, [
+            'another-company/logos/a.png',
+            `${companyId}-other/logos/a.png`,
+            `x/${companyId}/logos/a.png`,
+            `${companyId}/../another-company/logos/a.png`,
+            `${companyId}/./a.png`,
+            `${companyId}//a.png`,
+            `${companyId}/`,
+            companyId,
+            '',
+        ])).toEqual([]);
+    });
+});
@@ -0,0 +1,19 @@
+// src/modules/company-closure/utils/purge-paths.util.ts
+
+/**
+ * Keeps the storage paths that are inside the company's own folder. Logo, avatar and SOP URLs can be set to any
+ * string, so without this a company could point them at another tenant's files and have the purge delete them.
+ */
+export function filterCompanyPaths(companyId: string, paths: (string | null | undefined)[]): string[] {
+    const prefix = `${companyId}/`;
+
+    const owned = paths.filter((path): path is string =>
+        !!path
+        && path.startsWith(prefix)
+        && path.length > prefix.length
+        // Reject '..', '.' and empty segments that could resolve outside the folder
+        && path.split('/').every((segment) => segment !== '' && segment !== '.' && segment !== '..'),
+    );
+
+    return [...new Set(owned)];
+}
@@ -0,0 +1,65 @@
+// src/modules/custom-roles/custom-roles.controller.ts
+import { Controller, Get, Post, Put, Delete, Body, Param, UseGuards, ParseUUIDPipe } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+import { CustomRolesService } from './custom-roles.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { BlockWhileImpersonating, CurrentUser, Roles } from '../auth/guards';
+import { CreateCustomRoleDto, UpdateCustomRoleDto } from './dto/custom-roles.dto';
+
+@ApiTags('custom-roles')
+@Controller('custom-roles')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+export class CustomRolesController {
+    constructor(private readonly customRolesService: CustomRolesService) { }
+
+    @Get('permissions')
+    @ApiOperation({ summary: 'List permissions that can be put in a role' })
+    getPermissions() {
+        return this.customRolesService.getAvailablePermissions();
+    }
+
+    @Get()
+    @Roles(UserRole.COMPANY, UserRole.QC_ADMIN)
+    @ApiOperation({ summary: 'List built-in and custom roles of the company' })
+    async findAll(@CurrentUser('companyId') companyId: string) {
+        return this.customRolesService.findAll(companyId);
+    }
+
+    @Get(':id')
+    @Roles(UserRole.COMPANY, UserRole.QC_ADMIN)
+    @ApiOperation({ summary: 'Get a role' })
+    async findOne(@Param('id', ParseUUIDPipe) id: string, @CurrentUser('companyId') companyId: string) {
+        return this.customRolesService.findOne(id, companyId);
+    }
+
+    @Post()
+    @BlockWhileImpersonating()
+    @Roles(UserRole.COMPANY)
+    @ApiOperation({ summary: 'Create a custom role (Company Admin)' })
+    async create(@Body() dto: CreateCustomRoleDto, @CurrentUser('companyId') companyId: string) {
+        return this.customRolesService.create(companyId, dto);
+    }
+
+    @Put(':id')
+    @BlockWhileImpersonating()
+    @Roles(UserRole.COMPANY)
+    @ApiOperation({ summary: 'Update a custom role (Company Admin)' })
+    async update(
+        @Param('id', ParseUUIDPipe) id: string,
+        @Body() dto: UpdateCustomRoleDto,
+        @CurrentUser('companyId') companyId: string,
+    ) {
+        return this.customRolesService.update(id, companyId, dto);
+    }
+
+    @Delete(':id')
+    @BlockWhileImpersonating()
+    @Roles(UserRole.COMPANY)
+    @ApiOperation({ summary: 'Delete a custom role; its members keep their base role (Company Admin)' })
+    async delete(@Param('id', ParseUUIDPipe) id: string, @CurrentUser('companyId') companyId: string) {
+        return this.customRolesService.delete(id, companyId);
+    }
+}
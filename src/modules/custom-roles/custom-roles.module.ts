@@ -0,0 +1,13 @@
+// src/modules/custom-roles/custom-roles.module.ts
+import { Module } from '@nestjs/common';
+import { CustomRolesController } from './custom-roles.controller';
+import { CustomRolesService } from './custom-roles.service';
+import { PrismaModule } from '../../prisma/prisma.module';
+
+@Module({
+    imports: [PrismaModule],
+    controllers: [CustomRolesController],
+    providers: [CustomRolesService],
+    exports: [CustomRolesService],
+})
+export class CustomRolesModule { }
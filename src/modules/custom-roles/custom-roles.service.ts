@@ -0,0 +1,155 @@
+// src/modules/custom-roles/custom-roles.service.ts
+import { Injectable, NotFoundException, BadRequestException, ConflictException } from '@nestjs/common';
+import { UserRole } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { Permission, companyWidePermissions } from '../permissions';
+import { CreateCustomRoleDto, UpdateCustomRoleDto } from './dto/custom-roles.dto';
+
+// Seeded for every company; names match the role labels used in emails
+const BUILT_IN_ROLES = [
+    { baseRole: UserRole.USER, name: 'Team Member', description: 'Default role for company members' },
+    { baseRole: UserRole.QC_ADMIN, name: 'QC Administrator', description: 'Reviews work and manages projects across the company' },
+    { baseRole: UserRole.COMPANY, name: 'Company Administrator', description: 'Full access to the company account' },
+];
+
+const ROLE_INCLUDE = { _count: { select: { users: true, memberships: true } } };
+
+@Injectable()
+export class CustomRolesService {
+    constructor(private prisma: PrismaService) { }
+
+    // ============================================
+    // QUERIES
+    // ============================================
+    getAvailablePermissions() {
+        return { permissions: Object.values(Permission) };
+    }
+
+    async findAll(companyId: string) {
+        await this.ensureBuiltInRoles(companyId);
+
+        return this.prisma.customRole.findMany({
+            where: { companyId },
+            include: ROLE_INCLUDE,
+            orderBy: [{ isBuiltIn: 'desc' }, { name: 'asc' }],
+        });
+    }
+
+    async findOne(id: string, companyId: string) {
+        const role = await this.prisma.customRole.findFirst({
+            where: { id, companyId },
+            include: ROLE_INCLUDE,
+        });
+
+        if (!role) {
+            throw new NotFoundException('Role not found');
+        }
+
+        return role;
+    }
+
+    // ============================================
+    // MANAGEMENT (company admin)
+    // ============================================
+    async create(companyId: string, dto: CreateCustomRoleDto) {
+        await this.ensureBuiltInRoles(companyId);
+        await this.assertNameAvailable(companyId, dto.name);
+
+        return this.prisma.customRole.create({
+            data: {
+                companyId,
+                name: dto.name,
+                description: dto.description,
+                baseRole: dto.baseRole ?? UserRole.USER,
+                permissions: [...new Set(dto.permissions)],
+            },
+            include: ROLE_INCLUDE,
+        });
+    }
+
+    async update(id: string, companyId: string, dto: UpdateCustomRoleDto) {
+        const role = await this.findOne(id, companyId);
+
+        if (role.isBuiltIn) {
+            throw new BadRequestException('Built-in roles cannot be changed');
+        }
+
+        if (dto.name && dto.name !== role.name) {
+            await this.assertNameAvailable(companyId, dto.name);
+        }
+
+        return this.prisma.$transaction(async (prisma) => {
+            // Members keep the fixed role in sync with their custom role
+            if (dto.baseRole && dto.baseRole !== role.baseRole) {
+                await prisma.user.updateMany({
+                    where: { customRoleId: id },
+                    data: { role: dto.baseRole },
+                });
+                await prisma.companyMembership.updateMany({
+                    where: { customRoleId: id },
+                    data: { role: dto.baseRole },
+                });
+            }
+
+            return prisma.customRole.update({
+                where: { id },
+                data: {
+                    name: dto.name,
+                    description: dto.description,
+                    baseRole: dto.baseRole,
+                    ...(dto.permissions && { permissions: [...new Set(dto.permissions)] }),
+                },
+                include: ROLE_INCLUDE,
+            });
+        });
+    }
+
+    async delete(id: string, companyId: string) {
+        const role = await this.findOne(id, companyId);
+
+        if (role.isBuiltIn) {
+            throw new BadRequestException('Built-in roles cannot be deleted');
+        }
+
+        // Members fall back to the base role they already hold
+        await this.prisma.customRole.delete({ where: { id } });
+
+        return { success: true, message: `Role deleted; ${role._count.users + role._count.memberships} member(s) moved back to their base role` };
+    }
+
+    // ============================================
+    // BUILT-IN ROLES
+    // ============================================
+
+    /**
+     * Creates the fixed-role defaults on first use and keeps their permission lists in line with the policies
+     */
+    async ensureBuiltInRoles(companyId: string) {
+        await this.prisma.$transaction(
+            BUILT_IN_ROLES.map((builtIn) =>
+                this.prisma.customRole.upsert({
+                    where: { companyId_name: { companyId, name: builtIn.name } },
+                    create: {
+                        ...builtIn,
+                        companyId,
+                        isBuiltIn: true,
+                        permissions: companyWidePermissions(builtIn.baseRole),
+                    },
+                    update: {
+                        permissions: companyWidePermissions(builtIn.baseRole),
+                    },
+                }),
+            ),
+        );
+    }
+
+    private async assertNameAvailable(companyId: string, name: string) {
+        const existing = await this.prisma.customRole.findFirst({
+            where: { companyId, name: { equals: name, mode: 'insensitive' } },
+        });
+
+        if (existing) {
+            throw new ConflictException(`A role named "${existing.name}" already exists`);
+        }
+    }
+}
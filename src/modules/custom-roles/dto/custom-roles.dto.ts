@@ -0,0 +1,62 @@
+// src/modules/custom-roles/dto/custom-roles.dto.ts
+import { IsString, IsNotEmpty, IsOptional, MaxLength, IsArray, IsEnum, IsIn } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+import { Permission } from '../../permissions';
+
+// Company admin and super admin stay fixed roles
+export const CUSTOM_ROLE_BASE_ROLES = [UserRole.USER, UserRole.QC_ADMIN];
+
+export class CreateCustomRoleDto {
+    @ApiProperty({ example: 'Team Lead' })
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(50)
+    name: string;
+
+    @ApiPropertyOptional({ example: 'Approves tasks in any subproject' })
+    @IsOptional()
+    @IsString()
+    @MaxLength(255)
+    description?: string;
+
+    @ApiPropertyOptional({
+        enum: CUSTOM_ROLE_BASE_ROLES,
+        default: UserRole.USER,
+        description: 'Fixed role members get for endpoints that are not permission based yet',
+    })
+    @IsOptional()
+    @IsIn(CUSTOM_ROLE_BASE_ROLES)
+    baseRole?: UserRole;
+
+    @ApiProperty({ enum: Permission, isArray: true, example: [Permission.TASK_APPROVE, Permission.TASK_REJECT] })
+    @IsArray()
+    @IsEnum(Permission, { each: true })
+    permissions: Permission[];
+}
+
+export class UpdateCustomRoleDto {
+    @ApiPropertyOptional({ example: 'Team Lead' })
+    @IsOptional()
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(50)
+    name?: string;
+
+    @ApiPropertyOptional()
+    @IsOptional()
+    @IsString()
+    @MaxLength(255)
+    description?: string;
+
+    @ApiPropertyOptional({ enum: CUSTOM_ROLE_BASE_ROLES })
+    @IsOptional()
+    @IsIn(CUSTOM_ROLE_BASE_ROLES)
+    baseRole?: UserRole;
+
+    @ApiPropertyOptional({ enum: Permission, isArray: true })
+    @IsOptional()
+    @IsArray()
+    @IsEnum(Permission, { each: true })
+    permissions?: Permission[];
+}
@@ -0,0 +1,77 @@
+import * as zlib from 'zlib';
+import { ArchiveEntry, ZipWriter, toCsv } from './archive.util';
+
+async function writeZip(entries: ArchiveEntry[]): Promise<{ archive: Buffer; size: number }> {
+    const chunks: Buffer[] = [];
+    const writer = new ZipWriter((chunk) => Promise.resolve(chunks.push(chunk)));
+
+    for (const entry of entries) {
+        await writer.add(entry);
+    }
+    const size = await writer.finish();
+
+    return { archive: Buffer.concat(chunks), size };
+}
+
+// Reads entries back through the central directory, the way unzip tools do
+function readZip(archive: Buffer): Record<string, string> {
+    const end = archive.length - 22;
+    expect(archive.readUInt32LE(end)).toBe(0x06054b50);
+
+    const files: Record<string, string> = {};
+    let pointer = archive.readUInt32LE(end + 16);
+
+    for (let i = 0; i < archive.readUInt16LE(end + 10); i++) {
+        expect(archive.readUInt32LE(pointer)).toBe(0x02014b50);
+        const crc = archive.readUInt32LE(pointer + 16);
+        const compressedSize = archive.readUInt32LE(pointer + 20);
+        const nameLength = archive.readUInt16LE(pointer + 28);
+        const localOffset = archive.readUInt32LE(pointer + 42);
+        const name = archive.toString('utf8', pointer + 46, pointer + 46 + nameLength);
+
+        const dataStart = localOffset + 30 + archive.readUInt16LE(localOffset + 26);
+        const data = zlib.inflateRawSync(archive.subarray(dataStart, dataStart + compressedSize));
+        expect(zlib.crc32(data)).toBe(crc);
+
+        files[name] = data.toString('utf8');
+        pointer += 46 + nameLength;
+    }
+
+    return files;
+}
+
+describe('archive.util', () => {
+    it('writes a zip that round-trips', async () => {
+        const { archive, size } = await writeZip([
+            { name: 'users.json', data: Buffer.from('[{"id":"1"}]') },
+            { name: 'screenshots/ünïcode.txt', data: Buffer.from('x'.repeat(5000)) },
+            { name: 'empty.csv', data: Buffer.alloc(0) },
+        ]);
+
+        expect(size).toBe(archive.length);
+        expect(readZip(archive)).toEqual({
+            'users.json': '[{"id":"1"}]',
+            'screenshots/ünïcode.txt': 'x'.repeat(5000),
+            'empty.csv': '',
+        });
+    });
+
+    it('writes CSV with a header built from all rows', () => {
+        const csv = toCsv([
+            { id: 1, name: 'Ann, "the lead"' },
+            { id: 2, createdAt: new Date('2026-01-02T03:04:05Z'), tags: ['a', 'b'], note: null },
+        ]);
+
+        expect(csv.split('\r\n')).toEqual([
+            'id,name,createdAt,tags,note',
+            '1,"Ann, ""the lead""",,,',
+            '2,,2026-01-02T03:04:05.000Z,"[""a"",""b""]",',
+            '',
+        ]);
+    });
+
+    it('neutralizes spreadsheet formulas', () => {
+        expect(toCsv([{ title: '=HYPERLINK("x")' }, { title: '-5' }, { title: -5 }]))
+            .toBe('title\r\n"\'=HYPERLINK(""x"")"\r\n\'-5\r\n-5\r\n');
+    });
+});
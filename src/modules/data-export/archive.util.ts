@@ -0,0 +1,136 @@
+// src/modules/data-export/archive.util.ts
+import * as zlib from 'zlib';
+
+export interface ArchiveEntry {
+    name: string;
+    data: Buffer;
+}
+
+// Without ZIP64 the classic format stops at 65535 entries and 4 GiB offsets
+const MAX_ENTRIES = 0xffff;
+const MAX_OFFSET = 0xffffffff;
+const UTF8_NAMES_FLAG = 0x0800;
+const DEFLATE = 8;
+
+/**
+ * Writes a deflate-compressed ZIP archive one entry at a time, so only the entry being added is held in memory.
+ * Only the small central directory records are kept until finish().
+ */
+export class ZipWriter {
+    private readonly centralParts: Buffer[] = [];
+    private readonly time: number;
+    private readonly date: number;
+    private offset = 0;
+    private entryCount = 0;
+
+    constructor(private readonly write: (chunk: Buffer) => Promise<unknown>, modifiedAt: Date = new Date()) {
+        ({ time: this.time, date: this.date } = toDosDateTime(modifiedAt));
+    }
+
+    async add(entry: ArchiveEntry) {
+        if (this.entryCount >= MAX_ENTRIES) {
+            throw new Error(`An archive can hold at most ${MAX_ENTRIES} files`);
+        }
+
+        const name = Buffer.from(entry.name, 'utf8');
+        const compressed = zlib.deflateRawSync(entry.data);
+        const crc = zlib.crc32(entry.data);
+
+        const local = Buffer.alloc(30);
+        local.writeUInt32LE(0x04034b50, 0);
+        local.writeUInt16LE(20, 4);
+        local.writeUInt16LE(UTF8_NAMES_FLAG, 6);
+        local.writeUInt16LE(DEFLATE, 8);
+        local.writeUInt16LE(this.time, 10);
+        local.writeUInt16LE(this.date, 12);
+        local.writeUInt32LE(crc, 14);
+        local.writeUInt32LE(compressed.length, 18);
+        local.writeUInt32LE(entry.data.length, 22);
+        local.writeUInt16LE(name.length, 26);
+        local.writeUInt16LE(0, 28);
+
+        const central = Buffer.alloc(46);
+        central.writeUInt32LE(0x02014b50, 0);
+        central.writeUInt16LE(20, 4);
+        central.writeUInt16LE(20, 6);
+        central.writeUInt16LE(UTF8_NAMES_FLAG, 8);
+        central.writeUInt16LE(DEFLATE, 10);
+        central.writeUInt16LE(this.time, 12);
+        central.writeUInt16LE(this.date, 14);
+        central.writeUInt32LE(crc, 16);
+        central.writeUInt32LE(compressed.length, 20);
+        central.writeUInt32LE(entry.data.length, 24);
+        central.writeUInt16LE(name.length, 28);
+        central.writeUInt32LE(this.offset, 42);
+
+        const size = local.length + name.length + compressed.length;
+        if (this.offset + size > MAX_OFFSET) {
+            throw new Error('Archive is larger than 4 GiB');
+        }
+
+        await this.write(Buffer.concat([local, name, compressed]));
+        this.centralParts.push(central, name);
+        this.offset += size;
+        this.entryCount++;
+    }
+
+    /**
+     * Writes the central directory; returns the archive size in bytes
+     */
+    async finish(): Promise<number> {
+        const centralDirectory = Buffer.concat(this.centralParts);
+        const end = Buffer.alloc(22);
+        end.writeUInt32LE(0x06054b50, 0);
+        end.writeUInt16LE(this.entryCount, 8);
+        end.writeUInt16LE(this.entryCount, 10);
+        end.writeUInt32LE(centralDirectory.length, 12);
+        end.writeUInt32LE(this.offset, 16);
+
+        await this.write(Buffer.concat([centralDirectory, end]));
+
+        return this.offset + centralDirectory.length + end.length;
+    }
+}
+
+/**
+ * Serializes rows as RFC 4180 CSV; columns are the union of the row keys in first-seen order
+ */
+export function toCsv(rows: Record<string, unknown>[]): string {
+    const columns = [...new Set(rows.flatMap((row) => Object.keys(row)))];
+    const lines = [columns.map(escapeCsvValue).join(',')];
+
+    for (const row of rows) {
+        lines.push(columns.map((column) => escapeCsvValue(formatCsvValue(row[column]))).join(','));
+    }
+
+    return lines.join('\r\n') + '\r\n';
+}
+
+function formatCsvValue(value: unknown): string {
+    if (value === null || value === undefined) {
+        return '';
+    }
+    if (value instanceof Date) {
+        return value.toISOString();
+    }
+    if (typeof value === 'object') {
+        return JSON.stringify(value);
+    }
+    if (typeof value === 'string') {
+        // Spreadsheets run text cells starting with these as formulas
+        return /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+    }
+    return String(value as number | boolean | bigint);
+}
+
+function escapeCsvValue(value: string): string {
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function toDosDateTime(value: Date): { time: number; date: number } {
+    const year = Math.max(value.getFullYear(), 1980);
+    return {
+        time: (value.getHours() << 11) | (value.getMinutes() << 5) | Math.floor(value.getSeconds() / 2),
+        date: ((year - 1980) << 9) | ((value.getMonth() + 1) << 5) | value.getDate(),
+    };
+}
@@ -0,0 +1,48 @@
+// src/modules/data-export/data-export.controller.ts
+import { Controller, Get, Post, Body, Param, UseGuards, ParseUUIDPipe } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+import { DataExportService } from './data-export.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { AllowWhenReadOnly, BlockWhileImpersonating, CurrentUser, Roles } from '../auth/guards';
+import { CreateDataExportDto } from './dto/data-export.dto';
+
+@ApiTags('data-export')
+@Controller('data-export')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.COMPANY)
+@ApiBearerAuth()
+export class DataExportController {
+    constructor(private readonly dataExportService: DataExportService) { }
+
+    @Post()
+    @AllowWhenReadOnly()
+    @BlockWhileImpersonating()
+    @ApiOperation({
+        summary: 'Start a full company data export (Company Admin)',
+        description: 'Builds a ZIP archive in the background and emails a download link when it is ready',
+    })
+    async create(@Body() dto: CreateDataExportDto, @CurrentUser('companyId') companyId: string, @CurrentUser('id') userId: string) {
+        return this.dataExportService.requestExport(companyId, userId, dto);
+    }
+
+    @Get()
+    @ApiOperation({ summary: 'List data exports of the company' })
+    async findAll(@CurrentUser('companyId') companyId: string) {
+        return this.dataExportService.findAll(companyId);
+    }
+
+    @Get(':id')
+    @ApiOperation({ summary: 'Get the status of a data export' })
+    async findOne(@Param('id', ParseUUIDPipe) id: string, @CurrentUser('companyId') companyId: string) {
+        return this.dataExportService.findOne(id, companyId);
+    }
+
+    @Get(':id/download')
+    @BlockWhileImpersonating()
+    @ApiOperation({ summary: 'Get a short-lived download link for a completed export' })
+    async download(@Param('id', ParseUUIDPipe) id: string, @CurrentUser('companyId') companyId: string) {
+        return this.dataExportService.getDownloadUrl(id, companyId);
+    }
+}
@@ -0,0 +1,15 @@
+// src/modules/data-export/data-export.module.ts
+import { Module } from '@nestjs/common';
+import { DataExportController } from './data-export.controller';
+import { DataExportService } from './data-export.service';
+import { PrismaModule } from '../../prisma/prisma.module';
+import { StorageModule } from '../storage/storage.module';
+import { EmailModule } from '../email/email.module';
+
+@Module({
+    imports: [PrismaModule, StorageModule, EmailModule],
+    controllers: [DataExportController],
+    providers: [DataExportService],
+    exports: [DataExportService],
+})
+export class DataExportModule { }
@@ -0,0 +1,329 @@
+// src/modules/data-export/data-export.service.ts
+import { Injectable, Logger, NotFoundException, ConflictException, BadRequestException } from '@nestjs/common';
+import { ActivityType, DataExportStatus } from '@prisma/client';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PrismaService } from '../../prisma/prisma.service';
+import { StorageService } from '../storage/storage.service';
+import { EmailService } from '../email/email.service';
+import { ZipWriter, toCsv } from './archive.util';
+import { CreateDataExportDto } from './dto/data-export.dto';
+import { memberOf } from '../memberships/membership.util';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const EXPORT_RETENTION_DAYS = 7;
+// Jobs run in-process; anything still running after this was cut short by a restart
+const STALE_EXPORT_MS = 6 * 60 * 60 * 1000;
+const DOWNLOAD_LINK_SECONDS = 60 * 60;
+
+const EXPORT_SELECT = {
+    id: true,
+    status: true,
+    includeScreenshotFiles: true,
+    fileSize: true,
+    error: true,
+    startedAt: true,
+    completedAt: true,
+    expiresAt: true,
+    createdAt: true,
+    requestedBy: { select: { id: true, email: true, firstName: true, lastName: true } },
+};
+
+@Injectable()
+export class DataExportService {
+    private readonly logger = new Logger(DataExportService.name);
+
+    constructor(
+        private prisma: PrismaService,
+        private storageService: StorageService,
+        private emailService: EmailService,
+    ) { }
+
+    // ============================================
+    // REQUESTS (company admin)
+    // ============================================
+    async requestExport(companyId: string, userId: string, dto: CreateDataExportDto) {
+        const running = await this.prisma.dataExport.findFirst({
+            where: { companyId, status: { in: [DataExportStatus.PENDING, DataExportStatus.PROCESSING] } },
+        });
+
+        if (running) {
+            throw new ConflictException('An export is already being prepared for this company');
+        }
+
+        const dataExport = await this.prisma.dataExport.create({
+            data: {
+                companyId,
+                requestedById: userId,
+                includeScreenshotFiles: dto.includeScreenshotFiles ?? false,
+            },
+            select: EXPORT_SELECT,
+        });
+
+        await this.prisma.activityLog.create({
+            data: {
+                companyId,
+                userId,
+                activityType: ActivityType.DATA_EXPORT_REQUESTED,
+                description: 'Requested a full company data export',
+                metadata: { exportId: dataExport.id, includeScreenshotFiles: dataExport.includeScreenshotFiles },
+            },
+        });
+
+        // Built in the background; the requester is emailed when it is ready
+        this.processExport(dataExport.id).catch((error) => this.logger.error(`Data export ${dataExport.id} could not start`, error));
+
+        return dataExport;
+    }
+
+    async findAll(companyId: string) {
+        return this.prisma.dataExport.findMany({
+            where: { companyId },
+            select: EXPORT_SELECT,
+            orderBy: { createdAt: 'desc' },
+        });
+    }
+
+    async findOne(id: string, companyId: string) {
+        const dataExport = await this.prisma.dataExport.findFirst({
+            where: { id, companyId },
+            select: EXPORT_SELECT,
+        });
+
+        if (!dataExport) {
+            throw new NotFoundException('Export not found');
+        }
+
+        return dataExport;
+    }
+
+    async getDownloadUrl(id: string, companyId: string) {
+        const dataExport = await this.prisma.dataExport.findFirst({ where: { id, companyId } });
+
+        if (!dataExport) {
+            throw new NotFoundException('Export not found');
+        }
+
+        if (dataExport.status !== DataExportStatus.COMPLETED || !dataExport.filePath) {
+            throw new BadRequestException(`Export is ${dataExport.status.toLowerCase()} and cannot be downloaded`);
+        }
+
+        const url = await this.storageService.getDataExportUrl(dataExport.filePath, DOWNLOAD_LINK_SECONDS);
+
+        return { url, expiresIn: DOWNLOAD_LINK_SECONDS, fileSize: dataExport.fileSize };
+    }
+
+    // ============================================
+    // BUILDING THE ARCHIVE
+    // ============================================
+    async processExport(id: string) {
+        const dataExport = await this.prisma.dataExport.update({
+            where: { id },
+            data: { status: DataExportStatus.PROCESSING, startedAt: new Date() },
+            include: {
+                company: { select: { id: true, name: true } },
+                requestedBy: { select: { email: true, firstName: true } },
+            },
+        });
+
+        // Built on disk and streamed to storage so large exports don't have to fit in memory
+        const tempPath = path.join(os.tmpdir(), `data-export-${id}.zip`);
+
+        try {
+            const fileSize = await this.writeArchive(tempPath, dataExport.companyId, dataExport.includeScreenshotFiles);
+            const filePath = await this.storageService.uploadDataExport(dataExport.companyId, id, fs.createReadStream(tempPath));
+            const expiresAt = new Date(Date.now() + EXPORT_RETENTION_DAYS * DAY_MS);
+
+            await this.prisma.dataExport.update({
+                where: { id },
+                data: {
+                    status: DataExportStatus.COMPLETED,
+                    filePath,
+                    fileSize,
+                    completedAt: new Date(),
+                    expiresAt,
+                },
+            });
+
+            try {
+                const downloadUrl = await this.storageService.getDataExportUrl(filePath, EXPORT_RETENTION_DAYS * DAY_MS / 1000);
+                await this.emailService.sendDataExportReadyEmail(
+                    dataExport.requestedBy.email,
+                    dataExport.requestedBy.firstName,
+                    dataExport.company.name,
+                    downloadUrl,
+                    fileSize,
+                    expiresAt,
+                    dataExport.companyId,
+                );
+            } catch (error) {
+                console.error('Failed to send data export email:', error);
+            }
+        } catch (error) {
+            this.logger.error(`Data export ${id} failed`, error);
+
+            await this.prisma.dataExport.update({
+                where: { id },
+                data: { status: DataExportStatus.FAILED, error: error instanceof Error ? error.message : String(error) },
+            });
+
+            try {
+                await this.emailService.sendDataExportFailedEmail(
+                    dataExport.requestedBy.email,
+                    dataExport.requestedBy.firstName,
+                    dataExport.company.name,
+                    dataExport.companyId,
+                );
+            } catch (emailError) {
+                console.error('Failed to send data export email:', emailError);
+            }
+        } finally {
+            await fs.promises.rm(tempPath, { force: true });
+        }
+    }
+
+    /**
+     * Writes the archive to a file entry by entry; returns its size in bytes
+     */
+    private async writeArchive(filePath: string, companyId: string, includeScreenshotFiles: boolean): Promise<number> {
+        const file = await fs.promises.open(filePath, 'w');
+
+        try {
+            const writer = new ZipWriter((chunk) => file.write(chunk));
+            await this.writeEntries(writer, companyId, includeScreenshotFiles);
+            return await writer.finish();
+        } finally {
+            await file.close();
+        }
+    }
+
+    /**
+     * One JSON (full fidelity) and one CSV (flattened) file per data type, plus a manifest. Screenshot files are
+     * downloaded and written one at a time.
+     */
+    private async writeEntries(writer: ZipWriter, companyId: string, includeScreenshotFiles: boolean) {
+        const inCompany = { companyId };
+        const inProject = { project: inCompany };
+        const inSubProject = { subProject: inProject };
+
+        const [
+            company, users, departments, projects, projectMembers, subProjects, subProjectMembers,
+            tasks, taskAssignees, timeTrackings, screenshots, sops, chatRooms, chatMessages, activityLogs,
+        ] = await Promise.all([
+            this.prisma.company.findUnique({ where: { id: companyId } }),
+            // Members from other companies too; their role, department and status here are on the membership
+            this.prisma.user.findMany({
+                where: memberOf(companyId),
+                omit: { password: true, twoFactorSecret: true, twoFactorRecoveryCodes: true },
+                include: { memberships: { where: inCompany } },
+                orderBy: { createdAt: 'asc' },
+            }),
+            this.prisma.department.findMany({ where: inCompany, orderBy: { createdAt: 'asc' } }),
+            this.prisma.project.findMany({ where: inCompany, orderBy: { createdAt: 'asc' } }),
+            this.prisma.projectMember.findMany({ where: inProject }),
+            this.prisma.subProject.findMany({ where: inProject, orderBy: { createdAt: 'asc' } }),
+            this.prisma.subProjectMember.findMany({ where: { subProject: inProject } }),
+            this.prisma.task.findMany({ where: inSubProject, orderBy: { createdAt: 'asc' } }),
+            this.prisma.taskAssignee.findMany({ where: { task: inSubProject } }),
+            // Scoped by the work, not by the member's home company
+            this.prisma.timeTracking.findMany({ where: inSubProject, orderBy: { startTime: 'asc' } }),
+            this.prisma.screenshot.findMany({ where: { timeTracking: inSubProject }, orderBy: { capturedAt: 'asc' } }),
+            this.prisma.sop.findMany({ where: inCompany, orderBy: { createdAt: 'asc' } }),
+            this.prisma.chatRoom.findMany({ where: inProject, orderBy: { createdAt: 'asc' } }),
+            this.prisma.chatMessage.findMany({ where: { chatRoom: inProject }, orderBy: { createdAt: 'asc' } }),
+            this.prisma.activityLog.findMany({ where: inCompany, orderBy: { createdAt: 'asc' } }),
+        ]);
+
+        const datasets: Record<string, Record<string, unknown>[]> = {
+            users,
+            departments,
+            projects,
+            project_members: projectMembers,
+            sub_projects: subProjects,
+            sub_project_members: subProjectMembers,
+            tasks,
+            task_assignees: taskAssignees,
+            time_trackings: timeTrackings,
+            screenshots,
+            sops,
+            chat_rooms: chatRooms,
+            chat_messages: chatMessages,
+            activity_logs: activityLogs,
+        };
+
+        for (const [name, rows] of Object.entries(datasets)) {
+            await writer.add({ name: `json/${name}.json`, data: Buffer.from(JSON.stringify(rows, null, 2)) });
+            await writer.add({ name: `csv/${name}.csv`, data: Buffer.from(toCsv(rows)) });
+        }
+
+        const missingScreenshotFiles: string[] = [];
+        if (includeScreenshotFiles) {
+            for (const screenshot of screenshots.filter((item) => item.filePath && !item.isDeleted)) {
+                let data: Buffer;
+                try {
+                    data = await this.storageService.downloadFile(screenshot.filePath);
+                } catch {
+                    // Already removed by retention cleanup or never uploaded
+                    missingScreenshotFiles.push(screenshot.id);
+                    continue;
+                }
+
+                await writer.add({
+                    name: `screenshots/${screenshot.userId}/${screenshot.id}${path.extname(screenshot.filePath) || '.jpg'}`,
+                    data,
+                });
+            }
+        }
+
+        // Written last, once the missing files are known
+        await writer.add({
+            name: 'manifest.json',
+            data: Buffer.from(JSON.stringify({
+                company,
+                exportedAt: new Date(),
+                counts: Object.fromEntries(Object.entries(datasets).map(([name, rows]) => [name, rows.length])),
+                includeScreenshotFiles,
+                missingScreenshotFiles,
+            }, null, 2)),
+        });
+    }
+
+    // ============================================
+    // CLEANUP (scheduled)
+    // ============================================
+    async cleanupExpiredExports() {
+        const now = new Date();
+
+        const expired = await this.prisma.dataExport.findMany({
+            where: { status: DataExportStatus.COMPLETED, expiresAt: { lt: now } },
+            select: { id: true, filePath: true },
+        });
+
+        let deleted = 0;
+        for (const dataExport of expired) {
+            try {
+                if (dataExport.filePath) {
+                    await this.storageService.deleteDataExport(dataExport.filePath);
+                }
+                await this.prisma.dataExport.update({
+                    where: { id: dataExport.id },
+                    data: { status: DataExportStatus.EXPIRED, filePath: null },
+                });
+                deleted++;
+            } catch (error) {
+                this.logger.error(`Failed to delete expired export ${dataExport.id}`, error);
+            }
+        }
+
+        const interrupted = await this.prisma.dataExport.updateMany({
+            where: {
+                status: { in: [DataExportStatus.PENDING, DataExportStatus.PROCESSING] },
+                createdAt: { lt: new Date(now.getTime() - STALE_EXPORT_MS) },
+            },
+            data: { status: DataExportStatus.FAILED, error: 'Export was interrupted; please request it again' },
+        });
+
+        return { deleted, interrupted: interrupted.count };
+    }
+}
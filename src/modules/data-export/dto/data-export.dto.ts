@@ -0,0 +1,13 @@
+// src/modules/data-export/dto/data-export.dto.ts
+import { IsBoolean, IsOptional } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class CreateDataExportDto {
+    @ApiPropertyOptional({
+        default: false,
+        description: 'Also put the screenshot image files in the archive (metadata is always included)',
+    })
+    @IsOptional()
+    @IsBoolean()
+    includeScreenshotFiles?: boolean;
+}
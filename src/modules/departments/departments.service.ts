@@ -14,6 +14,17 @@ import {
 import { EmailService } from '../email/email.service';
 import { EmailType } from '../email/interfaces/email.interface';
 import { StorageService } from '../storage/storage.service';
+import { MembershipsService } from '../memberships/memberships.service';
+import { memberOf } from '../memberships/membership.util';
+
+// Members whose home is another company; merged into `users` with their role and status here
+const GUEST_MEMBERS = {
+    select: {
+        role: true,
+        isActive: true,
+        user: { select: { id: true, firstName: true, lastName: true, email: true, avatar: true, points: true, createdAt: true } },
+    },
+};
 
 @Injectable()
 export class DepartmentsService {
@@ -21,6 +32,7 @@ export class DepartmentsService {
         private prisma: PrismaService,
         private emailService: EmailService,
         private storageService: StorageService,
+        private membershipsService: MembershipsService,
     ) { }
 
     // Helper function to convert date string to proper DateTime
@@ -47,7 +59,7 @@ export class DepartmentsService {
         // Validate lead exists if provided
         if (createDto.leadId) {
             const lead = await this.prisma.user.findFirst({
-                where: { id: createDto.leadId, companyId, isActive: true }
+                where: { id: createDto.leadId, ...memberOf(companyId, { isActive: true }) }
             });
             if (!lead) {
                 throw new BadRequestException('Department lead not found');
@@ -77,17 +89,14 @@ export class DepartmentsService {
             if (memberIds && memberIds.length > 0) {
                 // Verify all users exist in company
                 const users = await prisma.user.findMany({
-                    where: { id: { in: memberIds }, companyId },
+                    where: { id: { in: memberIds }, ...memberOf(companyId) },
                     select: { id: true, email: true, firstName: true }
                 });
                 if (users.length !== memberIds.length) {
                     throw new BadRequestException('Some users not found in company');
                 }
 
-                await prisma.user.updateMany({
-                    where: { id: { in: memberIds }, companyId },
-                    data: { departmentId: department.id }
-                });
+                await this.membershipsService.setDepartment(memberIds, companyId, department.id, prisma);
 
                 // Send notifications to assigned members
                 await prisma.notification.createMany({
@@ -106,7 +115,8 @@ export class DepartmentsService {
                         await this.emailService.sendDepartmentAssignmentEmail(
                             user.email,
                             user.firstName,
-                            department.name
+                            department.name,
+                            companyId
                         );
                     }
                 } catch (error) {
@@ -163,7 +173,8 @@ export class DepartmentsService {
                         await this.emailService.sendDepartmentHeadAssignmentEmail(
                             leadUser.email,
                             leadUser.firstName,
-                            department.name
+                            department.name,
+                            companyId
                         );
                     }
                 } catch (error) {
@@ -219,6 +230,7 @@ export class DepartmentsService {
                         isActive: true
                     }
                 },
+                memberships: GUEST_MEMBERS,
                 projects: {
                     include: {
                         project: {
@@ -245,8 +257,9 @@ export class DepartmentsService {
 
         // Calculate additional stats for each department
         const departmentsWithStats = await Promise.all(
-            departments.map(async (dept) => {
+            departments.map(async ({ memberships, ...dept }) => {
                 const projectIds = dept.projects.map(p => p.projectId);
+                const users = [...dept.users, ...memberships.map(({ user, ...member }) => ({ ...user, ...member }))];
 
                 // Get aggregated stats from linked projects
                 let totalTasks = 0;
@@ -278,13 +291,14 @@ export class DepartmentsService {
                 }
 
                 // Calculate total points from department members
-                totalPoints = dept.users.reduce((sum, user) => sum + (user.points || 0), 0);
+                totalPoints = users.reduce((sum, user) => sum + (user.points || 0), 0);
 
                 return {
                     ...dept,
+                    users,
                     stats: {
-                        totalMembers: dept._count.users,
-                        activeMembers: dept.users.filter(u => u.isActive).length,
+                        totalMembers: users.length,
+                        activeMembers: users.filter(u => u.isActive).length,
                         totalProjects: dept._count.projects,
                         totalTasks,
                         completedTasks,
@@ -303,7 +317,7 @@ export class DepartmentsService {
      * Get single department with full details
      */
     async findOne(id: string, companyId: string) {
-        const department = await this.prisma.department.findFirst({
+        const found = await this.prisma.department.findFirst({
             where: { id, companyId },
             include: {
                 lead: {
@@ -332,6 +346,7 @@ export class DepartmentsService {
                     },
                     orderBy: { points: 'desc' }
                 },
+                memberships: GUEST_MEMBERS,
                 projects: {
                     include: {
                         project: {
@@ -380,15 +395,22 @@ export class DepartmentsService {
             }
         });
 
-        if (!department) {
+        if (!found) {
             throw new NotFoundException('Department not found');
         }
 
+        const { memberships, ...rest } = found;
+        const department = {
+            ...rest,
+            users: [...rest.users, ...memberships.map(({ user, ...member }) => ({ ...user, ...member }))]
+                .sort((a, b) => b.points - a.points),
+        };
+
         // Get detailed stats
         const projectIds = department.projects.map(p => p.projectId);
 
         let stats = {
-            totalMembers: department._count.users,
+            totalMembers: department.users.length,
             activeMembers: department.users.filter(u => u.isActive).length,
             totalProjects: department._count.projects,
             totalTasks: 0,
@@ -475,7 +497,7 @@ export class DepartmentsService {
         // If changing lead, validate and notify
         if (updateDto.leadId && updateDto.leadId !== department.leadId) {
             const newLead = await this.prisma.user.findFirst({
-                where: { id: updateDto.leadId, companyId, isActive: true },
+                where: { id: updateDto.leadId, ...memberOf(companyId, { isActive: true }) },
                 select: { id: true, email: true, firstName: true }
             });
             if (!newLead) {
@@ -504,7 +526,8 @@ export class DepartmentsService {
                 await this.emailService.sendDepartmentHeadAssignmentEmail(
                     newLead.email,
                     newLead.firstName,
-                    department.name
+                    department.name,
+                    companyId
                 );
             } catch (error) {
                 console.error('Failed to send department head assignment email:', error);
@@ -623,7 +646,7 @@ export class DepartmentsService {
 
         // Verify all users exist in company and get their info
         const users = await this.prisma.user.findMany({
-            where: { id: { in: dto.userIds }, companyId },
+            where: { id: { in: dto.userIds }, ...memberOf(companyId) },
             select: { id: true, email: true, firstName: true }
         });
         if (users.length !== dto.userIds.length) {
@@ -631,10 +654,7 @@ export class DepartmentsService {
         }
 
         // Update users' department
-        await this.prisma.user.updateMany({
-            where: { id: { in: dto.userIds }, companyId },
-            data: { departmentId: id }
-        });
+        await this.membershipsService.setDepartment(dto.userIds, companyId, id);
 
         // Send notifications
         await this.prisma.notification.createMany({
@@ -653,7 +673,8 @@ export class DepartmentsService {
                 await this.emailService.sendDepartmentAssignmentEmail(
                     user.email,
                     user.firstName,
-                    department.name
+                    department.name,
+                    companyId
                 );
             }
         } catch (error) {
@@ -682,21 +703,13 @@ export class DepartmentsService {
         const usersToRemove = await this.prisma.user.findMany({
             where: {
                 id: { in: dto.userIds },
-                departmentId: id,
-                companyId
+                ...memberOf(companyId, { departmentId: id })
             },
             select: { id: true, email: true, firstName: true }
         });
 
         // Remove users from department
-        await this.prisma.user.updateMany({
-            where: {
-                id: { in: dto.userIds },
-                departmentId: id,
-                companyId
-            },
-            data: { departmentId: null }
-        });
+        await this.membershipsService.setDepartment(dto.userIds, companyId, null, this.prisma, id);
 
         // Send emails to removed users
         try {
@@ -706,7 +719,8 @@ export class DepartmentsService {
                     user.email,
                     {
                         recipientName: user.firstName,
-                        departmentName: department.name
+                        departmentName: department.name,
+                        companyId
                     }
                 );
             }
@@ -816,14 +830,10 @@ export class DepartmentsService {
      * Get available users not in this department
      */
     async getAvailableUsers(id: string, companyId: string) {
-        return this.prisma.user.findMany({
+        const users = await this.prisma.user.findMany({
             where: {
-                companyId,
-                isActive: true,
-                OR: [
-                    { departmentId: null },
-                    { departmentId: { not: id } }
-                ]
+                ...memberOf(companyId, { isActive: true }),
+                NOT: memberOf(companyId, { departmentId: id })
             },
             select: {
                 id: true,
@@ -833,12 +843,22 @@ export class DepartmentsService {
                 avatar: true,
                 role: true,
                 points: true,
+                companyId: true,
                 department: {
                     select: { id: true, name: true }
+                },
+                memberships: {
+                    where: { companyId },
+                    select: { role: true, department: { select: { id: true, name: true } } }
                 }
             },
             orderBy: [{ firstName: 'asc' }, { lastName: 'asc' }]
         });
+
+        // Members from other companies show their role and department in this one
+        return users.map(({ memberships, companyId: homeCompanyId, ...user }) =>
+            homeCompanyId === companyId || !memberships[0] ? user : { ...user, ...memberships[0] }
+        );
     }
 
     /**
@@ -853,7 +873,7 @@ export class DepartmentsService {
 
         // Get all department members for email notifications
         const departmentMembers = await this.prisma.user.findMany({
-            where: { departmentId: id },
+            where: { OR: [{ departmentId: id }, { memberships: { some: { departmentId: id } } }] },
             select: { id: true, email: true, firstName: true }
         });
 
@@ -883,7 +903,8 @@ export class DepartmentsService {
                     member.email,
                     {
                         recipientName: member.firstName,
-                        departmentName: department.name
+                        departmentName: department.name,
+                        companyId
                     }
                 );
             }
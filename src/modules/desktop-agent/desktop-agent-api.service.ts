@@ -7,30 +7,29 @@ import {
     UnauthorizedException,
     ConflictException,
 } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { PrismaService } from '../../prisma/prisma.service';
 import { StorageService } from '../storage/storage.service';
+import { PlanFeature, PlansService } from '../plans';
 import {
     UserRole,
     NotificationType,
     ActivityType,
     CaptureStatus,
+    SubscriptionStatus,
 } from '@prisma/client';
-
-// Points configuration (same as time-tracking service)
-const POINTS_CONFIG = {
-    MINUTES_PER_POINT: 30,
-    MAX_POINTS_PER_SESSION: 16,
-    MIN_MINUTES_FOR_POINT: 15,
-};
-
-// Screenshot retention
-const SCREENSHOT_RETENTION_DAYS = 60;
+import { SubscriptionAccessState, getSubscriptionAccess, parseGraceDays } from '../auth/utils/subscription-access.util';
+import { ScoringService } from '../scoring/scoring.service';
+import { calculateSessionPoints } from '../scoring/scoring.util';
 
 @Injectable()
 export class DesktopAgentApiService {
     constructor(
         private prisma: PrismaService,
         private storageService: StorageService,
+        private plansService: PlansService,
+        private configService: ConfigService,
+        private scoringService: ScoringService,
     ) { }
 
     // ============================================
@@ -55,6 +54,10 @@ export class DesktopAgentApiService {
                                 id: true,
                                 name: true,
                                 screenCaptureEnabled: true,
+                                isActive: true,
+                                subscriptionStatus: true,
+                                trialEndsAt: true,
+                                subscriptionEndsAt: true,
                             },
                         },
                     },
@@ -78,6 +81,10 @@ export class DesktopAgentApiService {
             throw new ForbiddenException('User account is inactive');
         }
 
+        if (!agent.user.company.isActive) {
+            throw new ForbiddenException('Company account is inactive');
+        }
+
         return {
             agent,
             user: agent.user,
@@ -85,6 +92,21 @@ export class DesktopAgentApiService {
         };
     }
 
+    /**
+     * Agent tokens bypass SubscriptionGuard, so read-only companies are checked here before new tracking data is created
+     */
+    private assertNotReadOnly(company: {
+        subscriptionStatus: SubscriptionStatus;
+        trialEndsAt: Date | null;
+        subscriptionEndsAt: Date | null;
+    }) {
+        const graceDays = parseGraceDays(this.configService.get<string>('SUBSCRIPTION_GRACE_DAYS'));
+
+        if (getSubscriptionAccess(company, graceDays).state === SubscriptionAccessState.READ_ONLY) {
+            throw new ForbiddenException('Your company subscription has lapsed and the account is read-only. Ask your administrator to renew it.');
+        }
+    }
+
     // ============================================
     // GET USER'S PROJECTS & SUBPROJECTS
     // ============================================
@@ -249,6 +271,7 @@ export class DesktopAgentApiService {
         notes?: string,
     ) {
         const { user, company, agent } = await this.validateAgentToken(agentToken);
+        this.assertNotReadOnly(company);
 
         // Get subproject with project info
         const subProject = await this.prisma.subProject.findFirst({
@@ -439,7 +462,8 @@ export class DesktopAgentApiService {
 
         // Calculate effective duration
         const durationMinutes = Math.max(0, rawDurationMinutes - timeTracking.timeDeducted);
-        const pointsEarned = this.calculatePoints(durationMinutes);
+        const scoring = await this.scoringService.getConfig(company.id);
+        const pointsEarned = calculateSessionPoints(durationMinutes, scoring.rules);
 
         // Update time tracking
         const result = await this.prisma.$transaction(async (prisma) => {
@@ -450,6 +474,8 @@ export class DesktopAgentApiService {
                     durationMinutes,
                     isActive: false,
                     notes: notes || timeTracking.notes,
+                    pointsEarned,
+                    scoringVersion: scoring.version,
                 },
             });
 
@@ -485,6 +511,7 @@ export class DesktopAgentApiService {
                     timeTrackingId: timeTracking.id,
                     durationMinutes,
                     pointsEarned,
+                    scoringVersion: scoring.version,
                     screenshotsCount: timeTracking.screenCaptures.length,
                     source: 'desktop-agent',
                 },
@@ -522,6 +549,7 @@ export class DesktopAgentApiService {
                             select: {
                                 id: true,
                                 name: true,
+                                companyId: true,
                                 screenCaptureEnabled: true,
                             },
                         },
@@ -548,6 +576,7 @@ export class DesktopAgentApiService {
         const elapsedMinutes = Math.floor(
             (new Date().getTime() - activeTimer.startTime.getTime()) / 1000 / 60,
         );
+        const { rules } = await this.scoringService.getConfig(activeTimer.subProject.project.companyId);
 
         return {
             active: true,
@@ -560,7 +589,7 @@ export class DesktopAgentApiService {
                 startTime: activeTimer.startTime,
                 elapsedMinutes,
                 elapsedFormatted: this.formatDuration(elapsedMinutes),
-                potentialPoints: this.calculatePoints(elapsedMinutes),
+                potentialPoints: calculateSessionPoints(elapsedMinutes, rules),
                 screenCaptureRequired: activeTimer.screenCaptureRequired,
                 screenCaptureEnabled: activeTimer.subProject.project.screenCaptureEnabled,
                 recentScreenshots: activeTimer.screenCaptures,
@@ -584,6 +613,7 @@ export class DesktopAgentApiService {
         checksum?: string,
     ) {
         const { user, company } = await this.validateAgentToken(agentToken);
+        this.assertNotReadOnly(company);
 
         // Verify time tracking session
         const timeTracking = await this.prisma.timeTracking.findFirst({
@@ -620,6 +650,8 @@ export class DesktopAgentApiService {
             throw new BadRequestException('Screen capture is not enabled for this project');
         }
 
+        await this.plansService.assertFeature(timeTracking.subProject.project.companyId, PlanFeature.DESKTOP_AGENT);
+
         // Upload to Supabase using StorageService
         const uploadResult = await this.storageService.uploadScreenshot(
             file,
@@ -645,9 +677,8 @@ export class DesktopAgentApiService {
             (capturedAtDate.getTime() - intervalStart.getTime()) / 1000 / 60,
         );
 
-        // Calculate expiry date
-        const expiresAt = new Date();
-        expiresAt.setDate(expiresAt.getDate() + SCREENSHOT_RETENTION_DAYS);
+        // Retention depends on the company's plan
+        const expiresAt = await this.plansService.getScreenshotExpiry(timeTracking.subProject.project.companyId);
 
         // Create screenshot record with Supabase URL
         const screenshot = await this.prisma.screenshot.create({
@@ -746,9 +777,8 @@ export class DesktopAgentApiService {
             (attemptedAtDate.getTime() - intervalStart.getTime()) / 1000 / 60,
         );
 
-        // Calculate expiry
-        const expiresAt = new Date();
-        expiresAt.setDate(expiresAt.getDate() + SCREENSHOT_RETENTION_DAYS);
+        // Retention depends on the company's plan
+        const expiresAt = await this.plansService.getScreenshotExpiry(company.id);
 
         // Create failed capture record
         const screenshot = await this.prisma.screenshot.create({
@@ -839,17 +869,6 @@ export class DesktopAgentApiService {
         }));
     }
 
-    // ============================================
-    // HELPER: Calculate Points
-    // ============================================
-    private calculatePoints(durationMinutes: number): number {
-        if (durationMinutes < POINTS_CONFIG.MIN_MINUTES_FOR_POINT) return 0;
-        return Math.min(
-            Math.floor(durationMinutes / POINTS_CONFIG.MINUTES_PER_POINT),
-            POINTS_CONFIG.MAX_POINTS_PER_SESSION,
-        );
-    }
-
     // ============================================
     // HELPER: Format Duration
     // ============================================
@@ -6,9 +6,10 @@ import { DesktopAgentApiController } from './desktop-agent-api.controller';
 import { DesktopAgentApiService } from './desktop-agent-api.service';
 import { PrismaModule } from '../../prisma/prisma.module';
 import { StorageModule } from '../storage/storage.module';
+import { ScoringModule } from '../scoring/scoring.module';
 
 @Module({
-    imports: [PrismaModule, StorageModule],
+    imports: [PrismaModule, StorageModule, ScoringModule],
     controllers: [DesktopAgentController, DesktopAgentApiController],
     providers: [DesktopAgentService, DesktopAgentApiService],
     exports: [DesktopAgentService, DesktopAgentApiService],
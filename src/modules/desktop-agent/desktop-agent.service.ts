@@ -14,6 +14,7 @@ import {
 } from './dto/desktop-agent.dto';
 import { EmailService } from '../email/email.service';
 import { EmailType } from '../email/interfaces/email.interface';
+import { PlanFeature, PlansService } from '../plans';
 
 // Constants
 const AGENT_TOKEN_EXPIRY_DAYS = 30;
@@ -44,6 +45,7 @@ const AGENT_DOWNLOAD_URLS = {
 export class DesktopAgentService {
     constructor(private prisma: PrismaService,
         private emailService: EmailService,
+        private plansService: PlansService,
     ) { }
 
     // ============================================
@@ -106,6 +108,8 @@ export class DesktopAgentService {
     // REGISTER NEW AGENT
     // ============================================
     async registerAgent(dto: RegisterAgentDto, userId: string, companyId: string) {
+        await this.plansService.assertFeature(companyId, PlanFeature.DESKTOP_AGENT);
+
         // Check if agent already exists for this user and machine
         const existingAgent = await this.prisma.desktopAgent.findUnique({
             where: {
@@ -181,7 +185,8 @@ export class DesktopAgentService {
                     user.email,
                     user.firstName,
                     dto.machineName || dto.machineId,
-                    dto.platform
+                    dto.platform,
+                    companyId
                 );
             }
         } catch (error) {
@@ -474,6 +479,7 @@ export class DesktopAgentService {
                         deactivatedBy: adminName,
                         machineName: agent.machineName || agent.machineId,
                         reason: 'Desktop agent deactivated by administrator',
+                        companyId,
                     }
                 );
             }
@@ -638,6 +644,7 @@ export class DesktopAgentService {
                             recipientName: agent.user.firstName,
                             machineName: agent.machineName || agent.machineId,
                             companyName: agent.user.company?.name || 'your company',
+                            companyId: agent.user.company?.id,
                         }
                     );
                 }
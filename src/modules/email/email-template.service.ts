@@ -1,11 +1,10 @@
 // src/modules/email/email-template.service.ts
 import { Injectable } from '@nestjs/common';
-import { EmailType, EmailContext } from './interfaces/email.interface';
+import { EmailType, EmailContext, EmploymentChange } from './interfaces/email.interface';
+import { DEFAULT_BRAND_COLOR, DEFAULT_BRAND_COLOR_LIGHT, escapeHtml, lightenColor } from './utils/branding.util';
 
 @Injectable()
 export class EmailTemplateService {
-    private readonly brandColor = '#4F46E5'; // Indigo
-    private readonly brandColorLight = '#EEF2FF';
     private readonly textColor = '#1F2937';
     private readonly mutedTextColor = '#6B7280';
 
@@ -19,6 +18,8 @@ export class EmailTemplateService {
             [EmailType.WELCOME_USER]: () => this.welcomeUserTemplate(context),
             [EmailType.PASSWORD_RESET]: () => this.passwordResetTemplate(context),
             [EmailType.EMAIL_VERIFICATION]: () => this.emailVerificationTemplate(context),
+            [EmailType.ACCOUNT_LOCKED]: () => this.accountLockedTemplate(context),
+            [EmailType.INVITATION]: () => this.invitationTemplate(context),
 
             // Projects
             [EmailType.PROJECT_CREATED]: () => this.projectCreatedTemplate(context),
@@ -68,7 +69,23 @@ export class EmailTemplateService {
             [EmailType.TRIAL_ENDING_SOON]: () => this.trialEndingSoonTemplate(context),
             [EmailType.TRIAL_EXPIRED]: () => this.trialExpiredTemplate(context),
             [EmailType.SUBSCRIPTION_EXPIRED]: () => this.subscriptionExpiredTemplate(context),
+            [EmailType.SUBSCRIPTION_GRACE_PERIOD]: () => this.subscriptionGracePeriodTemplate(context),
+            [EmailType.SUBSCRIPTION_RENEWED]: () => this.subscriptionRenewedTemplate(context),
+            [EmailType.SUBSCRIPTION_CANCELLED]: () => this.subscriptionCancelledTemplate(context),
+            [EmailType.PAYMENT_FAILED]: () => this.paymentFailedTemplate(context),
             [EmailType.PASSWORD_CHANGED]: () => this.passwordChangedTemplate(context),
+
+            // Data export
+            [EmailType.DATA_EXPORT_READY]: () => this.dataExportReadyTemplate(context),
+            [EmailType.DATA_EXPORT_FAILED]: () => this.dataExportFailedTemplate(context),
+
+            // Company closure
+            [EmailType.COMPANY_CLOSURE_SCHEDULED]: () => this.companyClosureScheduledTemplate(context),
+            [EmailType.COMPANY_CLOSURE_CANCELLED]: () => this.companyClosureCancelledTemplate(context),
+            [EmailType.COMPANY_PURGED]: () => this.companyPurgedTemplate(context),
+
+            // Employment dates
+            [EmailType.EMPLOYMENT_CHANGES_UPCOMING]: () => this.employmentChangesUpcomingTemplate(context),
         };
 
         return templates[type]();
@@ -79,13 +96,23 @@ export class EmailTemplateService {
     // ============================================
 
     private wrapInBaseTemplate(content: string, context: EmailContext): string {
+        const branding = context.branding;
+        const senderName = branding ? escapeHtml(branding.companyName) : 'Merit Tracker';
+        // Companies with their own color get a flat header instead of the Merit Tracker gradient
+        const headerBackground = branding?.brandColor
+            ? branding.brandColor
+            : `linear-gradient(135deg, ${DEFAULT_BRAND_COLOR} 0%, #7C3AED 100%)`;
+        const logo = branding?.logoUrl
+            ? `<img src="${escapeHtml(branding.logoUrl)}" alt="${senderName}" height="40" style="display: block; height: 40px; margin: 0 0 12px 0; border: 0;">`
+            : '';
+
         return `
 <!DOCTYPE html>
 <html lang="en">
 <head>
     <meta charset="UTF-8">
     <meta name="viewport" content="width=device-width, initial-scale=1.0">
-    <title>Merit Tracker</title>
+    <title>${senderName}</title>
     <!--[if mso]>
     <noscript>
         <xml>
@@ -103,12 +130,13 @@ export class EmailTemplateService {
                 <table role="presentation" width="600" cellspacing="0" cellpadding="0" style="background-color: #ffffff; border-radius: 12px; box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);">
                     <!-- Header -->
                     <tr>
-                        <td style="background: linear-gradient(135deg, ${this.brandColor} 0%, #7C3AED 100%); padding: 30px 40px; border-radius: 12px 12px 0 0;">
+                        <td style="background: ${headerBackground}; padding: 30px 40px; border-radius: 12px 12px 0 0;">
                             <table role="presentation" width="100%" cellspacing="0" cellpadding="0">
                                 <tr>
                                     <td>
+                                        ${logo}
                                         <h1 style="margin: 0; color: #ffffff; font-size: 28px; font-weight: 700; letter-spacing: -0.5px;">
-                                            📊 Merit Tracker
+                                            ${branding ? senderName : '📊 Merit Tracker'}
                                         </h1>
                                     </td>
                                 </tr>
@@ -130,11 +158,15 @@ export class EmailTemplateService {
                                 <tr>
                                     <td style="text-align: center;">
                                         <p style="margin: 0 0 10px 0; color: ${this.mutedTextColor}; font-size: 14px;">
-                                            This email was sent by Merit Tracker
+                                            This email was sent by ${branding ? `${senderName} via Merit Tracker` : 'Merit Tracker'}
                                         </p>
+                                        ${branding?.footerText ? `
+                                        <p style="margin: 0 0 10px 0; color: ${this.mutedTextColor}; font-size: 12px; white-space: pre-line;">
+                                            ${escapeHtml(branding.footerText)}
+                                        </p>` : ''}
                                         <p style="margin: 0 0 10px 0; color: ${this.mutedTextColor}; font-size: 12px;">
                                             Need help? Contact us at 
-                                            <a href="mailto:${context.supportEmail}" style="color: ${this.brandColor}; text-decoration: none;">${context.supportEmail}</a>
+                                            <a href="mailto:${context.supportEmail}" style="color: ${this.brandColor(context)}; text-decoration: none;">${context.supportEmail}</a>
                                         </p>
                                         <p style="margin: 0; color: ${this.mutedTextColor}; font-size: 12px;">
                                             © ${context.year} Merit Tracker. All rights reserved.
@@ -152,10 +184,21 @@ export class EmailTemplateService {
 </html>`;
     }
 
-    private createButton(text: string, url: string, primary: boolean = true): string {
-        const bgColor = primary ? this.brandColor : '#ffffff';
-        const textColor = primary ? '#ffffff' : this.brandColor;
-        const border = primary ? 'none' : `2px solid ${this.brandColor}`;
+    /**
+     * Brand color of the company the email is sent for, or the Merit Tracker indigo
+     */
+    private brandColor(ctx: EmailContext): string {
+        return ctx.branding?.brandColor ?? DEFAULT_BRAND_COLOR;
+    }
+
+    private brandColorLight(ctx: EmailContext): string {
+        return ctx.branding?.brandColor ? lightenColor(ctx.branding.brandColor, 0.9) : DEFAULT_BRAND_COLOR_LIGHT;
+    }
+
+    private createButton(ctx: EmailContext, text: string, url: string, primary: boolean = true): string {
+        const bgColor = primary ? this.brandColor(ctx) : '#ffffff';
+        const textColor = primary ? '#ffffff' : this.brandColor(ctx);
+        const border = primary ? 'none' : `2px solid ${this.brandColor(ctx)}`;
 
         return `
             <table role="presentation" cellspacing="0" cellpadding="0" style="margin: 25px 0;">
@@ -169,12 +212,12 @@ export class EmailTemplateService {
             </table>`;
     }
 
-    private createInfoBox(title: string, content: string, icon: string = '📌'): string {
+    private createInfoBox(ctx: EmailContext, title: string, content: string, icon: string = '📌'): string {
         return `
-            <table role="presentation" width="100%" cellspacing="0" cellpadding="0" style="background-color: ${this.brandColorLight}; border-radius: 8px; margin: 20px 0;">
+            <table role="presentation" width="100%" cellspacing="0" cellpadding="0" style="background-color: ${this.brandColorLight(ctx)}; border-radius: 8px; margin: 20px 0;">
                 <tr>
                     <td style="padding: 20px;">
-                        <p style="margin: 0 0 8px 0; font-size: 14px; color: ${this.brandColor}; font-weight: 600;">
+                        <p style="margin: 0 0 8px 0; font-size: 14px; color: ${this.brandColor(ctx)}; font-weight: 600;">
                             ${icon} ${title}
                         </p>
                         <p style="margin: 0; color: ${this.textColor}; font-size: 15px;">
@@ -224,7 +267,7 @@ export class EmailTemplateService {
                 Thank you for registering <strong>${ctx.companyName}</strong> with Merit Tracker. Your account is now ready to use!
             </p>
             
-            ${this.createInfoBox('Your Company Code', `Share this code with your team members to join: <strong style="font-size: 18px; letter-spacing: 2px;">${ctx.companyCode}</strong>`, '🔑')}
+            ${this.createInfoBox(ctx, 'Your Company Code', `Share this code with your team members to join: <strong style="font-size: 18px; letter-spacing: 2px;">${ctx.companyCode}</strong>`, '🔑')}
             
             <p style="margin: 20px 0 15px 0; color: ${this.textColor}; font-size: 16px; line-height: 1.6;">
                 Here's what you can do next:
@@ -237,7 +280,7 @@ export class EmailTemplateService {
                 <li>Install the Desktop Agent for time tracking</li>
             </ul>
             
-            ${this.createButton('Go to Dashboard', ctx.dashboardUrl)}
+            ${this.createButton(ctx, 'Go to Dashboard', ctx.dashboardUrl)}
             
             <p style="margin: 20px 0 0 0; color: ${this.mutedTextColor}; font-size: 14px;">
                 Your 3-day trial has started. Explore all features and see how Merit Tracker can boost your team's productivity!
@@ -262,13 +305,19 @@ export class EmailTemplateService {
                 Getting started is easy:
             </p>
             <ul style="margin: 0 0 20px 0; padding-left: 20px; color: ${this.textColor}; font-size: 15px; line-height: 1.8;">
-                <li>Log in to your account</li>
+                <li>${ctx.setPasswordUrl ? 'Set your password' : 'Log in to your account'}</li>
                 <li>Complete your profile</li>
                 <li>Check your assigned projects and tasks</li>
                 <li>Install the Desktop Agent for time tracking</li>
             </ul>
             
-            ${this.createButton('Login to Merit Tracker', ctx.loginUrl)}
+            ${ctx.setPasswordUrl
+                ? this.createButton(ctx, 'Set Your Password', ctx.setPasswordUrl)
+                : this.createButton(ctx, 'Login to Merit Tracker', ctx.loginUrl)}
+            ${ctx.setPasswordUrl ? `
+            <p style="margin: 20px 0 0 0; color: ${this.mutedTextColor}; font-size: 14px;">
+                This link expires in 7 days. After that, use "Forgot password" on the login page.
+            </p>` : ''}
             
             <p style="margin: 20px 0 0 0; color: ${this.mutedTextColor}; font-size: 14px;">
                 If you have any questions, reach out to your company administrator.
@@ -289,7 +338,7 @@ export class EmailTemplateService {
                 Hi ${ctx.recipientName}, we received a request to reset your password. Click the button below to create a new password.
             </p>
             
-            ${this.createButton('Reset Password', ctx.resetUrl)}
+            ${this.createButton(ctx, 'Reset Password', ctx.resetUrl)}
             
             ${this.createWarningBox('This link will expire in 1 hour. If you didn\'t request this, please ignore this email.')}
             
@@ -312,7 +361,7 @@ export class EmailTemplateService {
                 Hi ${ctx.recipientName}, please verify your email address by clicking the button below.
             </p>
             
-            ${this.createButton('Verify Email', ctx.verifyUrl)}`;
+            ${this.createButton(ctx, 'Verify Email', ctx.verifyUrl)}`;
 
         return {
             subject: 'Verify your Merit Tracker email',
@@ -320,6 +369,56 @@ export class EmailTemplateService {
         };
     }
 
+    private accountLockedTemplate(ctx: EmailContext): { subject: string; html: string } {
+        const content = `
+            <h2 style="margin: 0 0 20px 0; color: ${this.textColor}; font-size: 24px;">
+                Your Account Has Been Locked 🔒
+            </h2>
+            <p style="margin: 0 0 15px 0; color: ${this.textColor}; font-size: 16px; line-height: 1.6;">
+                Hi ${ctx.recipientName}, we locked your account for ${ctx.lockMinutes} minutes after several failed login attempts${ctx.ipAddress ? ` from ${ctx.ipAddress}` : ''}.
+            </p>
+            
+            ${this.createButton(ctx, 'Unlock My Account', ctx.unlockUrl)}
+            
+            ${this.createWarningBox('If these attempts weren\'t you, unlock your account and reset your password right away.')}
+            
+            <p style="margin: 20px 0 0 0; color: ${this.mutedTextColor}; font-size: 14px;">
+                If the button doesn't work, copy and paste this link: ${ctx.unlockUrl}
+            </p>`;
+
+        return {
+            subject: 'Your Merit Tracker account has been locked',
+            html: this.wrapInBaseTemplate(content, ctx),
+        };
+    }
+
+    private invitationTemplate(ctx: EmailContext): { subject: string; html: string } {
+        const content = `
+            <h2 style="margin: 0 0 20px 0; color: ${this.textColor}; font-size: 24px;">
+                You're Invited to ${ctx.companyName} 👋
+            </h2>
+            <p style="margin: 0 0 15px 0; color: ${this.textColor}; font-size: 16px; line-height: 1.6;">
+                ${ctx.inviterName} has invited you to join <strong>${ctx.companyName}</strong> on Merit Tracker.
+            </p>
+            
+            ${this.createInfoBox(ctx, 'Invitation Details', `
+                <strong>Role:</strong> ${ctx.role}<br>
+                ${ctx.departmentName ? `<strong>Department:</strong> ${ctx.departmentName}<br>` : ''}
+                <strong>Expires:</strong> ${ctx.expiresAt}
+            `, '✉️')}
+            
+            ${this.createButton(ctx, 'Accept Invitation', ctx.acceptUrl)}
+            
+            <p style="margin: 20px 0 0 0; color: ${this.mutedTextColor}; font-size: 14px;">
+                If the button doesn't work, copy and paste this link: ${ctx.acceptUrl}
+            </p>`;
+
+        return {
+            subject: `${ctx.inviterName} invited you to join ${ctx.companyName} on Merit Tracker`,
+            html: this.wrapInBaseTemplate(content, ctx),
+        };
+    }
+
     // ============================================
     // PROJECT TEMPLATES
     // ============================================
@@ -333,13 +432,13 @@ export class EmailTemplateService {
                 Hi ${ctx.recipientName}, a new project has been created in your department.
             </p>
             
-            ${this.createInfoBox('Project Details', `
+            ${this.createInfoBox(ctx, 'Project Details', `
                 <strong>Name:</strong> ${ctx.projectName}<br>
                 <strong>Department:</strong> ${ctx.departmentName}<br>
                 <strong>Created by:</strong> ${ctx.createdBy}
             `, '📋')}
             
-            ${this.createButton('View Project', ctx.projectUrl)}`;
+            ${this.createButton(ctx, 'View Project', ctx.projectUrl)}`;
 
         return {
             subject: `New Project Created: ${ctx.projectName}`,
@@ -356,14 +455,14 @@ export class EmailTemplateService {
                 Hi ${ctx.recipientName}, you have been assigned to a new project.
             </p>
             
-            ${this.createInfoBox('Project Details', `
+            ${this.createInfoBox(ctx, 'Project Details', `
                 <strong>Project:</strong> ${ctx.projectName}<br>
                 <strong>Department:</strong> ${ctx.departmentName}<br>
                 <strong>Your Role:</strong> ${ctx.role}<br>
                 <strong>Assigned by:</strong> ${ctx.assignedBy}
             `, '📋')}
             
-            ${this.createButton('View Project', ctx.projectUrl)}
+            ${this.createButton(ctx, 'View Project', ctx.projectUrl)}
             
             <p style="margin: 20px 0 0 0; color: ${this.mutedTextColor}; font-size: 14px;">
                 Log in to see your tasks and start contributing to the project.
@@ -384,7 +483,7 @@ export class EmailTemplateService {
                 Congratulations ${ctx.recipientName}! You have been assigned as the lead for a project.
             </p>
             
-            ${this.createInfoBox('Your New Responsibilities', `
+            ${this.createInfoBox(ctx, 'Your New Responsibilities', `
                 <strong>Project:</strong> ${ctx.projectName}<br>
                 <strong>Department:</strong> ${ctx.departmentName}
             `, '👑')}
@@ -399,7 +498,7 @@ export class EmailTemplateService {
                 <li>Update project status</li>
             </ul>
             
-            ${this.createButton('Go to Project', ctx.projectUrl)}`;
+            ${this.createButton(ctx, 'Go to Project', ctx.projectUrl)}`;
 
         return {
             subject: `You're now the lead of: ${ctx.projectName}`,
@@ -468,13 +567,13 @@ export class EmailTemplateService {
                 Hi ${ctx.recipientName}, a new subproject has been created in project <strong>${ctx.projectName}</strong>.
             </p>
             
-            ${this.createInfoBox('Subproject Details', `
+            ${this.createInfoBox(ctx, 'Subproject Details', `
                 <strong>Title:</strong> ${ctx.subProjectTitle}<br>
                 <strong>Project:</strong> ${ctx.projectName}<br>
                 <strong>Created by:</strong> ${ctx.createdBy}
             `, '📋')}
             
-            ${this.createButton('View Subproject', ctx.subProjectUrl)}`;
+            ${this.createButton(ctx, 'View Subproject', ctx.subProjectUrl)}`;
 
         return {
             subject: `New Subproject: ${ctx.subProjectTitle}`,
@@ -491,12 +590,12 @@ export class EmailTemplateService {
                 Hi ${ctx.recipientName}, you have been added to a subproject.
             </p>
             
-            ${this.createInfoBox('Subproject Details', `
+            ${this.createInfoBox(ctx, 'Subproject Details', `
                 <strong>Subproject:</strong> ${ctx.subProjectTitle}<br>
                 <strong>Project:</strong> ${ctx.projectName}
             `, '📋')}
             
-            ${this.createButton('View Subproject', ctx.subProjectUrl)}`;
+            ${this.createButton(ctx, 'View Subproject', ctx.subProjectUrl)}`;
 
         return {
             subject: `Added to subproject: ${ctx.subProjectTitle}`,
@@ -513,7 +612,7 @@ export class EmailTemplateService {
                 Congratulations ${ctx.recipientName}! You have been assigned as the QC Head for a subproject.
             </p>
             
-            ${this.createInfoBox('Your Assignment', `
+            ${this.createInfoBox(ctx, 'Your Assignment', `
                 <strong>Subproject:</strong> ${ctx.subProjectTitle}<br>
                 <strong>Project:</strong> ${ctx.projectName}
             `, '👑')}
@@ -527,7 +626,7 @@ export class EmailTemplateService {
                 <li>Managing subproject members</li>
             </ul>
             
-            ${this.createButton('View Subproject', ctx.subProjectUrl)}`;
+            ${this.createButton(ctx, 'View Subproject', ctx.subProjectUrl)}`;
 
         return {
             subject: `You're QC Head of: ${ctx.subProjectTitle}`,
@@ -563,14 +662,14 @@ export class EmailTemplateService {
                 Hi ${ctx.recipientName}, a new task has been created.
             </p>
             
-            ${this.createInfoBox('Task Details', `
+            ${this.createInfoBox(ctx, 'Task Details', `
                 <strong>Task:</strong> ${ctx.taskTitle}<br>
                 <strong>Subproject:</strong> ${ctx.subProjectTitle}<br>
                 <strong>Points:</strong> ${ctx.pointsValue} pts
                 ${ctx.dueDate ? `<br><strong>Due:</strong> ${ctx.dueDate}` : ''}
             `, '📝')}
             
-            ${this.createButton('View Task', ctx.taskUrl)}`;
+            ${this.createButton(ctx, 'View Task', ctx.taskUrl)}`;
 
         return {
             subject: `New Task: ${ctx.taskTitle}`,
@@ -587,7 +686,7 @@ export class EmailTemplateService {
                 Hi ${ctx.recipientName}, you have been assigned a new task.
             </p>
             
-            ${this.createInfoBox('Task Details', `
+            ${this.createInfoBox(ctx, 'Task Details', `
                 <strong>Task:</strong> ${ctx.taskTitle}<br>
                 <strong>Subproject:</strong> ${ctx.subProjectTitle}<br>
                 <strong>Project:</strong> ${ctx.projectName}<br>
@@ -596,7 +695,7 @@ export class EmailTemplateService {
                 ${ctx.assignedBy ? `<br><strong>Assigned by:</strong> ${ctx.assignedBy}` : ''}
             `, '✅')}
             
-            ${this.createButton('Start Working', ctx.taskUrl)}
+            ${this.createButton(ctx, 'Start Working', ctx.taskUrl)}
             
             <p style="margin: 20px 0 0 0; color: ${this.mutedTextColor}; font-size: 14px;">
                 Complete this task to earn ${ctx.pointsValue} points!
@@ -619,11 +718,11 @@ export class EmailTemplateService {
             
             ${this.createSuccessBox(`You earned <strong>${ctx.pointsEarned} points</strong> for completing "${ctx.taskTitle}"`)}
             
-            <table role="presentation" width="100%" cellspacing="0" cellpadding="0" style="background-color: ${this.brandColorLight}; border-radius: 8px; margin: 20px 0;">
+            <table role="presentation" width="100%" cellspacing="0" cellpadding="0" style="background-color: ${this.brandColorLight(ctx)}; border-radius: 8px; margin: 20px 0;">
                 <tr>
                     <td style="padding: 25px; text-align: center;">
                         <p style="margin: 0 0 5px 0; font-size: 14px; color: ${this.mutedTextColor};">Your Total Points</p>
-                        <p style="margin: 0; font-size: 36px; font-weight: 700; color: ${this.brandColor};">🏆 ${ctx.totalPoints}</p>
+                        <p style="margin: 0; font-size: 36px; font-weight: 700; color: ${this.brandColor(ctx)};">🏆 ${ctx.totalPoints}</p>
                     </td>
                 </tr>
             </table>
@@ -692,7 +791,7 @@ export class EmailTemplateService {
                 <li>Tracking team performance</li>
             </ul>
             
-            ${this.createButton('View Department', ctx.dashboardUrl)}`;
+            ${this.createButton(ctx, 'View Department', ctx.dashboardUrl)}`;
 
         return {
             subject: `You're now head of ${ctx.departmentName}`,
@@ -731,13 +830,13 @@ export class EmailTemplateService {
                 A new SOP has been submitted and requires your approval.
             </p>
             
-            ${this.createInfoBox('SOP Details', `
+            ${this.createInfoBox(ctx, 'SOP Details', `
                 <strong>Title:</strong> ${ctx.sopTitle}<br>
                 <strong>Type:</strong> ${ctx.sopType}<br>
                 <strong>Submitted by:</strong> ${ctx.creatorName}
             `, '📝')}
             
-            ${this.createButton('Review SOP', ctx.sopUrl)}`;
+            ${this.createButton(ctx, 'Review SOP', ctx.sopUrl)}`;
 
         return {
             subject: `SOP Pending Approval: ${ctx.sopTitle}`,
@@ -756,7 +855,7 @@ export class EmailTemplateService {
             
             ${this.createSuccessBox(`"${ctx.sopTitle}" is now available for all users to view.`)}
             
-            ${this.createButton('View SOP', ctx.sopUrl)}`;
+            ${this.createButton(ctx, 'View SOP', ctx.sopUrl)}`;
 
         return {
             subject: `Your SOP "${ctx.sopTitle}" has been approved! ✅`,
@@ -779,7 +878,7 @@ export class EmailTemplateService {
                 Please update your SOP and resubmit for approval.
             </p>
             
-            ${this.createButton('Edit SOP', ctx.sopUrl)}`;
+            ${this.createButton(ctx, 'Edit SOP', ctx.sopUrl)}`;
 
         return {
             subject: `SOP "${ctx.sopTitle}" needs revision`,
@@ -796,12 +895,12 @@ export class EmailTemplateService {
                 An SOP has been updated and resubmitted for approval.
             </p>
             
-            ${this.createInfoBox('SOP Details', `
+            ${this.createInfoBox(ctx, 'SOP Details', `
                 <strong>Title:</strong> ${ctx.sopTitle}<br>
                 <strong>Resubmitted by:</strong> ${ctx.creatorName}
             `, '📝')}
             
-            ${this.createButton('Review SOP', ctx.sopUrl)}`;
+            ${this.createButton(ctx, 'Review SOP', ctx.sopUrl)}`;
 
         return {
             subject: `SOP Resubmitted: ${ctx.sopTitle}`,
@@ -860,7 +959,7 @@ export class EmailTemplateService {
             
             ${this.createSuccessBox('Your account is now active and ready to use.')}
             
-            ${this.createButton('Login Now', ctx.loginUrl)}`;
+            ${this.createButton(ctx, 'Login Now', ctx.loginUrl)}`;
 
         return {
             subject: 'Your Merit Tracker account has been activated',
@@ -931,11 +1030,11 @@ export class EmailTemplateService {
                 Amazing work ${ctx.recipientName}! You've reached a major milestone.
             </p>
             
-            <table role="presentation" width="100%" cellspacing="0" cellpadding="0" style="background-color: ${this.brandColorLight}; border-radius: 12px; margin: 20px 0;">
+            <table role="presentation" width="100%" cellspacing="0" cellpadding="0" style="background-color: ${this.brandColorLight(ctx)}; border-radius: 12px; margin: 20px 0;">
                 <tr>
                     <td style="padding: 30px; text-align: center;">
                         <p style="margin: 0 0 5px 0; font-size: 14px; color: ${this.mutedTextColor};">${ctx.milestoneType}</p>
-                        <p style="margin: 0; font-size: 48px; font-weight: 700; color: ${this.brandColor};">${ctx.milestoneValue}</p>
+                        <p style="margin: 0; font-size: 48px; font-weight: 700; color: ${this.brandColor(ctx)};">${ctx.milestoneValue}</p>
                     </td>
                 </tr>
             </table>`;
@@ -984,7 +1083,7 @@ export class EmailTemplateService {
                 Hi ${ctx.recipientName}, Merit Tracker Desktop has been installed successfully.
             </p>
             
-            ${this.createInfoBox('Installation Details', `
+            ${this.createInfoBox(ctx, 'Installation Details', `
                 <strong>Machine:</strong> ${ctx.machineName}<br>
                 <strong>Platform:</strong> ${ctx.platform}
             `, '💻')}
@@ -1050,7 +1149,7 @@ export class EmailTemplateService {
                 <li>Performance analytics</li>
             </ul>
             
-            ${this.createButton('Upgrade Now', ctx.upgradeUrl)}`;
+            ${this.createButton(ctx, 'Upgrade Now', ctx.upgradeUrl)}`;
 
         return {
             subject: `⏰ Your Merit Tracker trial ends in ${ctx.daysRemaining} days`,
@@ -1067,13 +1166,13 @@ export class EmailTemplateService {
                 Hi ${ctx.recipientName}, the trial period for <strong>${ctx.companyName}</strong> has ended.
             </p>
             
-            ${this.createWarningBox('Your team\'s access to Merit Tracker features has been limited.')}
+            ${this.createWarningBox('Your account is now read-only. Your team can still view and export data, but changes, time tracking and screenshots are paused.')}
             
             <p style="margin: 20px 0 15px 0; color: ${this.textColor}; font-size: 16px; line-height: 1.6;">
                 Upgrade today to restore full access for your team.
             </p>
             
-            ${this.createButton('View Plans', ctx.upgradeUrl)}`;
+            ${this.createButton(ctx, 'View Plans', ctx.upgradeUrl)}`;
 
         return {
             subject: 'Your Merit Tracker trial has expired',
@@ -1090,13 +1189,13 @@ export class EmailTemplateService {
                 Hi ${ctx.recipientName}, the subscription for <strong>${ctx.companyName}</strong> has expired.
             </p>
             
-            ${this.createWarningBox('Your team\'s access to Merit Tracker has been limited.')}
+            ${this.createWarningBox('Your account is now read-only. Your team can still view and export data, but changes, time tracking and screenshots are paused.')}
             
             <p style="margin: 20px 0 15px 0; color: ${this.textColor}; font-size: 16px; line-height: 1.6;">
                 Renew your subscription to continue tracking your team's productivity.
             </p>
             
-            ${this.createButton('Renew Subscription', ctx.upgradeUrl)}`;
+            ${this.createButton(ctx, 'Renew Subscription', ctx.upgradeUrl)}`;
 
         return {
             subject: 'Your Merit Tracker subscription has expired',
@@ -1104,6 +1203,236 @@ export class EmailTemplateService {
         };
     }
 
+    private subscriptionGracePeriodTemplate(ctx: EmailContext): { subject: string; html: string } {
+        const content = `
+            <h2 style="margin: 0 0 20px 0; color: ${this.textColor}; font-size: 24px;">
+                ${ctx.isFinalNotice ? 'Final Notice' : 'Subscription Lapsed'}
+            </h2>
+            <p style="margin: 0 0 15px 0; color: ${this.textColor}; font-size: 16px; line-height: 1.6;">
+                Hi ${ctx.recipientName}, ${ctx.isTrial ? 'the trial' : 'the subscription'} for <strong>${ctx.companyName}</strong> has ended.
+                Your team keeps full access during a short grace period.
+            </p>
+            
+            ${this.createWarningBox(`The account becomes read-only on <strong>${ctx.readOnlyOn}</strong> (${ctx.daysRemaining} day(s) from now). Changes, time tracking and screenshots will be paused until you renew.`)}
+            
+            ${this.createButton(ctx, ctx.isTrial ? 'View Plans' : 'Renew Subscription', ctx.upgradeUrl)}`;
+
+        return {
+            subject: ctx.isFinalNotice
+                ? `Final notice: ${ctx.companyName} becomes read-only tomorrow`
+                : `Action needed: renew Merit Tracker for ${ctx.companyName}`,
+            html: this.wrapInBaseTemplate(content, ctx),
+        };
+    }
+
+        private subscriptionRenewedTemplate(ctx: EmailContext): { subject: string; html: string } {
+        const content = `
+            <h2 style="margin: 0 0 20px 0; color: ${this.textColor}; font-size: 24px;">
+                Payment Received
+            </h2>
+            <p style="margin: 0 0 15px 0; color: ${this.textColor}; font-size: 16px; line-height: 1.6;">
+                Hi ${ctx.recipientName}, thank you! We received the payment for <strong>${ctx.companyName}</strong>.
+            </p>
+            
+            ${this.createSuccessBox(ctx.activeUntil
+                ? `Your subscription is active until <strong>${ctx.activeUntil}</strong>.`
+                : 'Your subscription is active.')}
+            
+            ${this.createButton(ctx, 'View Subscription', ctx.subscriptionUrl)}`;
+
+        return {
+            subject: `Your Merit Tracker subscription for ${ctx.companyName} is active`,
+            html: this.wrapInBaseTemplate(content, ctx),
+        };
+    }
+
+    private subscriptionCancelledTemplate(ctx: EmailContext): { subject: string; html: string } {
+        const content = `
+            <h2 style="margin: 0 0 20px 0; color: ${this.textColor}; font-size: 24px;">
+                Subscription Cancelled
+            </h2>
+            <p style="margin: 0 0 15px 0; color: ${this.textColor}; font-size: 16px; line-height: 1.6;">
+                Hi ${ctx.recipientName}, the subscription for <strong>${ctx.companyName}</strong> has been cancelled.
+            </p>
+            
+            ${this.createWarningBox(ctx.accessUntil
+                ? `Your team keeps access until <strong>${ctx.accessUntil}</strong>.`
+                : 'Your team\'s access to Merit Tracker has been limited.')}
+            
+            <p style="margin: 20px 0 15px 0; color: ${this.textColor}; font-size: 16px; line-height: 1.6;">
+                Changed your mind? You can resubscribe at any time.
+            </p>
+            
+            ${this.createButton(ctx, 'Resubscribe', ctx.upgradeUrl)}`;
+
+        return {
+            subject: 'Your Merit Tracker subscription has been cancelled',
+            html: this.wrapInBaseTemplate(content, ctx),
+        };
+    }
+
+    private paymentFailedTemplate(ctx: EmailContext): { subject: string; html: string } {
+        const content = `
+            <h2 style="margin: 0 0 20px 0; color: ${this.textColor}; font-size: 24px;">
+                Payment Failed
+            </h2>
+            <p style="margin: 0 0 15px 0; color: ${this.textColor}; font-size: 16px; line-height: 1.6;">
+                Hi ${ctx.recipientName}, we could not collect the latest payment for <strong>${ctx.companyName}</strong>.
+            </p>
+            
+            ${this.createWarningBox(ctx.reason
+                ? `The payment was declined: ${ctx.reason}`
+                : 'The payment was declined by your payment provider.')}
+            
+            <p style="margin: 20px 0 15px 0; color: ${this.textColor}; font-size: 16px; line-height: 1.6;">
+                Please update your payment method to avoid an interruption for your team.
+            </p>
+            
+            ${this.createButton(ctx, 'Update Payment Method', ctx.billingUrl)}`;
+
+        return {
+            subject: `Action needed: payment failed for ${ctx.companyName}`,
+            html: this.wrapInBaseTemplate(content, ctx),
+        };
+    }
+
+    private dataExportReadyTemplate(ctx: EmailContext): { subject: string; html: string } {
+        const content = `
+            <h2 style="margin: 0 0 20px 0; color: ${this.textColor}; font-size: 24px;">
+                Your Data Export Is Ready
+            </h2>
+            <p style="margin: 0 0 15px 0; color: ${this.textColor}; font-size: 16px; line-height: 1.6;">
+                Hi ${ctx.recipientName}, the data export for <strong>${ctx.companyName}</strong> has finished.
+            </p>
+            
+            ${this.createInfoBox(ctx, 'Archive', `${ctx.fileSize} ZIP archive with JSON and CSV files for every data type.`, '📦')}
+            
+            ${this.createButton(ctx, 'Download Export', ctx.downloadUrl)}
+            
+            <p style="margin: 20px 0 0 0; color: ${this.mutedTextColor}; font-size: 14px;">
+                The link expires on ${ctx.expiresAt}. After that the archive is deleted and a new export can be requested.
+                It contains your company's data, so only share it with people who are allowed to see it.
+            </p>`;
+
+        return {
+            subject: `Data export for ${ctx.companyName} is ready`,
+            html: this.wrapInBaseTemplate(content, ctx),
+        };
+    }
+
+    private dataExportFailedTemplate(ctx: EmailContext): { subject: string; html: string } {
+        const content = `
+            <h2 style="margin: 0 0 20px 0; color: ${this.textColor}; font-size: 24px;">
+                Data Export Failed
+            </h2>
+            <p style="margin: 0 0 15px 0; color: ${this.textColor}; font-size: 16px; line-height: 1.6;">
+                Hi ${ctx.recipientName}, we could not build the data export for <strong>${ctx.companyName}</strong>.
+            </p>
+            
+            ${this.createWarningBox('No archive was created. Please request a new export; contact support if it keeps failing.')}
+            
+            ${this.createButton(ctx, 'Request Again', ctx.exportsUrl)}`;
+
+        return {
+            subject: `Data export for ${ctx.companyName} failed`,
+            html: this.wrapInBaseTemplate(content, ctx),
+        };
+    }
+
+    private companyClosureScheduledTemplate(ctx: EmailContext): { subject: string; html: string } {
+        const content = `
+            <h2 style="margin: 0 0 20px 0; color: ${this.textColor}; font-size: 24px;">
+                Company Closure Scheduled
+            </h2>
+            <p style="margin: 0 0 15px 0; color: ${this.textColor}; font-size: 16px; line-height: 1.6;">
+                Hi ${ctx.recipientName}, ${ctx.requestedBy} has closed <strong>${ctx.companyName}</strong> on Merit Tracker.
+                All members have been signed out and can no longer log in.
+            </p>
+            
+            ${this.createWarningBox(`All data, including screenshots, SOP files and logos, will be permanently deleted on ${ctx.purgeDate}. This cannot be undone.`)}
+            
+            <p style="margin: 20px 0 15px 0; color: ${this.textColor}; font-size: 16px; line-height: 1.6;">
+                Changed your mind? Any company administrator can cancel the closure until then.
+            </p>
+            
+            ${this.createButton(ctx, 'Cancel Closure', ctx.cancelUrl)}`;
+
+        return {
+            subject: `${ctx.companyName} will be deleted on ${ctx.purgeDate}`,
+            html: this.wrapInBaseTemplate(content, ctx),
+        };
+    }
+
+    private companyClosureCancelledTemplate(ctx: EmailContext): { subject: string; html: string } {
+        const content = `
+            <h2 style="margin: 0 0 20px 0; color: ${this.textColor}; font-size: 24px;">
+                Company Closure Cancelled
+            </h2>
+            <p style="margin: 0 0 15px 0; color: ${this.textColor}; font-size: 16px; line-height: 1.6;">
+                Hi ${ctx.recipientName}, the scheduled closure of <strong>${ctx.companyName}</strong> has been cancelled.
+                Your data is kept and your team can log in again.
+            </p>
+            
+            ${this.createButton(ctx, 'Go to Dashboard', ctx.dashboardUrl)}`;
+
+        return {
+            subject: `Closure of ${ctx.companyName} cancelled`,
+            html: this.wrapInBaseTemplate(content, ctx),
+        };
+    }
+
+    private companyPurgedTemplate(ctx: EmailContext): { subject: string; html: string } {
+        const content = `
+            <h2 style="margin: 0 0 20px 0; color: ${this.textColor}; font-size: 24px;">
+                Company Data Deleted
+            </h2>
+            <p style="margin: 0 0 15px 0; color: ${this.textColor}; font-size: 16px; line-height: 1.6;">
+                Hi ${ctx.recipientName}, as requested, <strong>${ctx.companyName}</strong> and all of its data have been permanently deleted.
+            </p>
+            
+            ${this.createInfoBox(ctx, 'Deleted', `All accounts, projects, tasks, time tracking records and ${ctx.fileCount} stored files.`, '🗑️')}
+            
+            <p style="margin: 20px 0 0 0; color: ${this.mutedTextColor}; font-size: 14px;">
+                This is the last email you will receive about this company. Thank you for using Merit Tracker.
+            </p>`;
+
+        return {
+            subject: `${ctx.companyName} has been deleted`,
+            html: this.wrapInBaseTemplate(content, ctx),
+        };
+    }
+
+    private employmentChangesUpcomingTemplate(ctx: EmailContext): { subject: string; html: string } {
+        const joiners: EmploymentChange[] = ctx.joiners ?? [];
+        const leavers: EmploymentChange[] = ctx.leavers ?? [];
+        const list = (changes: EmploymentChange[]) => changes
+            .map((change) => `• <strong>${escapeHtml(change.name)}</strong>${change.department ? ` (${escapeHtml(change.department)})` : ''} - ${change.date}, in ${change.daysUntil} day${change.daysUntil === 1 ? '' : 's'}`)
+            .join('<br>');
+
+        const content = `
+            <h2 style="margin: 0 0 20px 0; color: ${this.textColor}; font-size: 24px;">
+                Upcoming Team Changes
+            </h2>
+            <p style="margin: 0 0 15px 0; color: ${this.textColor}; font-size: 16px; line-height: 1.6;">
+                Hi ${ctx.recipientName}, these <strong>${ctx.companyName}</strong> members start or leave soon.
+                Accounts are activated on the start date and deactivated on the end date automatically.
+            </p>
+            ${joiners.length > 0 ? `
+            ${this.createInfoBox(ctx, 'Starting', list(joiners), '👋')}` : ''}
+            ${leavers.length > 0 ? `
+            ${this.createInfoBox(ctx, 'Leaving', list(leavers), '📦')}
+            <p style="margin: 0 0 15px 0; color: ${this.textColor}; font-size: 16px; line-height: 1.6;">
+                Work left by leavers is unassigned on their end date. To hand it to a successor instead, offboard them before then.
+            </p>` : ''}
+            
+            ${this.createButton(ctx, 'View Team', ctx.usersUrl)}`;
+
+        return {
+            subject: `${ctx.companyName}: ${joiners.length} starting, ${leavers.length} leaving soon`,
+            html: this.wrapInBaseTemplate(content, ctx),
+        };
+    }
+
     // In your EmailTemplateService class, add this method:
 
     private passwordChangedTemplate(ctx: EmailContext): { subject: string; html: string } {
@@ -3,8 +3,9 @@ import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import * as nodemailer from 'nodemailer';
 import { Transporter } from 'nodemailer';
-import { EmailOptions, EmailType, EmailContext } from './interfaces/email.interface';
+import { EmailOptions, EmailType, EmailContext, EmailBranding, EmploymentChange } from './interfaces/email.interface';
 import { EmailTemplateService } from './email-template.service';
+import { PrismaService } from '../../prisma/prisma.service';
 
 @Injectable()
 export class EmailService implements OnModuleInit {
@@ -19,6 +20,7 @@ export class EmailService implements OnModuleInit {
     constructor(
         private readonly configService: ConfigService,
         private readonly templateService: EmailTemplateService,
+        private readonly prisma: PrismaService,
     ) {
         this.fromEmail = this.configService.get<string>('SMTP_FROM_EMAIL', 'noreply@merittracker.com');
         this.fromName = this.configService.get<string>('SMTP_FROM_NAME', 'Merit Tracker');
@@ -119,12 +121,16 @@ export class EmailService implements OnModuleInit {
         to: string | string[],
         context: EmailContext,
     ): Promise<boolean> {
+        const branding = await this.resolveBranding(context.companyId, to);
+
         // Add default context values
         const fullContext: EmailContext = {
             year: new Date().getFullYear(),
             appUrl: this.appUrl,
             supportEmail: this.supportEmail,
             ...context,
+            companyName: context.companyName ?? branding?.companyName,
+            branding,
         };
 
         const { subject, html } = this.templateService.getTemplate(type, fullContext);
@@ -133,9 +139,47 @@ export class EmailService implements OnModuleInit {
             to,
             subject,
             html,
+            replyTo: branding?.replyTo ?? undefined,
         });
     }
 
+    /**
+     * Branding of the given company, or of the first recipient's company when none is given.
+     * Null when neither can be found (e.g. the company was purged), so the Merit Tracker look is used.
+     */
+    private async resolveBranding(companyId: string | undefined, to: string | string[]): Promise<EmailBranding | null> {
+        const select = { name: true, logo: true, emailBrandColor: true, emailFooterText: true, emailReplyTo: true };
+
+        try {
+            let company = companyId
+                ? await this.prisma.company.findUnique({ where: { id: companyId }, select })
+                : null;
+
+            if (!company && !companyId) {
+                const email = Array.isArray(to) ? to[0] : to;
+                const user = email
+                    ? await this.prisma.user.findUnique({ where: { email }, select: { company: { select } } })
+                    : null;
+                company = user?.company ?? null;
+            }
+
+            if (!company) {
+                return null;
+            }
+
+            return {
+                companyName: company.name,
+                logoUrl: company.logo,
+                brandColor: company.emailBrandColor,
+                footerText: company.emailFooterText,
+                replyTo: company.emailReplyTo,
+            };
+        } catch (error) {
+            this.logger.warn(`Could not load email branding, using defaults: ${error}`);
+            return null;
+        }
+    }
+
     // ============================================
     // AUTH EMAILS
     // ============================================
@@ -159,17 +203,93 @@ export class EmailService implements OnModuleInit {
     }
 
     /**
-     * Send welcome email to new user
+     * Send welcome email to new user; accounts created for them (bulk import) get a link to set their password
      */
     async sendWelcomeUserEmail(
         email: string,
         firstName: string,
         companyName: string,
+        companyId?: string,
+        setPasswordToken?: string,
     ): Promise<boolean> {
         return this.sendTemplatedEmail(EmailType.WELCOME_USER, email, {
             recipientName: firstName,
             companyName,
+            companyId,
             loginUrl: `${this.appUrl}/login`,
+            setPasswordUrl: setPasswordToken
+                ? `${this.appUrl}/reset-password?token=${encodeURIComponent(setPasswordToken)}`
+                : undefined,
+        });
+    }
+
+    /**
+     * Send password reset link
+     */
+    async sendPasswordResetEmail(
+        email: string,
+        firstName: string,
+        token: string,
+    ): Promise<boolean> {
+        return this.sendTemplatedEmail(EmailType.PASSWORD_RESET, email, {
+            recipientName: firstName,
+            resetUrl: `${this.appUrl}/reset-password?token=${encodeURIComponent(token)}`,
+        });
+    }
+
+    /**
+     * Send email address verification link
+     */
+    async sendEmailVerificationEmail(
+        email: string,
+        firstName: string,
+        token: string,
+    ): Promise<boolean> {
+        return this.sendTemplatedEmail(EmailType.EMAIL_VERIFICATION, email, {
+            recipientName: firstName,
+            verifyUrl: `${this.appUrl}/verify-email?token=${encodeURIComponent(token)}`,
+        });
+    }
+
+    /**
+     * Send account lockout notice with a one-time unlock link
+     */
+    async sendAccountLockedEmail(
+        email: string,
+        firstName: string,
+        token: string,
+        lockMinutes: number,
+        ipAddress?: string,
+    ): Promise<boolean> {
+        return this.sendTemplatedEmail(EmailType.ACCOUNT_LOCKED, email, {
+            recipientName: firstName,
+            lockMinutes,
+            ipAddress,
+            unlockUrl: `${this.appUrl}/unlock-account?token=${encodeURIComponent(token)}`,
+        });
+    }
+
+    /**
+     * Send invitation to join a company
+     */
+    async sendInvitationEmail(
+        email: string,
+        inviterName: string,
+        companyName: string,
+        role: string,
+        token: string,
+        expiresAt: Date,
+        departmentName?: string,
+        companyId?: string,
+    ): Promise<boolean> {
+        return this.sendTemplatedEmail(EmailType.INVITATION, email, {
+            inviterName,
+            companyName,
+            companyId,
+            role: role.replace('_', ' '),
+            departmentName,
+            expiresAt: expiresAt.toDateString(),
+            acceptUrl: `${this.appUrl}/accept-invitation?token=${encodeURIComponent(token)}`,
         });
     }
 
@@ -187,6 +307,7 @@ export class EmailService implements OnModuleInit {
         departmentName: string,
         role: string,
         assignedBy: string,
+        companyId?: string,
     ): Promise<boolean> {
         return this.sendTemplatedEmail(EmailType.PROJECT_ASSIGNMENT, email, {
             recipientName,
@@ -195,6 +316,7 @@ export class EmailService implements OnModuleInit {
             role,
             assignedBy,
             projectUrl: `${this.appUrl}/projects`,
+            companyId,
         });
     }
 
@@ -206,12 +328,14 @@ export class EmailService implements OnModuleInit {
         recipientName: string,
         projectName: string,
         departmentName: string,
+        companyId?: string,
     ): Promise<boolean> {
         return this.sendTemplatedEmail(EmailType.PROJECT_LEAD_ASSIGNMENT, email, {
             recipientName,
             projectName,
             departmentName,
             projectUrl: `${this.appUrl}/projects`,
+            companyId,
         });
     }
 
@@ -224,12 +348,14 @@ export class EmailService implements OnModuleInit {
         projectName: string,
         oldStatus: string,
         newStatus: string,
+        companyId?: string,
     ): Promise<boolean> {
         return this.sendTemplatedEmail(EmailType.PROJECT_STATUS_CHANGED, email, {
             recipientName,
             projectName,
             oldStatus: this.formatStatus(oldStatus),
             newStatus: this.formatStatus(newStatus),
+            companyId,
         });
     }
 
@@ -245,12 +371,14 @@ export class EmailService implements OnModuleInit {
         recipientName: string,
         subProjectTitle: string,
         projectName: string,
+        companyId?: string,
     ): Promise<boolean> {
         return this.sendTemplatedEmail(EmailType.SUBPROJECT_ASSIGNMENT, email, {
             recipientName,
             subProjectTitle,
             projectName,
             subProjectUrl: `${this.appUrl}/projects`,
+            companyId,
         });
     }
 
@@ -262,12 +390,14 @@ export class EmailService implements OnModuleInit {
         recipientName: string,
         subProjectTitle: string,
         projectName: string,
+        companyId?: string,
     ): Promise<boolean> {
         return this.sendTemplatedEmail(EmailType.SUBPROJECT_QC_HEAD_ASSIGNMENT, email, {
             recipientName,
             subProjectTitle,
             projectName,
             subProjectUrl: `${this.appUrl}/projects`,
+            companyId,
         });
     }
 
@@ -287,6 +417,7 @@ export class EmailService implements OnModuleInit {
         pointsValue: number,
         dueDate?: Date,
         assignedBy?: string,
+        companyId?: string,
     ): Promise<boolean> {
         return this.sendTemplatedEmail(EmailType.TASK_ASSIGNMENT, email, {
             recipientName,
@@ -297,6 +428,7 @@ export class EmailService implements OnModuleInit {
             dueDate: dueDate ? this.formatDate(dueDate) : null,
             assignedBy,
             taskUrl: `${this.appUrl}/tasks`,
+            companyId,
         });
     }
 
@@ -309,12 +441,14 @@ export class EmailService implements OnModuleInit {
         taskTitle: string,
         pointsEarned: number,
         totalPoints: number,
+        companyId?: string,
     ): Promise<boolean> {
         return this.sendTemplatedEmail(EmailType.TASK_COMPLETED, email, {
             recipientName,
             taskTitle,
             pointsEarned,
             totalPoints,
+            companyId,
         });
     }
 
@@ -329,10 +463,12 @@ export class EmailService implements OnModuleInit {
         email: string,
         recipientName: string,
         departmentName: string,
+        companyId?: string,
     ): Promise<boolean> {
         return this.sendTemplatedEmail(EmailType.DEPARTMENT_ASSIGNMENT, email, {
             recipientName,
             departmentName,
+            companyId,
         });
     }
 
@@ -343,11 +479,13 @@ export class EmailService implements OnModuleInit {
         email: string,
         recipientName: string,
         departmentName: string,
+        companyId?: string,
     ): Promise<boolean> {
         return this.sendTemplatedEmail(EmailType.DEPARTMENT_HEAD_ASSIGNMENT, email, {
             recipientName,
             departmentName,
             dashboardUrl: `${this.appUrl}/departments`,
+            companyId,
         });
     }
 
@@ -363,12 +501,14 @@ export class EmailService implements OnModuleInit {
         sopTitle: string,
         sopType: string,
         creatorName: string,
+        companyId?: string,
     ): Promise<boolean> {
         return this.sendTemplatedEmail(EmailType.SOP_PENDING_APPROVAL, emails, {
             sopTitle,
             sopType,
             creatorName,
             sopUrl: `${this.appUrl}/sops/pending`,
+            companyId,
         });
     }
 
@@ -379,11 +519,13 @@ export class EmailService implements OnModuleInit {
         email: string,
         recipientName: string,
         sopTitle: string,
+        companyId?: string,
     ): Promise<boolean> {
         return this.sendTemplatedEmail(EmailType.SOP_APPROVED, email, {
             recipientName,
             sopTitle,
             sopUrl: `${this.appUrl}/sops`,
+            companyId,
         });
     }
 
@@ -395,12 +537,14 @@ export class EmailService implements OnModuleInit {
         recipientName: string,
         sopTitle: string,
         rejectionReason: string,
+        companyId?: string,
     ): Promise<boolean> {
         return this.sendTemplatedEmail(EmailType.SOP_REJECTED, email, {
             recipientName,
             sopTitle,
             rejectionReason,
             sopUrl: `${this.appUrl}/sops`,
+            companyId,
         });
     }
 
@@ -417,12 +561,14 @@ export class EmailService implements OnModuleInit {
         oldRole: string,
         newRole: string,
         isPromotion: boolean,
+        companyId?: string,
     ): Promise<boolean> {
         return this.sendTemplatedEmail(EmailType.ROLE_CHANGED, email, {
             recipientName,
             oldRole: this.formatRole(oldRole),
             newRole: this.formatRole(newRole),
             isPromotion,
+            companyId,
         });
     }
 
@@ -432,10 +578,12 @@ export class EmailService implements OnModuleInit {
     async sendAccountActivatedEmail(
         email: string,
         recipientName: string,
+        companyId?: string,
     ): Promise<boolean> {
         return this.sendTemplatedEmail(EmailType.ACCOUNT_ACTIVATED, email, {
             recipientName,
             loginUrl: `${this.appUrl}/login`,
+            companyId,
         });
     }
 
@@ -445,9 +593,11 @@ export class EmailService implements OnModuleInit {
     async sendAccountDeactivatedEmail(
         email: string,
         recipientName: string,
+        companyId?: string,
     ): Promise<boolean> {
         return this.sendTemplatedEmail(EmailType.ACCOUNT_DEACTIVATED, email, {
             recipientName,
+            companyId,
         });
     }
 
@@ -463,11 +613,13 @@ export class EmailService implements OnModuleInit {
         recipientName: string,
         achievementTitle: string,
         achievementDescription: string,
+        companyId?: string,
     ): Promise<boolean> {
         return this.sendTemplatedEmail(EmailType.ACHIEVEMENT_EARNED, email, {
             recipientName,
             achievementTitle,
             achievementDescription,
+            companyId,
         });
     }
 
@@ -479,11 +631,13 @@ export class EmailService implements OnModuleInit {
         recipientName: string,
         milestoneType: string,
         milestoneValue: number,
+        companyId?: string,
     ): Promise<boolean> {
         return this.sendTemplatedEmail(EmailType.MILESTONE_REACHED, email, {
             recipientName,
             milestoneType,
             milestoneValue,
+            companyId,
         });
     }
 
@@ -499,11 +653,13 @@ export class EmailService implements OnModuleInit {
         recipientName: string,
         machineName: string,
         platform: string,
+        companyId?: string,
     ): Promise<boolean> {
         return this.sendTemplatedEmail(EmailType.AGENT_INSTALLED, email, {
             recipientName,
             machineName,
             platform,
+            companyId,
         });
     }
 
@@ -519,12 +675,14 @@ export class EmailService implements OnModuleInit {
         recipientName: string,
         companyName: string,
         daysRemaining: number,
+        companyId?: string,
     ): Promise<boolean> {
         return this.sendTemplatedEmail(EmailType.TRIAL_ENDING_SOON, email, {
             recipientName,
             companyName,
             daysRemaining,
             upgradeUrl: `${this.appUrl}/subscription`,
+            companyId,
         });
     }
 
@@ -535,11 +693,13 @@ export class EmailService implements OnModuleInit {
         email: string,
         recipientName: string,
         companyName: string,
+        companyId?: string,
     ): Promise<boolean> {
         return this.sendTemplatedEmail(EmailType.TRIAL_EXPIRED, email, {
             recipientName,
             companyName,
             upgradeUrl: `${this.appUrl}/subscription`,
+            companyId,
         });
     }
 
@@ -576,11 +736,220 @@ export class EmailService implements OnModuleInit {
         email: string,
         recipientName: string,
         companyName: string,
+        companyId?: string,
     ): Promise<boolean> {
         return this.sendTemplatedEmail(EmailType.SUBSCRIPTION_EXPIRED, email, {
             recipientName,
             companyName,
             upgradeUrl: `${this.appUrl}/subscription`,
+            companyId,
+        });
+    }
+
+    /**
+     * Send dunning email while a lapsed trial or subscription is in its grace period
+     */
+    async sendSubscriptionGracePeriodEmail(
+        email: string,
+        recipientName: string,
+        companyName: string,
+        options: { isTrial: boolean; daysRemaining: number; readOnlyOn: Date; isFinalNotice: boolean },
+        companyId?: string,
+    ): Promise<boolean> {
+        return this.sendTemplatedEmail(EmailType.SUBSCRIPTION_GRACE_PERIOD, email, {
+            recipientName,
+            companyName,
+            isTrial: options.isTrial,
+            isFinalNotice: options.isFinalNotice,
+            daysRemaining: options.daysRemaining,
+            readOnlyOn: this.formatDate(options.readOnlyOn),
+            upgradeUrl: `${this.appUrl}/subscription`,
+            companyId,
+        });
+    }
+
+    /**
+     * Send payment received / subscription renewed email
+     */
+    async sendSubscriptionRenewedEmail(
+        email: string,
+        recipientName: string,
+        companyName: string,
+        activeUntil: Date | null,
+        companyId?: string,
+    ): Promise<boolean> {
+        return this.sendTemplatedEmail(EmailType.SUBSCRIPTION_RENEWED, email, {
+            recipientName,
+            companyName,
+            activeUntil: activeUntil ? this.formatDate(activeUntil) : null,
+            subscriptionUrl: `${this.appUrl}/subscription`,
+            companyId,
+        });
+    }
+
+    /**
+     * Send subscription cancelled email
+     */
+    async sendSubscriptionCancelledEmail(
+        email: string,
+        recipientName: string,
+        companyName: string,
+        accessUntil: Date | null,
+        companyId?: string,
+    ): Promise<boolean> {
+        return this.sendTemplatedEmail(EmailType.SUBSCRIPTION_CANCELLED, email, {
+            recipientName,
+            companyName,
+            accessUntil: accessUntil ? this.formatDate(accessUntil) : null,
+            upgradeUrl: `${this.appUrl}/subscription`,
+            companyId,
+        });
+    }
+
+    /**
+     * Send payment failed email
+     */
+    async sendPaymentFailedEmail(
+        email: string,
+        recipientName: string,
+        companyName: string,
+        reason?: string,
+        companyId?: string,
+    ): Promise<boolean> {
+        return this.sendTemplatedEmail(EmailType.PAYMENT_FAILED, email, {
+            recipientName,
+            companyName,
+            reason,
+            billingUrl: `${this.appUrl}/subscription`,
+            companyId,
+        });
+    }
+
+    // ============================================
+    // DATA EXPORT EMAILS
+    // ============================================
+
+    /**
+     * Send data export ready email with the expiring download link
+     */
+    async sendDataExportReadyEmail(
+        email: string,
+        recipientName: string,
+        companyName: string,
+        downloadUrl: string,
+        fileSizeBytes: number,
+        expiresAt: Date,
+        companyId?: string,
+    ): Promise<boolean> {
+        return this.sendTemplatedEmail(EmailType.DATA_EXPORT_READY, email, {
+            recipientName,
+            companyName,
+            downloadUrl,
+            fileSize: this.formatFileSize(fileSizeBytes),
+            expiresAt: this.formatDate(expiresAt),
+            companyId,
+        });
+    }
+
+    /**
+     * Send data export failed email
+     */
+    async sendDataExportFailedEmail(
+        email: string,
+        recipientName: string,
+        companyName: string,
+        companyId?: string,
+    ): Promise<boolean> {
+        return this.sendTemplatedEmail(EmailType.DATA_EXPORT_FAILED, email, {
+            recipientName,
+            companyName,
+            exportsUrl: `${this.appUrl}/settings/data-export`,
+            companyId,
+        });
+    }
+
+    // ============================================
+    // COMPANY CLOSURE EMAILS
+    // ============================================
+
+    /**
+     * Send company closure notice with a link to cancel before the purge
+     */
+    async sendCompanyClosureScheduledEmail(
+        email: string,
+        recipientName: string,
+        companyName: string,
+        requestedBy: string,
+        purgeDate: Date,
+        token: string,
+        companyId?: string,
+    ): Promise<boolean> {
+        return this.sendTemplatedEmail(EmailType.COMPANY_CLOSURE_SCHEDULED, email, {
+            recipientName,
+            companyName,
+            requestedBy,
+            purgeDate: this.formatDate(purgeDate),
+            cancelUrl: `${this.appUrl}/cancel-closure?token=${encodeURIComponent(token)}`,
+            companyId,
+        });
+    }
+
+    /**
+     * Send company admins the members who start or leave soon
+     */
+    async sendEmploymentChangesEmail(
+        email: string,
+        recipientName: string,
+        companyName: string,
+        companyId: string,
+        joiners: EmploymentChange[],
+        leavers: EmploymentChange[],
+    ): Promise<boolean> {
+        // Employment dates are calendar dates, stored as UTC midnight
+        const withDisplayDate = (change: EmploymentChange) => ({ ...change, date: this.formatDate(new Date(change.date), 'UTC') });
+
+        return this.sendTemplatedEmail(EmailType.EMPLOYMENT_CHANGES_UPCOMING, email, {
+            recipientName,
+            companyName,
+            companyId,
+            joiners: joiners.map(withDisplayDate),
+            leavers: leavers.map(withDisplayDate),
+            usersUrl: `${this.appUrl}/users`,
+        });
+    }
+
+    /**
+     * Send company closure cancelled email
+     */
+    async sendCompanyClosureCancelledEmail(
+        email: string,
+        recipientName: string,
+        companyName: string,
+        companyId?: string,
+    ): Promise<boolean> {
+        return this.sendTemplatedEmail(EmailType.COMPANY_CLOSURE_CANCELLED, email, {
+            recipientName,
+            companyName,
+            dashboardUrl: `${this.appUrl}/dashboard`,
+            companyId,
+        });
+    }
+
+    /**
+     * Send final confirmation once a closed company has been purged
+     */
+    async sendCompanyPurgedEmail(
+        email: string,
+        recipientName: string,
+        companyName: string,
+        fileCount: number,
+        companyId?: string,
+    ): Promise<boolean> {
+        return this.sendTemplatedEmail(EmailType.COMPANY_PURGED, email, {
+            recipientName,
+            companyName,
+            fileCount,
+            companyId,
         });
     }
 
@@ -606,15 +975,27 @@ export class EmailService implements OnModuleInit {
         return roleMap[role] || role;
     }
 
-    private formatDate(date: Date): string {
+    private formatDate(date: Date, timeZone?: string): string {
         return new Date(date).toLocaleDateString('en-US', {
             weekday: 'long',
             year: 'numeric',
             month: 'long',
             day: 'numeric',
+            timeZone,
         });
     }
 
+    private formatFileSize(bytes: number): string {
+        const units = ['B', 'KB', 'MB', 'GB'];
+        let size = bytes;
+        let unit = 0;
+        while (size >= 1024 && unit < units.length - 1) {
+            size /= 1024;
+            unit++;
+        }
+        return `${unit === 0 ? size : size.toFixed(1)} ${units[unit]}`;
+    }
+
     /**
      * Check if email service is enabled
      */
@@ -18,6 +18,23 @@ export interface EmailAttachment {
     contentType?: string;
 }
 
+export interface EmailBranding {
+    companyName: string;
+    logoUrl: string | null;
+    brandColor: string | null;
+    footerText: string | null;
+    replyTo: string | null;
+}
+
+// A member starting or leaving, listed in the employment changes email
+export interface EmploymentChange {
+    name: string;
+    // YYYY-MM-DD
+    date: string;
+    daysUntil: number;
+    department: string | null;
+}
+
 export interface EmailContext {
     // Common fields
     recipientName?: string;
@@ -26,6 +43,10 @@ export interface EmailContext {
     year?: number;
     supportEmail?: string;
     appUrl?: string;
+    // Company whose branding is used; defaults to the recipient's company
+    companyId?: string;
+    // Filled in by EmailService before rendering
+    branding?: EmailBranding | null;
 
     // Specific context fields
     [key: string]: any;
@@ -37,6 +58,8 @@ export enum EmailType {
     WELCOME_USER = 'welcome_user',
     PASSWORD_RESET = 'password_reset',
     EMAIL_VERIFICATION = 'email_verification',
+    ACCOUNT_LOCKED = 'account_locked',
+    INVITATION = 'invitation',
 
     // Project emails
     PROJECT_CREATED = 'project_created',
@@ -86,6 +109,22 @@ export enum EmailType {
     TRIAL_ENDING_SOON = 'trial_ending_soon',
     TRIAL_EXPIRED = 'trial_expired',
     SUBSCRIPTION_EXPIRED = 'subscription_expired',
+    SUBSCRIPTION_GRACE_PERIOD = 'subscription_grace_period',
+    SUBSCRIPTION_RENEWED = 'subscription_renewed',
+    SUBSCRIPTION_CANCELLED = 'subscription_cancelled',
+    PAYMENT_FAILED = 'payment_failed',
 
     PASSWORD_CHANGED = 'password_changed',
+
+    // Data export emails
+    DATA_EXPORT_READY = 'data_export_ready',
+    DATA_EXPORT_FAILED = 'data_export_failed',
+
+    // Company closure emails
+    COMPANY_CLOSURE_SCHEDULED = 'company_closure_scheduled',
+    COMPANY_CLOSURE_CANCELLED = 'company_closure_cancelled',
+    COMPANY_PURGED = 'company_purged',
+
+    // Employment date emails
+    EMPLOYMENT_CHANGES_UPCOMING = 'employment_changes_upcoming',
 }
\ No newline at end of file
@@ -0,0 +1,14 @@
+import { DEFAULT_BRAND_COLOR_LIGHT, escapeHtml, lightenColor } from './branding.util';
+
+describe('branding.util', () => {
+    it('mixes brand colors with white', () => {
+        expect(lightenColor('#FF0000', 0)).toBe('#FF0000');
+        expect(lightenColor('#ff0000', 0.5)).toBe('#FF8080');
+        expect(lightenColor('#004080', 1)).toBe('#FFFFFF');
+        expect(lightenColor('red', 0.9)).toBe(DEFAULT_BRAND_COLOR_LIGHT);
+    });
+
+    it('escapes company text placed in emails', () => {
+        expect(escapeHtml(`Tom & Jerry's <b>"Co"</b>`)).toBe('Tom &amp; Jerry&#39;s &lt;b&gt;&quot;Co&quot;&lt;/b&gt;');
+    });
+});
@@ -0,0 +1,33 @@
+// src/modules/email/utils/branding.util.ts
+
+export const DEFAULT_BRAND_COLOR = '#4F46E5'; // Indigo
+export const DEFAULT_BRAND_COLOR_LIGHT = '#EEF2FF';
+
+export const HEX_COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+
+/**
+ * Mixes a #RRGGBB color with white; `amount` 0 keeps the color, 1 gives white
+ */
+export function lightenColor(hex: string, amount: number): string {
+    if (!HEX_COLOR_PATTERN.test(hex)) {
+        return DEFAULT_BRAND_COLOR_LIGHT;
+    }
+
+    const channels = [1, 3, 5].map((start) => parseInt(hex.slice(start, start + 2), 16));
+    return '#' + channels
+        .map((channel) => Math.round(channel + (255 - channel) * amount).toString(16).padStart(2, '0'))
+        .join('')
+        .toUpperCase();
+}
+
+/**
+ * Company-provided text is placed in email HTML as text, never as markup
+ */
+export function escapeHtml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
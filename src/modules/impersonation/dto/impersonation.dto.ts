@@ -0,0 +1,25 @@
+// src/modules/impersonation/dto/impersonation.dto.ts
+import { IsString, IsNotEmpty, IsUUID, IsOptional, IsInt, Min, Max, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export const DEFAULT_IMPERSONATION_MINUTES = 30;
+export const MAX_IMPERSONATION_MINUTES = 60;
+
+export class StartImpersonationDto {
+    @ApiProperty({ description: 'User to act as' })
+    @IsUUID()
+    userId: string;
+
+    @ApiProperty({ example: 'Ticket #4821 - timesheet totals look wrong', description: 'Recorded in the audit log' })
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(500)
+    reason: string;
+
+    @ApiPropertyOptional({ default: DEFAULT_IMPERSONATION_MINUTES, description: 'Minutes until the support token expires' })
+    @IsOptional()
+    @IsInt()
+    @Min(5)
+    @Max(MAX_IMPERSONATION_MINUTES)
+    durationMinutes?: number;
+}
@@ -0,0 +1,52 @@
+// src/modules/impersonation/impersonation.controller.ts
+import { Controller, Get, Post, Delete, Body, Param, UseGuards, HttpCode, ParseUUIDPipe } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+import { ImpersonationService } from './impersonation.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { CurrentUser, Roles, SkipSubscriptionCheck, ClientInfo } from '../auth/guards';
+import { StartImpersonationDto } from './dto/impersonation.dto';
+
+@ApiTags('impersonation')
+@Controller('impersonation')
+@UseGuards(JwtAuthGuard)
+@SkipSubscriptionCheck()
+@ApiBearerAuth()
+export class ImpersonationController {
+    constructor(private readonly impersonationService: ImpersonationService) { }
+
+    @Post('start')
+    @UseGuards(RolesGuard)
+    @Roles(UserRole.SUPER_ADMIN, UserRole.COMPANY)
+    @ApiOperation({
+        summary: 'Start a support session as another user',
+        description: 'Returns a short-lived access token for the target user. No refresh token is issued.',
+    })
+    async start(@Body() dto: StartImpersonationDto, @CurrentUser() currentUser: any, @ClientInfo() client: ClientInfo) {
+        return this.impersonationService.start(currentUser, dto, client);
+    }
+
+    @Post('stop')
+    @HttpCode(200)
+    @ApiOperation({ summary: 'End the support session this token belongs to' })
+    async stop(@CurrentUser() currentUser: any, @ClientInfo() client: ClientInfo) {
+        return this.impersonationService.stop(currentUser, client);
+    }
+
+    @Get('sessions')
+    @UseGuards(RolesGuard)
+    @Roles(UserRole.SUPER_ADMIN, UserRole.COMPANY)
+    @ApiOperation({ summary: 'List your active support sessions' })
+    async findActiveSessions(@CurrentUser('id') userId: string) {
+        return this.impersonationService.findActiveSessions(userId);
+    }
+
+    @Delete('sessions/:id')
+    @UseGuards(RolesGuard)
+    @Roles(UserRole.SUPER_ADMIN, UserRole.COMPANY)
+    @ApiOperation({ summary: 'End one of your support sessions' })
+    async revokeSession(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() currentUser: any, @ClientInfo() client: ClientInfo) {
+        return this.impersonationService.revokeSession(currentUser, id, client);
+    }
+}
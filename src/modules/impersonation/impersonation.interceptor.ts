@@ -0,0 +1,83 @@
+// src/modules/impersonation/impersonation.interceptor.ts
+import { Injectable, NestInterceptor, ExecutionContext, CallHandler, ForbiddenException, HttpException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { PlatformAuditAction } from '@prisma/client';
+import { Request } from 'express';
+import { Observable, tap } from 'rxjs';
+import { BLOCK_WHILE_IMPERSONATING } from '../auth/decorators/block-while-impersonating.decorator';
+import { PlatformActor, PlatformAuditService } from '../platform-admin/platform-audit.service';
+
+const READ_ONLY_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+type ImpersonatedRequest = Request & {
+    user?: { id: string; companyId: string; sessionId?: string; impersonator?: PlatformActor | null };
+};
+
+/**
+ * Applies to support (impersonation) tokens only: blocks endpoints marked with
+ * @BlockWhileImpersonating() and writes every mutating request to the platform audit log.
+ */
+@Injectable()
+export class ImpersonationInterceptor implements NestInterceptor {
+    constructor(
+        private reflector: Reflector,
+        private platformAuditService: PlatformAuditService,
+    ) { }
+
+    async intercept(context: ExecutionContext, next: CallHandler): Promise<Observable<unknown>> {
+        const request = context.switchToHttp().getRequest<ImpersonatedRequest>();
+        const user = request.user;
+
+        if (!user?.impersonator) {
+            return next.handle();
+        }
+
+        const blocked = this.reflector.getAllAndOverride<boolean>(BLOCK_WHILE_IMPERSONATING, [
+            context.getHandler(),
+            context.getClass(),
+        ]);
+
+        if (blocked) {
+            await this.audit(request, { outcome: 'blocked' });
+            throw new ForbiddenException('This action is not available during a support session');
+        }
+
+        if (READ_ONLY_METHODS.includes(request.method)) {
+            return next.handle();
+        }
+
+        const response = context.switchToHttp().getResponse<{ statusCode: number }>();
+
+        return next.handle().pipe(
+            tap({
+                next: () => void this.audit(request, { outcome: 'success', statusCode: response.statusCode }),
+                error: (error: unknown) => void this.audit(request, {
+                    outcome: 'error',
+                    statusCode: error instanceof HttpException ? error.getStatus() : 500,
+                }),
+            }),
+        );
+    }
+
+    private async audit(request: ImpersonatedRequest, result: { outcome: string; statusCode?: number }) {
+        const user = request.user!;
+
+        try {
+            await this.platformAuditService.record(user.impersonator!, PlatformAuditAction.IMPERSONATED_REQUEST, {
+                targetCompanyId: user.companyId,
+                metadata: {
+                    ...result,
+                    method: request.method,
+                    path: request.originalUrl.split('?')[0],
+                    impersonatedUserId: user.id,
+                    sessionId: user.sessionId ?? null,
+                },
+            }, {
+                ipAddress: request.ip,
+                userAgent: request.headers['user-agent'],
+            });
+        } catch (error) {
+            console.error('Failed to record impersonated request:', error);
+        }
+    }
+}
@@ -0,0 +1,22 @@
+// src/modules/impersonation/impersonation.module.ts
+import { Module } from '@nestjs/common';
+import { APP_INTERCEPTOR } from '@nestjs/core';
+import { ImpersonationController } from './impersonation.controller';
+import { ImpersonationService } from './impersonation.service';
+import { ImpersonationInterceptor } from './impersonation.interceptor';
+import { PrismaModule } from '../../prisma/prisma.module';
+import { AuthModule } from '../auth/auth.module';
+import { PlatformAdminModule } from '../platform-admin/platform-admin.module';
+
+@Module({
+    imports: [PrismaModule, AuthModule, PlatformAdminModule],
+    controllers: [ImpersonationController],
+    providers: [
+        ImpersonationService,
+        {
+            provide: APP_INTERCEPTOR,
+            useClass: ImpersonationInterceptor,
+        },
+    ],
+})
+export class ImpersonationModule { }
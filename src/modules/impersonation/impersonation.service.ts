@@ -0,0 +1,184 @@
+// src/modules/impersonation/impersonation.service.ts
+import { Injectable, NotFoundException, BadRequestException, ForbiddenException } from '@nestjs/common';
+import { ActivityType, PlatformAuditAction, Prisma, UserRole } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { SessionsService } from '../auth/sessions.service';
+import { MembershipsService } from '../memberships/memberships.service';
+import { withMembership } from '../memberships/membership.util';
+import { ClientInfo } from '../auth/decorators/client-info.decorator';
+import { PlatformActor, PlatformAuditService } from '../platform-admin/platform-audit.service';
+import { DEFAULT_IMPERSONATION_MINUTES, StartImpersonationDto } from './dto/impersonation.dto';
+
+// Roles a company admin may act as inside their own company
+const COMPANY_IMPERSONATABLE_ROLES: UserRole[] = [UserRole.USER, UserRole.QC_ADMIN];
+
+type Impersonator = PlatformActor & { role: UserRole; companyId: string; impersonator?: PlatformActor | null };
+type ImpersonatedUser = { id: string; email: string; companyId: string; sessionId?: string; impersonator?: PlatformActor | null };
+
+@Injectable()
+export class ImpersonationService {
+    constructor(
+        private prisma: PrismaService,
+        private sessionsService: SessionsService,
+        private platformAuditService: PlatformAuditService,
+        private membershipsService: MembershipsService,
+    ) { }
+
+    // ============================================
+    // START / STOP
+    // ============================================
+    async start(actor: Impersonator, dto: StartImpersonationDto, client: ClientInfo) {
+        if (actor.impersonator) {
+            throw new BadRequestException('End the current support session before starting another one');
+        }
+
+        if (dto.userId === actor.id) {
+            throw new BadRequestException('You cannot impersonate yourself');
+        }
+
+        const user = await this.prisma.user.findUnique({
+            where: { id: dto.userId },
+            select: {
+                id: true,
+                email: true,
+                firstName: true,
+                lastName: true,
+                role: true,
+                companyId: true,
+                isActive: true,
+            },
+        });
+
+        // Company admins act as the user inside their own company; platform admins in the user's home company
+        const membership = user
+            ? await this.membershipsService.findMembership(user.id, actor.role === UserRole.SUPER_ADMIN ? user.companyId : actor.companyId)
+            : null;
+
+        if (!user || !membership) {
+            throw new NotFoundException('User not found');
+        }
+
+        const target = withMembership(user, membership);
+
+        if (target.role === UserRole.SUPER_ADMIN) {
+            throw new ForbiddenException('Platform administrators cannot be impersonated');
+        }
+
+        if (actor.role === UserRole.COMPANY && !COMPANY_IMPERSONATABLE_ROLES.includes(target.role)) {
+            throw new ForbiddenException('Company administrators can only impersonate team members and QC admins');
+        }
+
+        if (!target.isActive || !target.company.isActive) {
+            throw new BadRequestException('Inactive users cannot be impersonated');
+        }
+
+        const durationMinutes = dto.durationMinutes ?? DEFAULT_IMPERSONATION_MINUTES;
+        const tokens = await this.sessionsService.createImpersonationSession(target, actor.id, dto.reason, durationMinutes, client);
+
+        await this.record(actor, PlatformAuditAction.IMPERSONATION_STARTED, ActivityType.IMPERSONATION_STARTED, target, {
+            sessionId: tokens.session_id,
+            reason: dto.reason,
+            durationMinutes,
+        }, client);
+
+        return {
+            ...tokens,
+            user: {
+                id: target.id,
+                email: target.email,
+                firstName: target.firstName,
+                lastName: target.lastName,
+                role: target.role,
+                companyId: target.companyId,
+            },
+        };
+    }
+
+    /**
+     * Called with the impersonation token itself; ends that support session
+     */
+    async stop(currentUser: ImpersonatedUser, client: ClientInfo) {
+        if (!currentUser.impersonator || !currentUser.sessionId) {
+            throw new BadRequestException('This is not a support session');
+        }
+
+        await this.endSession(currentUser.impersonator, currentUser.sessionId, client);
+
+        return { success: true, message: 'Support session ended' };
+    }
+
+    // ============================================
+    // OWN SUPPORT SESSIONS
+    // ============================================
+    async findActiveSessions(actorId: string) {
+        return this.prisma.userSession.findMany({
+            where: { impersonatorId: actorId, revokedAt: null, expiresAt: { gt: new Date() } },
+            select: {
+                id: true,
+                impersonationReason: true,
+                ipAddress: true,
+                createdAt: true,
+                expiresAt: true,
+                user: { select: { id: true, email: true, firstName: true, lastName: true, companyId: true } },
+            },
+            orderBy: { createdAt: 'desc' },
+        });
+    }
+
+    async revokeSession(actor: PlatformActor, sessionId: string, client: ClientInfo) {
+        await this.endSession(actor, sessionId, client);
+
+        return { success: true, message: 'Support session ended' };
+    }
+
+    // ============================================
+    // HELPERS
+    // ============================================
+    private async endSession(actor: PlatformActor, sessionId: string, client: ClientInfo) {
+        const session = await this.prisma.userSession.findFirst({
+            where: { id: sessionId, impersonatorId: actor.id, revokedAt: null },
+            select: { id: true, companyId: true, user: { select: { id: true, email: true, companyId: true } } },
+        });
+
+        if (!session) {
+            throw new NotFoundException('Support session not found');
+        }
+
+        await this.prisma.userSession.update({
+            where: { id: session.id },
+            data: { revokedAt: new Date() },
+        });
+
+        const target = { ...session.user, companyId: session.companyId ?? session.user.companyId };
+        await this.record(actor, PlatformAuditAction.IMPERSONATION_STOPPED, ActivityType.IMPERSONATION_STOPPED, target, {
+            sessionId: session.id,
+        }, client);
+    }
+
+    private async record(
+        actor: PlatformActor,
+        auditAction: PlatformAuditAction,
+        activityType: ActivityType,
+        target: { id: string; email: string; companyId: string },
+        metadata: Record<string, Prisma.InputJsonValue>,
+        client: ClientInfo,
+    ) {
+        await this.platformAuditService.record(actor, auditAction, {
+            targetCompanyId: target.companyId,
+            metadata: { ...metadata, targetUserId: target.id, targetEmail: target.email },
+        }, client);
+
+        // Also visible to the company in its own activity feed
+        await this.prisma.activityLog.create({
+            data: {
+                companyId: target.companyId,
+                userId: actor.id,
+                activityType,
+                description: activityType === ActivityType.IMPERSONATION_STARTED
+                    ? `${actor.email} started a support session as ${target.email}`
+                    : `${actor.email} ended a support session as ${target.email}`,
+                metadata: { ...metadata, targetUserId: target.id },
+            },
+        });
+    }
+}
@@ -0,0 +1,67 @@
+// src/modules/invitations/dto/invitations.dto.ts
+import { IsEmail, IsEnum, IsOptional, IsUUID, IsArray, IsString, IsNotEmpty, MinLength, MaxLength, IsIn } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+
+export class CreateInvitationDto {
+    @ApiProperty({ example: 'jane@company.com' })
+    @IsEmail()
+    email: string;
+
+    @ApiPropertyOptional({ enum: UserRole, default: UserRole.USER, description: 'Role the user gets on acceptance' })
+    @IsOptional()
+    @IsEnum(UserRole)
+    role?: UserRole;
+
+    @ApiPropertyOptional({ description: 'Department to assign on acceptance' })
+    @IsOptional()
+    @IsUUID()
+    departmentId?: string;
+
+    @ApiPropertyOptional({ description: 'Projects to add the user to as a member', type: [String] })
+    @IsOptional()
+    @IsArray()
+    @IsUUID('4', { each: true })
+    projectIds?: string[];
+}
+
+export class InvitationQueryDto {
+    @ApiPropertyOptional({ enum: ['PENDING', 'ACCEPTED', 'REVOKED', 'EXPIRED'] })
+    @IsOptional()
+    @IsIn(['PENDING', 'ACCEPTED', 'REVOKED', 'EXPIRED'])
+    status?: 'PENDING' | 'ACCEPTED' | 'REVOKED' | 'EXPIRED';
+}
+
+export class AcceptInvitationDto {
+    @ApiProperty({ description: 'Token from the invitation email' })
+    @IsString()
+    @IsNotEmpty()
+    token: string;
+
+    @ApiPropertyOptional({ example: 'Jane', description: 'Required unless the email already has an account' })
+    @IsOptional()
+    @IsString()
+    @IsNotEmpty()
+    firstName?: string;
+
+    @ApiPropertyOptional({ example: 'Doe', description: 'Required unless the email already has an account' })
+    @IsOptional()
+    @IsString()
+    @IsNotEmpty()
+    lastName?: string;
+
+    // Only checked against the strong password rules when a new account is created: existing accounts may predate them
+    @ApiProperty({
+        example: 'Password123!',
+        description: 'Password of the existing account, or the new account\'s password (min 8 chars, must contain uppercase, lowercase, number, and special character)',
+    })
+    @IsString()
+    @MinLength(6)
+    @MaxLength(100)
+    password: string;
+
+    @ApiPropertyOptional({ example: '+1234567890' })
+    @IsOptional()
+    @IsString()
+    phone?: string;
+}
@@ -0,0 +1,77 @@
+// src/modules/invitations/invitations.controller.ts
+import { Controller, Get, Post, Patch, Body, Param, Query, UseGuards, HttpCode, HttpStatus, ParseUUIDPipe } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+import { InvitationsService } from './invitations.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { BlockWhileImpersonating, CurrentUser, Roles, SkipSubscriptionCheck } from '../auth/guards';
+import { CreateInvitationDto, InvitationQueryDto, AcceptInvitationDto } from './dto/invitations.dto';
+
+@ApiTags('invitations')
+@Controller('invitations')
+export class InvitationsController {
+    constructor(private readonly invitationsService: InvitationsService) { }
+
+    // ============================================
+    // ADMIN ENDPOINTS
+    // ============================================
+
+    @Post()
+    @BlockWhileImpersonating()
+    @UseGuards(JwtAuthGuard, RolesGuard)
+    @Roles(UserRole.COMPANY, UserRole.QC_ADMIN)
+    @ApiBearerAuth()
+    @ApiOperation({ summary: 'Invite a new user by email (Company Admin / QC Admin)' })
+    async create(@Body() dto: CreateInvitationDto, @CurrentUser() currentUser: any) {
+        return this.invitationsService.create(dto, currentUser);
+    }
+
+    @Get()
+    @UseGuards(JwtAuthGuard, RolesGuard)
+    @Roles(UserRole.COMPANY, UserRole.QC_ADMIN)
+    @ApiBearerAuth()
+    @ApiOperation({ summary: 'List company invitations' })
+    async findAll(@CurrentUser('companyId') companyId: string, @Query() query: InvitationQueryDto) {
+        return this.invitationsService.findAll(companyId, query);
+    }
+
+    @Post(':id/resend')
+    @BlockWhileImpersonating()
+    @HttpCode(HttpStatus.OK)
+    @UseGuards(JwtAuthGuard, RolesGuard)
+    @Roles(UserRole.COMPANY, UserRole.QC_ADMIN)
+    @ApiBearerAuth()
+    @ApiOperation({ summary: 'Resend an invitation with a fresh link and expiry' })
+    async resend(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() currentUser: any) {
+        return this.invitationsService.resend(id, currentUser);
+    }
+
+    @Patch(':id/revoke')
+    @UseGuards(JwtAuthGuard, RolesGuard)
+    @Roles(UserRole.COMPANY, UserRole.QC_ADMIN)
+    @ApiBearerAuth()
+    @ApiOperation({ summary: 'Revoke a pending invitation' })
+    async revoke(@Param('id', ParseUUIDPipe) id: string, @CurrentUser('companyId') companyId: string) {
+        return this.invitationsService.revoke(id, companyId);
+    }
+
+    // ============================================
+    // PUBLIC ENDPOINTS (invitee)
+    // ============================================
+
+    @Get('token/:token')
+    @SkipSubscriptionCheck()
+    @ApiOperation({ summary: 'Look up an invitation by its emailed token' })
+    async findByToken(@Param('token') token: string) {
+        return this.invitationsService.findByToken(token);
+    }
+
+    @Post('accept')
+    @HttpCode(HttpStatus.OK)
+    @SkipSubscriptionCheck()
+    @ApiOperation({ summary: 'Accept an invitation and set a password' })
+    async accept(@Body() dto: AcceptInvitationDto) {
+        return this.invitationsService.accept(dto);
+    }
+}
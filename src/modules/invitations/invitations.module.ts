@@ -0,0 +1,14 @@
+// src/modules/invitations/invitations.module.ts
+import { Module } from '@nestjs/common';
+import { InvitationsController } from './invitations.controller';
+import { InvitationsService } from './invitations.service';
+import { PrismaModule } from '../../prisma/prisma.module';
+import { EmailModule } from '../email/email.module';
+
+@Module({
+    imports: [PrismaModule, EmailModule],
+    controllers: [InvitationsController],
+    providers: [InvitationsService],
+    exports: [InvitationsService],
+})
+export class InvitationsModule { }
@@ -0,0 +1,408 @@
+// src/modules/invitations/invitations.service.ts
+import {
+    Injectable,
+    NotFoundException,
+    ForbiddenException,
+    BadRequestException,
+    ConflictException,
+    UnauthorizedException,
+    HttpException,
+    HttpStatus,
+} from '@nestjs/common';
+import * as bcrypt from 'bcryptjs';
+import { InvitationStatus, Prisma, ProjectMemberRole, User, UserRole } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { EmailService } from '../email/email.service';
+import { STRONG_PASSWORD_MESSAGE, STRONG_PASSWORD_MIN_LENGTH, isStrongPassword } from '../auth/decorators/strong-password.decorator';
+import { PlansService } from '../plans';
+import { generateToken, hashToken } from '../auth/utils/token.util';
+import { CreateInvitationDto, InvitationQueryDto, AcceptInvitationDto } from './dto/invitations.dto';
+import { memberOf } from '../memberships/membership.util';
+
+const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+const RESEND_COOLDOWN_MS = 60 * 1000; // 1 minute between sends
+
+const INVITATION_INCLUDE = {
+    company: { select: { id: true, name: true, logo: true, isActive: true } },
+    department: { select: { id: true, name: true } },
+    invitedBy: { select: { id: true, firstName: true, lastName: true } },
+} satisfies Prisma.InvitationInclude;
+
+// The token hash never leaves the service
+const INVITATION_OMIT = { tokenHash: true } satisfies Prisma.InvitationOmit;
+
+type Inviter = Pick<User, 'id' | 'role' | 'companyId' | 'firstName' | 'lastName'>;
+type InvitationWithRelations = Prisma.InvitationGetPayload<{ include: typeof INVITATION_INCLUDE; omit: typeof INVITATION_OMIT }>;
+
+@Injectable()
+export class InvitationsService {
+    constructor(
+        private prisma: PrismaService,
+        private emailService: EmailService,
+        private plansService: PlansService,
+    ) { }
+
+    // ============================================
+    // CREATE INVITATION
+    // ============================================
+    async create(dto: CreateInvitationDto, currentUser: Inviter) {
+        const role = dto.role ?? UserRole.USER;
+
+        if (role === UserRole.SUPER_ADMIN) {
+            throw new ForbiddenException('The platform admin role cannot be given by invitation');
+        }
+
+        // QC_ADMIN cannot invite company admins (same rule as role changes)
+        if (role === UserRole.COMPANY && currentUser.role !== UserRole.COMPANY) {
+            throw new ForbiddenException('Only company admin can invite company admins');
+        }
+
+        // People with an account in another company are invited too; they join with a membership
+        const existingMember = await this.prisma.user.findFirst({
+            where: { email: dto.email, ...memberOf(currentUser.companyId) },
+        });
+        if (existingMember) {
+            throw new ConflictException('This user is already a member of your company');
+        }
+
+        const pending = await this.prisma.invitation.findFirst({
+            where: {
+                companyId: currentUser.companyId,
+                email: dto.email,
+                status: InvitationStatus.PENDING,
+                expiresAt: { gt: new Date() },
+            },
+        });
+        if (pending) {
+            throw new ConflictException('This email already has a pending invitation. Resend it instead.');
+        }
+
+        await this.validateAssignments(currentUser.companyId, dto.departmentId, dto.projectIds);
+        await this.plansService.assertSeatAvailable(currentUser.companyId, { includePendingInvitations: true });
+
+        const token = generateToken();
+        const invitation = await this.prisma.invitation.create({
+            data: {
+                companyId: currentUser.companyId,
+                email: dto.email,
+                role,
+                departmentId: dto.departmentId,
+                projectIds: dto.projectIds ?? [],
+                tokenHash: hashToken(token),
+                invitedById: currentUser.id,
+                expiresAt: new Date(Date.now() + INVITATION_TTL_MS),
+            },
+            include: INVITATION_INCLUDE,
+            omit: INVITATION_OMIT,
+        });
+
+        await this.sendInvitation(invitation, token, currentUser);
+
+        return this.toResponse(invitation);
+    }
+
+    // ============================================
+    // LIST INVITATIONS
+    // ============================================
+    async findAll(companyId: string, query: InvitationQueryDto) {
+        const now = new Date();
+        const where: Prisma.InvitationWhereInput = { companyId };
+
+        switch (query.status) {
+            case 'PENDING':
+                where.status = InvitationStatus.PENDING;
+                where.expiresAt = { gt: now };
+                break;
+            case 'EXPIRED':
+                where.status = InvitationStatus.PENDING;
+                where.expiresAt = { lte: now };
+                break;
+            case 'ACCEPTED':
+                where.status = InvitationStatus.ACCEPTED;
+                break;
+            case 'REVOKED':
+                where.status = InvitationStatus.REVOKED;
+                break;
+        }
+
+        const invitations = await this.prisma.invitation.findMany({
+            where,
+            include: INVITATION_INCLUDE,
+            omit: INVITATION_OMIT,
+            orderBy: { createdAt: 'desc' },
+        });
+
+        return invitations.map((invitation) => this.toResponse(invitation));
+    }
+
+    // ============================================
+    // RESEND (new token and expiry)
+    // ============================================
+    async resend(id: string, currentUser: Inviter) {
+        const invitation = await this.findOne(id, currentUser.companyId);
+
+        if (invitation.status !== InvitationStatus.PENDING) {
+            throw new BadRequestException(`Invitation has already been ${invitation.status.toLowerCase()}`);
+        }
+
+        if (Date.now() - invitation.lastSentAt.getTime() < RESEND_COOLDOWN_MS) {
+            throw new HttpException('Invitation was sent recently. Please try again later.', HttpStatus.TOO_MANY_REQUESTS);
+        }
+
+        const token = generateToken();
+        const updated = await this.prisma.invitation.update({
+            where: { id },
+            data: {
+                tokenHash: hashToken(token),
+                expiresAt: new Date(Date.now() + INVITATION_TTL_MS),
+                lastSentAt: new Date(),
+            },
+            include: INVITATION_INCLUDE,
+            omit: INVITATION_OMIT,
+        });
+
+        await this.sendInvitation(updated, token, currentUser);
+
+        return this.toResponse(updated);
+    }
+
+    // ============================================
+    // REVOKE
+    // ============================================
+    async revoke(id: string, companyId: string) {
+        const invitation = await this.findOne(id, companyId);
+
+        if (invitation.status !== InvitationStatus.PENDING) {
+            throw new BadRequestException(`Invitation has already been ${invitation.status.toLowerCase()}`);
+        }
+
+        const updated = await this.prisma.invitation.update({
+            where: { id },
+            data: {
+                status: InvitationStatus.REVOKED,
+                revokedAt: new Date(),
+            },
+            include: INVITATION_INCLUDE,
+            omit: INVITATION_OMIT,
+        });
+
+        return this.toResponse(updated);
+    }
+
+    // ============================================
+    // PUBLIC: PREVIEW & ACCEPT
+    // ============================================
+    async findByToken(token: string) {
+        const invitation = await this.findPendingByToken(token);
+
+        const existingAccount = await this.prisma.user.count({ where: { email: invitation.email } });
+
+        return {
+            email: invitation.email,
+            // Existing accounts only confirm their password; new ones also give their name
+            existingAccount: existingAccount > 0,
+            role: invitation.role,
+            expiresAt: invitation.expiresAt,
+            company: { name: invitation.company.name, logo: invitation.company.logo },
+            department: invitation.department,
+            invitedBy: invitation.invitedBy,
+        };
+    }
+
+    async accept(dto: AcceptInvitationDto) {
+        const invitation = await this.findPendingByToken(dto.token);
+
+        if (!invitation.company.isActive) {
+            throw new BadRequestException('Company is not active');
+        }
+
+        const existingUser = await this.prisma.user.findUnique({
+            where: { email: invitation.email },
+            include: { memberships: { where: { companyId: invitation.companyId } } },
+        });
+        if (existingUser) {
+            if (existingUser.companyId === invitation.companyId || existingUser.memberships.length > 0) {
+                throw new ConflictException('You are already a member of this company');
+            }
+
+            if (!(await bcrypt.compare(dto.password, existingUser.password))) {
+                throw new UnauthorizedException('Incorrect password for your existing account');
+            }
+        } else if (!dto.firstName || !dto.lastName) {
+            throw new BadRequestException('First and last name are required to create an account');
+        } else if (!isStrongPassword(dto.password)) {
+            throw new BadRequestException(`Password must be at least ${STRONG_PASSWORD_MIN_LENGTH} characters. ${STRONG_PASSWORD_MESSAGE}`);
+        }
+
+        await this.plansService.assertSeatAvailable(invitation.companyId);
+
+        const hashedPassword = await bcrypt.hash(dto.password, 10);
+        const now = new Date();
+
+        const user = await this.prisma.$transaction(async (prisma) => {
+            // Department may have been deleted since the invite was sent (FK is SET NULL)
+            const newUser = existingUser
+                ? await this.addMembership(prisma, existingUser, invitation)
+                : await prisma.user.create({
+                    data: {
+                        email: invitation.email,
+                        password: hashedPassword,
+                        firstName: dto.firstName ?? '',
+                        lastName: dto.lastName ?? '',
+                        phone: dto.phone,
+                        role: invitation.role,
+                        companyId: invitation.companyId,
+                        departmentId: invitation.departmentId,
+                        isActive: true,
+                        // Following the emailed link proves the address
+                        emailVerifiedAt: now,
+                    },
+                });
+
+            if (invitation.projectIds.length > 0) {
+                // Skip projects deleted since the invite was sent
+                const projects = await prisma.project.findMany({
+                    where: { id: { in: invitation.projectIds }, companyId: invitation.companyId },
+                    select: { id: true },
+                });
+
+                await prisma.projectMember.createMany({
+                    data: projects.map((project) => ({
+                        projectId: project.id,
+                        userId: newUser.id,
+                        role: ProjectMemberRole.MEMBER,
+                    })),
+                    skipDuplicates: true,
+                });
+            }
+
+            await prisma.invitation.update({
+                where: { id: invitation.id },
+                data: {
+                    status: InvitationStatus.ACCEPTED,
+                    acceptedAt: now,
+                    acceptedUserId: newUser.id,
+                },
+            });
+
+            return newUser;
+        });
+
+        try {
+            await this.emailService.sendWelcomeUserEmail(
+                user.email,
+                user.firstName,
+                invitation.company.name,
+                invitation.companyId,
+            );
+        } catch (error) {
+            console.error('Failed to send welcome email:', error);
+        }
+
+        return {
+            success: true,
+            message: existingUser
+                ? `Invitation accepted. Switch to ${invitation.company.name} from your account to start working there.`
+                : 'Invitation accepted. You can now log in.',
+            email: user.email,
+        };
+    }
+
+    // ============================================
+    // HELPERS
+    // ============================================
+    private async findOne(id: string, companyId: string) {
+        const invitation = await this.prisma.invitation.findFirst({
+            where: { id, companyId },
+        });
+
+        if (!invitation) {
+            throw new NotFoundException('Invitation not found');
+        }
+
+        return invitation;
+    }
+
+    /**
+     * Adds an account from another company to the inviting company with the invitation's role and department
+     */
+    private async addMembership(prisma: Prisma.TransactionClient, user: User, invitation: InvitationWithRelations) {
+        await prisma.companyMembership.create({
+            data: {
+                userId: user.id,
+                companyId: invitation.companyId,
+                role: invitation.role,
+                departmentId: invitation.departmentId,
+            },
+        });
+
+        return user;
+    }
+
+    private async findPendingByToken(token: string) {
+        const invitation = await this.prisma.invitation.findUnique({
+            where: { tokenHash: hashToken(token) },
+            include: INVITATION_INCLUDE,
+            omit: INVITATION_OMIT,
+        });
+
+        if (!invitation || invitation.status !== InvitationStatus.PENDING || invitation.expiresAt <= new Date()) {
+            throw new BadRequestException('Invalid or expired invitation link');
+        }
+
+        return invitation;
+    }
+
+    private async validateAssignments(companyId: string, departmentId?: string, projectIds?: string[]) {
+        if (departmentId) {
+            const department = await this.prisma.department.findFirst({
+                where: { id: departmentId, companyId },
+            });
+            if (!department) {
+                throw new BadRequestException('Department not found');
+            }
+        }
+
+        if (projectIds && projectIds.length > 0) {
+            const count = await this.prisma.project.count({
+                where: { id: { in: projectIds }, companyId },
+            });
+            if (count !== new Set(projectIds).size) {
+                throw new BadRequestException('Some projects not found in company');
+            }
+        }
+    }
+
+    private async sendInvitation(
+        invitation: InvitationWithRelations,
+        token: string,
+        inviter: Inviter,
+    ) {
+        try {
+            await this.emailService.sendInvitationEmail(
+                invitation.email,
+                `${inviter.firstName} ${inviter.lastName}`,
+                invitation.company.name,
+                invitation.role,
+                token,
+                invitation.expiresAt,
+                invitation.department?.name,
+                invitation.companyId,
+            );
+        } catch (error) {
+            console.error('Failed to send invitation email:', error);
+        }
+    }
+
+    /**
+     * Reports pending invitations past their expiry as EXPIRED
+     */
+    private toResponse(invitation: InvitationWithRelations) {
+        const isExpired = invitation.status === InvitationStatus.PENDING && invitation.expiresAt <= new Date();
+
+        return {
+            ...invitation,
+            status: isExpired ? 'EXPIRED' : invitation.status,
+        };
+    }
+}
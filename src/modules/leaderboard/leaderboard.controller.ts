@@ -6,11 +6,13 @@ import { RolesGuard } from '../auth/guards/roles.guard';
 import { LeaderboardService } from './leaderboard.service';
 import { LeaderboardQueryDto, UserPerformanceQueryDto } from './dto/leaderboard.dto';
 import { CurrentUser, Roles } from '../auth/guards';
+import { PlanFeature, PlanFeatureGuard, RequirePlanFeature } from '../plans';
 import { UserRole } from '@prisma/client';
 
 @ApiTags('leaderboard')
 @Controller('leaderboard')
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, PlanFeatureGuard)
+@RequirePlanFeature(PlanFeature.LEADERBOARD)
 @ApiBearerAuth()
 export class LeaderboardController {
     constructor(private readonly leaderboardService: LeaderboardService) { }
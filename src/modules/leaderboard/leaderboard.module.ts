@@ -4,9 +4,10 @@ import { LeaderboardController } from './leaderboard.controller';
 import { LeaderboardService } from './leaderboard.service';
 import { PrismaModule } from '../../prisma/prisma.module';
 import { EmailModule } from '../email/email.module';
+import { ScoringModule } from '../scoring/scoring.module';
 
 @Module({
-    imports: [PrismaModule, EmailModule],
+    imports: [PrismaModule, EmailModule, ScoringModule],
     controllers: [LeaderboardController],
     providers: [LeaderboardService],
     exports: [LeaderboardService],
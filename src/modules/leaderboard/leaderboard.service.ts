@@ -5,16 +5,13 @@ import { LeaderboardPeriod, NotificationType, AchievementType } from '@prisma/cl
 import { LeaderboardQueryDto, UserPerformanceQueryDto } from './dto/leaderboard.dto';
 import { EmailService } from '../email/email.service';
 import { EmailType } from '../email/interfaces/email.interface';
-
-// Performance score weights
-const PERFORMANCE_WEIGHTS = {
-    TASKS_COMPLETED: 0.35,      // 35% weight for tasks completed
-    TIME_TRACKED: 0.25,         // 25% weight for time tracked
-    POINTS_EARNED: 0.20,        // 20% weight for points earned
-    SUBPROJECTS_CONTRIBUTED: 0.10, // 10% weight for subproject participation
-    PROJECTS_CONTRIBUTED: 0.05,    // 5% weight for project participation
-    STREAK_BONUS: 0.05,            // 5% weight for consistency streak
-};
+import {
+    CalendarSettings, CalendarUnit, DEFAULT_CALENDAR, daysBetween, getLocalHour, isStreakContinued, resolveTimezone,
+    shiftDateKey, startOfDateKey, startOfPeriod, toDateKey,
+} from '../companies/utils/calendar.util';
+import { ScoringService } from '../scoring/scoring.service';
+import { calculatePerformanceScore } from '../scoring/scoring.util';
+import { memberOf } from '../memberships/membership.util';
 
 // Achievement thresholds
 const ACHIEVEMENT_THRESHOLDS = {
@@ -23,23 +20,38 @@ const ACHIEVEMENT_THRESHOLDS = {
     STREAK: [7, 30, 90, 365],
 };
 
+const PERIOD_UNITS: Partial<Record<LeaderboardPeriod, CalendarUnit>> = {
+    [LeaderboardPeriod.DAILY]: 'day',
+    [LeaderboardPeriod.WEEKLY]: 'week',
+    [LeaderboardPeriod.MONTHLY]: 'month',
+    [LeaderboardPeriod.QUARTERLY]: 'quarter',
+    [LeaderboardPeriod.YEARLY]: 'year',
+};
+
+// Snapshots are taken in the last hour of each company's local day
+const SNAPSHOT_LOCAL_HOUR = 23;
+
 @Injectable()
 export class LeaderboardService {
     private readonly logger = new Logger(LeaderboardService.name);
     constructor(private prisma: PrismaService,
         private emailService: EmailService,
+        private scoringService: ScoringService,
     ) { }
 
     // ============================================
     // GET COMPANY LEADERBOARD
     // ============================================
     async getCompanyLeaderboard(companyId: string, query: LeaderboardQueryDto) {
-        const { startDate, endDate } = this.getPeriodDates(query.period, query.startDate, query.endDate);
+        const calendar = await this.getCalendarSettings(companyId);
+        const scoring = await this.scoringService.getConfig(companyId);
+        const { startDate, endDate } = this.getPeriodDates(calendar, query.period, query.startDate, query.endDate);
         const limit = query.limit || 50;
 
         // Base where clause for time tracking
+        // Scoped by project rather than by user, since members of several companies track time in each of them
         const timeTrackingWhere: any = {
-            user: { companyId },
+            subProject: { project: { companyId } },
             isActive: false,
             startTime: { gte: startDate },
         };
@@ -47,7 +59,7 @@ export class LeaderboardService {
 
         // Filter by project if specified
         if (query.projectId) {
-            timeTrackingWhere.subProject = { projectId: query.projectId };
+            timeTrackingWhere.subProject = { projectId: query.projectId, project: { companyId } };
         }
 
         // Filter by subproject if specified
@@ -57,7 +69,7 @@ export class LeaderboardService {
 
         // Get all users in company with their stats
         const users = await this.prisma.user.findMany({
-            where: { companyId, isActive: true },
+            where: memberOf(companyId, { isActive: true }),
             select: {
                 id: true,
                 firstName: true,
@@ -87,6 +99,7 @@ export class LeaderboardService {
                         where: {
                             assignedToId: user.id,
                             status: 'COMPLETED',
+                            subProject: { project: { companyId } },
                             completedAt: { gte: startDate, ...(endDate ? { lte: endDate } : {}) },
                         },
                     }),
@@ -111,14 +124,14 @@ export class LeaderboardService {
                 const averageTaskTime = tasksCompleted > 0 ? Math.round(totalMinutes / tasksCompleted) : 0;
 
                 // Calculate performance score
-                const performanceScore = this.calculatePerformanceScore({
+                const performanceScore = calculatePerformanceScore({
                     tasksCompleted,
                     totalMinutes,
                     pointsEarned: user.points,
                     subProjectsContributed: subProjectCount,
                     projectsContributed: projectCount,
                     currentStreak: user.currentStreak,
-                });
+                }, scoring.rules);
 
                 return {
                     user: {
@@ -155,7 +168,7 @@ export class LeaderboardService {
             }));
 
         // Get previous period rankings for trend calculation
-        const previousPeriodRanks = await this.getPreviousPeriodRanks(companyId, query.period);
+        const previousPeriodRanks = await this.getPreviousPeriodRanks(companyId, calendar, query.period);
 
         // Add trend information
         const leaderboardWithTrends = sortedStats.map(entry => {
@@ -174,6 +187,7 @@ export class LeaderboardService {
             endDate,
             totalParticipants: users.length,
             leaderboard: leaderboardWithTrends,
+            scoringVersion: scoring.version,
         };
 
         // 🔥 OPTIONAL: Send weekly leaderboard email to top performers
@@ -197,7 +211,9 @@ export class LeaderboardService {
 
         if (!project) throw new NotFoundException('Project not found');
 
-        const { startDate, endDate } = this.getPeriodDates(query.period, query.startDate, query.endDate);
+        const calendar = await this.getCalendarSettings(companyId);
+        const scoring = await this.scoringService.getConfig(companyId);
+        const { startDate, endDate } = this.getPeriodDates(calendar, query.period, query.startDate, query.endDate);
 
         // Get project members with their stats
         const members = await this.prisma.projectMember.findMany({
@@ -246,14 +262,14 @@ export class LeaderboardService {
                 ]);
 
                 const totalMinutes = timeStats._sum.durationMinutes || 0;
-                const performanceScore = this.calculatePerformanceScore({
+                const performanceScore = calculatePerformanceScore({
                     tasksCompleted: taskStats,
                     totalMinutes,
                     pointsEarned: member.pointsEarned,
                     subProjectsContributed: subProjectCount,
                     projectsContributed: 1,
                     currentStreak: member.user.currentStreak,
-                });
+                }, scoring.rules);
 
                 return {
                     user: member.user,
@@ -282,6 +298,7 @@ export class LeaderboardService {
             endDate,
             totalMembers: members.length,
             leaderboard: sortedStats,
+            scoringVersion: scoring.version,
         };
     }
 
@@ -296,7 +313,9 @@ export class LeaderboardService {
 
         if (!subProject) throw new NotFoundException('Subproject not found');
 
-        const { startDate, endDate } = this.getPeriodDates(query.period, query.startDate, query.endDate);
+        const calendar = await this.getCalendarSettings(companyId);
+        const scoring = await this.scoringService.getConfig(companyId);
+        const { startDate, endDate } = this.getPeriodDates(calendar, query.period, query.startDate, query.endDate);
 
         const members = await this.prisma.subProjectMember.findMany({
             where: { subProjectId },
@@ -351,14 +370,14 @@ export class LeaderboardService {
                         totalMinutes,
                         totalHours: Math.round(totalMinutes / 60 * 100) / 100,
                     },
-                    performanceScore: this.calculatePerformanceScore({
+                    performanceScore: calculatePerformanceScore({
                         tasksCompleted: taskStats,
                         totalMinutes,
                         pointsEarned: member.pointsEarned,
                         subProjectsContributed: 1,
                         projectsContributed: 1,
                         currentStreak: 0,
-                    }),
+                    }, scoring.rules),
                 };
             })
         );
@@ -376,6 +395,7 @@ export class LeaderboardService {
             endDate,
             totalMembers: members.length,
             leaderboard: sortedStats,
+            scoringVersion: scoring.version,
         };
     }
 
@@ -384,7 +404,7 @@ export class LeaderboardService {
     // ============================================
     async getUserPerformance(userId: string, companyId: string, query: UserPerformanceQueryDto) {
         const user = await this.prisma.user.findFirst({
-            where: { id: userId, companyId },
+            where: { id: userId, ...memberOf(companyId) },
             select: {
                 id: true,
                 firstName: true,
@@ -398,13 +418,16 @@ export class LeaderboardService {
                 currentStreak: true,
                 longestStreak: true,
                 lastActiveDate: true,
+                timezone: true,
             },
         });
 
         if (!user) throw new NotFoundException('User not found');
 
-        const { startDate, endDate } = this.getPeriodDates(query.period, query.startDate, query.endDate);
-        const { startDate: prevStartDate, endDate: prevEndDate } = this.getPreviousPeriodDates(query.period, startDate, endDate);
+        const calendar = await this.getCalendarSettings(companyId);
+        const scoring = await this.scoringService.getConfig(companyId);
+        const { startDate, endDate } = this.getPeriodDates(calendar, query.period, query.startDate, query.endDate);
+        const { startDate: prevStartDate, endDate: prevEndDate } = this.getPreviousPeriodDates(calendar, query.period, startDate);
 
         // Current period stats
         const [currentTimeStats, currentTaskStats, currentSubProjects, currentProjects] = await Promise.all([
@@ -412,6 +435,7 @@ export class LeaderboardService {
                 where: {
                     userId,
                     isActive: false,
+                    subProject: { project: { companyId } },
                     startTime: { gte: startDate, ...(endDate ? { lte: endDate } : {}) },
                 },
                 _sum: { durationMinutes: true },
@@ -421,6 +445,7 @@ export class LeaderboardService {
                 where: {
                     assignedToId: userId,
                     status: 'COMPLETED',
+                    subProject: { project: { companyId } },
                     completedAt: { gte: startDate, ...(endDate ? { lte: endDate } : {}) },
                 },
             }),
@@ -438,6 +463,7 @@ export class LeaderboardService {
                 where: {
                     userId,
                     isActive: false,
+                    subProject: { project: { companyId } },
                     startTime: { gte: prevStartDate, lte: prevEndDate },
                 },
                 _sum: { durationMinutes: true },
@@ -446,6 +472,7 @@ export class LeaderboardService {
                 where: {
                     assignedToId: userId,
                     status: 'COMPLETED',
+                    subProject: { project: { companyId } },
                     completedAt: { gte: prevStartDate, lte: prevEndDate },
                 },
             }),
@@ -453,20 +480,21 @@ export class LeaderboardService {
 
         // Get achievements
         const achievements = await this.prisma.achievement.findMany({
-            where: { userId },
+            where: { userId, companyId },
             orderBy: { earnedAt: 'desc' },
             take: 10,
         });
 
-        // Get recent activity (last 14 days)
-        const fourteenDaysAgo = new Date();
-        fourteenDaysAgo.setDate(fourteenDaysAgo.getDate() - 14);
+        // Get recent activity (last 14 days, in the user's own timezone)
+        const userTimezone = resolveTimezone(user.timezone, calendar.timezone);
+        const fourteenDaysAgo = startOfDateKey(shiftDateKey(toDateKey(new Date(), userTimezone), -14), userTimezone);
 
         const recentActivity = await this.prisma.timeTracking.groupBy({
             by: ['startTime'],
             where: {
                 userId,
                 isActive: false,
+                subProject: { project: { companyId } },
                 startTime: { gte: fourteenDaysAgo },
             },
             _sum: { durationMinutes: true },
@@ -476,23 +504,23 @@ export class LeaderboardService {
         const currentMinutes = currentTimeStats._sum.durationMinutes || 0;
         const prevMinutes = prevTimeStats._sum.durationMinutes || 0;
 
-        const currentScore = this.calculatePerformanceScore({
+        const currentScore = calculatePerformanceScore({
             tasksCompleted: currentTaskStats,
             totalMinutes: currentMinutes,
             pointsEarned: user.points,
             subProjectsContributed: currentSubProjects,
             projectsContributed: currentProjects,
             currentStreak: user.currentStreak,
-        });
+        }, scoring.rules);
 
-        const prevScore = this.calculatePerformanceScore({
+        const prevScore = calculatePerformanceScore({
             tasksCompleted: prevTaskStats,
             totalMinutes: prevMinutes,
             pointsEarned: 0,
             subProjectsContributed: 0,
             projectsContributed: 0,
             currentStreak: 0,
-        });
+        }, scoring.rules);
 
         // Get current and previous rank
         const companyLeaderboard = await this.getCompanyLeaderboard(companyId, { period: query.period, limit: 100 });
@@ -547,13 +575,14 @@ export class LeaderboardService {
                 current: user.currentStreak,
                 longest: user.longestStreak,
             },
+            scoringVersion: scoring.version,
             allTimeStats: {
                 totalTasksCompleted: user.totalTasksCompleted,
                 totalTimeMinutes: user.totalTimeTrackedMinutes,
                 totalTimeHours: Math.round(user.totalTimeTrackedMinutes / 60 * 100) / 100,
                 lastActiveDate: user.lastActiveDate,
             },
-            recentActivity: this.aggregateRecentActivity(recentActivity),
+            recentActivity: this.aggregateRecentActivity(recentActivity, userTimezone),
         };
     }
 
@@ -671,7 +700,8 @@ export class LeaderboardService {
                     user.email,
                     user.firstName,
                     achievement.title,
-                    achievement.description
+                    achievement.description,
+                    companyId
                 );
             } catch (error) {
                 this.logger.error(`Failed to send achievement email to ${user.email}:`, error);
@@ -692,11 +722,10 @@ export class LeaderboardService {
         return newAchievements;
     }
 
-
     // ============================================
     // UPDATE USER STREAK
     // ============================================
-    async updateUserStreak(userId: string) {
+    async updateUserStreak(userId: string, companyId?: string) {
         const user = await this.prisma.user.findUnique({
             where: { id: userId },
             select: {
@@ -706,33 +735,32 @@ export class LeaderboardService {
                 lastActiveDate: true,
                 currentStreak: true,
                 longestStreak: true,
-                companyId: true
+                companyId: true,
+                timezone: true,
+                company: { select: { timezone: true, workingDays: true } },
             },
         });
 
         if (!user) return;
 
-        const today = new Date();
-        today.setHours(0, 0, 0, 0);
-
-        const lastActive = user.lastActiveDate ? new Date(user.lastActiveDate) : null;
-        if (lastActive) lastActive.setHours(0, 0, 0, 0);
+        // Days are cut at midnight in the user's (or company's) timezone
+        const timezone = resolveTimezone(user.timezone, user.company.timezone);
+        const todayKey = toDateKey(new Date(), timezone);
+        const lastActiveKey = user.lastActiveDate ? toDateKey(user.lastActiveDate, timezone) : null;
 
         let newStreak = 1;
         let streakIncreased = false;
 
-        if (lastActive) {
-            const diffDays = Math.floor((today.getTime() - lastActive.getTime()) / (1000 * 60 * 60 * 24));
-
-            if (diffDays === 0) {
+        if (lastActiveKey) {
+            if (daysBetween(lastActiveKey, todayKey) <= 0) {
                 // Same day, no change
                 return;
-            } else if (diffDays === 1) {
-                // Consecutive day
+            } else if (isStreakContinued(lastActiveKey, todayKey, user.company.workingDays)) {
+                // Consecutive working day (non-working days in between don't break the streak)
                 newStreak = user.currentStreak + 1;
                 streakIncreased = true;
             }
-            // If more than 1 day, streak resets to 1
+            // If a working day was missed, streak resets to 1
         }
 
         const newLongest = Math.max(newStreak, user.longestStreak);
@@ -742,7 +770,7 @@ export class LeaderboardService {
             data: {
                 currentStreak: newStreak,
                 longestStreak: newLongest,
-                lastActiveDate: today,
+                lastActiveDate: startOfDateKey(todayKey, timezone),
             },
         });
 
@@ -758,7 +786,7 @@ export class LeaderboardService {
                         {
                             recipientName: user.firstName,
                             streakDays: newStreak,
-                            companyName: 'Merit Tracker', // You might want to get actual company name
+                            companyId: companyId ?? user.companyId,
                         }
                     );
                 } catch (error) {
@@ -768,122 +796,78 @@ export class LeaderboardService {
         }
 
         // Check for streak achievements
-        await this.checkAndAwardAchievements(userId, user.companyId);
+        await this.checkAndAwardAchievements(userId, companyId ?? user.companyId);
     }
 
     // ============================================
-    // HELPER: Calculate performance score
+    // HELPER: Get company calendar
     // ============================================
-    private calculatePerformanceScore(metrics: {
-        tasksCompleted: number;
-        totalMinutes: number;
-        pointsEarned: number;
-        subProjectsContributed: number;
-        projectsContributed: number;
-        currentStreak: number;
-    }): number {
-        // Normalize metrics (using reasonable maximums for scaling)
-        const normalizedTasks = Math.min(metrics.tasksCompleted / 100, 1);
-        const normalizedTime = Math.min(metrics.totalMinutes / 6000, 1); // 100 hours
-        const normalizedPoints = Math.min(metrics.pointsEarned / 1000, 1);
-        const normalizedSubProjects = Math.min(metrics.subProjectsContributed / 20, 1);
-        const normalizedProjects = Math.min(metrics.projectsContributed / 10, 1);
-        const normalizedStreak = Math.min(metrics.currentStreak / 30, 1);
-
-        const score =
-            normalizedTasks * PERFORMANCE_WEIGHTS.TASKS_COMPLETED +
-            normalizedTime * PERFORMANCE_WEIGHTS.TIME_TRACKED +
-            normalizedPoints * PERFORMANCE_WEIGHTS.POINTS_EARNED +
-            normalizedSubProjects * PERFORMANCE_WEIGHTS.SUBPROJECTS_CONTRIBUTED +
-            normalizedProjects * PERFORMANCE_WEIGHTS.PROJECTS_CONTRIBUTED +
-            normalizedStreak * PERFORMANCE_WEIGHTS.STREAK_BONUS;
-
-        return Math.round(score * 1000) / 10; // Score out of 100
+    private async getCalendarSettings(companyId: string): Promise<CalendarSettings> {
+        const company = await this.prisma.company.findUnique({
+            where: { id: companyId },
+            select: { timezone: true, weekStartsOn: true, workingDays: true },
+        });
+
+        if (!company) return DEFAULT_CALENDAR;
+
+        return {
+            timezone: resolveTimezone(company.timezone),
+            weekStartsOn: company.weekStartsOn,
+            workingDays: company.workingDays,
+        };
     }
 
     // ============================================
     // HELPER: Get period dates
     // ============================================
-    private getPeriodDates(period?: LeaderboardPeriod, customStart?: string, customEnd?: string): { startDate: Date; endDate: Date | null } {
-        const now = new Date();
-        let startDate: Date;
-        let endDate: Date | null = null;
-
+    private getPeriodDates(calendar: CalendarSettings, period?: LeaderboardPeriod, customStart?: string, customEnd?: string): { startDate: Date; endDate: Date | null } {
         if (customStart && customEnd) {
-            return { startDate: new Date(customStart), endDate: new Date(customEnd) };
+            return {
+                startDate: this.parseRangeBoundary(customStart, calendar.timezone, false),
+                endDate: this.parseRangeBoundary(customEnd, calendar.timezone, true),
+            };
         }
 
-        switch (period) {
-            case LeaderboardPeriod.DAILY:
-                startDate = new Date(now.setHours(0, 0, 0, 0));
-                break;
-            case LeaderboardPeriod.WEEKLY:
-                startDate = new Date(now);
-                startDate.setDate(now.getDate() - now.getDay());
-                startDate.setHours(0, 0, 0, 0);
-                break;
-            case LeaderboardPeriod.MONTHLY:
-                startDate = new Date(now.getFullYear(), now.getMonth(), 1);
-                break;
-            case LeaderboardPeriod.QUARTERLY:
-                const quarter = Math.floor(now.getMonth() / 3);
-                startDate = new Date(now.getFullYear(), quarter * 3, 1);
-                break;
-            case LeaderboardPeriod.YEARLY:
-                startDate = new Date(now.getFullYear(), 0, 1);
-                break;
-            case LeaderboardPeriod.ALL_TIME:
-            default:
-                startDate = new Date(0); // Beginning of time
-                break;
-        }
+        const unit = period ? PERIOD_UNITS[period] : undefined;
 
-        return { startDate, endDate };
+        // Periods start at local midnight in the company timezone; ALL_TIME starts at the beginning of time
+        return { startDate: unit ? startOfPeriod(unit, new Date(), calendar) : new Date(0), endDate: null };
     }
 
     // ============================================
     // HELPER: Get previous period dates
     // ============================================
-    private getPreviousPeriodDates(period?: LeaderboardPeriod, currentStart?: Date, currentEnd?: Date | null): { startDate: Date; endDate: Date } {
-        const now = new Date();
-        let startDate: Date;
-        let endDate: Date;
-
-        switch (period) {
-            case LeaderboardPeriod.DAILY:
-                startDate = new Date(now);
-                startDate.setDate(startDate.getDate() - 1);
-                startDate.setHours(0, 0, 0, 0);
-                endDate = new Date(startDate);
-                endDate.setHours(23, 59, 59, 999);
-                break;
-            case LeaderboardPeriod.WEEKLY:
-                startDate = new Date(now);
-                startDate.setDate(now.getDate() - now.getDay() - 7);
-                startDate.setHours(0, 0, 0, 0);
-                endDate = new Date(startDate);
-                endDate.setDate(endDate.getDate() + 6);
-                endDate.setHours(23, 59, 59, 999);
-                break;
-            case LeaderboardPeriod.MONTHLY:
-                startDate = new Date(now.getFullYear(), now.getMonth() - 1, 1);
-                endDate = new Date(now.getFullYear(), now.getMonth(), 0);
-                endDate.setHours(23, 59, 59, 999);
-                break;
-            default:
-                startDate = new Date(0);
-                endDate = currentStart ? new Date(currentStart) : new Date();
-                break;
+    private getPreviousPeriodDates(calendar: CalendarSettings, period?: LeaderboardPeriod, currentStart?: Date): { startDate: Date; endDate: Date } {
+        const unit = period ? PERIOD_UNITS[period] : undefined;
+
+        if (!unit) {
+            return { startDate: new Date(0), endDate: currentStart ? new Date(currentStart) : new Date() };
+        }
+
+        const endDate = new Date((currentStart ?? startOfPeriod(unit, new Date(), calendar)).getTime() - 1);
+
+        return { startDate: startOfPeriod(unit, endDate, calendar), endDate };
+    }
+
+    // ============================================
+    // HELPER: Parse custom range boundary
+    // Plain dates cover the whole local day; full timestamps are used as given
+    // ============================================
+    private parseRangeBoundary(value: string, timezone: string, isEnd: boolean): Date {
+        if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+            return new Date(value);
         }
 
-        return { startDate, endDate };
+        return isEnd
+            ? new Date(startOfDateKey(shiftDateKey(value, 1), timezone).getTime() - 1)
+            : startOfDateKey(value, timezone);
     }
 
     // ============================================
     // HELPER: Get previous period ranks
     // ============================================
-    private async getPreviousPeriodRanks(companyId: string, period?: LeaderboardPeriod): Promise<Map<string, number>> {
-        const { startDate, endDate } = this.getPreviousPeriodDates(period);
+    private async getPreviousPeriodRanks(companyId: string, calendar: CalendarSettings, period?: LeaderboardPeriod): Promise<Map<string, number>> {
+        const { startDate, endDate } = this.getPreviousPeriodDates(calendar, period);
 
         // Try to get from snapshot
         const snapshots = await this.prisma.leaderboardSnapshot.findMany({
@@ -904,11 +888,11 @@ export class LeaderboardService {
     // ============================================
     // HELPER: Aggregate recent activity
     // ============================================
-    private aggregateRecentActivity(rawActivity: any[]): { date: string; minutesWorked: number }[] {
+    private aggregateRecentActivity(rawActivity: { startTime: Date; _sum: { durationMinutes: number | null } }[], timezone: string): { date: string; minutesWorked: number }[] {
         const activityMap = new Map<string, number>();
 
         rawActivity.forEach(a => {
-            const dateStr = new Date(a.startTime).toISOString().split('T')[0];
+            const dateStr = toDateKey(a.startTime, timezone);
             activityMap.set(dateStr, (activityMap.get(dateStr) || 0) + (a._sum.durationMinutes || 0));
         });
 
@@ -924,7 +908,8 @@ export class LeaderboardService {
         const leaderboard = await this.getCompanyLeaderboard(companyId, { period, limit: 100 });
 
         const now = new Date();
-        const { startDate, endDate } = this.getPeriodDates(period);
+        const calendar = await this.getCalendarSettings(companyId);
+        const { startDate, endDate } = this.getPeriodDates(calendar, period);
 
         // Delete existing snapshots for this period
         await this.prisma.leaderboardSnapshot.deleteMany({
@@ -950,10 +935,38 @@ export class LeaderboardService {
                 subProjectsContributed: entry.metrics.subProjectsContributed,
                 projectsContributed: entry.metrics.projectsContributed,
                 performanceScore: entry.performanceScore,
+                scoringVersion: leaderboard.scoringVersion,
             })),
         });
     }
 
+    // ============================================
+    // SAVE END-OF-DAY SNAPSHOTS (hourly cron job)
+    // Each company is handled in the last hour of its own day, so previous-period ranks line up with local periods
+    // ============================================
+    async saveEndOfDaySnapshots(now: Date = new Date()) {
+        const companies = await this.prisma.company.findMany({
+            where: { isActive: true },
+            select: { id: true, timezone: true },
+        });
+
+        let saved = 0;
+        for (const company of companies) {
+            if (getLocalHour(now, resolveTimezone(company.timezone)) !== SNAPSHOT_LOCAL_HOUR) continue;
+
+            try {
+                for (const period of Object.values(LeaderboardPeriod)) {
+                    await this.saveLeaderboardSnapshot(company.id, period);
+                }
+                saved++;
+            } catch (error) {
+                this.logger.error(`Failed to save leaderboard snapshots for company ${company.id}:`, error);
+            }
+        }
+
+        return { saved };
+    }
+
     private async sendLeaderboardEmails(leaderboard: any, companyId: string) {
         const company = await this.prisma.company.findUnique({
             where: { id: companyId },
@@ -974,7 +987,8 @@ export class LeaderboardService {
                             recipientName: performer.user.firstName,
                             milestoneType: `${leaderboard.period} Leaderboard`,
                             milestoneValue: `Rank #${performer.rank}`,
-                            companyName: company?.name || 'Merit Tracker',
+                            companyName: company?.name,
+                            companyId,
                         }
                     );
                 }
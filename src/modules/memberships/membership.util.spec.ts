@@ -0,0 +1,40 @@
+import { Company, UserRole } from '@prisma/client';
+import { memberOf, withMembership } from './membership.util';
+
+describe('membership.util', () => {
+    it('matches home members and members through a membership with the same filter', () => {
+        expect(memberOf('c2', { isActive: true, role: UserRole.QC_ADMIN })).toEqual({
+            OR: [
+                { companyId: 'c2', isActive: true, role: UserRole.QC_ADMIN },
+                { memberships: { some: { companyId: 'c2', isActive: true, role: UserRole.QC_ADMIN } } },
+            ],
+        });
+    });
+
+    it('shows the user with the role and status of the selected company', () => {
+        const user = { id: 'u1', companyId: 'c1', role: UserRole.COMPANY, departmentId: 'd1', isActive: false };
+        const company = { id: 'c2', name: 'Client' } as Company;
+
+        const member = withMembership(user, {
+            companyId: 'c2',
+            role: UserRole.USER,
+            departmentId: null,
+            customRoleId: 'r2',
+            isActive: true,
+            company,
+            department: null,
+            isHome: false,
+        });
+
+        expect(member).toMatchObject({
+            id: 'u1',
+            companyId: 'c2',
+            homeCompanyId: 'c1',
+            role: UserRole.USER,
+            departmentId: null,
+            customRoleId: 'r2',
+            isActive: true,
+            company,
+        });
+    });
+});
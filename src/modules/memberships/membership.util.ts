@@ -0,0 +1,61 @@
+// src/modules/memberships/membership.util.ts
+import { Company, Department, Prisma, UserRole } from '@prisma/client';
+
+/**
+ * Per-company fields of a member; the same columns exist on the user row (home company) and on CompanyMembership
+ */
+export interface MemberFilter {
+    role?: UserRole | { in: UserRole[] };
+    isActive?: boolean;
+    departmentId?: string | null;
+}
+
+export interface ResolvedMembership {
+    companyId: string;
+    role: UserRole;
+    departmentId: string | null;
+    customRoleId: string | null;
+    isActive: boolean;
+    company: Company;
+    department: Department | null;
+    // True for the company the account was created in
+    isHome: boolean;
+}
+
+/**
+ * Users who belong to a company, either as their home company or through a membership.
+ * The filter applies to the fields of that company only.
+ */
+export function memberOf(companyId: string, filter: MemberFilter = {}): Prisma.UserWhereInput {
+    return {
+        OR: [
+            { companyId, ...filter },
+            { memberships: { some: { companyId, ...filter } } },
+        ],
+    };
+}
+
+/**
+ * Sessions working in a company: those switched into it, and home sessions that predate per-session companies
+ */
+export function sessionsIn(companyId: string): Prisma.UserSessionWhereInput {
+    return { OR: [{ companyId }, { companyId: null, user: { companyId } }] };
+}
+
+/**
+ * The user as seen from one of their companies: role, department and status are those of that company.
+ * `homeCompanyId` keeps the company the account belongs to.
+ */
+export function withMembership<T extends { companyId: string }>(user: T, membership: ResolvedMembership) {
+    return {
+        ...user,
+        companyId: membership.companyId,
+        role: membership.role,
+        departmentId: membership.departmentId,
+        customRoleId: membership.customRoleId,
+        isActive: membership.isActive,
+        company: membership.company,
+        department: membership.department,
+        homeCompanyId: user.companyId,
+    };
+}
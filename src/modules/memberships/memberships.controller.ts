@@ -0,0 +1,22 @@
+// src/modules/memberships/memberships.controller.ts
+import { Controller, Get, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
+import { MembershipsService } from './memberships.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser, SkipSubscriptionCheck } from '../auth/guards';
+
+@ApiTags('memberships')
+@Controller('memberships')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+export class MembershipsController {
+    constructor(private readonly membershipsService: MembershipsService) { }
+
+    @Get()
+    @SkipSubscriptionCheck()
+    @ApiOperation({ summary: 'List the companies the current user belongs to (for the company switcher)' })
+    async findMine(@CurrentUser('id') userId: string, @CurrentUser('companyId') companyId: string) {
+        const companies = await this.membershipsService.findCompanies(userId);
+        return companies.map((membership) => ({ ...membership, isCurrent: membership.company.id === companyId }));
+    }
+}
@@ -0,0 +1,13 @@
+// src/modules/memberships/memberships.module.ts
+import { Global, Module } from '@nestjs/common';
+import { MembershipsController } from './memberships.controller';
+import { MembershipsService } from './memberships.service';
+
+// Global so authentication and the member-management services can resolve a user's companies without importing the module
+@Global()
+@Module({
+    controllers: [MembershipsController],
+    providers: [MembershipsService],
+    exports: [MembershipsService],
+})
+export class MembershipsModule { }
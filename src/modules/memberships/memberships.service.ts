@@ -0,0 +1,165 @@
+// src/modules/memberships/memberships.service.ts
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { CompanyMembership, Prisma } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { ResolvedMembership } from './membership.util';
+
+export type MemberUpdate = Partial<Pick<CompanyMembership, 'role' | 'departmentId' | 'customRoleId' | 'isActive'>>;
+
+const COMPANY_SUMMARY = { select: { id: true, name: true, logo: true, companyCode: true, isActive: true } };
+
+@Injectable()
+export class MembershipsService {
+    constructor(private prisma: PrismaService) { }
+
+    // ============================================
+    // LOOKUPS
+    // ============================================
+
+    /**
+     * The user's role, department and status in a company, or null when they do not belong to it
+     */
+    async findMembership(userId: string, companyId: string): Promise<ResolvedMembership | null> {
+        const user = await this.prisma.user.findUnique({
+            where: { id: userId },
+            include: {
+                company: true,
+                department: true,
+                memberships: { where: { companyId }, include: { company: true, department: true } },
+            },
+        });
+
+        if (!user) {
+            return null;
+        }
+
+        if (user.companyId === companyId) {
+            return {
+                companyId,
+                role: user.role,
+                departmentId: user.departmentId,
+                customRoleId: user.customRoleId,
+                isActive: user.isActive,
+                company: user.company,
+                department: user.department,
+                isHome: true,
+            };
+        }
+
+        const [membership] = user.memberships;
+        return membership ? this.toResolved(membership, false) : null;
+    }
+
+    /**
+     * Company used at login: the home company while the user can work there, otherwise the oldest other active one
+     */
+    async findDefaultMembership(userId: string): Promise<ResolvedMembership | null> {
+        const user = await this.prisma.user.findUnique({ where: { id: userId }, select: { companyId: true } });
+        if (!user) {
+            return null;
+        }
+
+        const home = await this.findMembership(userId, user.companyId);
+        if (home?.isActive && home.company.isActive) {
+            return home;
+        }
+
+        const membership = await this.prisma.companyMembership.findFirst({
+            where: { userId, isActive: true, company: { isActive: true } },
+            include: { company: true, department: true },
+            orderBy: { createdAt: 'asc' },
+        });
+
+        return membership ? this.toResolved(membership, false) : null;
+    }
+
+    /**
+     * Every company the user belongs to, for the company switcher
+     */
+    async findCompanies(userId: string) {
+        const user = await this.prisma.user.findUnique({
+            where: { id: userId },
+            select: {
+                role: true,
+                isActive: true,
+                company: COMPANY_SUMMARY,
+                memberships: {
+                    select: { role: true, isActive: true, company: COMPANY_SUMMARY },
+                    orderBy: { createdAt: 'asc' },
+                },
+            },
+        });
+
+        if (!user) {
+            throw new NotFoundException('User not found');
+        }
+
+        return [
+            { company: user.company, role: user.role, isActive: user.isActive, isHome: true },
+            ...user.memberships.map((membership) => ({ ...membership, isHome: false })),
+        ];
+    }
+
+    // ============================================
+    // CHANGES
+    // ============================================
+
+    /**
+     * Changes a member's role, department or status in one company: on the user row for their home company,
+     * on the membership for any other
+     */
+    async updateMember(userId: string, companyId: string, data: MemberUpdate, prisma: Prisma.TransactionClient = this.prisma) {
+        const user = await prisma.user.findUnique({ where: { id: userId }, select: { companyId: true } });
+
+        if (user?.companyId === companyId) {
+            await prisma.user.update({ where: { id: userId }, data });
+            return;
+        }
+
+        const result = await prisma.companyMembership.updateMany({ where: { userId, companyId }, data });
+        if (result.count === 0) {
+            throw new NotFoundException('User not found');
+        }
+    }
+
+    /**
+     * Moves the given members of a company into a department (or out of every department with null)
+     */
+    async setDepartment(
+        userIds: string[],
+        companyId: string,
+        departmentId: string | null,
+        prisma: Prisma.TransactionClient = this.prisma,
+        fromDepartmentId?: string,
+    ) {
+        const fromDepartment = fromDepartmentId ? { departmentId: fromDepartmentId } : {};
+
+        await prisma.user.updateMany({
+            where: { id: { in: userIds }, companyId, ...fromDepartment },
+            data: { departmentId },
+        });
+        await prisma.companyMembership.updateMany({
+            where: { userId: { in: userIds }, companyId, ...fromDepartment },
+            data: { departmentId },
+        });
+    }
+
+    // ============================================
+    // HELPERS
+    // ============================================
+    private toResolved(
+        membership: Prisma.CompanyMembershipGetPayload<{ include: { company: true; department: true } }>,
+        isHome: boolean,
+    ): ResolvedMembership {
+        return {
+            companyId: membership.companyId,
+            role: membership.role,
+            departmentId: membership.departmentId,
+            customRoleId: membership.customRoleId,
+            isActive: membership.isActive,
+            company: membership.company,
+            department: membership.department,
+            isHome,
+        };
+    }
+}
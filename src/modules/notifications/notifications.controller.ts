@@ -8,7 +8,7 @@ import { RolesGuard } from '../auth/guards/roles.guard';
 // import { CurrentUser } from '../../common/decorators/current-user.decorator';
 import { UserRole } from '@prisma/client';
 import { CreateNotificationDto, BulkNotificationDto, NotificationQueryDto } from './dto/notifications.dto';
-import { CurrentUser, Roles } from '../auth/guards';
+import { AllowWhenReadOnly, CurrentUser, Roles } from '../auth/guards';
 
 @ApiTags('notifications')
 @Controller('notifications')
@@ -29,10 +29,10 @@ export class NotificationsController {
     @Get('unread-count') @ApiOperation({ summary: 'Get unread notification count' })
     async getUnreadCount(@CurrentUser('id') userId: string) { return this.notificationsService.getUnreadCount(userId); }
 
-    @Patch(':id/read') @ApiOperation({ summary: 'Mark notification as read' })
+    @Patch(':id/read') @AllowWhenReadOnly() @ApiOperation({ summary: 'Mark notification as read' })
     async markAsRead(@Param('id') id: string, @CurrentUser('id') userId: string) { return this.notificationsService.markAsRead(id, userId); }
 
-    @Patch('read-all') @ApiOperation({ summary: 'Mark all notifications as read' })
+    @Patch('read-all') @AllowWhenReadOnly() @ApiOperation({ summary: 'Mark all notifications as read' })
     async markAllAsRead(@CurrentUser('id') userId: string) { return this.notificationsService.markAllAsRead(userId); }
 
     @Delete(':id') @ApiOperation({ summary: 'Delete a notification' })
@@ -0,0 +1,11 @@
+// src/modules/permissions/decorators/require-permissions.decorator.ts
+import { SetMetadata } from '@nestjs/common';
+import { Permission } from '../permissions.constants';
+
+export const PERMISSIONS_KEY = 'permissions';
+
+/**
+ * Company-wide permissions checked by PermissionsGuard (all must be granted).
+ * Actions that depend on a project/subproject role are checked in the service once the resource is loaded.
+ */
+export const RequirePermissions = (...permissions: Permission[]) => SetMetadata(PERMISSIONS_KEY, permissions);
@@ -0,0 +1,6 @@
+// src/modules/permissions/index.ts
+export * from './permissions.constants';
+export * from './permission.policies';
+export * from './permissions.service';
+export * from './permissions.guard';
+export * from './decorators/require-permissions.decorator';
@@ -0,0 +1,72 @@
+import { SubProjectMemberRole, UserRole } from '@prisma/client';
+import { companyWidePermissions, isAllowed } from './permission.policies';
+import { Permission } from './permissions.constants';
+
+describe('permission policies', () => {
+    const user = { id: 'user-1', role: UserRole.USER };
+    const qcAdmin = { id: 'qc-1', role: UserRole.QC_ADMIN };
+    const companyAdmin = { id: 'admin-1', role: UserRole.COMPANY };
+
+    it('keeps company-level actions for company admins', () => {
+        expect(isAllowed(companyAdmin, Permission.PROJECT_CREATE)).toBe(true);
+        expect(isAllowed(qcAdmin, Permission.PROJECT_CREATE)).toBe(false);
+        expect(isAllowed(user, Permission.PROJECT_DELETE)).toBe(false);
+    });
+
+    it('lets project leads manage their own project', () => {
+        const project = { projectLeadId: user.id, members: [] };
+
+        expect(isAllowed(user, Permission.PROJECT_UPDATE, { project })).toBe(true);
+        expect(isAllowed(user, Permission.PROJECT_MEMBER_REMOVE, { project })).toBe(true);
+        expect(isAllowed(user, Permission.PROJECT_UPDATE, { project: { projectLeadId: 'someone-else' } })).toBe(false);
+    });
+
+    it('keeps project member removal to company admins and leads, and task-side removal open to QC admins', () => {
+        const project = { projectLeadId: 'lead-1', members: [] };
+
+        expect(isAllowed(qcAdmin, Permission.PROJECT_MEMBER_REMOVE, { project })).toBe(false);
+        expect(isAllowed(companyAdmin, Permission.PROJECT_MEMBER_REMOVE, { project })).toBe(true);
+        expect(isAllowed(qcAdmin, Permission.PROJECT_MEMBER_UNASSIGN, { project })).toBe(true);
+        expect(isAllowed(user, Permission.PROJECT_MEMBER_UNASSIGN, { project })).toBe(false);
+    });
+
+    it('lets subproject QC heads and reviewers review tasks', () => {
+        const reviewer = { createdById: 'x', qcHeadId: null, members: [{ userId: user.id, role: SubProjectMemberRole.REVIEWER }] };
+        const member = { createdById: 'x', qcHeadId: null, members: [{ userId: user.id, role: SubProjectMemberRole.MEMBER }] };
+
+        expect(isAllowed(user, Permission.TASK_APPROVE, { subProject: reviewer })).toBe(true);
+        expect(isAllowed(user, Permission.TASK_REJECT, { subProject: { qcHeadId: user.id } })).toBe(true);
+        expect(isAllowed(user, Permission.TASK_APPROVE, { subProject: member })).toBe(false);
+        expect(isAllowed(qcAdmin, Permission.TASK_APPROVE, { subProject: member })).toBe(true);
+    });
+
+    it('limits task updates to managers and assignees', () => {
+        const task = { createdById: 'creator', assignees: [{ userId: user.id }] };
+
+        expect(isAllowed(user, Permission.TASK_UPDATE, { task })).toBe(true);
+        expect(isAllowed(user, Permission.TASK_DELETE, { task })).toBe(false);
+        expect(isAllowed({ id: 'creator', role: UserRole.USER }, Permission.TASK_DELETE, { task })).toBe(true);
+    });
+
+    it('uses a custom role permission set instead of the fixed role grants', () => {
+        const teamLead = { id: 'lead-1', role: UserRole.QC_ADMIN, permissions: [Permission.TASK_APPROVE] };
+
+        expect(isAllowed(teamLead, Permission.TASK_APPROVE, { subProject: { qcHeadId: null } })).toBe(true);
+        expect(isAllowed(teamLead, Permission.SCREENSHOT_DELETE, { ownerId: 'other' })).toBe(false);
+        expect(isAllowed(teamLead, Permission.SCREENSHOT_DELETE, { ownerId: teamLead.id })).toBe(true);
+    });
+
+    it('derives the built-in role permission lists', () => {
+        expect(companyWidePermissions(UserRole.COMPANY)).toContain(Permission.PROJECT_DELETE);
+        expect(companyWidePermissions(UserRole.QC_ADMIN)).toContain(Permission.TASK_APPROVE);
+        expect(companyWidePermissions(UserRole.USER)).not.toContain(Permission.TASK_APPROVE);
+    });
+
+    it('checks ownership for messages and screenshots', () => {
+        expect(isAllowed(user, Permission.CHAT_MESSAGE_EDIT, { ownerId: user.id })).toBe(true);
+        expect(isAllowed(qcAdmin, Permission.CHAT_MESSAGE_EDIT, { ownerId: user.id })).toBe(false);
+        expect(isAllowed(qcAdmin, Permission.CHAT_MESSAGE_DELETE, { ownerId: user.id })).toBe(true);
+        expect(isAllowed(user, Permission.SCREENSHOT_VIEW, { ownerId: 'other' })).toBe(false);
+        expect(isAllowed(user, Permission.SCREENSHOT_VIEW, {})).toBe(false);
+    });
+});
@@ -0,0 +1,171 @@
+// src/modules/permissions/permission.policies.ts
+import { ProjectMemberRole, SubProjectMemberRole, UserRole } from '@prisma/client';
+import { Permission } from './permissions.constants';
+
+export interface PermissionSubject {
+    id: string;
+    role: UserRole;
+    // Company the check applies to; the custom role is read from the user's membership there when it is not their home company
+    companyId?: string;
+    // Permission set of the user's custom role; replaces the fixed role's company-wide grants when present
+    permissions?: Permission[] | null;
+}
+
+/**
+ * Whatever the caller has already loaded about the resource. Only the fields a policy reads are needed.
+ */
+export interface PermissionContext {
+    project?: {
+        projectLeadId?: string | null;
+        members?: { userId: string; role?: ProjectMemberRole }[];
+    } | null;
+    subProject?: {
+        createdById?: string;
+        qcHeadId?: string | null;
+        members?: { userId: string; role?: SubProjectMemberRole }[];
+        project?: { projectLeadId?: string | null } | null;
+    } | null;
+    task?: {
+        createdById?: string;
+        assignees?: { userId: string }[];
+    } | null;
+    chatRoom?: {
+        createdById?: string;
+        members?: { userId: string; isQcAdmin?: boolean }[];
+    } | null;
+    // Author or owner of a message, screenshot or time entry
+    ownerId?: string | null;
+}
+
+type Policy = (subject: PermissionSubject, context: PermissionContext) => boolean;
+
+// ============================================
+// RELATIONSHIPS
+// ============================================
+const isCompanyAdmin = (subject: PermissionSubject) => subject.role === UserRole.COMPANY;
+
+const isStaff = (subject: PermissionSubject) => subject.role === UserRole.COMPANY || subject.role === UserRole.QC_ADMIN;
+
+const isOwner = (subject: PermissionSubject, context: PermissionContext) => !!context.ownerId && context.ownerId === subject.id;
+
+const isProjectLead = (subject: PermissionSubject, context: PermissionContext) =>
+    context.project?.projectLeadId === subject.id ||
+    context.subProject?.project?.projectLeadId === subject.id ||
+    !!context.project?.members?.some((m) => m.userId === subject.id && m.role === ProjectMemberRole.LEAD);
+
+const isProjectMember = (subject: PermissionSubject, context: PermissionContext) =>
+    isProjectLead(subject, context) || !!context.project?.members?.some((m) => m.userId === subject.id);
+
+/**
+ * The subject's role in the subproject; the subproject's qcHeadId counts as QC_HEAD even without a member row
+ */
+export function subProjectRoleOf(subject: PermissionSubject, context: PermissionContext): SubProjectMemberRole | null {
+    if (context.subProject?.qcHeadId === subject.id) {
+        return SubProjectMemberRole.QC_HEAD;
+    }
+
+    return context.subProject?.members?.find((m) => m.userId === subject.id)?.role ?? null;
+}
+
+const hasSubProjectRole = (subject: PermissionSubject, context: PermissionContext, ...roles: SubProjectMemberRole[]) => {
+    const role = subProjectRoleOf(subject, context);
+    return !!role && roles.includes(role);
+};
+
+const isSubProjectCreator = (subject: PermissionSubject, context: PermissionContext) =>
+    !!context.subProject?.createdById && context.subProject.createdById === subject.id;
+
+const isTaskCreator = (subject: PermissionSubject, context: PermissionContext) =>
+    !!context.task?.createdById && context.task.createdById === subject.id;
+
+const isTaskAssignee = (subject: PermissionSubject, context: PermissionContext) =>
+    !!context.task?.assignees?.some((a) => a.userId === subject.id);
+
+const isRoomMember = (subject: PermissionSubject, context: PermissionContext) =>
+    !!context.chatRoom?.members?.some((m) => m.userId === subject.id);
+
+// Staff, the project lead, the subproject's creator, QC head and reviewers
+const canManageSubProject: Policy = (subject, context) =>
+    isStaff(subject) ||
+    isProjectLead(subject, context) ||
+    isSubProjectCreator(subject, context) ||
+    hasSubProjectRole(subject, context, SubProjectMemberRole.QC_HEAD, SubProjectMemberRole.REVIEWER);
+
+// Staff, the project lead, the subproject's creator and QC head, and the task's creator
+const canManageTask: Policy = (subject, context) =>
+    isStaff(subject) ||
+    isProjectLead(subject, context) ||
+    isSubProjectCreator(subject, context) ||
+    hasSubProjectRole(subject, context, SubProjectMemberRole.QC_HEAD) ||
+    isTaskCreator(subject, context);
+
+const canReviewTask: Policy = (subject, context) =>
+    isStaff(subject) || hasSubProjectRole(subject, context, SubProjectMemberRole.QC_HEAD, SubProjectMemberRole.REVIEWER);
+
+const canManageRoom: Policy = (subject, context) =>
+    isStaff(subject) ||
+    (!!context.chatRoom?.createdById && context.chatRoom.createdById === subject.id) ||
+    !!context.chatRoom?.members?.some((m) => m.userId === subject.id && m.isQcAdmin);
+
+const anyone: Policy = () => true;
+
+// ============================================
+// POLICIES
+// ============================================
+export const PERMISSION_POLICIES: Record<Permission, Policy> = {
+    [Permission.PROJECT_CREATE]: (subject) => isCompanyAdmin(subject),
+    [Permission.PROJECT_UPDATE]: (subject, context) => isCompanyAdmin(subject) || isProjectLead(subject, context),
+    [Permission.PROJECT_DELETE]: (subject) => isCompanyAdmin(subject),
+    [Permission.PROJECT_MEMBER_ADD]: (subject, context) => isCompanyAdmin(subject) || isProjectLead(subject, context),
+    [Permission.PROJECT_MEMBER_REMOVE]: (subject, context) => isCompanyAdmin(subject) || isProjectLead(subject, context),
+    [Permission.PROJECT_MEMBER_ROLE]: (subject, context) => isCompanyAdmin(subject) || isProjectLead(subject, context),
+    [Permission.PROJECT_MEMBER_UNASSIGN]: (subject, context) => isStaff(subject) || isProjectLead(subject, context),
+
+    [Permission.SUBPROJECT_CREATE]: anyone,
+    [Permission.SUBPROJECT_UPDATE]: canManageSubProject,
+    [Permission.SUBPROJECT_DELETE]: canManageSubProject,
+    [Permission.SUBPROJECT_MEMBER_ADD]: anyone,
+    [Permission.SUBPROJECT_MEMBER_REMOVE]: canManageSubProject,
+    [Permission.SUBPROJECT_MEMBER_ROLE]: canManageSubProject,
+    [Permission.SUBPROJECT_QC_HEAD_ASSIGN]: (subject, context) => isStaff(subject) || isProjectLead(subject, context),
+
+    [Permission.TASK_CREATE]: anyone,
+    [Permission.TASK_UPDATE]: (subject, context) => canManageTask(subject, context) || isTaskAssignee(subject, context),
+    [Permission.TASK_DELETE]: canManageTask,
+    [Permission.TASK_ASSIGN]: anyone,
+    [Permission.TASK_UNASSIGN]: canManageTask,
+    [Permission.TASK_SUBMIT]: (subject, context) => isTaskAssignee(subject, context) || isTaskCreator(subject, context),
+    [Permission.TASK_APPROVE]: canReviewTask,
+    [Permission.TASK_REJECT]: canReviewTask,
+    [Permission.TASK_REVIEW_QUEUE]: (subject) => isStaff(subject),
+
+    [Permission.CHAT_ROOM_CREATE]: (subject, context) => isStaff(subject) || isProjectMember(subject, context),
+    [Permission.CHAT_ROOM_UPDATE]: canManageRoom,
+    [Permission.CHAT_ROOM_DELETE]: (subject, context) =>
+        isCompanyAdmin(subject) || (!!context.chatRoom?.createdById && context.chatRoom.createdById === subject.id),
+    [Permission.CHAT_MESSAGE_READ]: (subject, context) => isStaff(subject) || isRoomMember(subject, context),
+    [Permission.CHAT_MESSAGE_SEND]: (subject, context) => isStaff(subject) || isRoomMember(subject, context),
+    [Permission.CHAT_MESSAGE_EDIT]: (subject, context) => isOwner(subject, context),
+    [Permission.CHAT_MESSAGE_DELETE]: (subject, context) => isStaff(subject) || isOwner(subject, context),
+
+    [Permission.SCREENSHOT_VIEW]: (subject, context) => isStaff(subject) || isOwner(subject, context),
+    [Permission.SCREENSHOT_VIEW_ALL]: (subject) => isStaff(subject),
+    [Permission.SCREENSHOT_DELETE]: (subject, context) => isStaff(subject) || isOwner(subject, context),
+};
+
+export function isAllowed(subject: PermissionSubject, permission: Permission, context: PermissionContext = {}): boolean {
+    // Relationship-based grants (project lead, QC head, owner, ...) still apply on top of a custom role
+    if (subject.permissions) {
+        return subject.permissions.includes(permission) ||
+            PERMISSION_POLICIES[permission]({ ...subject, role: UserRole.USER }, context);
+    }
+
+    return PERMISSION_POLICIES[permission](subject, context);
+}
+
+/**
+ * What a fixed role is granted everywhere in the company, without any project or ownership relationship
+ */
+export function companyWidePermissions(role: UserRole): Permission[] {
+    return Object.values(Permission).filter((permission) => PERMISSION_POLICIES[permission]({ id: '', role }, {}));
+}
@@ -0,0 +1,50 @@
+// src/modules/permissions/permissions.constants.ts
+
+/**
+ * Named actions checked by PermissionsService. Policies live in permission.policies.ts.
+ */
+export enum Permission {
+    // Projects
+    PROJECT_CREATE = 'project.create',
+    PROJECT_UPDATE = 'project.update',
+    PROJECT_DELETE = 'project.delete',
+    PROJECT_MEMBER_ADD = 'project.member.add',
+    PROJECT_MEMBER_REMOVE = 'project.member.remove',
+    PROJECT_MEMBER_ROLE = 'project.member.role',
+    // Removing a member together with their subproject memberships and task assignments (tasks module)
+    PROJECT_MEMBER_UNASSIGN = 'project.member.unassign',
+
+    // Subprojects
+    SUBPROJECT_CREATE = 'subproject.create',
+    SUBPROJECT_UPDATE = 'subproject.update',
+    SUBPROJECT_DELETE = 'subproject.delete',
+    SUBPROJECT_MEMBER_ADD = 'subproject.member.add',
+    SUBPROJECT_MEMBER_REMOVE = 'subproject.member.remove',
+    SUBPROJECT_MEMBER_ROLE = 'subproject.member.role',
+    SUBPROJECT_QC_HEAD_ASSIGN = 'subproject.qc_head.assign',
+
+    // Tasks
+    TASK_CREATE = 'task.create',
+    TASK_UPDATE = 'task.update',
+    TASK_DELETE = 'task.delete',
+    TASK_ASSIGN = 'task.assign',
+    TASK_UNASSIGN = 'task.unassign',
+    TASK_SUBMIT = 'task.submit',
+    TASK_APPROVE = 'task.approve',
+    TASK_REJECT = 'task.reject',
+    TASK_REVIEW_QUEUE = 'task.review_queue',
+
+    // Chat
+    CHAT_ROOM_CREATE = 'chat.room.create',
+    CHAT_ROOM_UPDATE = 'chat.room.update',
+    CHAT_ROOM_DELETE = 'chat.room.delete',
+    CHAT_MESSAGE_READ = 'chat.message.read',
+    CHAT_MESSAGE_SEND = 'chat.message.send',
+    CHAT_MESSAGE_EDIT = 'chat.message.edit',
+    CHAT_MESSAGE_DELETE = 'chat.message.delete',
+
+    // Screenshots
+    SCREENSHOT_VIEW = 'screenshot.view',
+    SCREENSHOT_VIEW_ALL = 'screenshot.view_all',
+    SCREENSHOT_DELETE = 'screenshot.delete',
+}
@@ -0,0 +1,20 @@
+// src/modules/permissions/permissions.controller.ts
+import { Controller, Get, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../auth/guards';
+import { PermissionsService } from './permissions.service';
+
+@ApiTags('permissions')
+@Controller('permissions')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+export class PermissionsController {
+    constructor(private readonly permissionsService: PermissionsService) { }
+
+    @Get('me')
+    @ApiOperation({ summary: "Get the current user's effective permissions, company-wide and per project/subproject" })
+    async getMyPermissions(@CurrentUser() currentUser: any) {
+        return this.permissionsService.getEffectivePermissions(currentUser);
+    }
+}
@@ -0,0 +1,38 @@
+// src/modules/permissions/permissions.guard.ts
+import { Injectable, CanActivate, ExecutionContext } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { PERMISSIONS_KEY } from './decorators/require-permissions.decorator';
+import { Permission } from './permissions.constants';
+import { PermissionSubject } from './permission.policies';
+import { PermissionsService } from './permissions.service';
+
+@Injectable()
+export class PermissionsGuard implements CanActivate {
+    constructor(
+        private reflector: Reflector,
+        private permissionsService: PermissionsService,
+    ) { }
+
+    async canActivate(context: ExecutionContext): Promise<boolean> {
+        const permissions = this.reflector.getAllAndOverride<Permission[]>(PERMISSIONS_KEY, [
+            context.getHandler(),
+            context.getClass(),
+        ]);
+
+        if (!permissions || permissions.length === 0) {
+            return true;
+        }
+
+        const { user } = context.switchToHttp().getRequest<{ user?: PermissionSubject }>();
+
+        if (!user) {
+            return false;
+        }
+
+        for (const permission of permissions) {
+            await this.permissionsService.assert(user, permission);
+        }
+
+        return true;
+    }
+}
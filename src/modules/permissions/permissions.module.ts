@@ -0,0 +1,14 @@
+// src/modules/permissions/permissions.module.ts
+import { Global, Module } from '@nestjs/common';
+import { PermissionsController } from './permissions.controller';
+import { PermissionsService } from './permissions.service';
+import { PermissionsGuard } from './permissions.guard';
+
+// Global so feature services and PermissionsGuard can inject PermissionsService without importing the module
+@Global()
+@Module({
+    controllers: [PermissionsController],
+    providers: [PermissionsService, PermissionsGuard],
+    exports: [PermissionsService, PermissionsGuard],
+})
+export class PermissionsModule { }
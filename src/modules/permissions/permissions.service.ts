@@ -0,0 +1,133 @@
+// src/modules/permissions/permissions.service.ts
+import { Injectable, ForbiddenException } from '@nestjs/common';
+import { PrismaService } from '../../prisma/prisma.service';
+import { Permission } from './permissions.constants';
+import { PermissionContext, PermissionSubject, isAllowed, subProjectRoleOf } from './permission.policies';
+
+const ALL_PERMISSIONS = Object.values(Permission);
+
+@Injectable()
+export class PermissionsService {
+    constructor(private prisma: PrismaService) { }
+
+    // ============================================
+    // CHECKS
+    // ============================================
+    async can(subject: PermissionSubject, permission: Permission, context: PermissionContext = {}): Promise<boolean> {
+        return isAllowed(await this.resolveSubject(subject), permission, context);
+    }
+
+    /**
+     * Throws ForbiddenException when the action is not allowed on the given resource
+     */
+    async assert(subject: PermissionSubject, permission: Permission, context: PermissionContext = {}, message?: string): Promise<void> {
+        if (!(await this.can(subject, permission, context))) {
+            throw new ForbiddenException(message ?? `You do not have permission to perform ${permission}`);
+        }
+    }
+
+    /**
+     * Loads the permission set of the user's custom role unless the caller already did
+     */
+    async resolveSubject(subject: PermissionSubject): Promise<PermissionSubject> {
+        if (subject.permissions !== undefined) {
+            return subject;
+        }
+
+        const customRoleSelect = { select: { permissions: true, isBuiltIn: true } };
+        const user = await this.prisma.user.findUnique({
+            where: { id: subject.id },
+            select: { companyId: true, customRole: customRoleSelect },
+        });
+
+        let customRole = user?.customRole;
+        if (user && subject.companyId && subject.companyId !== user.companyId) {
+            const membership = await this.prisma.companyMembership.findUnique({
+                where: { userId_companyId: { userId: subject.id, companyId: subject.companyId } },
+                select: { customRole: customRoleSelect },
+            });
+            customRole = membership?.customRole;
+        }
+
+        return {
+            ...subject,
+            permissions: customRole && !customRole.isBuiltIn ? this.toPermissions(customRole.permissions) : null,
+        };
+    }
+
+    /**
+     * Drops stored values that are no longer known permissions
+     */
+    toPermissions(values: string[]): Permission[] {
+        return values.filter((value): value is Permission => ALL_PERMISSIONS.includes(value as Permission));
+    }
+
+    // ============================================
+    // EFFECTIVE PERMISSIONS (for the UI)
+    // ============================================
+
+    /**
+     * Company-wide permissions plus the extra ones granted by each project / subproject role
+     */
+    async getEffectivePermissions(user: PermissionSubject & { companyId: string }) {
+        const subject = await this.resolveSubject({ id: user.id, role: user.role, companyId: user.companyId });
+        const global = this.grantedIn(subject, {});
+        const globalSet = new Set(global);
+
+        const [projects, subProjects] = await Promise.all([
+            this.prisma.project.findMany({
+                where: {
+                    companyId: user.companyId,
+                    OR: [{ projectLeadId: subject.id }, { members: { some: { userId: subject.id } } }],
+                },
+                select: {
+                    id: true,
+                    name: true,
+                    projectLeadId: true,
+                    members: { where: { userId: subject.id }, select: { userId: true, role: true } },
+                },
+            }),
+            this.prisma.subProject.findMany({
+                where: {
+                    project: { companyId: user.companyId },
+                    OR: [
+                        { createdById: subject.id },
+                        { qcHeadId: subject.id },
+                        { members: { some: { userId: subject.id } } },
+                        { project: { projectLeadId: subject.id } },
+                    ],
+                },
+                select: {
+                    id: true,
+                    title: true,
+                    projectId: true,
+                    createdById: true,
+                    qcHeadId: true,
+                    project: { select: { projectLeadId: true } },
+                    members: { where: { userId: subject.id }, select: { userId: true, role: true } },
+                },
+            }),
+        ]);
+
+        return {
+            role: subject.role,
+            permissions: global,
+            projects: projects.map((project) => ({
+                projectId: project.id,
+                name: project.name,
+                permissions: this.grantedIn(subject, { project }).filter((p) => !globalSet.has(p)),
+            })),
+            subProjects: subProjects.map((subProject) => ({
+                subProjectId: subProject.id,
+                projectId: subProject.projectId,
+                title: subProject.title,
+                role: subProjectRoleOf(subject, { subProject }),
+                permissions: this.grantedIn(subject, { subProject }).filter((p) => !globalSet.has(p)),
+            })),
+        };
+    }
+
+    private grantedIn(subject: PermissionSubject, context: PermissionContext): Permission[] {
+        return ALL_PERMISSIONS.filter((permission) => isAllowed(subject, permission, context));
+    }
+}
@@ -0,0 +1,10 @@
+// src/modules/plans/decorators/require-plan-feature.decorator.ts
+import { SetMetadata } from '@nestjs/common';
+import { PlanFeature } from '../plans.constants';
+
+export const PLAN_FEATURE_KEY = 'planFeature';
+
+/**
+ * Plan feature checked by PlanFeatureGuard against the current user's company.
+ */
+export const RequirePlanFeature = (feature: PlanFeature) => SetMetadata(PLAN_FEATURE_KEY, feature);
@@ -0,0 +1,5 @@
+// src/modules/plans/index.ts
+export * from './plans.constants';
+export * from './plans.service';
+export * from './plans.guard';
+export * from './decorators/require-plan-feature.decorator';
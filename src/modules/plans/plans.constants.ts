@@ -0,0 +1,52 @@
+// src/modules/plans/plans.constants.ts
+import { SubscriptionPlan } from '@prisma/client';
+
+const GB = 1024 * 1024 * 1024;
+
+/**
+ * Optional product areas a plan can include. Checked by PlansService / PlanFeatureGuard.
+ */
+export enum PlanFeature {
+    DESKTOP_AGENT = 'desktop_agent',
+    LEADERBOARD = 'leaderboard',
+    SOP_VIDEO = 'sop_video',
+}
+
+export const PLAN_FEATURE_LABELS: Record<PlanFeature, string> = {
+    [PlanFeature.DESKTOP_AGENT]: 'Desktop agent and screen capture',
+    [PlanFeature.LEADERBOARD]: 'Leaderboard and achievements',
+    [PlanFeature.SOP_VIDEO]: 'Video SOPs',
+};
+
+export interface PlanDefinition {
+    name: string;
+    // null means unlimited
+    seats: number | null;
+    storageBytes: number | null;
+    screenshotRetentionDays: number;
+    features: PlanFeature[];
+}
+
+export const PLAN_CATALOG: Record<SubscriptionPlan, PlanDefinition> = {
+    [SubscriptionPlan.STARTER]: {
+        name: 'Starter',
+        seats: 5,
+        storageBytes: 2 * GB,
+        screenshotRetentionDays: 14,
+        features: [],
+    },
+    [SubscriptionPlan.PROFESSIONAL]: {
+        name: 'Professional',
+        seats: 50,
+        storageBytes: 100 * GB,
+        screenshotRetentionDays: 60,
+        features: [PlanFeature.DESKTOP_AGENT, PlanFeature.LEADERBOARD],
+    },
+    [SubscriptionPlan.ENTERPRISE]: {
+        name: 'Enterprise',
+        seats: null,
+        storageBytes: null,
+        screenshotRetentionDays: 365,
+        features: [PlanFeature.DESKTOP_AGENT, PlanFeature.LEADERBOARD, PlanFeature.SOP_VIDEO],
+    },
+};
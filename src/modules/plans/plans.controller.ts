@@ -0,0 +1,16 @@
+// src/modules/plans/plans.controller.ts
+import { Controller, Get } from '@nestjs/common';
+import { ApiTags, ApiOperation } from '@nestjs/swagger';
+import { PlansService } from './plans.service';
+
+@ApiTags('plans')
+@Controller('plans')
+export class PlansController {
+    constructor(private readonly plansService: PlansService) { }
+
+    @Get()
+    @ApiOperation({ summary: 'List subscription plans with their limits and features' })
+    getCatalog() {
+        return this.plansService.getCatalog();
+    }
+}
@@ -0,0 +1,35 @@
+// src/modules/plans/plans.guard.ts
+import { Injectable, CanActivate, ExecutionContext } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { PLAN_FEATURE_KEY } from './decorators/require-plan-feature.decorator';
+import { PlanFeature } from './plans.constants';
+import { PlansService } from './plans.service';
+
+@Injectable()
+export class PlanFeatureGuard implements CanActivate {
+    constructor(
+        private reflector: Reflector,
+        private plansService: PlansService,
+    ) { }
+
+    async canActivate(context: ExecutionContext): Promise<boolean> {
+        const feature = this.reflector.getAllAndOverride<PlanFeature>(PLAN_FEATURE_KEY, [
+            context.getHandler(),
+            context.getClass(),
+        ]);
+
+        if (!feature) {
+            return true;
+        }
+
+        const { user } = context.switchToHttp().getRequest<{ user?: { companyId?: string } }>();
+
+        if (!user?.companyId) {
+            return false;
+        }
+
+        await this.plansService.assertFeature(user.companyId, feature);
+
+        return true;
+    }
+}
@@ -0,0 +1,14 @@
+// src/modules/plans/plans.module.ts
+import { Global, Module } from '@nestjs/common';
+import { PlansController } from './plans.controller';
+import { PlansService } from './plans.service';
+import { PlanFeatureGuard } from './plans.guard';
+
+// Global so uploads, registration and the desktop agent can check limits without importing the module
+@Global()
+@Module({
+    controllers: [PlansController],
+    providers: [PlansService, PlanFeatureGuard],
+    exports: [PlansService, PlanFeatureGuard],
+})
+export class PlansModule { }
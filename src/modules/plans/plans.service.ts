@@ -0,0 +1,165 @@
+// src/modules/plans/plans.service.ts
+import { Injectable, NotFoundException, ForbiddenException } from '@nestjs/common';
+import { InvitationStatus, SubscriptionPlan } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { PLAN_CATALOG, PLAN_FEATURE_LABELS, PlanFeature } from './plans.constants';
+import { memberOf } from '../memberships/membership.util';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+@Injectable()
+export class PlansService {
+    constructor(private prisma: PrismaService) { }
+
+    // ============================================
+    // CATALOG
+    // ============================================
+    getCatalog() {
+        return Object.values(SubscriptionPlan).map((plan) => ({ id: plan, ...PLAN_CATALOG[plan] }));
+    }
+
+    async getCompanyPlan(companyId: string) {
+        const company = await this.prisma.company.findUnique({
+            where: { id: companyId },
+            select: { plan: true },
+        });
+
+        if (!company) {
+            throw new NotFoundException('Company not found');
+        }
+
+        return { id: company.plan, ...PLAN_CATALOG[company.plan] };
+    }
+
+    // ============================================
+    // FEATURES
+    // ============================================
+    async hasFeature(companyId: string, feature: PlanFeature) {
+        const plan = await this.getCompanyPlan(companyId);
+        return plan.features.includes(feature);
+    }
+
+    async assertFeature(companyId: string, feature: PlanFeature) {
+        const plan = await this.getCompanyPlan(companyId);
+
+        if (!plan.features.includes(feature)) {
+            throw new ForbiddenException(`${PLAN_FEATURE_LABELS[feature]} is not included in the ${plan.name} plan`);
+        }
+    }
+
+    // ============================================
+    // SEATS
+    // ============================================
+
+    /**
+     * Seats are active members; pass includePendingInvitations when a new invitation would reserve one
+     */
+    async assertSeatAvailable(companyId: string, options: { includePendingInvitations?: boolean } = {}) {
+        const { plan, available } = await this.getSeatAvailability(companyId, options);
+
+        if (available !== null && available <= 0) {
+            throw new ForbiddenException(
+                `The ${plan.name} plan includes ${plan.seats} seats and all of them are in use. Upgrade the plan or deactivate a member.`,
+            );
+        }
+    }
+
+    /**
+     * Seats still free on the company's plan; `available` is null when the plan has no seat limit
+     */
+    async getSeatAvailability(companyId: string, options: { includePendingInvitations?: boolean } = {}) {
+        const plan = await this.getCompanyPlan(companyId);
+
+        if (plan.seats === null) {
+            return { plan, available: null };
+        }
+
+        let used = await this.countSeats(companyId);
+
+        if (options.includePendingInvitations) {
+            used += await this.prisma.invitation.count({
+                where: { companyId, status: InvitationStatus.PENDING, expiresAt: { gt: new Date() } },
+            });
+        }
+
+        return { plan, available: Math.max(plan.seats - used, 0) };
+    }
+
+    // ============================================
+    // STORAGE
+    // ============================================
+    async assertStorageAvailable(companyId: string, bytes: number) {
+        const plan = await this.getCompanyPlan(companyId);
+
+        if (plan.storageBytes === null) {
+            return;
+        }
+
+        if ((await this.getStorageUsed(companyId)) + bytes > plan.storageBytes) {
+            throw new ForbiddenException(`The ${plan.name} plan storage quota is used up. Delete files or upgrade the plan.`);
+        }
+    }
+
+    async recordStorageUsage(companyId: string, deltaBytes: number) {
+        if (deltaBytes === 0) {
+            return;
+        }
+
+        await this.prisma.companyStorageUsage.upsert({
+            where: { companyId },
+            create: { companyId, usedBytes: Math.max(deltaBytes, 0) },
+            update: { usedBytes: { increment: deltaBytes } },
+        });
+
+        // Files uploaded before usage was tracked can push the total below zero when deleted
+        if (deltaBytes < 0) {
+            await this.prisma.companyStorageUsage.updateMany({
+                where: { companyId, usedBytes: { lt: 0 } },
+                data: { usedBytes: 0 },
+            });
+        }
+    }
+
+    // ============================================
+    // SCREENSHOT RETENTION
+    // ============================================
+    async getScreenshotExpiry(companyId: string) {
+        const plan = await this.getCompanyPlan(companyId);
+        return new Date(Date.now() + plan.screenshotRetentionDays * DAY_MS);
+    }
+
+    // ============================================
+    // USAGE (subscription status)
+    // ============================================
+    async getUsage(companyId: string) {
+        const [plan, seatsUsed, storageUsed] = await Promise.all([
+            this.getCompanyPlan(companyId),
+            this.countSeats(companyId),
+            this.getStorageUsed(companyId),
+        ]);
+
+        return {
+            plan,
+            usage: {
+                seats: { used: seatsUsed, limit: plan.seats },
+                storageBytes: { used: storageUsed, limit: plan.storageBytes },
+                screenshotRetentionDays: plan.screenshotRetentionDays,
+                features: Object.fromEntries(
+                    Object.values(PlanFeature).map((feature) => [feature, plan.features.includes(feature)]),
+                ),
+            },
+        };
+    }
+
+    // ============================================
+    // HELPERS
+    // ============================================
+    private countSeats(companyId: string) {
+        return this.prisma.user.count({ where: memberOf(companyId, { isActive: true }) });
+    }
+
+    private async getStorageUsed(companyId: string) {
+        const usage = await this.prisma.companyStorageUsage.findUnique({ where: { companyId } });
+        return usage ? Number(usage.usedBytes) : 0;
+    }
+}
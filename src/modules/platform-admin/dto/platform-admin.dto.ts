@@ -0,0 +1,108 @@
+// src/modules/platform-admin/dto/platform-admin.dto.ts
+import { IsString, IsOptional, IsEnum, IsBoolean, IsDateString, IsUUID, IsInt, Min, Max, MaxLength, ValidateIf } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform, Type } from 'class-transformer';
+import { PlatformAuditAction, SubscriptionPlan, SubscriptionStatus } from '@prisma/client';
+
+export class PlatformCompanyQueryDto {
+    @ApiPropertyOptional({ description: 'Matches company name, company code or an admin email' })
+    @IsOptional()
+    @IsString()
+    search?: string;
+
+    @ApiPropertyOptional({ enum: SubscriptionStatus })
+    @IsOptional()
+    @IsEnum(SubscriptionStatus)
+    subscriptionStatus?: SubscriptionStatus;
+
+    @ApiPropertyOptional()
+    @IsOptional()
+    @Transform(({ value }) => value === true || value === 'true')
+    @IsBoolean()
+    isActive?: boolean;
+
+    @ApiPropertyOptional({ default: 1 })
+    @IsOptional()
+    @Type(() => Number)
+    @IsInt()
+    @Min(1)
+    page?: number;
+
+    @ApiPropertyOptional({ default: 25 })
+    @IsOptional()
+    @Type(() => Number)
+    @IsInt()
+    @Min(1)
+    @Max(100)
+    limit?: number;
+}
+
+export class UpdateCompanySubscriptionDto {
+    @ApiPropertyOptional({ enum: SubscriptionStatus })
+    @IsOptional()
+    @IsEnum(SubscriptionStatus)
+    subscriptionStatus?: SubscriptionStatus;
+
+    @ApiPropertyOptional({ enum: SubscriptionPlan })
+    @IsOptional()
+    @IsEnum(SubscriptionPlan)
+    plan?: SubscriptionPlan;
+
+    @ApiPropertyOptional({ nullable: true, description: 'ISO date; null clears it' })
+    @IsOptional()
+    @ValidateIf((_, value) => value !== null)
+    @IsDateString()
+    trialEndsAt?: string | null;
+
+    @ApiPropertyOptional({ nullable: true, description: 'ISO date; null clears it' })
+    @IsOptional()
+    @ValidateIf((_, value) => value !== null)
+    @IsDateString()
+    subscriptionEndsAt?: string | null;
+
+    @ApiPropertyOptional({ description: 'Recorded in the platform audit log' })
+    @IsOptional()
+    @IsString()
+    @MaxLength(500)
+    reason?: string;
+}
+
+export class CompanyStatusChangeDto {
+    @ApiPropertyOptional({ description: 'Recorded in the platform audit log' })
+    @IsOptional()
+    @IsString()
+    @MaxLength(500)
+    reason?: string;
+}
+
+export class PlatformAuditQueryDto {
+    @ApiPropertyOptional()
+    @IsOptional()
+    @IsUUID()
+    actorId?: string;
+
+    @ApiPropertyOptional()
+    @IsOptional()
+    @IsUUID()
+    companyId?: string;
+
+    @ApiPropertyOptional({ enum: PlatformAuditAction })
+    @IsOptional()
+    @IsEnum(PlatformAuditAction)
+    action?: PlatformAuditAction;
+
+    @ApiPropertyOptional({ default: 1 })
+    @IsOptional()
+    @Type(() => Number)
+    @IsInt()
+    @Min(1)
+    page?: number;
+
+    @ApiPropertyOptional({ default: 50 })
+    @IsOptional()
+    @Type(() => Number)
+    @IsInt()
+    @Min(1)
+    @Max(200)
+    limit?: number;
+}
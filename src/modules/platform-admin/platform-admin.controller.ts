@@ -0,0 +1,91 @@
+// src/modules/platform-admin/platform-admin.controller.ts
+import { Controller, Get, Patch, Body, Param, Query, UseGuards, ParseUUIDPipe } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+import { PlatformAdminService } from './platform-admin.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { CurrentUser, Roles } from '../auth/guards';
+import { ClientInfo } from '../auth/decorators/client-info.decorator';
+import { SkipSubscriptionCheck } from '../auth/decorators/skip-subscription.decorator';
+import {
+    CompanyStatusChangeDto,
+    PlatformAuditQueryDto,
+    PlatformCompanyQueryDto,
+    UpdateCompanySubscriptionDto,
+} from './dto/platform-admin.dto';
+
+@ApiTags('platform-admin')
+@Controller('platform-admin')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.SUPER_ADMIN)
+@SkipSubscriptionCheck()
+@ApiBearerAuth()
+export class PlatformAdminController {
+    constructor(private readonly platformAdminService: PlatformAdminService) { }
+
+    // ============================================
+    // COMPANIES
+    // ============================================
+
+    @Get('companies')
+    @ApiOperation({ summary: 'List and search companies with usage metrics' })
+    async findCompanies(@Query() query: PlatformCompanyQueryDto, @CurrentUser() currentUser: any, @ClientInfo() client: ClientInfo) {
+        return this.platformAdminService.findCompanies(query, currentUser, client);
+    }
+
+    @Get('companies/:id')
+    @ApiOperation({ summary: 'Get a company with detailed usage metrics' })
+    async findCompany(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() currentUser: any, @ClientInfo() client: ClientInfo) {
+        return this.platformAdminService.findCompany(id, currentUser, client);
+    }
+
+    @Patch('companies/:id/subscription')
+    @ApiOperation({ summary: 'Change subscription status, trial end or subscription end' })
+    async updateSubscription(
+        @Param('id', ParseUUIDPipe) id: string,
+        @Body() dto: UpdateCompanySubscriptionDto,
+        @CurrentUser() currentUser: any,
+        @ClientInfo() client: ClientInfo,
+    ) {
+        return this.platformAdminService.updateSubscription(id, dto, currentUser, client);
+    }
+
+    @Patch('companies/:id/activate')
+    @ApiOperation({ summary: 'Activate a company' })
+    async activate(
+        @Param('id', ParseUUIDPipe) id: string,
+        @Body() dto: CompanyStatusChangeDto,
+        @CurrentUser() currentUser: any,
+        @ClientInfo() client: ClientInfo,
+    ) {
+        return this.platformAdminService.setActive(id, true, dto, currentUser, client);
+    }
+
+    @Patch('companies/:id/deactivate')
+    @ApiOperation({ summary: 'Deactivate a company and sign out its members' })
+    async deactivate(
+        @Param('id', ParseUUIDPipe) id: string,
+        @Body() dto: CompanyStatusChangeDto,
+        @CurrentUser() currentUser: any,
+        @ClientInfo() client: ClientInfo,
+    ) {
+        return this.platformAdminService.setActive(id, false, dto, currentUser, client);
+    }
+
+    // ============================================
+    // PLATFORM
+    // ============================================
+
+    @Get('health')
+    @ApiOperation({ summary: 'Cross-tenant health: subscriptions, sessions, agents and capture failures' })
+    async getHealth(@CurrentUser() currentUser: any, @ClientInfo() client: ClientInfo) {
+        return this.platformAdminService.getHealth(currentUser, client);
+    }
+
+    @Get('audit-logs')
+    @ApiOperation({ summary: 'Platform audit log of super-admin actions' })
+    async findAuditLogs(@Query() query: PlatformAuditQueryDto, @CurrentUser() currentUser: any, @ClientInfo() client: ClientInfo) {
+        return this.platformAdminService.findAuditLogs(query, currentUser, client);
+    }
+}
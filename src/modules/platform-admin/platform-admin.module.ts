@@ -0,0 +1,14 @@
+// src/modules/platform-admin/platform-admin.module.ts
+import { Module } from '@nestjs/common';
+import { PlatformAdminController } from './platform-admin.controller';
+import { PlatformAdminService } from './platform-admin.service';
+import { PlatformAuditService } from './platform-audit.service';
+import { PrismaModule } from '../../prisma/prisma.module';
+
+@Module({
+    imports: [PrismaModule],
+    controllers: [PlatformAdminController],
+    providers: [PlatformAdminService, PlatformAuditService],
+    exports: [PlatformAuditService],
+})
+export class PlatformAdminModule { }
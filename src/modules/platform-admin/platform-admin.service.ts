@@ -0,0 +1,313 @@
+// src/modules/platform-admin/platform-admin.service.ts
+import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { CaptureStatus, PlatformAuditAction, Prisma, SubscriptionPlan, SubscriptionStatus, UserRole } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { ClientInfo } from '../auth/decorators/client-info.decorator';
+import { PlatformActor, PlatformAuditService } from './platform-audit.service';
+import { CompanyStatusChangeDto, PlatformAuditQueryDto, PlatformCompanyQueryDto, UpdateCompanySubscriptionDto } from './dto/platform-admin.dto';
+import { memberOf, sessionsIn } from '../memberships/membership.util';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ACTIVE_USER_WINDOW_DAYS = 30;
+const EXPIRING_TRIAL_WINDOW_DAYS = 7;
+
+type PlatformAdmin = PlatformActor & { companyId: string };
+
+@Injectable()
+export class PlatformAdminService {
+    constructor(
+        private prisma: PrismaService,
+        private platformAuditService: PlatformAuditService,
+    ) { }
+
+    // ============================================
+    // COMPANIES
+    // ============================================
+    async findCompanies(query: PlatformCompanyQueryDto, actor: PlatformAdmin, client: ClientInfo) {
+        const page = query.page ?? 1;
+        const limit = query.limit ?? 25;
+
+        const where: Prisma.CompanyWhereInput = {
+            ...(query.subscriptionStatus && { subscriptionStatus: query.subscriptionStatus }),
+            ...(query.isActive !== undefined && { isActive: query.isActive }),
+            ...(query.search && {
+                OR: [
+                    { name: { contains: query.search, mode: 'insensitive' } },
+                    { companyCode: { contains: query.search, mode: 'insensitive' } },
+                    { users: { some: { role: UserRole.COMPANY, email: { contains: query.search, mode: 'insensitive' } } } },
+                ],
+            }),
+        };
+
+        const [companies, total] = await Promise.all([
+            this.prisma.company.findMany({
+                where,
+                include: { _count: { select: { users: true, projects: true, departments: true } } },
+                orderBy: { createdAt: 'desc' },
+                skip: (page - 1) * limit,
+                take: limit,
+            }),
+            this.prisma.company.count({ where }),
+        ]);
+
+        // Members with a session used in the window, per company on this page
+        const activeUsers = await this.prisma.user.groupBy({
+            by: ['companyId'],
+            where: {
+                companyId: { in: companies.map((company) => company.id) },
+                sessions: { some: { lastUsedAt: { gte: new Date(Date.now() - ACTIVE_USER_WINDOW_DAYS * DAY_MS) } } },
+            },
+            _count: { _all: true },
+        });
+        const activeByCompany = new Map(activeUsers.map((row) => [row.companyId, row._count._all]));
+
+        await this.platformAuditService.record(actor, PlatformAuditAction.COMPANIES_LISTED, {
+            metadata: { search: query.search ?? null, subscriptionStatus: query.subscriptionStatus ?? null, page },
+        }, client);
+
+        return {
+            data: companies.map(({ _count, ...company }) => ({
+                ...company,
+                usage: {
+                    users: _count.users,
+                    activeUsers: activeByCompany.get(company.id) ?? 0,
+                    projects: _count.projects,
+                    departments: _count.departments,
+                },
+            })),
+            pagination: {
+                page,
+                limit,
+                total,
+                totalPages: Math.ceil(total / limit),
+            },
+        };
+    }
+
+    async findCompany(id: string, actor: PlatformAdmin, client: ClientInfo) {
+        const company = await this.getCompany(id);
+        const since = new Date(Date.now() - ACTIVE_USER_WINDOW_DAYS * DAY_MS);
+
+        const [homeUsersByRole, membersByRole, activeUsers, projects, tasks, timeTracked, screenshots, onlineAgents, lastSession, admins] = await Promise.all([
+            // Home users carry their role on the user row, members from other companies on the membership
+            this.prisma.user.groupBy({ by: ['role'], where: { companyId: id }, _count: { _all: true } }),
+            this.prisma.companyMembership.groupBy({ by: ['role'], where: { companyId: id }, _count: { _all: true } }),
+            this.prisma.user.count({ where: { sessions: { some: { ...sessionsIn(id), lastUsedAt: { gte: since } } } } }),
+            this.prisma.project.count({ where: { companyId: id } }),
+            this.prisma.task.count({ where: { subProject: { project: { companyId: id } } } }),
+            this.prisma.timeTracking.aggregate({
+                where: { subProject: { project: { companyId: id } }, startTime: { gte: since } },
+                _sum: { durationMinutes: true },
+            }),
+            this.prisma.screenshot.aggregate({
+                where: { timeTracking: { subProject: { project: { companyId: id } } }, isDeleted: false },
+                _count: { _all: true },
+                _sum: { fileSize: true },
+            }),
+            this.prisma.desktopAgent.count({ where: { user: memberOf(id), isOnline: true } }),
+            this.prisma.userSession.findFirst({
+                where: sessionsIn(id),
+                orderBy: { lastUsedAt: 'desc' },
+                select: { lastUsedAt: true },
+            }),
+            this.prisma.user.findMany({
+                where: memberOf(id, { role: UserRole.COMPANY }),
+                select: { id: true, email: true, firstName: true, lastName: true, isActive: true },
+            }),
+        ]);
+
+        await this.platformAuditService.record(actor, PlatformAuditAction.COMPANY_VIEWED, { targetCompanyId: id }, client);
+
+        const usersByRole: Partial<Record<UserRole, number>> = {};
+        for (const row of [...homeUsersByRole, ...membersByRole]) {
+            usersByRole[row.role] = (usersByRole[row.role] ?? 0) + row._count._all;
+        }
+
+        return {
+            ...company,
+            admins,
+            usage: {
+                usersByRole,
+                activeUsers,
+                projects,
+                tasks,
+                timeTrackedMinutesLast30Days: timeTracked._sum.durationMinutes ?? 0,
+                screenshots: screenshots._count._all,
+                screenshotStorageBytes: screenshots._sum.fileSize ?? 0,
+                onlineDesktopAgents: onlineAgents,
+                lastActivityAt: lastSession?.lastUsedAt ?? null,
+            },
+        };
+    }
+
+    async updateSubscription(id: string, dto: UpdateCompanySubscriptionDto, actor: PlatformAdmin, client: ClientInfo) {
+        const company = await this.getCompany(id);
+
+        const data: Prisma.CompanyUpdateInput = {
+            ...(dto.subscriptionStatus && { subscriptionStatus: dto.subscriptionStatus }),
+            ...(dto.plan && { plan: dto.plan }),
+            ...(dto.trialEndsAt !== undefined && { trialEndsAt: dto.trialEndsAt ? new Date(dto.trialEndsAt) : null }),
+            ...(dto.subscriptionEndsAt !== undefined && {
+                subscriptionEndsAt: dto.subscriptionEndsAt ? new Date(dto.subscriptionEndsAt) : null,
+            }),
+        };
+
+        if (Object.keys(data).length === 0) {
+            throw new BadRequestException('Nothing to update');
+        }
+
+        const updated = await this.prisma.company.update({ where: { id }, data });
+
+        await this.platformAuditService.record(actor, PlatformAuditAction.COMPANY_SUBSCRIPTION_UPDATED, {
+            targetCompanyId: id,
+            metadata: {
+                reason: dto.reason ?? null,
+                before: this.subscriptionSnapshot(company),
+                after: this.subscriptionSnapshot(updated),
+            },
+        }, client);
+
+        return updated;
+    }
+
+    async setActive(id: string, isActive: boolean, dto: CompanyStatusChangeDto, actor: PlatformAdmin, client: ClientInfo) {
+        const company = await this.getCompany(id);
+
+        if (!isActive && company.id === actor.companyId) {
+            throw new BadRequestException('You cannot deactivate the company your own account belongs to');
+        }
+
+        const updated = await this.prisma.$transaction(async (prisma) => {
+            // Reactivating also cancels a pending closure, so the purge never runs on a live company
+            const result = await prisma.company.update({
+                where: { id },
+                data: isActive
+                    ? { isActive, closureRequestedAt: null, closureRequestedById: null, closureReason: null, purgeScheduledAt: null }
+                    : { isActive },
+            });
+
+            // Members are signed out everywhere; the company check blocks new logins
+            if (!isActive) {
+                await prisma.userSession.updateMany({
+                    where: { ...sessionsIn(id), revokedAt: null },
+                    data: { revokedAt: new Date() },
+                });
+            }
+
+            return result;
+        });
+
+        await this.platformAuditService.record(
+            actor,
+            isActive ? PlatformAuditAction.COMPANY_ACTIVATED : PlatformAuditAction.COMPANY_DEACTIVATED,
+            { targetCompanyId: id, metadata: { reason: dto.reason ?? null, wasActive: company.isActive } },
+            client,
+        );
+
+        return updated;
+    }
+
+    // ============================================
+    // PLATFORM HEALTH
+    // ============================================
+    async getHealth(actor: PlatformAdmin, client: ClientInfo) {
+        const now = new Date();
+        const dayAgo = new Date(now.getTime() - DAY_MS);
+        const trialWindowEnd = new Date(now.getTime() + EXPIRING_TRIAL_WINDOW_DAYS * DAY_MS);
+
+        const databaseStart = Date.now();
+        await this.prisma.$queryRaw`SELECT 1`;
+        const databaseLatencyMs = Date.now() - databaseStart;
+
+        const [byStatus, inactiveCompanies, expiringTrials, lapsed, users, activeSessions, onlineAgents, captures] = await Promise.all([
+            this.prisma.company.groupBy({ by: ['subscriptionStatus'], _count: { _all: true } }),
+            this.prisma.company.count({ where: { isActive: false } }),
+            this.prisma.company.findMany({
+                where: { isActive: true, subscriptionStatus: SubscriptionStatus.TRIAL, trialEndsAt: { gte: now, lte: trialWindowEnd } },
+                select: { id: true, name: true, trialEndsAt: true },
+                orderBy: { trialEndsAt: 'asc' },
+            }),
+            // Still marked TRIAL/ACTIVE although the end date has passed (flipped lazily on their next request)
+            this.prisma.company.findMany({
+                where: {
+                    isActive: true,
+                    OR: [
+                        { subscriptionStatus: SubscriptionStatus.TRIAL, trialEndsAt: { lt: now } },
+                        { subscriptionStatus: SubscriptionStatus.ACTIVE, subscriptionEndsAt: { lt: now } },
+                    ],
+                },
+                select: { id: true, name: true, subscriptionStatus: true, trialEndsAt: true, subscriptionEndsAt: true },
+            }),
+            this.prisma.user.count({ where: { isActive: true } }),
+            this.prisma.userSession.count({ where: { revokedAt: null, expiresAt: { gt: now } } }),
+            this.prisma.desktopAgent.count({ where: { isOnline: true } }),
+            this.prisma.screenshot.groupBy({
+                by: ['captureStatus'],
+                where: { capturedAt: { gte: dayAgo } },
+                _count: { _all: true },
+            }),
+        ]);
+
+        const captureCounts = Object.fromEntries(captures.map((row) => [row.captureStatus, row._count._all]));
+        const totalCaptures = captures.reduce((sum, row) => sum + row._count._all, 0);
+        const failedCaptures = captureCounts[CaptureStatus.FAILED] ?? 0;
+
+        await this.platformAuditService.record(actor, PlatformAuditAction.PLATFORM_HEALTH_VIEWED, {}, client);
+
+        return {
+            checkedAt: now,
+            database: { status: 'ok', latencyMs: databaseLatencyMs },
+            companies: {
+                bySubscriptionStatus: Object.fromEntries(byStatus.map((row) => [row.subscriptionStatus, row._count._all])),
+                inactive: inactiveCompanies,
+                trialsExpiringSoon: expiringTrials,
+                lapsedSubscriptions: lapsed,
+            },
+            users: { active: users, activeSessions },
+            desktopAgents: { online: onlineAgents },
+            capturesLast24Hours: {
+                total: totalCaptures,
+                byStatus: captureCounts,
+                failureRate: totalCaptures ? failedCaptures / totalCaptures : 0,
+            },
+        };
+    }
+
+    async findAuditLogs(query: PlatformAuditQueryDto, actor: PlatformAdmin, client: ClientInfo) {
+        const logs = await this.platformAuditService.findAll(query);
+
+        await this.platformAuditService.record(actor, PlatformAuditAction.AUDIT_LOG_VIEWED, {
+            targetCompanyId: query.companyId,
+            metadata: { actorId: query.actorId ?? null, action: query.action ?? null, page: logs.pagination.page },
+        }, client);
+
+        return logs;
+    }
+
+    // ============================================
+    // HELPERS
+    // ============================================
+    private async getCompany(id: string) {
+        const company = await this.prisma.company.findUnique({ where: { id } });
+
+        if (!company) {
+            throw new NotFoundException('Company not found');
+        }
+
+        return company;
+    }
+
+    private subscriptionSnapshot(company: {
+        subscriptionStatus: SubscriptionStatus;
+        plan: SubscriptionPlan;
+        trialEndsAt: Date | null;
+        subscriptionEndsAt: Date | null;
+    }) {
+        return {
+            subscriptionStatus: company.subscriptionStatus,
+            plan: company.plan,
+            trialEndsAt: company.trialEndsAt?.toISOString() ?? null,
+            subscriptionEndsAt: company.subscriptionEndsAt?.toISOString() ?? null,
+        };
+    }
+}
@@ -0,0 +1,66 @@
+// src/modules/platform-admin/platform-audit.service.ts
+import { Injectable } from '@nestjs/common';
+import { PlatformAuditAction, Prisma } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { ClientInfo } from '../auth/decorators/client-info.decorator';
+import { PlatformAuditQueryDto } from './dto/platform-admin.dto';
+
+export interface PlatformActor {
+    id: string;
+    email: string;
+}
+
+@Injectable()
+export class PlatformAuditService {
+    constructor(private prisma: PrismaService) { }
+
+    async record(
+        actor: PlatformActor,
+        action: PlatformAuditAction,
+        details: { targetCompanyId?: string; metadata?: Prisma.InputJsonValue },
+        client: ClientInfo = {},
+    ) {
+        await this.prisma.platformAuditLog.create({
+            data: {
+                actorId: actor.id,
+                actorEmail: actor.email,
+                action,
+                targetCompanyId: details.targetCompanyId,
+                metadata: details.metadata,
+                ipAddress: client.ipAddress,
+                userAgent: client.userAgent,
+            },
+        });
+    }
+
+    async findAll(query: PlatformAuditQueryDto) {
+        const page = query.page ?? 1;
+        const limit = query.limit ?? 50;
+
+        const where: Prisma.PlatformAuditLogWhereInput = {
+            ...(query.actorId && { actorId: query.actorId }),
+            ...(query.companyId && { targetCompanyId: query.companyId }),
+            ...(query.action && { action: query.action }),
+        };
+
+        const [logs, total] = await Promise.all([
+            this.prisma.platformAuditLog.findMany({
+                where,
+                orderBy: { createdAt: 'desc' },
+                skip: (page - 1) * limit,
+                take: limit,
+            }),
+            this.prisma.platformAuditLog.count({ where }),
+        ]);
+
+        return {
+            data: logs,
+            pagination: {
+                page,
+                limit,
+                total,
+                totalPages: Math.ceil(total / limit),
+            },
+        };
+    }
+}
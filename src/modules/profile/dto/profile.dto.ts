@@ -5,10 +5,11 @@ import {
     IsEmail,
     MinLength,
     MaxLength,
-    Matches,
     IsUrl,
     IsDateString,
+    IsTimeZone,
 } from 'class-validator';
+import { StrongPassword } from '../../auth/decorators/strong-password.decorator';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 
 // ============================================
@@ -42,6 +43,15 @@ export class UpdateProfileDto {
     @IsOptional()
     @IsDateString()
     startDate?: string;
+
+    @ApiPropertyOptional({
+        description: 'Own timezone for streaks and activity summaries; null to follow the company timezone',
+        example: 'America/New_York',
+        nullable: true,
+    })
+    @IsOptional()
+    @IsTimeZone()
+    timezone?: string | null;
 }
 
 // ============================================
@@ -58,16 +68,7 @@ export class ChangePasswordDto {
             'New password (min 8 chars, must contain uppercase, lowercase, number, and special character)',
         example: 'NewPassword123!',
     })
-    @IsString()
-    @MinLength(8)
-    @MaxLength(100)
-    @Matches(
-        /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&])[A-Za-z\d@$!%*?&]+$/,
-        {
-            message:
-                'Password must contain at least one uppercase letter, one lowercase letter, one number, and one special character (@$!%*?&)',
-        },
-    )
+    @StrongPassword()
     newPassword: string;
 
     @ApiProperty({ description: 'Confirm new password', example: 'NewPassword123!' })
@@ -15,6 +15,8 @@ import {
     ParseIntPipe,
     DefaultValuePipe,
     ParseBoolPipe,
+    Param,
+    ParseUUIDPipe,
 } from '@nestjs/common';
 import { FileInterceptor } from '@nestjs/platform-express';
 import {
@@ -27,8 +29,9 @@ import {
     ApiResponse,
 } from '@nestjs/swagger';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
-import { CurrentUser } from '../auth/guards';
+import { AllowWhenReadOnly, CurrentUser, BlockWhileImpersonating } from '../auth/guards';
 import { ProfileService } from './profile.service';
+import { SessionsService } from '../auth/sessions.service';
 import {
     UpdateProfileDto,
     ChangePasswordDto,
@@ -41,7 +44,10 @@ import {
 @UseGuards(JwtAuthGuard)
 @ApiBearerAuth()
 export class ProfileController {
-    constructor(private readonly profileService: ProfileService) { }
+    constructor(
+        private readonly profileService: ProfileService,
+        private readonly sessionsService: SessionsService,
+    ) { }
 
     // ============================================
     // GET MY PROFILE
@@ -83,6 +89,8 @@ export class ProfileController {
     // CHANGE PASSWORD
     // ============================================
     @Post('change-password')
+    @AllowWhenReadOnly()
+    @BlockWhileImpersonating()
     @ApiOperation({
         summary: 'Change password',
         description: 'Change the current password. Requires current password verification.',
@@ -199,8 +207,8 @@ export class ProfileController {
         description: 'Statistics retrieved successfully',
         type: ProfileStatsDto,
     })
-    async getProfileStats(@CurrentUser('id') userId: string) {
-        return this.profileService.getProfileStats(userId);
+    async getProfileStats(@CurrentUser('id') userId: string, @CurrentUser('companyId') companyId: string) {
+        return this.profileService.getProfileStats(userId, companyId);
     }
 
     // ============================================
@@ -356,4 +364,66 @@ export class ProfileController {
     ) {
         return this.profileService.markNotificationsAsRead(userId, notificationIds);
     }
-}
\ No newline at end of file
+
+    // ============================================
+    // LIST ACTIVE SESSIONS
+    // ============================================
+    @Get('sessions')
+    @ApiOperation({
+        summary: 'Get active sessions',
+        description: 'Lists devices currently signed in to this account. The session making the request is flagged with isCurrent.',
+    })
+    @ApiResponse({
+        status: 200,
+        description: 'Sessions retrieved successfully',
+    })
+    async getSessions(
+        @CurrentUser('id') userId: string,
+        @CurrentUser('sessionId') sessionId: string,
+    ) {
+        return this.sessionsService.listSessions(userId, sessionId);
+    }
+
+    // ============================================
+    // LOG OUT EVERYWHERE
+    // ============================================
+    @Delete('sessions')
+    @AllowWhenReadOnly()
+    @BlockWhileImpersonating()
+    @ApiOperation({
+        summary: 'Log out everywhere',
+        description: 'Revokes every session of this account, including the current one',
+    })
+    @ApiResponse({
+        status: 200,
+        description: 'All sessions revoked',
+    })
+    async revokeAllSessions(@CurrentUser('id') userId: string) {
+        return this.sessionsService.revokeAllSessions(userId);
+    }
+
+    // ============================================
+    // REVOKE A SESSION
+    // ============================================
+    @Delete('sessions/:id')
+    @AllowWhenReadOnly()
+    @BlockWhileImpersonating()
+    @ApiOperation({
+        summary: 'Revoke a session',
+        description: 'Signs out a single device. Its refresh token stops working immediately.',
+    })
+    @ApiResponse({
+        status: 200,
+        description: 'Session revoked',
+    })
+    @ApiResponse({
+        status: 404,
+        description: 'Session not found',
+    })
+    async revokeSession(
+        @CurrentUser('id') userId: string,
+        @Param('id', ParseUUIDPipe) id: string,
+    ) {
+        return this.sessionsService.revokeSession(userId, id);
+    }
+}
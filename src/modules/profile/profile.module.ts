@@ -5,12 +5,14 @@ import { ProfileService } from './profile.service';
 import { PrismaModule } from '../../prisma/prisma.module';
 import { StorageModule } from '../storage/storage.module';
 import { EmailModule } from '../email/email.module';
+import { AuthModule } from '../auth/auth.module';
 
 @Module({
     imports: [
         PrismaModule,
         StorageModule,
         EmailModule,
+        AuthModule,
     ],
     controllers: [ProfileController],
     providers: [ProfileService],
@@ -8,7 +8,7 @@ import {
 import { PrismaService } from '../../prisma/prisma.service';
 import { StorageService } from '../storage/storage.service';
 import { EmailService } from '../email/email.service';
-import { User, NotificationType, ActivityType } from '@prisma/client';
+import { NotificationType, ActivityType, Prisma } from '@prisma/client';
 import * as bcrypt from 'bcryptjs';
 import {
     UpdateProfileDto,
@@ -16,6 +16,8 @@ import {
     ProfileStatsDto,
     ActivitySummaryDto,
 } from './dto/profile.dto';
+import { resolveTimezone, shiftDateKey, startOfDateKey, toDateKey } from '../companies/utils/calendar.util';
+import { memberOf } from '../memberships/membership.util';
 
 @Injectable()
 export class ProfileService {
@@ -55,6 +57,10 @@ export class ProfileService {
                         companyCode: true,
                         subscriptionStatus: true,
                         screenCaptureEnabled: true,
+                        timezone: true,
+                        weekStartsOn: true,
+                        workingDays: true,
+                        locale: true,
                     },
                 },
                 // Get project memberships
@@ -143,7 +149,7 @@ export class ProfileService {
         }
 
         // Build update data
-        const updateData: any = {};
+        const updateData: Prisma.UserUpdateInput = {};
 
         if (updateDto.firstName !== undefined) {
             updateData.firstName = updateDto.firstName.trim();
@@ -161,6 +167,10 @@ export class ProfileService {
             updateData.startDate = new Date(updateDto.startDate);
         }
 
+        if (updateDto.timezone !== undefined) {
+            updateData.timezone = updateDto.timezone;
+        }
+
         // Update user
         const updatedUser = await this.prisma.user.update({
             where: { id: userId },
@@ -410,7 +420,7 @@ export class ProfileService {
     // ============================================
     // GET PROFILE STATS
     // ============================================
-    async getProfileStats(userId: string): Promise<ProfileStatsDto> {
+    async getProfileStats(userId: string, companyId: string): Promise<ProfileStatsDto> {
         const user = await this.prisma.user.findUnique({
             where: { id: userId },
             select: {
@@ -450,11 +460,10 @@ export class ProfileService {
             console.log('Achievement model not available');
         }
 
-        // Get leaderboard rank
+        // Get leaderboard rank in the company the user is signed in to
         const usersWithMorePoints = await this.prisma.user.count({
             where: {
-                companyId: user.companyId,
-                isActive: true,
+                ...memberOf(companyId, { isActive: true }),
                 points: { gt: user.points },
             },
         });
@@ -480,15 +489,17 @@ export class ProfileService {
     async getActivitySummary(userId: string, days: number = 30): Promise<ActivitySummaryDto[]> {
         const user = await this.prisma.user.findUnique({
             where: { id: userId },
+            include: { company: { select: { timezone: true } } },
         });
 
         if (!user) {
             throw new NotFoundException('User not found');
         }
 
-        const startDate = new Date();
-        startDate.setDate(startDate.getDate() - days);
-        startDate.setHours(0, 0, 0, 0);
+        // Days are cut at midnight in the user's (or company's) timezone
+        const timezone = resolveTimezone(user.timezone, user.company.timezone);
+        const todayKey = toDateKey(new Date(), timezone);
+        const startDate = startOfDateKey(shiftDateKey(todayKey, -days), timezone);
 
         // Get time tracking data grouped by date
         const timeTrackings = await this.prisma.timeTracking.findMany({
@@ -521,9 +532,7 @@ export class ProfileService {
 
         // Initialize all days
         for (let i = 0; i < days; i++) {
-            const date = new Date();
-            date.setDate(date.getDate() - i);
-            const dateStr = date.toISOString().split('T')[0];
+            const dateStr = shiftDateKey(todayKey, -i);
             activityMap.set(dateStr, {
                 date: dateStr,
                 minutesTracked: 0,
@@ -534,7 +543,7 @@ export class ProfileService {
 
         // Aggregate time tracking
         for (const tt of timeTrackings) {
-            const dateStr = tt.startTime.toISOString().split('T')[0];
+            const dateStr = toDateKey(tt.startTime, timezone);
             const existing = activityMap.get(dateStr);
             if (existing) {
                 existing.minutesTracked += tt.durationMinutes;
@@ -544,7 +553,7 @@ export class ProfileService {
         // Aggregate tasks
         for (const task of tasksCompleted) {
             if (task.completedAt) {
-                const dateStr = task.completedAt.toISOString().split('T')[0];
+                const dateStr = toDateKey(task.completedAt, timezone);
                 const existing = activityMap.get(dateStr);
                 if (existing) {
                     existing.tasksCompleted += 1;
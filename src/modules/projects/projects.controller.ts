@@ -6,7 +6,7 @@ import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 // import { CurrentUser } from '../../common/decorators/current-user.decorator';
 import { CreateProjectDto, UpdateProjectDto, AddProjectMembersDto, RemoveProjectMembersDto, UpdateMemberRoleDto, ProjectQueryDto } from './dto/projects.dto';
 import { ProjectsService } from './projects.service';
-import { CurrentUser } from '../auth/guards';
+import { CurrentUser, BlockWhileImpersonating } from '../auth/guards';
 
 @ApiTags('projects')
 @Controller('projects')
@@ -59,9 +59,10 @@ export class ProjectsController {
     }
 
     @Delete(':id')
+    @BlockWhileImpersonating()
     @ApiOperation({ summary: 'Delete project' })
-    async delete(@Param('id') id: string, @CurrentUser('role') role: string, @CurrentUser('companyId') companyId: string) {
-        return this.projectsService.delete(id, role as any, companyId);
+    async delete(@Param('id') id: string, @CurrentUser('role') role: string, @CurrentUser('id') userId: string, @CurrentUser('companyId') companyId: string) {
+        return this.projectsService.delete(id, role as any, userId, companyId);
     }
 
     @Patch(':id/members/add')
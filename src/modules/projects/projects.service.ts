@@ -5,6 +5,8 @@ import { UserRole, ProjectMemberRole, NotificationType, ProjectStatus } from '@p
 import { CreateProjectDto, UpdateProjectDto, AddProjectMembersDto, RemoveProjectMembersDto, UpdateMemberRoleDto, ProjectQueryDto } from './dto/projects.dto';
 import { EmailService } from '../email/email.service';
 import { EmailType } from '../email/interfaces/email.interface';
+import { PermissionsService, Permission } from '../permissions';
+import { memberOf } from '../memberships/membership.util';
 
 interface UserBasicInfo {
     id?: string;
@@ -23,6 +25,7 @@ export class ProjectsService {
     constructor(
         private prisma: PrismaService,
         private emailService: EmailService,
+        private permissionsService: PermissionsService,
     ) { }
 
     // Helper function to convert date string to proper DateTime
@@ -83,9 +86,12 @@ export class ProjectsService {
     // ============================================
     async create(createDto: CreateProjectDto, currentUserRole: UserRole, currentUserId: string, companyId: string) {
         console.log("Company hitted")
-        if (currentUserRole !== UserRole.COMPANY) {
-            throw new ForbiddenException('Only company administrators can create projects. Please contact your company admin.');
-        }
+        await this.permissionsService.assert(
+            { id: currentUserId, role: currentUserRole, companyId },
+            Permission.PROJECT_CREATE,
+            {},
+            'Only company administrators can create projects. Please contact your company admin.',
+        );
 
         const { memberIds, startDate, endDate, departmentId, ...restProjectData } = createDto;
 
@@ -105,7 +111,7 @@ export class ProjectsService {
         let projectLeadUser: LeadUserInfo | null = null;
         if (restProjectData.projectLeadId) {
             const lead = await this.prisma.user.findFirst({
-                where: { id: restProjectData.projectLeadId, companyId, isActive: true },
+                where: { id: restProjectData.projectLeadId, ...memberOf(companyId, { isActive: true }) },
                 select: { id: true, email: true, firstName: true, lastName: true }
             });
             if (!lead) {
@@ -150,7 +156,7 @@ export class ProjectsService {
             let addedMembers: UserBasicInfo[] = [];
             if (memberIds?.length) {
                 const users = await prisma.user.findMany({
-                    where: { id: { in: memberIds }, companyId, isActive: true },
+                    where: { id: { in: memberIds }, ...memberOf(companyId, { isActive: true }) },
                     select: { id: true, email: true, firstName: true }
                 });
                 if (users.length !== memberIds.length) {
@@ -263,7 +269,8 @@ export class ProjectsService {
                         projectName: result.projectName,
                         departmentName: result.departmentName,
                         createdBy: 'Company Admin', // You might want to get the actual admin name
-                        projectUrl: `${process.env.APP_URL || 'https://merittracker.com'}/projects/${result.projectId}`
+                        projectUrl: `${process.env.APP_URL || 'https://merittracker.com'}/projects/${result.projectId}`,
+                        companyId
                     }
                 );
             }
@@ -278,7 +285,8 @@ export class ProjectsService {
                     result.projectLeadUser.email,
                     result.projectLeadUser.firstName,
                     result.projectName,
-                    result.departmentName
+                    result.departmentName,
+                    companyId
                 );
             } catch (error) {
                 this.logger.error(`Failed to send project lead assignment email:`, error);
@@ -295,7 +303,8 @@ export class ProjectsService {
                         result.projectName,
                         result.departmentName,
                         'Team Member',
-                        'Company Administrator'
+                        'Company Administrator',
+                        companyId
                     );
                 }
             }
@@ -548,10 +557,7 @@ export class ProjectsService {
     async update(id: string, updateDto: UpdateProjectDto, currentUserRole: UserRole, currentUserId: string, companyId: string) {
         const project = await this.findOne(id, companyId);
 
-        // Only COMPANY admin or Project Lead can update
-        if (currentUserRole !== UserRole.COMPANY && project.projectLeadId !== currentUserId) {
-            throw new ForbiddenException('Only company administrators or project leads can update projects');
-        }
+        await this.permissionsService.assert({ id: currentUserId, role: currentUserRole, companyId }, Permission.PROJECT_UPDATE, { project });
 
         const { startDate, endDate, ...restUpdateData } = updateDto;
         const updateData: any = { ...restUpdateData };
@@ -581,7 +587,7 @@ export class ProjectsService {
         // Validate new project lead
         if (newLeadId) {
             const lead = await this.prisma.user.findFirst({
-                where: { id: newLeadId, companyId, isActive: true },
+                where: { id: newLeadId, ...memberOf(companyId, { isActive: true }) },
                 select: { email: true, firstName: true, lastName: true }
             });
             if (!lead) {
@@ -630,7 +636,8 @@ export class ProjectsService {
                         newLeadUser.email,
                         newLeadUser.firstName,
                         project.name,
-                        project.departments?.[0]?.department?.name || 'Unknown Department'
+                        project.departments?.[0]?.department?.name || 'Unknown Department',
+                        companyId
                     );
                 } catch (error) {
                     this.logger.error(`Failed to send project lead assignment email to ${newLeadUser.email}:`, error);
@@ -648,7 +655,8 @@ export class ProjectsService {
                             oldRole: 'Project Lead',
                             newRole: 'Team Member',
                             isPromotion: false,
-                            changedBy: changedBy
+                            changedBy: changedBy,
+                            companyId
                         }
                     );
                 } catch (error) {
@@ -681,7 +689,8 @@ export class ProjectsService {
                                 projectName: project.name,
                                 oldStatus: project.status,
                                 newStatus: updateDto.status,
-                                changedBy: changedBy
+                                changedBy: changedBy,
+                                companyId
                             }
                         );
                     }
@@ -748,10 +757,13 @@ export class ProjectsService {
     // ============================================
     // DELETE PROJECT - Only COMPANY admin
     // ============================================
-    async delete(id: string, currentUserRole: UserRole, companyId: string) {
-        if (currentUserRole !== UserRole.COMPANY) {
-            throw new ForbiddenException('Only company administrators can delete projects');
-        }
+    async delete(id: string, currentUserRole: UserRole, currentUserId: string, companyId: string) {
+        await this.permissionsService.assert(
+            { id: currentUserId, role: currentUserRole, companyId },
+            Permission.PROJECT_DELETE,
+            {},
+            'Only company administrators can delete projects',
+        );
 
         const project = await this.findOne(id, companyId);
 
@@ -767,7 +779,7 @@ export class ProjectsService {
 
         // Get company admin info
         const admin = await this.prisma.user.findFirst({
-            where: { companyId, role: UserRole.COMPANY },
+            where: memberOf(companyId, { role: UserRole.COMPANY }),
             select: { firstName: true, lastName: true }
         });
         const deletedBy = admin ? `${admin.firstName} ${admin.lastName}` : 'Company Administrator';
@@ -785,7 +797,8 @@ export class ProjectsService {
                             recipientName: member.user.firstName,
                             projectName: project.name,
                             deletedBy: deletedBy,
-                            deletionDate: new Date().toLocaleDateString()
+                            deletionDate: new Date().toLocaleDateString(),
+                            companyId
                         }
                     );
                 }
@@ -816,13 +829,10 @@ export class ProjectsService {
     async addMembers(id: string, dto: AddProjectMembersDto, currentUserRole: UserRole, currentUserId: string, companyId: string) {
         const project = await this.findOne(id, companyId);
 
-        // Only COMPANY admin or Project Lead can add members
-        if (currentUserRole !== UserRole.COMPANY && project.projectLeadId !== currentUserId) {
-            throw new ForbiddenException('Only company administrators or project leads can add members');
-        }
+        await this.permissionsService.assert({ id: currentUserId, role: currentUserRole, companyId }, Permission.PROJECT_MEMBER_ADD, { project });
 
         const users = await this.prisma.user.findMany({
-            where: { id: { in: dto.userIds }, companyId, isActive: true },
+            where: { id: { in: dto.userIds }, ...memberOf(companyId, { isActive: true }) },
             select: { id: true, email: true, firstName: true, lastName: true }
         });
 
@@ -863,7 +873,8 @@ export class ProjectsService {
                         project.name,
                         departmentName,
                         'Team Member',
-                        addedBy
+                        addedBy,
+                        companyId
                     );
                 }
             }
@@ -899,10 +910,7 @@ export class ProjectsService {
     async removeMembers(id: string, dto: RemoveProjectMembersDto, currentUserRole: UserRole, currentUserId: string, companyId: string) {
         const project = await this.findOne(id, companyId);
 
-        // Only COMPANY admin or Project Lead can remove members
-        if (currentUserRole !== UserRole.COMPANY && project.projectLeadId !== currentUserId) {
-            throw new ForbiddenException('Only company administrators or project leads can remove members');
-        }
+        await this.permissionsService.assert({ id: currentUserId, role: currentUserRole, companyId }, Permission.PROJECT_MEMBER_REMOVE, { project });
 
         if (project.projectLeadId && dto.userIds.includes(project.projectLeadId)) {
             throw new BadRequestException('Cannot remove project lead. Assign a new lead first.');
@@ -910,7 +918,7 @@ export class ProjectsService {
 
         // Get user info for emails before removing
         const usersToRemove = await this.prisma.user.findMany({
-            where: { id: { in: dto.userIds }, companyId },
+            where: { id: { in: dto.userIds }, ...memberOf(companyId) },
             select: { id: true, email: true, firstName: true }
         });
 
@@ -929,7 +937,8 @@ export class ProjectsService {
                             recipientName: user.firstName,
                             projectName: project.name,
                             action: 'removed from',
-                            reason: 'removed by project administrator'
+                            reason: 'removed by project administrator',
+                            companyId
                         }
                     );
                 }
@@ -960,10 +969,7 @@ export class ProjectsService {
     async updateMemberRole(id: string, dto: UpdateMemberRoleDto, currentUserRole: UserRole, currentUserId: string, companyId: string) {
         const project = await this.findOne(id, companyId);
 
-        // Only COMPANY admin or Project Lead can update roles
-        if (currentUserRole !== UserRole.COMPANY && project.projectLeadId !== currentUserId) {
-            throw new ForbiddenException('Only company administrators or project leads can update member roles');
-        }
+        await this.permissionsService.assert({ id: currentUserId, role: currentUserRole, companyId }, Permission.PROJECT_MEMBER_ROLE, { project });
 
         const member = await this.prisma.projectMember.findUnique({
             where: { projectId_userId: { projectId: id, userId: dto.userId } },
@@ -1026,7 +1032,8 @@ export class ProjectsService {
                         oldRole: this.formatRole(oldRole),
                         newRole: this.formatRole(dto.role),
                         isPromotion: dto.role === ProjectMemberRole.LEAD,
-                        changedBy: changedBy
+                        changedBy: changedBy,
+                        companyId
                     }
                 );
             } catch (error) {
@@ -1052,7 +1059,8 @@ export class ProjectsService {
                             newRole: 'Team Member',
                             isPromotion: false,
                             changedBy: changedBy,
-                            newLeadName: `${member.user.firstName} ${member.user.lastName}`
+                            newLeadName: `${member.user.firstName} ${member.user.lastName}`,
+                            companyId
                         }
                     );
                 } catch (error) {
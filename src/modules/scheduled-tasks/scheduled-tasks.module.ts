@@ -4,12 +4,22 @@ import { ScheduleModule } from '@nestjs/schedule';
 import { ScheduledTasksService } from './scheduled-tasks.service';
 import { ScreenshotsModule } from '../screenshots/screenshots.module';
 import { DesktopAgentModule } from '../desktop-agent/desktop-agent.module';
+import { BillingModule } from '../billing/billing.module';
+import { DataExportModule } from '../data-export/data-export.module';
+import { CompanyClosureModule } from '../company-closure/company-closure.module';
+import { LeaderboardModule } from '../leaderboard/leaderboard.module';
+import { UsersModule } from '../users/users.module';
 
 @Module({
     imports: [
         ScheduleModule.forRoot(),
         ScreenshotsModule,
         DesktopAgentModule,
+        BillingModule,
+        DataExportModule,
+        CompanyClosureModule,
+        LeaderboardModule,
+        UsersModule,
     ],
     providers: [ScheduledTasksService],
     exports: [ScheduledTasksService],
@@ -1,9 +1,16 @@
 // src/modules/scheduled-tasks/scheduled-tasks.service.ts
 import { Injectable, Logger } from '@nestjs/common';
 import { Cron, CronExpression } from '@nestjs/schedule';
+import { Prisma } from '@prisma/client';
 import { PrismaService } from '../../prisma/prisma.service';
 import { ScreenshotsService } from '../screenshots/screenshots.service';
 import { DesktopAgentService } from '../desktop-agent/desktop-agent.service';
+import { SubscriptionNoticesService } from '../billing/subscription-notices.service';
+import { DataExportService } from '../data-export/data-export.service';
+import { CompanyClosureService } from '../company-closure/company-closure.service';
+import { LeaderboardService } from '../leaderboard/leaderboard.service';
+import { EmploymentDatesService } from '../users/employment-dates.service';
+import { getLocalHour, resolveTimezone } from '../companies/utils/calendar.util';
 
 @Injectable()
 export class ScheduledTasksService {
@@ -13,6 +20,11 @@ export class ScheduledTasksService {
         private prisma: PrismaService,
         private screenshotsService: ScreenshotsService,
         private agentService: DesktopAgentService,
+        private subscriptionNoticesService: SubscriptionNoticesService,
+        private dataExportService: DataExportService,
+        private companyClosureService: CompanyClosureService,
+        private leaderboardService: LeaderboardService,
+        private employmentDatesService: EmploymentDatesService,
     ) { }
 
     // ============================================
@@ -68,6 +80,85 @@ export class ScheduledTasksService {
         }
     }
 
+    // ============================================
+    // CLEANUP EXPIRED LOGIN SESSIONS (Weekly)
+    // ============================================
+    @Cron(CronExpression.EVERY_WEEK)
+    async cleanupExpiredSessions() {
+        this.logger.log('Starting expired login sessions cleanup...');
+
+        try {
+            const thirtyDaysAgo = new Date();
+            thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
+
+            const result = await this.prisma.userSession.deleteMany({
+                where: {
+                    OR: [
+                        { expiresAt: { lt: new Date() } },
+                        { revokedAt: { lt: thirtyDaysAgo } },
+                    ],
+                },
+            });
+
+            this.logger.log(`Cleaned up ${result.count} expired login sessions`);
+        } catch (error) {
+            this.logger.error('Failed to cleanup expired login sessions', error);
+        }
+    }
+
+    // ============================================
+    // CLEANUP EXPIRED ONE-TIME CODES, DEVICE & SSO SIGN-INS (Hourly)
+    // ============================================
+    @Cron(CronExpression.EVERY_HOUR)
+    async cleanupExpiredCodes() {
+        try {
+            const oneDayAgo = new Date();
+            oneDayAgo.setDate(oneDayAgo.getDate() - 1);
+
+            const codes = await this.prisma.oneTimeCode.deleteMany({
+                where: { expiresAt: { lt: oneDayAgo } },
+            });
+
+            const deviceAuthorizations = await this.prisma.deviceAuthorization.deleteMany({
+                where: { expiresAt: { lt: oneDayAgo } },
+            });
+
+            const ssoLoginRequests = await this.prisma.ssoLoginRequest.deleteMany({
+                where: { expiresAt: { lt: oneDayAgo } },
+            });
+
+            if (codes.count > 0 || deviceAuthorizations.count > 0 || ssoLoginRequests.count > 0) {
+                this.logger.log(
+                    `Cleaned up ${codes.count} expired one-time codes, ${deviceAuthorizations.count} device sign-ins and ${ssoLoginRequests.count} SSO sign-in requests`
+                );
+            }
+        } catch (error) {
+            this.logger.error('Failed to cleanup expired one-time codes', error);
+        }
+    }
+
+    // ============================================
+    // CLEANUP OLD FAILED LOGIN RECORDS (Daily at 3 AM)
+    // Only the last few minutes are used for per-IP throttling
+    // ============================================
+    @Cron(CronExpression.EVERY_DAY_AT_3AM)
+    async cleanupFailedLogins() {
+        try {
+            const sevenDaysAgo = new Date();
+            sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
+
+            const result = await this.prisma.failedLogin.deleteMany({
+                where: {
+                    createdAt: { lt: sevenDaysAgo },
+                },
+            });
+
+            this.logger.log(`Cleaned up ${result.count} old failed login records`);
+        } catch (error) {
+            this.logger.error('Failed to cleanup failed login records', error);
+        }
+    }
+
     // ============================================
     // CHECK STALE TIME TRACKING SESSIONS (Hourly)
     // Auto-stop sessions that have been running for more than 12 hours
@@ -162,20 +253,24 @@ export class ScheduledTasksService {
     }
 
     // ============================================
-    // UPDATE EXPIRED SUBSCRIPTIONS (Daily at midnight)
+    // UPDATE EXPIRED SUBSCRIPTIONS (Hourly)
+    // Each company is handled at midnight in its timezone
     // ============================================
-    @Cron(CronExpression.EVERY_DAY_AT_MIDNIGHT)
+    @Cron(CronExpression.EVERY_HOUR)
     async updateExpiredSubscriptions() {
-        this.logger.log('Checking for expired subscriptions...');
-
         try {
             const now = new Date();
+            const atLocalMidnight = async (where: Prisma.CompanyWhereInput) => {
+                const companies = await this.prisma.company.findMany({ where, select: { id: true, timezone: true } });
+                return companies
+                    .filter((company) => getLocalHour(now, resolveTimezone(company.timezone)) === 0)
+                    .map((company) => company.id);
+            };
 
             // Update trial subscriptions that have expired
             const expiredTrials = await this.prisma.company.updateMany({
                 where: {
-                    subscriptionStatus: 'TRIAL',
-                    trialEndsAt: { lt: now },
+                    id: { in: await atLocalMidnight({ subscriptionStatus: 'TRIAL', trialEndsAt: { lt: now } }) },
                 },
                 data: {
                     subscriptionStatus: 'EXPIRED',
@@ -185,8 +280,7 @@ export class ScheduledTasksService {
             // Update active subscriptions that have expired
             const expiredActive = await this.prisma.company.updateMany({
                 where: {
-                    subscriptionStatus: 'ACTIVE',
-                    subscriptionEndsAt: { lt: now },
+                    id: { in: await atLocalMidnight({ subscriptionStatus: 'ACTIVE', subscriptionEndsAt: { lt: now } }) },
                 },
                 data: {
                     subscriptionStatus: 'EXPIRED',
@@ -202,4 +296,90 @@ export class ScheduledTasksService {
             this.logger.error('Failed to update expired subscriptions', error);
         }
     }
-}
\ No newline at end of file
+
+    // ============================================
+    // TRIAL REMINDERS & DUNNING EMAILS (Hourly)
+    // Each notice is tied to a day count; companies get them once a day, at 9 AM in their timezone
+    // ============================================
+    @Cron(CronExpression.EVERY_HOUR)
+    async sendSubscriptionNotices() {
+        try {
+            const trials = await this.subscriptionNoticesService.sendTrialReminders();
+            const dunning = await this.subscriptionNoticesService.sendDunningNotices();
+
+            if (trials.sent > 0 || dunning.sent > 0) {
+                this.logger.log(`Sent ${trials.sent} trial reminders and ${dunning.sent} dunning notices`);
+            }
+        } catch (error) {
+            this.logger.error('Failed to send subscription reminders', error);
+        }
+    }
+
+    // ============================================
+    // CLEANUP EXPIRED DATA EXPORTS (Hourly)
+    // ============================================
+    @Cron(CronExpression.EVERY_HOUR)
+    async cleanupDataExports() {
+        try {
+            const result = await this.dataExportService.cleanupExpiredExports();
+
+            if (result.deleted > 0 || result.interrupted > 0) {
+                this.logger.log(`Deleted ${result.deleted} expired data exports, marked ${result.interrupted} interrupted exports as failed`);
+            }
+        } catch (error) {
+            this.logger.error('Failed to cleanup data exports', error);
+        }
+    }
+
+    // ============================================
+    // PURGE CLOSED COMPANIES (Daily at 4 AM)
+    // ============================================
+    @Cron(CronExpression.EVERY_DAY_AT_4AM)
+    async purgeClosedCompanies() {
+        try {
+            const result = await this.companyClosureService.purgeDueCompanies();
+
+            if (result.purged > 0 || result.failed > 0) {
+                this.logger.log(`Purged ${result.purged} closed companies, ${result.failed} failed and will be retried`);
+            }
+        } catch (error) {
+            this.logger.error('Failed to purge closed companies', error);
+        }
+    }
+
+    // ============================================
+    // LEADERBOARD SNAPSHOTS (Hourly)
+    // Each company is snapshotted at the end of its own local day
+    // ============================================
+    @Cron(CronExpression.EVERY_HOUR)
+    async saveLeaderboardSnapshots() {
+        try {
+            const result = await this.leaderboardService.saveEndOfDaySnapshots();
+
+            if (result.saved > 0) {
+                this.logger.log(`Saved leaderboard snapshots for ${result.saved} companies`);
+            }
+        } catch (error) {
+            this.logger.error('Failed to save leaderboard snapshots', error);
+        }
+    }
+
+    // ============================================
+    // EMPLOYMENT START & END DATES (Hourly)
+    // Dates take effect when the day starts in each company's timezone; admins are notified at 8 AM local time
+    // ============================================
+    @Cron(CronExpression.EVERY_HOUR)
+    async applyEmploymentDates() {
+        try {
+            const result = await this.employmentDatesService.applyDueDates();
+
+            if (result.activated > 0 || result.deactivated > 0 || result.noticesSent > 0) {
+                this.logger.log(
+                    `Activated ${result.activated} and deactivated ${result.deactivated} users on their employment dates, sent ${result.noticesSent} notices`
+                );
+            }
+        } catch (error) {
+            this.logger.error('Failed to apply employment dates', error);
+        }
+    }
+}
@@ -0,0 +1,113 @@
+// src/modules/scoring/dto/scoring.dto.ts
+import { IsInt, IsNumber, IsOptional, IsString, Max, MaxLength, Min, ValidateNested } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+// ============================================
+// RULE SECTIONS (every field optional; missing fields keep their current value)
+// ============================================
+export class TimeScoringDto {
+    @ApiPropertyOptional({ example: 30, description: 'Tracked minutes per point' })
+    @IsOptional()
+    @IsInt()
+    @Min(1)
+    @Max(1440)
+    minutesPerPoint?: number;
+
+    @ApiPropertyOptional({ example: 15, description: 'Sessions shorter than this earn no points' })
+    @IsOptional()
+    @IsInt()
+    @Min(0)
+    @Max(1440)
+    minMinutesForPoint?: number;
+
+    @ApiPropertyOptional({ example: 16, description: 'Most points a single session can earn' })
+    @IsOptional()
+    @IsInt()
+    @Min(0)
+    @Max(1000)
+    maxPointsPerSession?: number;
+}
+
+export class PriorityMultipliersDto {
+    @ApiPropertyOptional({ example: 1 }) @IsOptional() @IsNumber() @Min(0) @Max(10) LOW?: number;
+    @ApiPropertyOptional({ example: 1 }) @IsOptional() @IsNumber() @Min(0) @Max(10) MEDIUM?: number;
+    @ApiPropertyOptional({ example: 1.5 }) @IsOptional() @IsNumber() @Min(0) @Max(10) HIGH?: number;
+    @ApiPropertyOptional({ example: 2 }) @IsOptional() @IsNumber() @Min(0) @Max(10) URGENT?: number;
+    @ApiPropertyOptional({ example: 3 }) @IsOptional() @IsNumber() @Min(0) @Max(10) CRITICAL?: number;
+}
+
+export class RejectionScoringDto {
+    @ApiPropertyOptional({ example: 0, description: 'Points deducted when the reviewer does not specify an amount' })
+    @IsOptional()
+    @IsInt()
+    @Min(0)
+    @Max(1000)
+    defaultPenalty?: number;
+
+    @ApiPropertyOptional({ example: 20, description: 'Largest deduction a reviewer may apply' })
+    @IsOptional()
+    @IsInt()
+    @Min(0)
+    @Max(1000)
+    maxPenalty?: number;
+}
+
+export class PerformanceWeightsDto {
+    @ApiPropertyOptional({ example: 0.35 }) @IsOptional() @IsNumber() @Min(0) @Max(1) tasksCompleted?: number;
+    @ApiPropertyOptional({ example: 0.25 }) @IsOptional() @IsNumber() @Min(0) @Max(1) totalMinutes?: number;
+    @ApiPropertyOptional({ example: 0.2 }) @IsOptional() @IsNumber() @Min(0) @Max(1) pointsEarned?: number;
+    @ApiPropertyOptional({ example: 0.1 }) @IsOptional() @IsNumber() @Min(0) @Max(1) subProjectsContributed?: number;
+    @ApiPropertyOptional({ example: 0.05 }) @IsOptional() @IsNumber() @Min(0) @Max(1) projectsContributed?: number;
+    @ApiPropertyOptional({ example: 0.05 }) @IsOptional() @IsNumber() @Min(0) @Max(1) currentStreak?: number;
+}
+
+export class PerformanceCapsDto {
+    @ApiPropertyOptional({ example: 100 }) @IsOptional() @IsInt() @Min(1) tasksCompleted?: number;
+    @ApiPropertyOptional({ example: 6000 }) @IsOptional() @IsInt() @Min(1) totalMinutes?: number;
+    @ApiPropertyOptional({ example: 1000 }) @IsOptional() @IsInt() @Min(1) pointsEarned?: number;
+    @ApiPropertyOptional({ example: 20 }) @IsOptional() @IsInt() @Min(1) subProjectsContributed?: number;
+    @ApiPropertyOptional({ example: 10 }) @IsOptional() @IsInt() @Min(1) projectsContributed?: number;
+    @ApiPropertyOptional({ example: 30 }) @IsOptional() @IsInt() @Min(1) currentStreak?: number;
+}
+
+// ============================================
+// UPDATE (creates a new version)
+// ============================================
+export class UpdateScoringConfigDto {
+    @ApiPropertyOptional({ type: TimeScoringDto, description: 'Points for tracked time' })
+    @IsOptional()
+    @ValidateNested()
+    @Type(() => TimeScoringDto)
+    time?: TimeScoringDto;
+
+    @ApiPropertyOptional({ type: PriorityMultipliersDto, description: 'Multipliers applied to task points by priority' })
+    @IsOptional()
+    @ValidateNested()
+    @Type(() => PriorityMultipliersDto)
+    taskPriorityMultipliers?: PriorityMultipliersDto;
+
+    @ApiPropertyOptional({ type: RejectionScoringDto, description: 'Deductions when a task is rejected' })
+    @IsOptional()
+    @ValidateNested()
+    @Type(() => RejectionScoringDto)
+    rejection?: RejectionScoringDto;
+
+    @ApiPropertyOptional({ type: PerformanceWeightsDto, description: 'Leaderboard score weights; must add up to 1' })
+    @IsOptional()
+    @ValidateNested()
+    @Type(() => PerformanceWeightsDto)
+    weights?: PerformanceWeightsDto;
+
+    @ApiPropertyOptional({ type: PerformanceCapsDto, description: 'Metric values that earn the full weight' })
+    @IsOptional()
+    @ValidateNested()
+    @Type(() => PerformanceCapsDto)
+    caps?: PerformanceCapsDto;
+
+    @ApiPropertyOptional({ description: 'Why the rules changed, kept with the version' })
+    @IsOptional()
+    @IsString()
+    @MaxLength(500)
+    note?: string;
+}
@@ -0,0 +1,46 @@
+// src/modules/scoring/scoring.controller.ts
+import { Controller, Get, Put, Body, Param, UseGuards, ParseIntPipe } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+import { ScoringService } from './scoring.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { CurrentUser, Roles } from '../auth/guards';
+import { UpdateScoringConfigDto } from './dto/scoring.dto';
+
+@ApiTags('scoring')
+@Controller('scoring')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+export class ScoringController {
+    constructor(private readonly scoringService: ScoringService) { }
+
+    @Get()
+    @ApiOperation({ summary: 'Get the scoring rules in force for the company' })
+    async findCurrent(@CurrentUser('companyId') companyId: string) {
+        return this.scoringService.findCurrent(companyId);
+    }
+
+    @Put()
+    @Roles(UserRole.COMPANY)
+    @ApiOperation({
+        summary: 'Change the scoring rules (Company Admin)',
+        description: 'Only the given fields change; the result is saved as a new version and applies to points awarded from now on',
+    })
+    async update(@Body() dto: UpdateScoringConfigDto, @CurrentUser('companyId') companyId: string, @CurrentUser('id') userId: string) {
+        return this.scoringService.update(companyId, userId, dto);
+    }
+
+    @Get('versions')
+    @Roles(UserRole.COMPANY, UserRole.QC_ADMIN)
+    @ApiOperation({ summary: 'List all versions of the scoring rules, newest first' })
+    async findVersions(@CurrentUser('companyId') companyId: string) {
+        return this.scoringService.findVersions(companyId);
+    }
+
+    @Get('versions/:version')
+    @ApiOperation({ summary: 'Get one version of the scoring rules (0 is the default rules)' })
+    async findVersion(@Param('version', ParseIntPipe) version: number, @CurrentUser('companyId') companyId: string) {
+        return this.scoringService.findVersion(companyId, version);
+    }
+}
@@ -0,0 +1,13 @@
+// src/modules/scoring/scoring.module.ts
+import { Module } from '@nestjs/common';
+import { ScoringController } from './scoring.controller';
+import { ScoringService } from './scoring.service';
+import { PrismaModule } from '../../prisma/prisma.module';
+
+@Module({
+    imports: [PrismaModule],
+    controllers: [ScoringController],
+    providers: [ScoringService],
+    exports: [ScoringService],
+})
+export class ScoringModule { }
@@ -0,0 +1,147 @@
+// src/modules/scoring/scoring.service.ts
+import { Injectable, NotFoundException, BadRequestException, ConflictException } from '@nestjs/common';
+import { ActivityType, Prisma } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { DEFAULT_SCORING_RULES, ScoringRules, ScoringRulesPatch, mergeScoringRules, validateScoringRules } from './scoring.util';
+import { UpdateScoringConfigDto } from './dto/scoring.dto';
+
+export interface ScoringConfigVersion {
+    // 0 means the built-in defaults
+    version: number;
+    rules: ScoringRules;
+}
+
+const VERSION_SELECT = {
+    version: true,
+    rules: true,
+    note: true,
+    createdAt: true,
+    createdBy: { select: { id: true, firstName: true, lastName: true } },
+};
+
+@Injectable()
+export class ScoringService {
+    constructor(private prisma: PrismaService) { }
+
+    // ============================================
+    // RULES FOR SCORING (used by other services)
+    // ============================================
+
+    /**
+     * Rules in force, or those of a past version to explain an earlier score
+     */
+    async getConfig(companyId: string, version?: number | null): Promise<ScoringConfigVersion> {
+        const config = await this.prisma.scoringConfig.findFirst({
+            where: { companyId, ...(version != null ? { version } : {}) },
+            orderBy: { version: 'desc' },
+            select: { version: true, rules: true },
+        });
+
+        if (!config) {
+            return { version: 0, rules: DEFAULT_SCORING_RULES };
+        }
+
+        return { version: config.version, rules: this.toRules(config.rules) };
+    }
+
+    // ============================================
+    // CONFIGURATION (company admin)
+    // ============================================
+    async findCurrent(companyId: string) {
+        const config = await this.prisma.scoringConfig.findFirst({
+            where: { companyId },
+            orderBy: { version: 'desc' },
+            select: VERSION_SELECT,
+        });
+
+        return {
+            ...(config ? { ...config, rules: this.toRules(config.rules) } : this.defaultVersion()),
+            defaults: DEFAULT_SCORING_RULES,
+        };
+    }
+
+    async findVersions(companyId: string) {
+        const versions = await this.prisma.scoringConfig.findMany({
+            where: { companyId },
+            orderBy: { version: 'desc' },
+            select: VERSION_SELECT,
+        });
+
+        return [...versions.map((config) => ({ ...config, rules: this.toRules(config.rules) })), this.defaultVersion()];
+    }
+
+    async findVersion(companyId: string, version: number) {
+        if (version === 0) {
+            return this.defaultVersion();
+        }
+
+        const config = await this.prisma.scoringConfig.findUnique({
+            where: { companyId_version: { companyId, version } },
+            select: VERSION_SELECT,
+        });
+
+        if (!config) {
+            throw new NotFoundException('Scoring version not found');
+        }
+
+        return { ...config, rules: this.toRules(config.rules) };
+    }
+
+    /**
+     * Saves the changed rules as a new version; earlier versions are kept unchanged
+     */
+    async update(companyId: string, userId: string, dto: UpdateScoringConfigDto) {
+        const current = await this.getConfig(companyId);
+        const { note, ...patch } = dto;
+        const rules = mergeScoringRules(current.rules, patch);
+
+        const problem = validateScoringRules(rules);
+        if (problem) {
+            throw new BadRequestException(problem);
+        }
+
+        const version = current.version + 1;
+
+        try {
+            const [config] = await this.prisma.$transaction([
+                this.prisma.scoringConfig.create({
+                    data: {
+                        companyId,
+                        version,
+                        rules: rules as unknown as Prisma.InputJsonValue,
+                        note: note ?? null,
+                        createdById: userId,
+                    },
+                    select: VERSION_SELECT,
+                }),
+                this.prisma.activityLog.create({
+                    data: {
+                        companyId,
+                        userId,
+                        activityType: ActivityType.SCORING_CONFIG_UPDATED,
+                        description: `Updated scoring rules to version ${version}`,
+                        metadata: { version, previousVersion: current.version, note: note ?? null },
+                    },
+                }),
+            ]);
+
+            return { ...config, rules };
+        } catch (error) {
+            if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+                throw new ConflictException('The scoring rules were changed at the same time; reload and try again');
+            }
+            throw error;
+        }
+    }
+
+    // ============================================
+    // HELPERS
+    // ============================================
+    private toRules(stored: Prisma.JsonValue): ScoringRules {
+        return mergeScoringRules(DEFAULT_SCORING_RULES, stored as ScoringRulesPatch);
+    }
+
+    private defaultVersion() {
+        return { version: 0, rules: DEFAULT_SCORING_RULES, note: 'Default scoring rules', createdAt: null, createdBy: null };
+    }
+}
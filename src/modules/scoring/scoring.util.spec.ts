@@ -0,0 +1,53 @@
+import { Priority } from '@prisma/client';
+import {
+    DEFAULT_SCORING_RULES, calculatePerformanceScore, calculateSessionPoints, calculateTaskPoints, mergeScoringRules, validateScoringRules,
+} from './scoring.util';
+
+describe('scoring.util', () => {
+    it('scores sessions with a minimum and a cap', () => {
+        expect(calculateSessionPoints(14, DEFAULT_SCORING_RULES)).toBe(0);
+        expect(calculateSessionPoints(15, DEFAULT_SCORING_RULES)).toBe(0);
+        expect(calculateSessionPoints(95, DEFAULT_SCORING_RULES)).toBe(3);
+        expect(calculateSessionPoints(24 * 60, DEFAULT_SCORING_RULES)).toBe(16);
+
+        const generous = mergeScoringRules(DEFAULT_SCORING_RULES, { time: { minutesPerPoint: 10 } });
+        expect(calculateSessionPoints(95, generous)).toBe(9);
+        expect(generous.time.maxPointsPerSession).toBe(16);
+        expect(mergeScoringRules(DEFAULT_SCORING_RULES, { time: { minutesPerPoint: undefined } }).time.minutesPerPoint).toBe(30);
+    });
+
+    it('applies priority multipliers to task points', () => {
+        const rules = mergeScoringRules(DEFAULT_SCORING_RULES, { taskPriorityMultipliers: { [Priority.CRITICAL]: 2.5 } });
+
+        expect(calculateTaskPoints(10, Priority.CRITICAL, rules)).toBe(25);
+        expect(calculateTaskPoints(10, Priority.LOW, rules)).toBe(10);
+    });
+
+    it('weights performance metrics up to their caps', () => {
+        const metrics = {
+            tasksCompleted: 50,
+            totalMinutes: 12000,
+            pointsEarned: 0,
+            subProjectsContributed: 0,
+            projectsContributed: 0,
+            currentStreak: 0,
+        };
+
+        // 0.5 * 0.35 + 1 * 0.25
+        expect(calculatePerformanceScore(metrics, DEFAULT_SCORING_RULES)).toBe(42.5);
+
+        const timeOnly = mergeScoringRules(DEFAULT_SCORING_RULES, {
+            weights: { tasksCompleted: 0, totalMinutes: 1, pointsEarned: 0, subProjectsContributed: 0, projectsContributed: 0, currentStreak: 0 },
+            caps: { totalMinutes: 24000 },
+        });
+        expect(calculatePerformanceScore(metrics, timeOnly)).toBe(50);
+    });
+
+    it('rejects inconsistent rules', () => {
+        expect(validateScoringRules(DEFAULT_SCORING_RULES)).toBeNull();
+        expect(validateScoringRules(mergeScoringRules(DEFAULT_SCORING_RULES, { weights: { tasksCompleted: 0.5 } })))
+            .toContain('add up to 1');
+        expect(validateScoringRules(mergeScoringRules(DEFAULT_SCORING_RULES, { rejection: { defaultPenalty: 30 } })))
+            .toContain('maximum penalty');
+    });
+});
@@ -0,0 +1,134 @@
+// src/modules/scoring/scoring.util.ts
+import { Priority } from '@prisma/client';
+
+export interface ScoringRules {
+    time: {
+        minutesPerPoint: number;
+        // Sessions shorter than this earn nothing
+        minMinutesForPoint: number;
+        maxPointsPerSession: number;
+    };
+    // Applied to a task's points value when it is approved
+    taskPriorityMultipliers: Record<Priority, number>;
+    rejection: {
+        // Used when the reviewer does not give a deduction
+        defaultPenalty: number;
+        maxPenalty: number;
+    };
+    // Share of each metric in the leaderboard performance score; they add up to 1
+    weights: PerformanceMetrics;
+    // Metric values at which a user gets the full share of its weight
+    caps: PerformanceMetrics;
+}
+
+export interface PerformanceMetrics {
+    tasksCompleted: number;
+    totalMinutes: number;
+    pointsEarned: number;
+    subProjectsContributed: number;
+    projectsContributed: number;
+    currentStreak: number;
+}
+
+/**
+ * Rules every company starts with (version 0); they match the scoring used before it was configurable
+ */
+export const DEFAULT_SCORING_RULES: ScoringRules = {
+    time: {
+        minutesPerPoint: 30,
+        minMinutesForPoint: 15,
+        maxPointsPerSession: 16,
+    },
+    taskPriorityMultipliers: {
+        [Priority.LOW]: 1,
+        [Priority.MEDIUM]: 1,
+        [Priority.HIGH]: 1,
+        [Priority.URGENT]: 1,
+        [Priority.CRITICAL]: 1,
+    },
+    rejection: {
+        defaultPenalty: 0,
+        maxPenalty: 20,
+    },
+    weights: {
+        tasksCompleted: 0.35,
+        totalMinutes: 0.25,
+        pointsEarned: 0.2,
+        subProjectsContributed: 0.1,
+        projectsContributed: 0.05,
+        currentStreak: 0.05,
+    },
+    caps: {
+        tasksCompleted: 100,
+        totalMinutes: 6000, // 100 hours
+        pointsEarned: 1000,
+        subProjectsContributed: 20,
+        projectsContributed: 10,
+        currentStreak: 30,
+    },
+};
+
+const PERFORMANCE_METRICS = Object.keys(DEFAULT_SCORING_RULES.weights) as (keyof PerformanceMetrics)[];
+
+export type ScoringRulesPatch = { [K in keyof ScoringRules]?: Partial<ScoringRules[K]> };
+
+/**
+ * Overlays changed rules on a base set, section by section; also fills keys missing from older stored versions.
+ * Undefined values are ignored, so validated DTO instances can be passed as they are.
+ */
+export function mergeScoringRules(base: ScoringRules, patch: ScoringRulesPatch | null | undefined): ScoringRules {
+    return {
+        time: { ...base.time, ...definedOnly(patch?.time) },
+        taskPriorityMultipliers: { ...base.taskPriorityMultipliers, ...definedOnly(patch?.taskPriorityMultipliers) },
+        rejection: { ...base.rejection, ...definedOnly(patch?.rejection) },
+        weights: { ...base.weights, ...definedOnly(patch?.weights) },
+        caps: { ...base.caps, ...definedOnly(patch?.caps) },
+    };
+}
+
+export function calculateSessionPoints(durationMinutes: number, rules: ScoringRules): number {
+    if (durationMinutes < rules.time.minMinutesForPoint) return 0;
+    return Math.min(
+        Math.floor(durationMinutes / rules.time.minutesPerPoint),
+        rules.time.maxPointsPerSession,
+    );
+}
+
+export function calculateTaskPoints(pointsValue: number, priority: Priority, rules: ScoringRules): number {
+    return Math.round(pointsValue * (rules.taskPriorityMultipliers[priority] ?? 1));
+}
+
+/**
+ * Weighted performance score out of 100
+ */
+export function calculatePerformanceScore(metrics: PerformanceMetrics, rules: ScoringRules): number {
+    let score = 0;
+    for (const metric of PERFORMANCE_METRICS) {
+        score += Math.min(metrics[metric] / rules.caps[metric], 1) * rules.weights[metric];
+    }
+
+    return Math.round(score * 1000) / 10;
+}
+
+/**
+ * Problems that the per-field DTO checks cannot catch, or null when the rules are consistent
+ */
+export function validateScoringRules(rules: ScoringRules): string | null {
+    const weightSum = PERFORMANCE_METRICS.reduce((sum, metric) => sum + rules.weights[metric], 0);
+    if (Math.abs(weightSum - 1) > 0.001) {
+        return `Leaderboard weights must add up to 1 (currently ${Math.round(weightSum * 1000) / 1000})`;
+    }
+
+    if (rules.rejection.defaultPenalty > rules.rejection.maxPenalty) {
+        return 'The default rejection penalty cannot be higher than the maximum penalty';
+    }
+
+    return null;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+function definedOnly<T extends object>(values: Partial<T> | undefined): Partial<T> {
+    return Object.fromEntries(Object.entries(values ?? {}).filter(([, value]) => value !== undefined)) as Partial<T>;
+}
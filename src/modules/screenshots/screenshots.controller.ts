@@ -16,7 +16,7 @@ import { FileInterceptor } from '@nestjs/platform-express';
 import { ApiTags, ApiOperation, ApiBearerAuth, ApiConsumes, ApiBody } from '@nestjs/swagger';
 import { ScreenshotsService } from './screenshots.service';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
-import { RolesGuard } from '../auth/guards/roles.guard';
+import { PermissionsGuard, RequirePermissions, Permission } from '../permissions';
 import { UserRole } from '@prisma/client';
 import {
     UploadScreenshotDto,
@@ -25,7 +25,7 @@ import {
     ScreenshotQueryDto,
     ReportFailedCaptureDto,
 } from './dto/screenshots.dto';
-import { CurrentUser, Roles } from '../auth/guards';
+import { CurrentUser, BlockWhileImpersonating } from '../auth/guards';
 
 @ApiTags('screenshots')
 @Controller('screenshots')
@@ -171,8 +171,8 @@ export class ScreenshotsController {
     // GET USER SCREENSHOT SUMMARY
     // ============================================
     @Get('user/:userId/summary')
-    @UseGuards(RolesGuard)
-    @Roles(UserRole.QC_ADMIN, UserRole.COMPANY)
+    @UseGuards(PermissionsGuard)
+    @RequirePermissions(Permission.SCREENSHOT_VIEW_ALL)
     @ApiOperation({ summary: 'Get screenshot summary for a user (admin only)' })
     async getUserScreenshotSummary(
         @Param('userId') userId: string,
@@ -225,6 +225,7 @@ export class ScreenshotsController {
     // DELETE SCREENSHOT
     // ============================================
     @Delete(':id')
+    @BlockWhileImpersonating()
     @ApiOperation({ summary: 'Delete a screenshot (with time deduction)' })
     async deleteScreenshot(
         @Param('id') id: string,
@@ -246,6 +247,7 @@ export class ScreenshotsController {
     // BULK DELETE SCREENSHOTS
     // ============================================
     @Delete('bulk')
+    @BlockWhileImpersonating()
     @ApiOperation({ summary: 'Delete multiple screenshots (with time deduction)' })
     async bulkDeleteScreenshots(
         @Body() dto: BulkDeleteScreenshotsDto,
@@ -3,9 +3,10 @@ import { Module } from '@nestjs/common';
 import { ScreenshotsController } from './screenshots.controller';
 import { ScreenshotsService } from './screenshots.service';
 import { StorageModule } from '../storage/storage.module';
+import { ScoringModule } from '../scoring/scoring.module';
 
 @Module({
-    imports: [StorageModule],
+    imports: [StorageModule, ScoringModule],
     controllers: [ScreenshotsController],
     providers: [ScreenshotsService],
     exports: [ScreenshotsService],
@@ -2,6 +2,10 @@
 import { Injectable, NotFoundException, ForbiddenException, BadRequestException } from '@nestjs/common';
 import { PrismaService } from '../../prisma/prisma.service';
 import { StorageService } from '../storage/storage.service';
+import { PermissionsService, Permission } from '../permissions';
+import { PlanFeature, PlansService } from '../plans';
+import { ScoringService } from '../scoring/scoring.service';
+import { calculateSessionPoints } from '../scoring/scoring.util';
 import { UserRole, NotificationType, CaptureStatus, ActivityType } from '@prisma/client';
 import {
     UploadScreenshotDto,
@@ -12,7 +16,6 @@ import {
 } from './dto/screenshots.dto';
 
 // Constants for screenshot management
-const SCREENSHOT_RETENTION_DAYS = 60;
 const SCREENSHOT_BUCKET = 'screenshots';
 
 @Injectable()
@@ -20,6 +23,9 @@ export class ScreenshotsService {
     constructor(
         private prisma: PrismaService,
         private storageService: StorageService,
+        private permissionsService: PermissionsService,
+        private plansService: PlansService,
+        private scoringService: ScoringService,
     ) { }
 
     // ============================================
@@ -50,15 +56,6 @@ export class ScreenshotsService {
         return Math.floor((intervalEnd.getTime() - intervalStart.getTime()) / 1000 / 60);
     }
 
-    // ============================================
-    // Helper: Get expiry date (60 days from now)
-    // ============================================
-    private getExpiryDate(): Date {
-        const expiryDate = new Date();
-        expiryDate.setDate(expiryDate.getDate() + SCREENSHOT_RETENTION_DAYS);
-        return expiryDate;
-    }
-
     // ============================================
     // UPLOAD SCREENSHOT (from Desktop Agent)
     // ============================================
@@ -105,6 +102,8 @@ export class ScreenshotsService {
             throw new BadRequestException('Screen capture is not enabled for this project');
         }
 
+        await this.plansService.assertFeature(companyId, PlanFeature.DESKTOP_AGENT);
+
         // Upload file to storage
         const uploadResult = await this.storageService.uploadScreenshot(
             file,
@@ -145,7 +144,7 @@ export class ScreenshotsService {
                 monitorIndex: dto.monitorIndex || 0,
                 checksum: dto.checksum,
                 captureStatus: dto.captureStatus || CaptureStatus.SUCCESS,
-                expiresAt: this.getExpiryDate(),
+                expiresAt: await this.plansService.getScreenshotExpiry(companyId),
             },
         });
 
@@ -237,7 +236,7 @@ export class ScreenshotsService {
                 intervalEnd: attemptedAt,
                 intervalMinutes,
                 captureStatus: dto.status,
-                expiresAt: this.getExpiryDate(),
+                expiresAt: await this.plansService.getScreenshotExpiry(companyId),
             },
         });
 
@@ -291,9 +290,12 @@ export class ScreenshotsService {
         }
 
         // Regular users can only view their own screenshots
-        if (currentUserRole === UserRole.USER && timeTracking.userId !== currentUserId) {
-            throw new ForbiddenException('You can only view your own screenshots');
-        }
+        await this.permissionsService.assert(
+            { id: currentUserId, role: currentUserRole, companyId },
+            Permission.SCREENSHOT_VIEW,
+            { ownerId: timeTracking.userId },
+            'You can only view your own screenshots',
+        );
 
         const where: any = { timeTrackingId };
         if (!includeDeleted) {
@@ -328,7 +330,7 @@ export class ScreenshotsService {
         };
 
         // Regular users can only see their own screenshots
-        if (currentUserRole === UserRole.USER) {
+        if (!(await this.permissionsService.can({ id: currentUserId, role: currentUserRole, companyId }, Permission.SCREENSHOT_VIEW_ALL))) {
             where.userId = currentUserId;
         } else if (query.userId) {
             where.userId = query.userId;
@@ -442,9 +444,12 @@ export class ScreenshotsService {
         }
 
         // Regular users can only view their own screenshots
-        if (currentUserRole === UserRole.USER && screenshot.userId !== currentUserId) {
-            throw new ForbiddenException('You can only view your own screenshots');
-        }
+        await this.permissionsService.assert(
+            { id: currentUserId, role: currentUserRole, companyId },
+            Permission.SCREENSHOT_VIEW,
+            { ownerId: screenshot.userId },
+            'You can only view your own screenshots',
+        );
 
         return screenshot;
     }
@@ -460,6 +465,7 @@ export class ScreenshotsService {
         companyId: string,
     ) {
         const screenshot = await this.getScreenshot(id, currentUserId, currentUserRole, companyId);
+        await this.permissionsService.assert({ id: currentUserId, role: currentUserRole, companyId }, Permission.SCREENSHOT_DELETE, { ownerId: screenshot.userId });
 
         if (screenshot.isDeleted) {
             throw new BadRequestException('Screenshot is already deleted');
@@ -468,6 +474,9 @@ export class ScreenshotsService {
         // Calculate time to deduct (the interval this screenshot covers)
         const minutesToDeduct = screenshot.intervalMinutes;
 
+        // Completed sessions are re-scored with the rules they were scored under (defaults for older sessions)
+        const scoring = await this.scoringService.getConfig(companyId, screenshot.timeTracking.scoringVersion ?? 0);
+
         // Use transaction for atomic update
         const result = await this.prisma.$transaction(async (prisma) => {
             // Soft delete the screenshot
@@ -492,7 +501,17 @@ export class ScreenshotsService {
 
             // If time tracking is completed, also deduct points
             if (!updatedTimeTracking.isActive && minutesToDeduct > 0) {
-                const pointsToDeduct = Math.floor(minutesToDeduct / 30); // 1 point per 30 mins
+                const pointsBefore = updatedTimeTracking.scoringVersion != null
+                    ? updatedTimeTracking.pointsEarned
+                    : calculateSessionPoints(updatedTimeTracking.durationMinutes + minutesToDeduct, scoring.rules);
+                const pointsAfter = calculateSessionPoints(Math.max(0, updatedTimeTracking.durationMinutes), scoring.rules);
+                const pointsToDeduct = Math.max(0, pointsBefore - pointsAfter);
+
+                await prisma.timeTracking.update({
+                    where: { id: screenshot.timeTrackingId },
+                    data: { pointsEarned: pointsAfter, scoringVersion: scoring.version },
+                });
+
                 if (pointsToDeduct > 0) {
                     await prisma.user.update({
                         where: { id: screenshot.userId },
@@ -640,9 +659,12 @@ export class ScreenshotsService {
             throw new ForbiddenException('Access denied');
         }
 
-        if (currentUserRole === UserRole.USER && timeTracking.userId !== currentUserId) {
-            throw new ForbiddenException('Access denied');
-        }
+        await this.permissionsService.assert(
+            { id: currentUserId, role: currentUserRole, companyId },
+            Permission.SCREENSHOT_VIEW,
+            { ownerId: timeTracking.userId },
+            'Access denied',
+        );
 
         const [stats, statusCounts] = await Promise.all([
             this.prisma.screenshot.aggregate({
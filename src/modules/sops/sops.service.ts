@@ -1,17 +1,20 @@
 // src/modules/sops/sops.service.ts
 import { Injectable, NotFoundException, ForbiddenException, BadRequestException } from '@nestjs/common';
 import { PrismaService } from '../../prisma/prisma.service';
-import { UserRole, SopStatus, NotificationType } from '@prisma/client';
+import { UserRole, SopStatus, SopType, NotificationType } from '@prisma/client';
 import { CreateSopDto, UpdateSopDto, ApproveSopDto, RejectSopDto, SopQueryDto } from './dto/sops.dto';
 import { StorageService } from '../storage/storage.service';
+import { PlanFeature, PlansService } from '../plans';
 import { EmailService } from '../email/email.service'; // Add this import
+import { memberOf } from '../memberships/membership.util';
 
 @Injectable()
 export class SopsService {
     constructor(
         private prisma: PrismaService,
         private storageService: StorageService,
-        private emailService: EmailService // Add this
+        private emailService: EmailService, // Add this
+        private plansService: PlansService,
     ) { }
 
     // ============================================
@@ -91,9 +94,7 @@ export class SopsService {
     ) {
         const admins = await this.prisma.user.findMany({
             where: {
-                companyId,
-                role: { in: [UserRole.COMPANY, UserRole.QC_ADMIN] },
-                isActive: true,
+                ...memberOf(companyId, { role: { in: [UserRole.COMPANY, UserRole.QC_ADMIN] }, isActive: true }),
                 id: { not: creatorId },
             },
             select: {
@@ -112,7 +113,8 @@ export class SopsService {
                 [admin.email],
                 sopTitle,
                 sopType,
-                creatorName
+                creatorName,
+                companyId
             );
         }
 
@@ -137,6 +139,10 @@ export class SopsService {
     // CREATE SOP
     // ============================================
     async create(createDto: CreateSopDto, currentUserId: string, companyId: string) {
+        if (createDto.type === SopType.VIDEO) {
+            await this.plansService.assertFeature(companyId, PlanFeature.SOP_VIDEO);
+        }
+
         // Get creator details for email
         const creator = await this.getUserEmailAndName(currentUserId);
 
@@ -215,12 +221,16 @@ export class SopsService {
         currentUserId: string,
         companyId: string
     ) {
-        // Upload main file
-        const fileResult = await this.storageService.uploadFile(file, companyId, 'sops');
-
         // Detect type from file
         const detectedType = this.storageService.getFileCategory(file.mimetype);
 
+        if (detectedType === SopType.VIDEO) {
+            await this.plansService.assertFeature(companyId, PlanFeature.SOP_VIDEO);
+        }
+
+        // Upload main file
+        const fileResult = await this.storageService.uploadFile(file, companyId, 'sops');
+
         // Upload thumbnail if provided
         let thumbnailUrl: string | undefined;
         if (thumbnailFile) {
@@ -262,6 +272,10 @@ export class SopsService {
             throw new ForbiddenException('You can only update your own SOPs');
         }
 
+        if (updateDto.type === SopType.VIDEO && sop.type !== SopType.VIDEO) {
+            await this.plansService.assertFeature(companyId, PlanFeature.SOP_VIDEO);
+        }
+
         // Get creator details
         const creator = await this.getUserEmailAndName(sop.createdById);
 
@@ -373,7 +387,8 @@ export class SopsService {
             await this.emailService.sendSopApprovedEmail(
                 approvedSop.createdBy.email,
                 approvedSop.createdBy.firstName,
-                sop.title
+                sop.title,
+                companyId
             );
 
             await this.sendNotification(
@@ -395,8 +410,7 @@ export class SopsService {
         // ============================================
         const allUsers = await this.prisma.user.findMany({
             where: {
-                companyId,
-                isActive: true,
+                ...memberOf(companyId, { isActive: true }),
                 id: { notIn: [currentUserId, sop.createdById] },
             },
             select: {
@@ -505,7 +519,8 @@ export class SopsService {
                 rejectedSop.createdBy.email,
                 rejectedSop.createdBy.firstName,
                 sop.title,
-                dto.rejectionReason
+                dto.rejectionReason,
+                companyId
             );
 
             await this.sendNotification(
@@ -714,7 +729,6 @@ export class SopsService {
         return sop;
     }
 
-
     // ============================================
     // INCREMENT VIEW COUNT
     // ============================================
@@ -773,7 +787,6 @@ export class SopsService {
         };
     }
 
-
     // ============================================
     // GET USER'S SOPs
     // ============================================
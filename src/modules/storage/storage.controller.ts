@@ -16,13 +16,17 @@ import { ApiTags, ApiOperation, ApiBearerAuth, ApiConsumes, ApiBody } from '@nes
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { CurrentUser } from '../auth/guards';
 import { StorageService, UploadResult } from './storage.service';
+import { PlanFeature, PlansService } from '../plans';
 
 @ApiTags('storage')
 @Controller('storage')
 @UseGuards(JwtAuthGuard)
 @ApiBearerAuth()
 export class StorageController {
-    constructor(private readonly storageService: StorageService) { }
+    constructor(
+        private readonly storageService: StorageService,
+        private readonly plansService: PlansService,
+    ) { }
 
     @Post('upload')
     @ApiOperation({ summary: 'Upload a single file' })
@@ -144,12 +148,16 @@ export class StorageController {
         const mainFile = files[0];
         const thumbnailFile = files.length > 1 ? files[1] : undefined;
 
-        // Upload main file
-        const fileResult = await this.storageService.uploadFile(mainFile, companyId, 'sops');
-
         // Detect file type
         const detectedType = this.storageService.getFileCategory(mainFile.mimetype);
 
+        if (detectedType === 'VIDEO') {
+            await this.plansService.assertFeature(companyId, PlanFeature.SOP_VIDEO);
+        }
+
+        // Upload main file
+        const fileResult = await this.storageService.uploadFile(mainFile, companyId, 'sops');
+
         // Upload thumbnail if provided
         let thumbnailResult: UploadResult | undefined;
         if (thumbnailFile) {
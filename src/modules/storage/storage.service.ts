@@ -4,6 +4,10 @@ import { ConfigService } from '@nestjs/config';
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import { v4 as uuidv4 } from 'uuid';
 import * as path from 'path';
+import { PlansService } from '../plans';
+
+const STORAGE_LIST_PAGE = 1000;
+const STORAGE_REMOVE_BATCH = 100;
 
 export interface UploadResult {
     url: string;
@@ -24,6 +28,8 @@ export interface FileValidationOptions {
 export class StorageService {
     private supabase: SupabaseClient;
     private bucketName: string;
+    // Exports hold a whole company's data, so they get their own private bucket and are only served by signed URL
+    private exportsBucketName: string;
 
     // Default allowed file types
     private readonly DEFAULT_ALLOWED_TYPES = {
@@ -48,7 +54,10 @@ export class StorageService {
         ...this.DEFAULT_ALLOWED_TYPES.document,
     ];
 
-    constructor(private configService: ConfigService) {
+    constructor(
+        private configService: ConfigService,
+        private plansService: PlansService,
+    ) {
         const supabaseUrl = this.configService.get<string>('SUPABASE_URL');
         const supabaseServiceKey = this.configService.get<string>('SUPABASE_SERVICE_ROLE_KEY');
 
@@ -64,10 +73,11 @@ export class StorageService {
         });
 
         this.bucketName = this.configService.get<string>('SUPABASE_STORAGE_BUCKET') || 'sops';
+        this.exportsBucketName = this.configService.get<string>('SUPABASE_EXPORTS_BUCKET') || 'data-exports';
     }
 
     /**
-     * Initialize the storage bucket if it doesn't exist
+     * Initialize the storage buckets if they don't exist
      */
     async initializeBucket(): Promise<void> {
         try {
@@ -85,6 +95,18 @@ export class StorageService {
                     console.error('Failed to create bucket:', error);
                 }
             }
+
+            // No size limit of its own: exports with screenshot files can be large
+            if (!buckets?.some(b => b.name === this.exportsBucketName)) {
+                const { error } = await this.supabase.storage.createBucket(this.exportsBucketName, {
+                    public: false,
+                    allowedMimeTypes: ['application/zip'],
+                });
+
+                if (error) {
+                    console.error('Failed to create exports bucket:', error);
+                }
+            }
         } catch (error) {
             console.error('Error initializing bucket:', error);
         }
@@ -142,6 +164,7 @@ export class StorageService {
     ): Promise<UploadResult> {
         // Validate file
         this.validateFile(file, options);
+        await this.plansService.assertStorageAvailable(companyId, file.size);
 
         // Generate unique filename
         const fileExt = path.extname(file.originalname);
@@ -161,6 +184,8 @@ export class StorageService {
             throw new InternalServerErrorException('Failed to upload file to storage');
         }
 
+        await this.plansService.recordStorageUsage(companyId, file.size);
+
         // Get public URL
         const { data: urlData } = this.supabase.storage
             .from(this.bucketName)
@@ -190,6 +215,7 @@ export class StorageService {
             maxSizeMB: 5,
             allowedMimeTypes: ['image/jpeg', 'image/png', 'image/webp'],
         });
+        await this.plansService.assertStorageAvailable(companyId, file.size);
 
         // Generate unique filename
         const fileExt = path.extname(file.originalname) || '.jpg';
@@ -223,6 +249,8 @@ export class StorageService {
             throw new InternalServerErrorException(`Failed to upload screenshot: ${error.message}`);
         }
 
+        await this.plansService.recordStorageUsage(companyId, file.size);
+
         // Get public URL
         const { data: urlData } = this.supabase.storage
             .from(this.bucketName)
@@ -265,7 +293,7 @@ export class StorageService {
      * Delete a file from storage
      */
     async deleteFile(filePath: string): Promise<void> {
-        const { error } = await this.supabase.storage
+        const { data, error } = await this.supabase.storage
             .from(this.bucketName)
             .remove([filePath]);
 
@@ -273,6 +301,8 @@ export class StorageService {
             console.error('Failed to delete file:', error);
             throw new InternalServerErrorException('Failed to delete file from storage');
         }
+
+        await this.releaseStorage(data);
     }
 
     /**
@@ -281,7 +311,7 @@ export class StorageService {
     async deleteMultipleFiles(filePaths: string[]): Promise<void> {
         if (filePaths.length === 0) return;
 
-        const { error } = await this.supabase.storage
+        const { data, error } = await this.supabase.storage
             .from(this.bucketName)
             .remove(filePaths);
 
@@ -289,6 +319,152 @@ export class StorageService {
             console.error('Failed to delete files:', error);
             throw new InternalServerErrorException('Failed to delete files from storage');
         }
+
+        await this.releaseStorage(data);
+    }
+
+    /**
+     * Gives the size of removed files back to each company's quota (paths start with the company id)
+     */
+    private async releaseStorage(removed: { name: string; metadata?: { size?: number } | null }[] | null): Promise<void> {
+        const bytesByCompany = new Map<string, number>();
+
+        for (const file of removed ?? []) {
+            const companyId = file.name.split('/')[0];
+            const size = Number(file.metadata?.size ?? 0);
+            bytesByCompany.set(companyId, (bytesByCompany.get(companyId) ?? 0) + size);
+        }
+
+        for (const [companyId, bytes] of bytesByCompany) {
+            try {
+                await this.plansService.recordStorageUsage(companyId, -bytes);
+            } catch (error) {
+                console.error('Failed to update storage usage:', error);
+            }
+        }
+    }
+
+    /**
+     * Store a generated company data export in the private exports bucket. The archive is streamed, not buffered.
+     * Exports are not counted against the plan's storage quota.
+     */
+    async uploadDataExport(companyId: string, exportId: string, archive: NodeJS.ReadableStream): Promise<string> {
+        const filePath = `${companyId}/${exportId}-${uuidv4()}.zip`;
+
+        const { error } = await this.supabase.storage
+            .from(this.exportsBucketName)
+            .upload(filePath, archive, {
+                contentType: 'application/zip',
+                upsert: false,
+                duplex: 'half',
+            });
+
+        if (error) {
+            console.error('Supabase export upload error:', error);
+            throw new InternalServerErrorException('Failed to upload export to storage');
+        }
+
+        return filePath;
+    }
+
+    /**
+     * Delete a data export without touching the storage quota
+     */
+    async deleteDataExport(filePath: string): Promise<void> {
+        const { error } = await this.supabase.storage
+            .from(this.exportsBucketName)
+            .remove([filePath]);
+
+        if (error) {
+            console.error('Failed to delete export:', error);
+            throw new InternalServerErrorException('Failed to delete export from storage');
+        }
+    }
+
+    /**
+     * Short-lived download link for a data export
+     */
+    async getDataExportUrl(filePath: string, expiresIn: number): Promise<string> {
+        const { data, error } = await this.supabase.storage
+            .from(this.exportsBucketName)
+            .createSignedUrl(filePath, expiresIn);
+
+        if (error) {
+            throw new InternalServerErrorException('Failed to generate signed URL');
+        }
+
+        return data.signedUrl;
+    }
+
+    /**
+     * Permanently removes everything under the company's folder (exports included) plus the listed paths, which the
+     * caller must have checked belong to the company. Used when a closed company is purged, so the storage quota is
+     * not updated.
+     */
+    async deleteCompanyFiles(companyId: string, extraPaths: string[] = []): Promise<number> {
+        const paths = [...new Set([...(await this.listFilesRecursive(companyId)), ...extraPaths])];
+        const exportPaths = await this.listFilesRecursive(companyId, this.exportsBucketName);
+
+        await this.removeInBatches(this.bucketName, paths);
+        await this.removeInBatches(this.exportsBucketName, exportPaths);
+
+        return paths.length + exportPaths.length;
+    }
+
+    private async removeInBatches(bucket: string, paths: string[]): Promise<void> {
+        for (let i = 0; i < paths.length; i += STORAGE_REMOVE_BATCH) {
+            const { error } = await this.supabase.storage
+                .from(bucket)
+                .remove(paths.slice(i, i + STORAGE_REMOVE_BATCH));
+
+            if (error) {
+                console.error('Failed to delete company files:', error);
+                throw new InternalServerErrorException('Failed to delete company files from storage');
+            }
+        }
+    }
+
+    private async listFilesRecursive(prefix: string, bucket: string = this.bucketName): Promise<string[]> {
+        const files: string[] = [];
+
+        for (let offset = 0; ; offset += STORAGE_LIST_PAGE) {
+            const { data, error } = await this.supabase.storage
+                .from(bucket)
+                .list(prefix, { limit: STORAGE_LIST_PAGE, offset });
+
+            if (error) {
+                console.error('Failed to list files:', error);
+                throw new InternalServerErrorException('Failed to list files in storage');
+            }
+
+            for (const item of data) {
+                // Folders come back without an id
+                if (item.id) {
+                    files.push(`${prefix}/${item.name}`);
+                } else {
+                    files.push(...(await this.listFilesRecursive(`${prefix}/${item.name}`, bucket)));
+                }
+            }
+
+            if (data.length < STORAGE_LIST_PAGE) {
+                return files;
+            }
+        }
+    }
+
+    /**
+     * Download a stored file's contents
+     */
+    async downloadFile(filePath: string): Promise<Buffer> {
+        const { data, error } = await this.supabase.storage
+            .from(this.bucketName)
+            .download(filePath);
+
+        if (error || !data) {
+            throw new InternalServerErrorException('Failed to download file from storage');
+        }
+
+        return Buffer.from(await data.arrayBuffer());
     }
 
     /**
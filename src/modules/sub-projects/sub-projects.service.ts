@@ -1,6 +1,7 @@
 // src/modules/sub-projects/sub-projects.service.ts
 import { Injectable, NotFoundException, ForbiddenException, BadRequestException } from '@nestjs/common';
 import { PrismaService } from '../../prisma/prisma.service';
+import { PermissionsService, Permission } from '../permissions';
 import { UserRole, SubProjectMemberRole, NotificationType, SubProjectStatus, ActivityType } from '@prisma/client';
 import {
     CreateSubProjectDto,
@@ -12,10 +13,14 @@ import {
     SubProjectQueryDto,
     AssignSubProjectDto,
 } from './dto/sub-projects.dto';
+import { memberOf } from '../memberships/membership.util';
 
 @Injectable()
 export class SubProjectsService {
-    constructor(private prisma: PrismaService) { }
+    constructor(
+        private prisma: PrismaService,
+        private permissionsService: PermissionsService,
+    ) { }
 
     private toDateTime(dateString?: string): Date | undefined {
         if (!dateString) return undefined;
@@ -52,13 +57,15 @@ export class SubProjectsService {
 
         if (!project) throw new NotFoundException('Project not found');
 
-        const user = await this.prisma.user.findFirst({ where: { id: currentUserId, companyId, isActive: true } });
+        const user = await this.prisma.user.findFirst({ where: { id: currentUserId, ...memberOf(companyId, { isActive: true }) } });
         if (!user) throw new ForbiddenException('You must be an active member of this company');
 
+        await this.permissionsService.assert({ id: currentUserId, role: currentUserRole, companyId }, Permission.SUBPROJECT_CREATE, { project });
+
         // Validate QC Head if provided
         if (createDto.qcHeadId) {
             const qcHead = await this.prisma.user.findFirst({
-                where: { id: createDto.qcHeadId, companyId, isActive: true, role: UserRole.QC_ADMIN },
+                where: { id: createDto.qcHeadId, ...memberOf(companyId, { isActive: true, role: UserRole.QC_ADMIN }) },
             });
             if (!qcHead) throw new BadRequestException('QC Head must be a user with QC_ADMIN role');
         }
@@ -73,7 +80,7 @@ export class SubProjectsService {
         let validMemberIds: string[] = [];
         if (memberIdsToAdd.length > 0) {
             const validMembers = await this.prisma.user.findMany({
-                where: { id: { in: memberIdsToAdd }, companyId, isActive: true },
+                where: { id: { in: memberIdsToAdd }, ...memberOf(companyId, { isActive: true }) },
                 select: { id: true },
             });
             validMemberIds = validMembers.map(m => m.id);
@@ -152,13 +159,11 @@ export class SubProjectsService {
     async update(id: string, updateDto: UpdateSubProjectDto, currentUserId: string, currentUserRole: UserRole, companyId: string) {
         const subProject = await this.findOne(id, companyId);
 
-        if (!this.canManageSubProject(currentUserRole, currentUserId, subProject)) {
-            throw new ForbiddenException('Insufficient permissions');
-        }
+        await this.permissionsService.assert({ id: currentUserId, role: currentUserRole, companyId }, Permission.SUBPROJECT_UPDATE, { subProject });
 
         if (updateDto.qcHeadId && updateDto.qcHeadId !== subProject.qcHeadId) {
             const newQcHead = await this.prisma.user.findFirst({
-                where: { id: updateDto.qcHeadId, companyId, isActive: true, role: UserRole.QC_ADMIN },
+                where: { id: updateDto.qcHeadId, ...memberOf(companyId, { isActive: true, role: UserRole.QC_ADMIN }) },
             });
             if (!newQcHead) throw new BadRequestException('QC Head must be QC_ADMIN');
         }
@@ -212,15 +217,11 @@ export class SubProjectsService {
     // ASSIGN QC HEAD
     // ============================================
     async assignQcHead(id: string, dto: AssignQcHeadDto, currentUserId: string, currentUserRole: UserRole, companyId: string) {
-        if (currentUserRole !== UserRole.COMPANY && currentUserRole !== UserRole.QC_ADMIN) {
-            const subProject = await this.findOne(id, companyId);
-            if (subProject.project.projectLeadId !== currentUserId) {
-                throw new ForbiddenException('Only company admin, QC admin, or project lead can assign QC Head');
-            }
-        }
+        const subProject = await this.findOne(id, companyId);
+        await this.permissionsService.assert({ id: currentUserId, role: currentUserRole, companyId }, Permission.SUBPROJECT_QC_HEAD_ASSIGN, { subProject });
 
         const qcHead = await this.prisma.user.findFirst({
-            where: { id: dto.qcHeadId, companyId, isActive: true, role: UserRole.QC_ADMIN },
+            where: { id: dto.qcHeadId, ...memberOf(companyId, { isActive: true, role: UserRole.QC_ADMIN }) },
         });
         if (!qcHead) throw new BadRequestException('QC Head must be QC_ADMIN');
 
@@ -232,9 +233,10 @@ export class SubProjectsService {
     // ============================================
     async addMembers(id: string, dto: AddSubProjectMembersDto, currentUserId: string, currentUserRole: UserRole, companyId: string) {
         const subProject = await this.findOne(id, companyId);
+        await this.permissionsService.assert({ id: currentUserId, role: currentUserRole, companyId }, Permission.SUBPROJECT_MEMBER_ADD, { subProject });
 
         const users = await this.prisma.user.findMany({
-            where: { id: { in: dto.userIds }, companyId, isActive: true },
+            where: { id: { in: dto.userIds }, ...memberOf(companyId, { isActive: true }) },
         });
         if (users.length !== dto.userIds.length) {
             throw new BadRequestException('Some users not found in this company');
@@ -268,9 +270,7 @@ export class SubProjectsService {
     async removeMembers(id: string, dto: RemoveSubProjectMembersDto, currentUserId: string, currentUserRole: UserRole, companyId: string) {
         const subProject = await this.findOne(id, companyId);
 
-        if (!this.canManageSubProject(currentUserRole, currentUserId, subProject)) {
-            throw new ForbiddenException('Insufficient permissions');
-        }
+        await this.permissionsService.assert({ id: currentUserId, role: currentUserRole, companyId }, Permission.SUBPROJECT_MEMBER_REMOVE, { subProject });
 
         if (subProject.qcHeadId && dto.userIds.includes(subProject.qcHeadId)) {
             throw new BadRequestException('Cannot remove QC Head. Reassign first.');
@@ -299,9 +299,7 @@ export class SubProjectsService {
     async updateMemberRole(id: string, dto: UpdateSubProjectMemberRoleDto, currentUserId: string, currentUserRole: UserRole, companyId: string) {
         const subProject = await this.findOne(id, companyId);
 
-        if (!this.canManageSubProject(currentUserRole, currentUserId, subProject)) {
-            throw new ForbiddenException('Insufficient permissions');
-        }
+        await this.permissionsService.assert({ id: currentUserId, role: currentUserRole, companyId }, Permission.SUBPROJECT_MEMBER_ROLE, { subProject });
 
         const member = await this.prisma.subProjectMember.findUnique({
             where: { subProjectId_userId: { subProjectId: id, userId: dto.userId } },
@@ -343,9 +341,7 @@ export class SubProjectsService {
     async delete(id: string, currentUserId: string, currentUserRole: UserRole, companyId: string) {
         const subProject = await this.findOne(id, companyId);
 
-        if (!this.canManageSubProject(currentUserRole, currentUserId, subProject)) {
-            throw new ForbiddenException('Insufficient permissions');
-        }
+        await this.permissionsService.assert({ id: currentUserId, role: currentUserRole, companyId }, Permission.SUBPROJECT_DELETE, { subProject });
 
         const memberIds = subProject.members?.map((m: any) => m.userId).filter((mid: string) => mid !== currentUserId) || [];
 
@@ -389,7 +385,6 @@ export class SubProjectsService {
         };
     }
 
-
     // ============================================
     // FIND ALL
     // ============================================
@@ -513,13 +508,4 @@ export class SubProjectsService {
         }
         return subProject;
     }
-
-    private canManageSubProject(userRole: UserRole, userId: string, subProject: any): boolean {
-        if (userRole === UserRole.COMPANY || userRole === UserRole.QC_ADMIN) return true;
-        if (subProject.project?.projectLeadId === userId) return true;
-        if (subProject.qcHeadId === userId) return true;
-        if (subProject.createdById === userId) return true;
-        const member = subProject.members?.find((m: any) => m.userId === userId);
-        return member && (member.role === SubProjectMemberRole.QC_HEAD || member.role === SubProjectMemberRole.REVIEWER);
-    }
 }
\ No newline at end of file
@@ -140,10 +140,9 @@ export class RejectTaskDto {
     @IsNotEmpty()
     reason: string;
 
-    @ApiPropertyOptional({ description: 'Points to deduct (0-20)', default: 0 })
+    @ApiPropertyOptional({ description: 'Points to deduct; defaults to the company rejection penalty and is capped by its scoring rules' })
     @IsInt()
     @Min(0)
-    @Max(20)
     @IsOptional()
     pointsToDeduct?: number;
 }
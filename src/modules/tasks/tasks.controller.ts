@@ -2,7 +2,7 @@
 import { Controller, Get, Post, Put, Delete, Body, Param, Query, UseGuards, Patch } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
-import { RolesGuard } from '../auth/guards/roles.guard';
+import { PermissionsGuard, RequirePermissions, Permission } from '../permissions';
 import { TasksService } from './tasks.service';
 import {
     CreateTaskDto,
@@ -15,8 +15,7 @@ import {
     ApproveTaskDto,
     RejectTaskDto
 } from './dto/tasks.dto';
-import { CurrentUser, Roles } from '../auth/guards';
-import { UserRole } from '@prisma/client';
+import { CurrentUser } from '../auth/guards';
 
 @ApiTags('tasks')
 @Controller('tasks')
@@ -43,8 +42,8 @@ export class TasksController {
     // GET TASKS PENDING REVIEW - QC Dashboard
     // ============================================
     @Get('pending-review')
-    @UseGuards(RolesGuard)
-    @Roles(UserRole.QC_ADMIN, UserRole.COMPANY)
+    @UseGuards(PermissionsGuard)
+    @RequirePermissions(Permission.TASK_REVIEW_QUEUE)
     @ApiOperation({ summary: 'Get all tasks pending review (QC_ADMIN/COMPANY)' })
     async getTasksPendingReview(
         @CurrentUser('companyId') companyId: string,
@@ -126,9 +125,7 @@ export class TasksController {
     // UNASSIGN USERS FROM TASK
     // ============================================
     @Patch(':id/unassign')
-    @UseGuards(RolesGuard)
-    @Roles(UserRole.QC_ADMIN, UserRole.COMPANY)
-    @ApiOperation({ summary: 'Unassign users from task (QC_ADMIN/COMPANY only)' })
+    @ApiOperation({ summary: 'Unassign users from task (admins, task creator, subproject QC head/creator or project lead)' })
     async unassignUsers(
         @Param('id') id: string,
         @Body() dto: UnassignTaskDto,
@@ -143,23 +140,22 @@ export class TasksController {
     // SUBMIT FOR REVIEW
     // ============================================
     @Patch(':id/submit-for-review')
-    @ApiOperation({ summary: 'Submit task for QC review (assignees only)' })
+    @ApiOperation({ summary: 'Submit task for QC review (assignees or creator)' })
     async submitForReview(
         @Param('id') id: string,
         @Body() dto: SubmitForReviewDto,
         @CurrentUser('id') userId: string,
+        @CurrentUser('role') role: string,
         @CurrentUser('companyId') companyId: string
     ) {
-        return this.tasksService.submitForReview(id, dto, userId, companyId);
+        return this.tasksService.submitForReview(id, dto, userId, role as any, companyId);
     }
 
     // ============================================
     // APPROVE TASK
     // ============================================
     @Patch(':id/approve')
-    @UseGuards(RolesGuard)
-    @Roles(UserRole.QC_ADMIN, UserRole.COMPANY)
-    @ApiOperation({ summary: 'Approve task and award points (QC_ADMIN/COMPANY only)' })
+    @ApiOperation({ summary: 'Approve task and award points (QC_ADMIN/COMPANY or subproject QC head/reviewer)' })
     async approveTask(
         @Param('id') id: string,
         @Body() dto: ApproveTaskDto,
@@ -174,9 +170,7 @@ export class TasksController {
     // REJECT TASK
     // ============================================
     @Patch(':id/reject')
-    @UseGuards(RolesGuard)
-    @Roles(UserRole.QC_ADMIN, UserRole.COMPANY)
-    @ApiOperation({ summary: 'Reject task and request revision (QC_ADMIN/COMPANY only)' })
+    @ApiOperation({ summary: 'Reject task and request revision (QC_ADMIN/COMPANY or subproject QC head/reviewer)' })
     async rejectTask(
         @Param('id') id: string,
         @Body() dto: RejectTaskDto,
@@ -205,9 +199,7 @@ export class TasksController {
     // REMOVE USER FROM PROJECT
     // ============================================
     @Delete('project/:projectId/user/:userId')
-    @UseGuards(RolesGuard)
-    @Roles(UserRole.QC_ADMIN, UserRole.COMPANY)
-    @ApiOperation({ summary: 'Remove user from project and all tasks (QC_ADMIN/COMPANY only)' })
+    @ApiOperation({ summary: 'Remove user from project and all tasks (QC_ADMIN/COMPANY or project lead)' })
     async removeUserFromProject(
         @Param('projectId') projectId: string,
         @Param('userId') targetUserId: string,
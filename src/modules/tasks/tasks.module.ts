@@ -4,9 +4,10 @@ import { TasksController } from './tasks.controller';
 import { TasksService } from './tasks.service';
 import { PrismaModule } from '../../prisma/prisma.module';
 import { LeaderboardModule } from '../leaderboard/leaderboard.module';
+import { ScoringModule } from '../scoring/scoring.module';
 
 @Module({
-    imports: [PrismaModule, LeaderboardModule],
+    imports: [PrismaModule, LeaderboardModule, ScoringModule],
     controllers: [TasksController],
     providers: [TasksService],
     exports: [TasksService],
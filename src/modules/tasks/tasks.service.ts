@@ -14,6 +14,11 @@ import {
     RejectTaskDto
 } from './dto/tasks.dto';
 import { LeaderboardService } from '../leaderboard/leaderboard.service';
+import { PermissionsService, Permission } from '../permissions';
+import { PlanFeature, PlansService } from '../plans';
+import { ScoringService } from '../scoring/scoring.service';
+import { calculateTaskPoints } from '../scoring/scoring.util';
+import { memberOf } from '../memberships/membership.util';
 
 @Injectable()
 export class TasksService {
@@ -22,6 +27,9 @@ export class TasksService {
     constructor(
         private prisma: PrismaService,
         private leaderboardService: LeaderboardService,
+        private permissionsService: PermissionsService,
+        private plansService: PlansService,
+        private scoringService: ScoringService,
     ) { }
 
     private toDateTime(dateString?: string): Date | undefined {
@@ -52,18 +60,20 @@ export class TasksService {
         const subProject = await this.prisma.subProject.findFirst({
             where: { id: createDto.subProjectId, project: { companyId } },
             include: {
-                project: { select: { id: true, name: true, companyId: true } },
+                project: { select: { id: true, name: true, companyId: true, projectLeadId: true } },
                 qcHead: { select: { id: true, firstName: true, lastName: true } },
-                members: { select: { userId: true } },
+                members: { select: { userId: true, role: true } },
             },
         });
 
         if (!subProject) throw new NotFoundException('SubProject not found');
 
         // Verify user belongs to company
-        const user = await this.prisma.user.findFirst({ where: { id: currentUserId, companyId, isActive: true } });
+        const user = await this.prisma.user.findFirst({ where: { id: currentUserId, ...memberOf(companyId, { isActive: true }) } });
         if (!user) throw new ForbiddenException('You must be an active member of this company');
 
+        await this.permissionsService.assert({ id: currentUserId, role: currentUserRole, companyId }, Permission.TASK_CREATE, { subProject });
+
         // Combine assigneeIds and legacy assignedToId
         let assigneeIds = createDto.assigneeIds || [];
         if (createDto.assignedToId && !assigneeIds.includes(createDto.assignedToId)) {
@@ -73,7 +83,7 @@ export class TasksService {
         // Validate all assignees belong to company
         if (assigneeIds.length > 0) {
             const validAssignees = await this.prisma.user.findMany({
-                where: { id: { in: assigneeIds }, companyId, isActive: true },
+                where: { id: { in: assigneeIds }, ...memberOf(companyId, { isActive: true }) },
                 select: { id: true },
             });
             if (validAssignees.length !== assigneeIds.length) {
@@ -178,10 +188,11 @@ export class TasksService {
     // ============================================
     async assignUsers(id: string, dto: AssignTaskDto, currentUserId: string, currentUserRole: UserRole, companyId: string) {
         const task = await this.findOne(id, companyId);
+        await this.permissionsService.assert({ id: currentUserId, role: currentUserRole, companyId }, Permission.TASK_ASSIGN, { task, subProject: task.subProject });
 
         // Validate all users belong to company
         const validUsers = await this.prisma.user.findMany({
-            where: { id: { in: dto.userIds }, companyId, isActive: true },
+            where: { id: { in: dto.userIds }, ...memberOf(companyId, { isActive: true }) },
             select: { id: true, firstName: true, lastName: true },
         });
         if (validUsers.length !== dto.userIds.length) {
@@ -258,20 +269,11 @@ export class TasksService {
     }
 
     // ============================================
-    // UNASSIGN USERS FROM TASK - QC_ADMIN/COMPANY or task creator
+    // UNASSIGN USERS FROM TASK - same people who can manage the task
     // ============================================
     async unassignUsers(id: string, dto: UnassignTaskDto, currentUserId: string, currentUserRole: UserRole, companyId: string) {
         const task = await this.findOne(id, companyId);
-
-        // Check permissions
-        const canUnassign = currentUserRole === UserRole.COMPANY ||
-            currentUserRole === UserRole.QC_ADMIN ||
-            task.createdById === currentUserId ||
-            task.subProject?.qcHeadId === currentUserId;
-
-        if (!canUnassign) {
-            throw new ForbiddenException('Only QC_ADMIN, COMPANY admin, task creator, or subproject QC head can unassign users');
-        }
+        await this.permissionsService.assert({ id: currentUserId, role: currentUserRole, companyId }, Permission.TASK_UNASSIGN, { task, subProject: task.subProject });
 
         await this.prisma.taskAssignee.deleteMany({
             where: { taskId: id, userId: { in: dto.userIds } },
@@ -295,14 +297,9 @@ export class TasksService {
     // ============================================
     // SUBMIT FOR REVIEW - Any assignee can submit
     // ============================================
-    async submitForReview(id: string, dto: SubmitForReviewDto, currentUserId: string, companyId: string) {
+    async submitForReview(id: string, dto: SubmitForReviewDto, currentUserId: string, currentUserRole: UserRole, companyId: string) {
         const task = await this.findOne(id, companyId);
-
-        // Verify user is an assignee
-        const isAssignee = task.assignees?.some((a: any) => a.userId === currentUserId);
-        if (!isAssignee && task.createdById !== currentUserId) {
-            throw new ForbiddenException('Only task assignees or creator can submit for review');
-        }
+        await this.permissionsService.assert({ id: currentUserId, role: currentUserRole, companyId }, Permission.TASK_SUBMIT, { task, subProject: task.subProject });
 
         // Verify task is in valid status
         if (task.status !== TaskStatus.IN_PROGRESS && task.status !== TaskStatus.NEEDS_REVISION) {
@@ -322,12 +319,9 @@ export class TasksService {
         // Get QC admins to notify
         const qcAdmins = await this.prisma.user.findMany({
             where: {
-                companyId,
-                isActive: true,
                 OR: [
-                    { role: UserRole.QC_ADMIN },
-                    { role: UserRole.COMPANY },
-                    { id: task.subProject?.qcHeadId || '' },
+                    memberOf(companyId, { isActive: true, role: { in: [UserRole.QC_ADMIN, UserRole.COMPANY] } }),
+                    { id: task.subProject?.qcHeadId || '', ...memberOf(companyId, { isActive: true }) },
                 ],
             },
             select: { id: true },
@@ -361,24 +355,18 @@ export class TasksService {
     }
 
     // ============================================
-    // APPROVE TASK - QC_ADMIN/COMPANY only
+    // APPROVE TASK - QC_ADMIN/COMPANY or the subproject's QC head / reviewers
     // ============================================
     async approveTask(id: string, dto: ApproveTaskDto, currentUserId: string, currentUserRole: UserRole, companyId: string) {
-        // Verify permission
-        if (currentUserRole !== UserRole.QC_ADMIN && currentUserRole !== UserRole.COMPANY) {
-            const task = await this.findOne(id, companyId);
-            if (task.subProject?.qcHeadId !== currentUserId) {
-                throw new ForbiddenException('Only QC_ADMIN, COMPANY admin, or subproject QC head can approve tasks');
-            }
-        }
-
         const task = await this.findOne(id, companyId);
+        await this.permissionsService.assert({ id: currentUserId, role: currentUserRole, companyId }, Permission.TASK_APPROVE, { task, subProject: task.subProject });
 
         if (task.status !== TaskStatus.IN_REVIEW) {
             throw new BadRequestException('Task must be IN_REVIEW status to approve');
         }
 
-        const totalPoints = task.pointsValue + (dto.bonusPoints || 0);
+        const scoring = await this.scoringService.getConfig(companyId);
+        const totalPoints = calculateTaskPoints(task.pointsValue, task.priority, scoring.rules) + (dto.bonusPoints || 0);
 
         await this.prisma.$transaction(async (prisma) => {
             // Update task
@@ -391,6 +379,7 @@ export class TasksService {
                     reviewStatus: ReviewStatus.APPROVED,
                     reviewNotes: dto.notes,
                     completedAt: new Date(),
+                    scoringVersion: scoring.version,
                 },
             });
 
@@ -426,7 +415,7 @@ export class TasksService {
         });
 
         // Notify all assignees
-        const assigneeIds = task.assignees?.map((a: any) => a.userId) || [];
+        const assigneeIds = task.assignees.map((a) => a.userId);
         const pointsPerAssignee = Math.floor(totalPoints / Math.max(assigneeIds.length, 1));
 
         if (assigneeIds.length > 0) {
@@ -440,17 +429,19 @@ export class TasksService {
                     taskTitle: task.title,
                     pointsEarned: pointsPerAssignee,
                     bonusPoints: dto.bonusPoints || 0,
+                    scoringVersion: scoring.version,
                     reviewNotes: dto.notes,
                     approvedBy: currentUserId,
                 }
             );
         }
 
-        // Update leaderboard/achievements for each assignee
-        for (const assigneeId of assigneeIds) {
+        // Update leaderboard/achievements for each assignee (only on plans that include them)
+        const tracksAchievements = await this.plansService.hasFeature(companyId, PlanFeature.LEADERBOARD);
+        for (const assigneeId of tracksAchievements ? assigneeIds : []) {
             try {
                 await this.leaderboardService.checkAndAwardAchievements(assigneeId, companyId);
-                await this.leaderboardService.updateUserStreak(assigneeId);
+                await this.leaderboardService.updateUserStreak(assigneeId, companyId);
             } catch (error) {
                 this.logger.error(`Failed to update leaderboard for user ${assigneeId}:`, error);
             }
@@ -458,30 +449,28 @@ export class TasksService {
 
         await this.logActivity(companyId, currentUserId, ActivityType.TASK_COMPLETED,
             `Approved task "${task.title}" - awarded ${totalPoints} points to ${assigneeIds.length} assignee(s)`,
-            { taskId: id, totalPoints, assigneeCount: assigneeIds.length });
+            { taskId: id, totalPoints, assigneeCount: assigneeIds.length, scoringVersion: scoring.version });
 
         return this.findOne(id, companyId);
     }
 
     // ============================================
-    // REJECT TASK - QC_ADMIN/COMPANY only
+    // REJECT TASK - QC_ADMIN/COMPANY or the subproject's QC head / reviewers
     // ============================================
     async rejectTask(id: string, dto: RejectTaskDto, currentUserId: string, currentUserRole: UserRole, companyId: string) {
-        // Verify permission
-        if (currentUserRole !== UserRole.QC_ADMIN && currentUserRole !== UserRole.COMPANY) {
-            const task = await this.findOne(id, companyId);
-            if (task.subProject?.qcHeadId !== currentUserId) {
-                throw new ForbiddenException('Only QC_ADMIN, COMPANY admin, or subproject QC head can reject tasks');
-            }
-        }
-
         const task = await this.findOne(id, companyId);
+        await this.permissionsService.assert({ id: currentUserId, role: currentUserRole, companyId }, Permission.TASK_REJECT, { task, subProject: task.subProject });
 
         if (task.status !== TaskStatus.IN_REVIEW) {
             throw new BadRequestException('Task must be IN_REVIEW status to reject');
         }
 
-        const pointsToDeduct = dto.pointsToDeduct || 0;
+        const scoring = await this.scoringService.getConfig(companyId);
+        const pointsToDeduct = dto.pointsToDeduct ?? scoring.rules.rejection.defaultPenalty;
+
+        if (pointsToDeduct > scoring.rules.rejection.maxPenalty) {
+            throw new BadRequestException(`A rejection can deduct at most ${scoring.rules.rejection.maxPenalty} points`);
+        }
 
         await this.prisma.$transaction(async (prisma) => {
             // Update task
@@ -495,21 +484,25 @@ export class TasksService {
                     reviewNotes: dto.reason,
                     revisionCount: { increment: 1 },
                     pointsDeducted: { increment: pointsToDeduct },
+                    scoringVersion: scoring.version,
                 },
             });
 
             // Deduct points if specified
             if (pointsToDeduct > 0) {
-                const assigneeIds = task.assignees?.map((a: any) => a.userId) || [];
+                const assigneeIds: string[] = task.assignees?.map((a) => a.userId) || [];
                 const deductionPerAssignee = Math.floor(pointsToDeduct / Math.max(assigneeIds.length, 1));
 
                 for (const assigneeId of assigneeIds) {
-                    await prisma.user.update({
-                        where: { id: assigneeId },
-                        data: {
-                            points: { decrement: Math.min(deductionPerAssignee, 0) }, // Ensure no negative
-                        },
-                    });
+                    const assignee = await prisma.user.findUnique({ where: { id: assigneeId }, select: { points: true } });
+                    const deduction = Math.min(deductionPerAssignee, assignee?.points ?? 0); // Ensure no negative
+
+                    if (deduction > 0) {
+                        await prisma.user.update({
+                            where: { id: assigneeId },
+                            data: { points: { decrement: deduction } },
+                        });
+                    }
                 }
             }
         });
@@ -528,6 +521,7 @@ export class TasksService {
                     taskTitle: task.title,
                     rejectionReason: dto.reason,
                     pointsDeducted: pointsToDeduct,
+                    scoringVersion: scoring.version,
                     revisionCount: task.revisionCount + 1,
                     rejectedBy: currentUserId,
                 }
@@ -547,7 +541,7 @@ export class TasksService {
 
         await this.logActivity(companyId, currentUserId, ActivityType.TASK_DELETED, // Using existing activity type
             `Rejected task "${task.title}" - Reason: ${dto.reason}`,
-            { taskId: id, reason: dto.reason, pointsDeducted: pointsToDeduct });
+            { taskId: id, reason: dto.reason, pointsDeducted: pointsToDeduct, scoringVersion: scoring.version });
 
         return this.findOne(id, companyId);
     }
@@ -597,11 +591,8 @@ export class TasksService {
     async update(id: string, updateDto: UpdateTaskDto, currentUserId: string, currentUserRole: UserRole, companyId: string) {
         const task = await this.findOne(id, companyId);
 
-        // Check permissions - anyone assigned or creator can update
-        const isAssignee = task.assignees?.some((a: any) => a.userId === currentUserId);
-        if (!this.canManageTask(currentUserRole, currentUserId, task) && !isAssignee) {
-            throw new ForbiddenException('Insufficient permissions');
-        }
+        // Assignees can update as well as the people who manage the task
+        await this.permissionsService.assert({ id: currentUserId, role: currentUserRole, companyId }, Permission.TASK_UPDATE, { task, subProject: task.subProject });
 
         const { dueDate, ...restData } = updateDto;
         const updateData: any = { ...restData };
@@ -626,9 +617,7 @@ export class TasksService {
     async delete(id: string, currentUserId: string, currentUserRole: UserRole, companyId: string) {
         const task = await this.findOne(id, companyId);
 
-        if (!this.canManageTask(currentUserRole, currentUserId, task)) {
-            throw new ForbiddenException('Insufficient permissions');
-        }
+        await this.permissionsService.assert({ id: currentUserId, role: currentUserRole, companyId }, Permission.TASK_DELETE, { task, subProject: task.subProject });
 
         // Notify assignees
         const assigneeIds = task.assignees?.map((a: any) => a.userId).filter((uid: string) => uid !== currentUserId) || [];
@@ -652,19 +641,17 @@ export class TasksService {
     }
 
     // ============================================
-    // REMOVE USER FROM PROJECT - QC_ADMIN/COMPANY only
+    // REMOVE USER FROM PROJECT - QC_ADMIN/COMPANY or project lead
     // ============================================
     async removeUserFromProject(projectId: string, userId: string, currentUserId: string, currentUserRole: UserRole, companyId: string) {
-        if (currentUserRole !== UserRole.QC_ADMIN && currentUserRole !== UserRole.COMPANY) {
-            throw new ForbiddenException('Only QC_ADMIN or COMPANY can remove users from projects');
-        }
-
         // Verify project exists
         const project = await this.prisma.project.findFirst({
             where: { id: projectId, companyId },
         });
         if (!project) throw new NotFoundException('Project not found');
 
+        await this.permissionsService.assert({ id: currentUserId, role: currentUserRole, companyId }, Permission.PROJECT_MEMBER_UNASSIGN, { project });
+
         // Remove from project members
         await this.prisma.projectMember.deleteMany({
             where: { projectId, userId },
@@ -798,6 +785,7 @@ export class TasksService {
                         qcHeadId: true,
                         createdById: true,
                         project: { select: { id: true, name: true, projectLeadId: true, companyId: true } },
+                        members: { select: { userId: true, role: true } },
                     },
                 },
                 timeTrackings: {
@@ -839,16 +827,4 @@ export class TasksService {
             },
         };
     }
-
-    // ============================================
-    // HELPER: Permission check
-    // ============================================
-    private canManageTask(userRole: UserRole, userId: string, task: any): boolean {
-        if (userRole === UserRole.COMPANY || userRole === UserRole.QC_ADMIN) return true;
-        if (task.createdById === userId) return true;
-        if (task.subProject?.qcHeadId === userId) return true;
-        if (task.subProject?.createdById === userId) return true;
-        if (task.subProject?.project?.projectLeadId === userId) return true;
-        return false;
-    }
 }
\ No newline at end of file
@@ -5,7 +5,7 @@ import { TimeTrackingService } from './time-tracking.service';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 // import { CurrentUser } from '../../common/decorators/current-user.decorator';
 import { StartTimeTrackingDto, StopTimeTrackingDto, UpdateTimeTrackingDto, AddScreenshotDto, TimeTrackingQueryDto, ManualTimeEntryDto } from './dto/time-tracking.dto';
-import { CurrentUser } from '../auth/guards';
+import { AllowWhenReadOnly, CurrentUser } from '../auth/guards';
 
 @ApiTags('time-tracking')
 @Controller('time-tracking')
@@ -21,12 +21,14 @@ export class TimeTrackingController {
     }
 
     @Post(':id/stop')
+    @AllowWhenReadOnly()
     @ApiOperation({ summary: 'Stop specific time tracking session' })
     async stop(@Param('id') id: string, @Body() dto: StopTimeTrackingDto, @CurrentUser('id') userId: string) {
         return this.timeTrackingService.stop(id, dto, userId);
     }
 
     @Post('stop-active')
+    @AllowWhenReadOnly()
     @ApiOperation({ summary: 'Stop current active timer (works from any device)' })
     async stopActive(@Body() dto: StopTimeTrackingDto, @CurrentUser('id') userId: string) {
         return this.timeTrackingService.stopActive(dto, userId);
@@ -2,8 +2,10 @@
 import { Module } from '@nestjs/common';
 import { TimeTrackingController } from './time-tracking.controller';
 import { TimeTrackingService } from './time-tracking.service';
+import { ScoringModule } from '../scoring/scoring.module';
 
 @Module({
+    imports: [ScoringModule],
     controllers: [TimeTrackingController],
     providers: [TimeTrackingService],
     exports: [TimeTrackingService],
@@ -4,17 +4,17 @@ import { Injectable, NotFoundException, ForbiddenException, BadRequestException,
 import { PrismaService } from '../../prisma/prisma.service';
 import { UserRole, NotificationType, ActivityType } from '@prisma/client';
 import { StartTimeTrackingDto, StopTimeTrackingDto, UpdateTimeTrackingDto, AddScreenshotDto, TimeTrackingQueryDto, ManualTimeEntryDto } from './dto/time-tracking.dto';
+import { ScoringService } from '../scoring/scoring.service';
+import { calculateSessionPoints } from '../scoring/scoring.util';
 
-const POINTS_CONFIG = {
-    MINUTES_PER_POINT: 30,
-    MAX_POINTS_PER_SESSION: 16,
-    MIN_MINUTES_FOR_POINT: 15,
-    MILESTONE_HOURS: [10, 50, 100, 500, 1000],
-};
+const MILESTONE_HOURS = [10, 50, 100, 500, 1000];
 
 @Injectable()
 export class TimeTrackingService {
-    constructor(private prisma: PrismaService) { }
+    constructor(
+        private prisma: PrismaService,
+        private scoringService: ScoringService,
+    ) { }
 
     // ============================================
     // Helper: Send notification
@@ -223,7 +223,8 @@ export class TimeTrackingService {
 
         // Calculate effective duration (subtract any deducted time)
         const durationMinutes = Math.max(0, rawDurationMinutes - timeTracking.timeDeducted);
-        const pointsEarned = this.calculatePoints(durationMinutes);
+        const scoring = await this.scoringService.getConfig(timeTracking.subProject.project.companyId);
+        const pointsEarned = calculateSessionPoints(durationMinutes, scoring.rules);
 
         // Screenshot validation for projects requiring screen capture
         let screenshotWarning: string | null = null;
@@ -245,6 +246,8 @@ export class TimeTrackingService {
                     durationMinutes,
                     isActive: false,
                     notes: dto.notes || timeTracking.notes,
+                    pointsEarned,
+                    scoringVersion: scoring.version,
                 },
                 include: {
                     subProject: {
@@ -308,6 +311,7 @@ export class TimeTrackingService {
                     projectName: timeTracking.subProject.project.name,
                     durationMinutes,
                     pointsEarned,
+                    scoringVersion: scoring.version,
                     screenshotsCount: timeTracking.screenCaptures.length,
                 },
             },
@@ -333,7 +337,7 @@ export class TimeTrackingService {
 
         const totalHours = Math.floor((totalTime._sum.durationMinutes || 0) / 60);
 
-        for (const milestone of POINTS_CONFIG.MILESTONE_HOURS) {
+        for (const milestone of MILESTONE_HOURS) {
             if (totalHours >= milestone) {
                 const existingNotification = await this.prisma.notification.findFirst({
                     where: {
@@ -385,7 +389,7 @@ export class TimeTrackingService {
             include: {
                 subProject: {
                     include: {
-                        project: { select: { id: true, name: true, screenCaptureEnabled: true } },
+                        project: { select: { id: true, name: true, companyId: true, screenCaptureEnabled: true } },
                     },
                 },
                 screenCaptures: {
@@ -405,6 +409,7 @@ export class TimeTrackingService {
         if (!activeTimer) return { active: false, timer: null };
 
         const elapsedMinutes = this.calculateElapsedMinutes(activeTimer.startTime);
+        const { rules } = await this.scoringService.getConfig(activeTimer.subProject.project.companyId);
 
         return {
             active: true,
@@ -418,7 +423,7 @@ export class TimeTrackingService {
                 elapsedMinutes,
                 elapsedFormatted: this.formatDuration(elapsedMinutes),
                 notes: activeTimer.notes,
-                potentialPoints: this.calculatePoints(elapsedMinutes),
+                potentialPoints: calculateSessionPoints(elapsedMinutes, rules),
                 screenCaptureRequired: activeTimer.screenCaptureRequired,
                 screenCaptureEnabled: activeTimer.subProject.project.screenCaptureEnabled,
                 recentScreenshots: activeTimer.screenCaptures,
@@ -737,14 +742,6 @@ export class TimeTrackingService {
         return Math.floor(((endTime || new Date()).getTime() - new Date(startTime).getTime()) / 1000 / 60);
     }
 
-    private calculatePoints(durationMinutes: number): number {
-        if (durationMinutes < POINTS_CONFIG.MIN_MINUTES_FOR_POINT) return 0;
-        return Math.min(
-            Math.floor(durationMinutes / POINTS_CONFIG.MINUTES_PER_POINT),
-            POINTS_CONFIG.MAX_POINTS_PER_SESSION,
-        );
-    }
-
     private formatDuration(minutes: number): string {
         const hours = Math.floor(minutes / 60);
         const mins = minutes % 60;
@@ -0,0 +1,16 @@
+// src/modules/users/dto/employment-dates.dto.ts
+import { Type } from 'class-transformer';
+import { IsOptional, IsInt, Min, Max } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export const DEFAULT_UPCOMING_DAYS = 30;
+
+export class UpcomingEmploymentQueryDto {
+    @ApiPropertyOptional({ default: DEFAULT_UPCOMING_DAYS, description: 'How many days ahead to look, counted from today in the company timezone' })
+    @IsOptional()
+    @Type(() => Number)
+    @IsInt()
+    @Min(1)
+    @Max(365)
+    days?: number;
+}
@@ -0,0 +1,123 @@
+// src/modules/users/dto/user-import.dto.ts
+import { Type } from 'class-transformer';
+import {
+    IsString, IsOptional, IsBoolean, IsArray, ArrayMaxSize, ValidateNested, IsNotEmpty,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export const MAX_IMPORT_ROWS = 500;
+
+export class ImportColumnsDto {
+    @ApiPropertyOptional({ example: 'Given name' })
+    @IsOptional()
+    @IsString()
+    firstName?: string;
+
+    @ApiPropertyOptional({ example: 'Family name' })
+    @IsOptional()
+    @IsString()
+    lastName?: string;
+
+    @ApiPropertyOptional({ example: 'Employee', description: 'Full name, split into first and last name' })
+    @IsOptional()
+    @IsString()
+    name?: string;
+
+    @ApiPropertyOptional({ example: 'Work email' })
+    @IsOptional()
+    @IsString()
+    email?: string;
+
+    @ApiPropertyOptional({ example: 'Access level' })
+    @IsOptional()
+    @IsString()
+    role?: string;
+
+    @ApiPropertyOptional({ example: 'Team' })
+    @IsOptional()
+    @IsString()
+    department?: string;
+
+    @ApiPropertyOptional({ example: 'Hire date' })
+    @IsOptional()
+    @IsString()
+    startDate?: string;
+
+    @ApiPropertyOptional({ example: 'Projects' })
+    @IsOptional()
+    @IsString()
+    projects?: string;
+}
+
+export class ImportUserRowDto {
+    @ApiPropertyOptional({ example: 'Jane' })
+    @IsOptional()
+    @IsString()
+    firstName?: string;
+
+    @ApiPropertyOptional({ example: 'Doe' })
+    @IsOptional()
+    @IsString()
+    lastName?: string;
+
+    @ApiPropertyOptional({ example: 'Jane Doe', description: 'Used when first and last name are not given' })
+    @IsOptional()
+    @IsString()
+    name?: string;
+
+    // Checked per row in the report instead of rejecting the whole request
+    @ApiProperty({ example: 'jane@acme.com' })
+    @IsString()
+    email: string;
+
+    @ApiPropertyOptional({ example: 'USER', description: 'USER (default), QC_ADMIN or COMPANY' })
+    @IsOptional()
+    @IsString()
+    role?: string;
+
+    @ApiPropertyOptional({ example: 'Engineering', description: 'Department name' })
+    @IsOptional()
+    @IsString()
+    department?: string;
+
+    @ApiPropertyOptional({ example: '2026-11-02', description: 'YYYY-MM-DD' })
+    @IsOptional()
+    @IsString()
+    startDate?: string;
+
+    @ApiPropertyOptional({ type: [String], example: ['Apollo'], description: 'Project names to add the user to as a member' })
+    @IsOptional()
+    @IsArray()
+    @IsString({ each: true })
+    projects?: string[];
+}
+
+export class ImportUsersDto {
+    @ApiPropertyOptional({
+        description: 'CSV with a header row. Recognised headers: first name, last name, name, email, role, department, start date, projects (separated by ";")',
+        example: 'name,email,role,department,start date,projects\nJane Doe,jane@acme.com,USER,Engineering,2026-11-02,Apollo;Gemini',
+    })
+    @IsOptional()
+    @IsString()
+    @IsNotEmpty()
+    csv?: string;
+
+    @ApiPropertyOptional({ description: 'CSV header to use for each field when the headers are not recognised' })
+    @IsOptional()
+    @ValidateNested()
+    @Type(() => ImportColumnsDto)
+    columns?: ImportColumnsDto;
+
+    @ApiPropertyOptional({ type: [ImportUserRowDto], description: 'Rows as JSON, instead of csv' })
+    @IsOptional()
+    @IsArray()
+    @ArrayMaxSize(MAX_IMPORT_ROWS)
+    @ValidateNested({ each: true })
+    @Type(() => ImportUserRowDto)
+    users?: ImportUserRowDto[];
+
+    @ApiPropertyOptional({ default: false, description: 'Only validate and return the report; nothing is created' })
+    @IsOptional()
+    @IsBoolean()
+    dryRun?: boolean;
+}
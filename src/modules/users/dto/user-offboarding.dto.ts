@@ -0,0 +1,15 @@
+// src/modules/users/dto/user-offboarding.dto.ts
+import { IsOptional, IsUUID, IsBoolean } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class OffboardUserDto {
+    @ApiPropertyOptional({ description: 'Active member who takes over department and project leads, QC head roles (when QC_ADMIN) and open tasks' })
+    @IsOptional()
+    @IsUUID()
+    successorId?: string;
+
+    @ApiPropertyOptional({ default: false, description: 'Unassign open tasks instead of handing them to the successor' })
+    @IsOptional()
+    @IsBoolean()
+    unassignTasks?: boolean;
+}
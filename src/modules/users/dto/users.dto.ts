@@ -1,6 +1,6 @@
 
 // src/modules/users/dto/users.dto.ts
-import { IsString, IsOptional, IsEmail, IsEnum, IsDateString } from 'class-validator';
+import { IsString, IsOptional, IsEmail, IsEnum, IsDateString, IsUUID } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
 import { UserRole } from '@prisma/client';
 // import { UserRole } from '../../../entities/user.entity';
@@ -48,7 +48,13 @@ export class UpdateUserDto {
 }
 
 export class UpdateUserRoleDto {
-    @ApiProperty({ enum: UserRole })
+    @ApiProperty({ enum: UserRole, required: false, description: 'Assign a fixed role' })
     @IsEnum(UserRole)
-    role: UserRole;
+    @IsOptional()
+    role?: UserRole;
+
+    @ApiProperty({ required: false, description: 'Assign a built-in or custom company role instead' })
+    @IsUUID()
+    @IsOptional()
+    customRoleId?: string;
 }
\ No newline at end of file
@@ -0,0 +1,245 @@
+// src/modules/users/employment-dates.service.ts
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { Prisma, UserRole } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { EmailService } from '../email/email.service';
+import { EmploymentChange } from '../email/interfaces/email.interface';
+import { PlansService } from '../plans';
+import { memberOf } from '../memberships/membership.util';
+import { daysBetween, getLocalHour, resolveTimezone, shiftDateKey, toDateKey } from '../companies/utils/calendar.util';
+import { UsersService } from './users.service';
+import { UserOffboardingService } from './user-offboarding.service';
+
+const NOTICE_LOCAL_HOUR = 8; // Admins get the notice at 8 AM company time
+const NOTICE_DAYS_AHEAD = [7, 1];
+
+const DATED_MEMBER_SELECT = {
+    id: true,
+    firstName: true,
+    lastName: true,
+    email: true,
+    isActive: true,
+    startDate: true,
+    endDate: true,
+    department: { select: { id: true, name: true } },
+} satisfies Prisma.UserSelect;
+
+type DatedMember = Prisma.UserGetPayload<{ select: typeof DATED_MEMBER_SELECT }>;
+
+/**
+ * Acts on employment dates. They are calendar dates (stored as UTC midnight) and take effect when that day
+ * starts in the company timezone. Dates live on the account, so they apply to the user's home company only.
+ */
+@Injectable()
+export class EmploymentDatesService {
+    private readonly logger = new Logger(EmploymentDatesService.name);
+
+    constructor(
+        private prisma: PrismaService,
+        private emailService: EmailService,
+        private plansService: PlansService,
+        private usersService: UsersService,
+        private offboardingService: UserOffboardingService,
+    ) { }
+
+    // ============================================
+    // SCHEDULED JOB
+    // ============================================
+
+    /**
+     * Activates members whose start date has come, offboards those whose end date has come and, once a day,
+     * tells company admins who starts or leaves in 7 days and tomorrow
+     */
+    async applyDueDates(now: Date = new Date()) {
+        const companies = await this.prisma.company.findMany({
+            where: { isActive: true },
+            select: { id: true, name: true, timezone: true },
+        });
+
+        const result = { activated: 0, deactivated: 0, noticesSent: 0 };
+        for (const company of companies) {
+            const timezone = resolveTimezone(company.timezone);
+            const today = toDateKey(now, timezone);
+
+            try {
+                result.activated += await this.activateStarters(company.id, today, now);
+                result.deactivated += await this.offboardLeavers(company.id, today, now);
+
+                if (getLocalHour(now, timezone) === NOTICE_LOCAL_HOUR) {
+                    result.noticesSent += await this.sendNotices(company, today);
+                }
+            } catch (error) {
+                this.logger.error(`Failed to apply employment dates for company ${company.id}:`, error);
+            }
+        }
+
+        return result;
+    }
+
+    // ============================================
+    // UPCOMING JOINERS & LEAVERS
+    // ============================================
+    async getUpcoming(companyId: string, days: number) {
+        const company = await this.prisma.company.findUnique({ where: { id: companyId }, select: { timezone: true } });
+        if (!company) {
+            throw new NotFoundException('Company not found');
+        }
+
+        const from = toDateKey(new Date(), resolveTimezone(company.timezone));
+        const to = shiftDateKey(from, days);
+        const range = { gte: new Date(from), lt: new Date(shiftDateKey(to, 1)) };
+
+        const [joiners, leavers, departmentsStarting, departmentsEnding] = await Promise.all([
+            this.prisma.user.findMany({
+                where: { companyId, startDate: range },
+                select: DATED_MEMBER_SELECT,
+                orderBy: { startDate: 'asc' },
+            }),
+            this.prisma.user.findMany({
+                where: { companyId, endDate: range },
+                select: DATED_MEMBER_SELECT,
+                orderBy: { endDate: 'asc' },
+            }),
+            this.prisma.department.findMany({
+                where: { companyId, startDate: range },
+                select: { id: true, name: true, startDate: true, endDate: true },
+                orderBy: { startDate: 'asc' },
+            }),
+            this.prisma.department.findMany({
+                where: { companyId, endDate: range },
+                select: { id: true, name: true, startDate: true, endDate: true },
+                orderBy: { endDate: 'asc' },
+            }),
+        ]);
+
+        const withDaysUntil = <T>(item: T, date: Date) => ({ ...item, daysUntil: daysBetween(from, toEmploymentDateKey(date)) });
+
+        return {
+            from,
+            to,
+            joiners: joiners.map((user) => withDaysUntil(user, user.startDate!)),
+            leavers: leavers.map((user) => withDaysUntil(user, user.endDate!)),
+            // Department dates are informational; nothing is switched on or off for them
+            departments: {
+                starting: departmentsStarting.map((department) => withDaysUntil(department, department.startDate!)),
+                ending: departmentsEnding.map((department) => withDaysUntil(department, department.endDate!)),
+            },
+        };
+    }
+
+    // ============================================
+    // HELPERS
+    // ============================================
+    private async activateStarters(companyId: string, today: string, now: Date) {
+        const tomorrow = new Date(shiftDateKey(today, 1));
+        const starters = await this.prisma.user.findMany({
+            where: { companyId, startDate: { lt: tomorrow }, startDateAppliedAt: null },
+            select: { id: true, firstName: true, lastName: true, isActive: true, endDate: true },
+        });
+
+        let activated = 0;
+        for (const starter of starters) {
+            // Already active, or gone again before the job ran: nothing to switch on
+            if (!starter.isActive && !(starter.endDate && starter.endDate < tomorrow)) {
+                const { available } = await this.plansService.getSeatAvailability(companyId);
+                if (available !== null && available <= 0) {
+                    // Retried every hour until a seat frees up
+                    this.logger.warn(`No free seat to activate user ${starter.id} on their start date`);
+                    continue;
+                }
+
+                await this.usersService.activateUser(starter.id, companyId);
+                await this.prisma.activityLog.create({
+                    data: {
+                        companyId,
+                        activityType: 'USER_ROLE_CHANGED',
+                        description: `Activated user ${starter.firstName} ${starter.lastName} on their start date`,
+                        metadata: { targetUserId: starter.id, action: 'activate', reason: 'start_date' },
+                    },
+                });
+                activated++;
+            }
+
+            await this.prisma.user.update({ where: { id: starter.id }, data: { startDateAppliedAt: now } });
+        }
+
+        return activated;
+    }
+
+    private async offboardLeavers(companyId: string, today: string, now: Date) {
+        const leavers = await this.prisma.user.findMany({
+            where: { companyId, endDate: { lt: new Date(shiftDateKey(today, 1)) }, endDateAppliedAt: null },
+            select: { id: true, role: true, isActive: true },
+        });
+
+        let deactivated = 0;
+        for (const leaver of leavers) {
+            // Company admins can't be deactivated by hand either
+            if (leaver.isActive && leaver.role !== UserRole.COMPANY) {
+                await this.offboardingService.offboardOnEndDate(leaver.id, companyId);
+                deactivated++;
+            } else if (leaver.role === UserRole.COMPANY) {
+                this.logger.warn(`Skipped deactivating company admin ${leaver.id} on their end date`);
+            }
+
+            await this.prisma.user.update({ where: { id: leaver.id }, data: { endDateAppliedAt: now } });
+        }
+
+        return deactivated;
+    }
+
+    private async sendNotices(company: { id: string; name: string }, today: string) {
+        const noticeDates = NOTICE_DAYS_AHEAD.map((days) => new Date(shiftDateKey(today, days)));
+        const [joiners, leavers] = await Promise.all([
+            this.prisma.user.findMany({
+                where: { companyId: company.id, startDate: { in: noticeDates } },
+                select: DATED_MEMBER_SELECT,
+                orderBy: { startDate: 'asc' },
+            }),
+            this.prisma.user.findMany({
+                where: { companyId: company.id, endDate: { in: noticeDates } },
+                select: DATED_MEMBER_SELECT,
+                orderBy: { endDate: 'asc' },
+            }),
+        ]);
+
+        if (joiners.length === 0 && leavers.length === 0) {
+            return 0;
+        }
+
+        const toChange = (user: DatedMember, date: Date): EmploymentChange => ({
+            name: `${user.firstName} ${user.lastName}`,
+            date: toEmploymentDateKey(date),
+            daysUntil: daysBetween(today, toEmploymentDateKey(date)),
+            department: user.department?.name ?? null,
+        });
+
+        const admins = await this.prisma.user.findMany({
+            where: memberOf(company.id, { role: UserRole.COMPANY, isActive: true }),
+            select: { email: true, firstName: true },
+        });
+
+        let sent = 0;
+        for (const admin of admins) {
+            try {
+                await this.emailService.sendEmploymentChangesEmail(
+                    admin.email,
+                    admin.firstName,
+                    company.name,
+                    company.id,
+                    joiners.map((user) => toChange(user, user.startDate!)),
+                    leavers.map((user) => toChange(user, user.endDate!)),
+                );
+                sent++;
+            } catch (error) {
+                console.error('Failed to send employment changes email:', error);
+            }
+        }
+
+        return sent;
+    }
+}
+
+function toEmploymentDateKey(date: Date): string {
+    return date.toISOString().slice(0, 10);
+}
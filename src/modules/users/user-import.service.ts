@@ -0,0 +1,291 @@
+// src/modules/users/user-import.service.ts
+import { Injectable, BadRequestException } from '@nestjs/common';
+import * as bcrypt from 'bcryptjs';
+import { isEmail } from 'class-validator';
+import { v4 as uuidv4 } from 'uuid';
+import { InvitationStatus, ProjectMemberRole, User, UserRole } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { EmailService } from '../email/email.service';
+import { PlansService } from '../plans';
+import { generateToken, hashToken } from '../auth/utils/token.util';
+import { OneTimeCodeType } from '../auth/interfaces/one-time-code.interface';
+import { resolveTimezone, toDateKey } from '../companies/utils/calendar.util';
+import { ImportUsersDto, MAX_IMPORT_ROWS } from './dto/user-import.dto';
+import { ImportRowInput, mapImportColumns, parseCsv, toImportRow } from './utils/user-import.util';
+
+const SET_PASSWORD_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days, matches the welcome email
+const IMPORTABLE_ROLES: UserRole[] = [UserRole.USER, UserRole.QC_ADMIN, UserRole.COMPANY];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+type Importer = Pick<User, 'id' | 'companyId'>;
+
+interface ValidatedRow extends ImportRowInput {
+    roleValue: UserRole;
+    departmentId: string | null;
+    startDateValue: Date | null;
+    projectIds: string[];
+    errors: string[];
+}
+
+@Injectable()
+export class UserImportService {
+    constructor(
+        private prisma: PrismaService,
+        private emailService: EmailService,
+        private plansService: PlansService,
+    ) { }
+
+    // ============================================
+    // IMPORT
+    // ============================================
+
+    /**
+     * Validates every row and returns the report; unless it is a dry run, creates the users in one transaction
+     * when nothing is wrong and sends each of them a welcome email with a link to set their password
+     */
+    async import(dto: ImportUsersDto, currentUser: Importer) {
+        const companyId = currentUser.companyId;
+        const rows = await this.validate(this.readRows(dto), companyId);
+
+        const validRows = rows.filter((row) => row.errors.length === 0);
+        const { plan, available } = await this.plansService.getSeatAvailability(companyId, { includePendingInvitations: true });
+
+        const errors: string[] = [];
+        if (available !== null && validRows.length > available) {
+            errors.push(
+                `The ${plan.name} plan has ${available} free seats but this import adds ${validRows.length} users. Upgrade the plan or import fewer users.`,
+            );
+        }
+
+        const report = {
+            dryRun: dto.dryRun ?? false,
+            total: rows.length,
+            valid: validRows.length,
+            invalid: rows.length - validRows.length,
+            seats: { needed: validRows.length, available },
+            errors,
+            rows: rows.map((row) => this.toReportRow(row)),
+        };
+
+        if (report.dryRun) {
+            return report;
+        }
+
+        if (report.invalid > 0 || errors.length > 0) {
+            throw new BadRequestException({
+                code: 'IMPORT_INVALID',
+                message: 'Nothing was imported. Fix the rows with errors and try again.',
+                ...report,
+            });
+        }
+
+        const created = await this.createUsers(validRows, currentUser);
+
+        return { ...report, created: created.length, users: created };
+    }
+
+    // ============================================
+    // HELPERS
+    // ============================================
+    private readRows(dto: ImportUsersDto): ImportRowInput[] {
+        if (!dto.csv === !dto.users) {
+            throw new BadRequestException('Provide either csv or users');
+        }
+
+        let rows: ImportRowInput[];
+        if (dto.users) {
+            rows = dto.users.map((user, index) => toImportRow(index + 1, user));
+        } else {
+            const [header, ...table] = parseCsv(dto.csv!);
+            const columns = mapImportColumns(header ?? [], dto.columns);
+
+            if (columns.email === undefined) {
+                throw new BadRequestException('The CSV has no email column. Name it "email" or map it with columns.email.');
+            }
+            if (columns.name === undefined && (columns.firstName === undefined || columns.lastName === undefined)) {
+                throw new BadRequestException('The CSV needs a "name" column or "first name" and "last name" columns.');
+            }
+
+            rows = table.map((cells, index) => toImportRow(
+                index + 1,
+                Object.fromEntries(Object.entries(columns).map(([field, column]) => [field, cells[column]])),
+            ));
+        }
+
+        if (rows.length === 0) {
+            throw new BadRequestException('The import has no rows');
+        }
+        if (rows.length > MAX_IMPORT_ROWS) {
+            throw new BadRequestException(`At most ${MAX_IMPORT_ROWS} users can be imported at once`);
+        }
+
+        return rows;
+    }
+
+    private async validate(rows: ImportRowInput[], companyId: string): Promise<ValidatedRow[]> {
+        const emails = rows.map((row) => row.email).filter(Boolean);
+
+        const [departments, projects, existingUsers, invitations] = await Promise.all([
+            this.prisma.department.findMany({ where: { companyId }, select: { id: true, name: true } }),
+            this.prisma.project.findMany({ where: { companyId }, select: { id: true, name: true } }),
+            this.prisma.user.findMany({
+                where: { email: { in: emails, mode: 'insensitive' } },
+                select: { email: true, companyId: true, memberships: { where: { companyId }, select: { id: true } } },
+            }),
+            this.prisma.invitation.findMany({
+                where: {
+                    companyId,
+                    email: { in: emails, mode: 'insensitive' },
+                    status: InvitationStatus.PENDING,
+                    expiresAt: { gt: new Date() },
+                },
+                select: { email: true },
+            }),
+        ]);
+
+        const departmentsByName = new Map(departments.map((department) => [department.name.toLowerCase(), department.id]));
+        const projectsByName = new Map(projects.map((project) => [project.name.toLowerCase(), project.id]));
+        const existingByEmail = new Map(existingUsers.map((user) => [user.email.toLowerCase(), user]));
+        const invitedEmails = new Set(invitations.map((invitation) => invitation.email.toLowerCase()));
+        const firstRowByEmail = new Map<string, number>();
+
+        return rows.map((row) => {
+            const errors: string[] = [];
+
+            if (!row.email) {
+                errors.push('Email is required');
+            } else if (!isEmail(row.email)) {
+                errors.push(`"${row.email}" is not a valid email`);
+            } else if (firstRowByEmail.has(row.email)) {
+                errors.push(`Duplicate of row ${firstRowByEmail.get(row.email)}`);
+            } else {
+                firstRowByEmail.set(row.email, row.row);
+
+                const existing = existingByEmail.get(row.email);
+                if (existing && (existing.companyId === companyId || existing.memberships.length > 0)) {
+                    errors.push('Already a member of this company');
+                } else if (existing) {
+                    // Joining needs their password, which only the invitation flow asks for
+                    errors.push('Has an account in another company; invite them instead');
+                } else if (invitedEmails.has(row.email)) {
+                    errors.push('Has a pending invitation');
+                }
+            }
+
+            if (!row.firstName || !row.lastName) {
+                errors.push('First and last name are required');
+            }
+
+            const roleValue = (row.role ?? UserRole.USER).toUpperCase().replace(/[\s-]+/g, '_') as UserRole;
+            if (!IMPORTABLE_ROLES.includes(roleValue)) {
+                errors.push(`Unknown role "${row.role}" (use ${IMPORTABLE_ROLES.join(', ')})`);
+            }
+
+            const departmentId = row.department ? departmentsByName.get(row.department.toLowerCase()) ?? null : null;
+            if (row.department && !departmentId) {
+                errors.push(`Unknown department "${row.department}"`);
+            }
+
+            const startDateValue = row.startDate ? new Date(`${row.startDate}T00:00:00.000Z`) : null;
+            if (row.startDate && (!DATE_PATTERN.test(row.startDate) || isNaN(startDateValue!.getTime()))) {
+                errors.push(`Start date "${row.startDate}" must be YYYY-MM-DD`);
+            }
+
+            const projectIds: string[] = [];
+            for (const name of row.projects) {
+                const projectId = projectsByName.get(name.toLowerCase());
+                if (projectId) {
+                    projectIds.push(projectId);
+                } else {
+                    errors.push(`Unknown project "${name}"`);
+                }
+            }
+
+            return { ...row, roleValue, departmentId, startDateValue, projectIds, errors };
+        });
+    }
+
+    private async createUsers(rows: ValidatedRow[], currentUser: Importer) {
+        // Unusable password: the secret is discarded, so nobody signs in until they set their own through the emailed link
+        const password = await bcrypt.hash(generateToken(), 10);
+        const expiresAt = new Date(Date.now() + SET_PASSWORD_TTL_MS);
+
+        const created = rows.map((row) => ({ row, id: uuidv4(), token: generateToken() }));
+
+        const company = await this.prisma.company.findUniqueOrThrow({
+            where: { id: currentUser.companyId },
+            select: { name: true, timezone: true },
+        });
+        // Future starters stay inactive until the employment date job activates them on their start date
+        const today = toDateKey(new Date(), resolveTimezone(company.timezone));
+
+        await this.prisma.$transaction(async (prisma) => {
+            await prisma.user.createMany({
+                data: created.map(({ row, id }) => ({
+                    id,
+                    email: row.email,
+                    password,
+                    firstName: row.firstName,
+                    lastName: row.lastName,
+                    role: row.roleValue,
+                    companyId: currentUser.companyId,
+                    departmentId: row.departmentId,
+                    startDate: row.startDateValue,
+                    isActive: !row.startDate || row.startDate <= today,
+                })),
+            });
+
+            await prisma.projectMember.createMany({
+                data: created.flatMap(({ row, id }) => row.projectIds.map((projectId) => ({
+                    projectId,
+                    userId: id,
+                    role: ProjectMemberRole.MEMBER,
+                }))),
+                skipDuplicates: true,
+            });
+
+            await prisma.oneTimeCode.createMany({
+                data: created.map(({ id, token }) => ({
+                    code: hashToken(token),
+                    userId: id,
+                    type: OneTimeCodeType.PASSWORD_RESET,
+                    expiresAt,
+                })),
+            });
+
+            await prisma.activityLog.create({
+                data: {
+                    companyId: currentUser.companyId,
+                    userId: currentUser.id,
+                    activityType: 'USERS_IMPORTED',
+                    description: `Imported ${created.length} users`,
+                    metadata: { userIds: created.map(({ id }) => id) },
+                },
+            });
+        });
+
+        for (const { row, token } of created) {
+            try {
+                await this.emailService.sendWelcomeUserEmail(row.email, row.firstName, company.name, currentUser.companyId, token);
+            } catch (error) {
+                console.error('Failed to send welcome email:', error);
+            }
+        }
+
+        return created.map(({ row, id }) => ({ id, email: row.email }));
+    }
+
+    private toReportRow(row: ValidatedRow) {
+        return {
+            row: row.row,
+            email: row.email,
+            firstName: row.firstName,
+            lastName: row.lastName,
+            role: row.roleValue,
+            department: row.department,
+            startDate: row.startDate,
+            projects: row.projects,
+            errors: row.errors,
+        };
+    }
+}
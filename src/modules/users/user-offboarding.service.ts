@@ -0,0 +1,293 @@
+// src/modules/users/user-offboarding.service.ts
+import { Injectable, BadRequestException, ForbiddenException } from '@nestjs/common';
+import { NotificationType, ProjectMemberRole, SubProjectMemberRole, TaskStatus, User, UserRole } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { MembershipsService } from '../memberships/memberships.service';
+import { TimeTrackingService } from '../time-tracking/time-tracking.service';
+import { UsersService } from './users.service';
+import { OffboardUserDto } from './dto/user-offboarding.dto';
+
+type Successor = Pick<User, 'id' | 'firstName' | 'lastName' | 'role'>;
+
+@Injectable()
+export class UserOffboardingService {
+    constructor(
+        private prisma: PrismaService,
+        private usersService: UsersService,
+        private membershipsService: MembershipsService,
+        private timeTrackingService: TimeTrackingService,
+    ) { }
+
+    // ============================================
+    // OFFBOARD
+    // ============================================
+
+    /**
+     * Hands a leaving member's work over to a successor (or leaves it unassigned), stops their timers,
+     * deactivates them in the company and returns what was handed over
+     */
+    async offboard(id: string, dto: OffboardUserDto, currentUser: User) {
+        const companyId = currentUser.companyId;
+
+        if (currentUser.role !== UserRole.COMPANY) {
+            throw new ForbiddenException('Only company admin can offboard users');
+        }
+
+        // Same rules as a plain deactivation, checked before anything is handed over
+        const user = await this.usersService.findOne(id, companyId);
+        if (user.id === currentUser.id) {
+            throw new ForbiddenException('Cannot offboard your own account');
+        }
+        if (user.role === UserRole.COMPANY) {
+            throw new ForbiddenException('Cannot offboard company admin');
+        }
+
+        const successor = dto.successorId ? await this.findSuccessor(dto.successorId, id, companyId) : null;
+
+        const report = await this.handOver(user, companyId, successor, dto.unassignTasks ?? false, currentUser.id);
+        await this.usersService.deactivate(id, currentUser);
+
+        return report;
+    }
+
+    /**
+     * Cleanup run by the employment date job on a member's end date: everything is left unassigned
+     */
+    async offboardOnEndDate(userId: string, companyId: string) {
+        const user = await this.usersService.findOne(userId, companyId);
+
+        const report = await this.handOver(user, companyId, null, true, null);
+        await this.usersService.deactivateUser(userId, companyId);
+
+        return report;
+    }
+
+    // ============================================
+    // HELPERS
+    // ============================================
+
+    /**
+     * Stops the member's timers and moves their tasks, QC head roles, leads and desktop agents as described in
+     * the report; `actorId` is null when the employment date job runs it
+     */
+    private async handOver(
+        user: Pick<User, 'id' | 'firstName' | 'lastName' | 'email'>,
+        companyId: string,
+        successor: Successor | null,
+        unassignTasks: boolean,
+        actorId: string | null,
+    ) {
+        const id = user.id;
+        const taskSuccessorId = unassignTasks ? null : successor?.id ?? null;
+        // QC heads must be QC admins (same rule as assigning one on a sub-project)
+        const qcSuccessorId = successor?.role === UserRole.QC_ADMIN ? successor.id : null;
+
+        // Stopped through the time tracking service so the session is scored like a normal stop
+        const activeSessions = await this.prisma.timeTracking.findMany({
+            where: { userId: id, isActive: true, subProject: { project: { companyId } } },
+            select: { id: true },
+        });
+        const stoppedSessions: { id: string; subProjectTitle: string; durationMinutes: number; pointsEarned: number }[] = [];
+        for (const session of activeSessions) {
+            const stopped = await this.timeTrackingService.stop(session.id, {}, id);
+            stoppedSessions.push({
+                id: stopped.id,
+                subProjectTitle: stopped.subProject.title,
+                durationMinutes: stopped.durationMinutes,
+                pointsEarned: stopped.pointsEarned,
+            });
+        }
+
+        const [assignments, qcSubProjects, departments, projects, otherCompanies] = await Promise.all([
+            this.prisma.taskAssignee.findMany({
+                where: {
+                    userId: id,
+                    isCompleted: false,
+                    task: {
+                        status: { notIn: [TaskStatus.COMPLETED, TaskStatus.CANCELLED] },
+                        subProject: { project: { companyId } },
+                    },
+                },
+                include: { task: { select: { id: true, title: true, subProjectId: true, assignedToId: true } } },
+            }),
+            this.prisma.subProject.findMany({
+                where: { qcHeadId: id, project: { companyId } },
+                select: { id: true, title: true },
+            }),
+            this.prisma.department.findMany({ where: { leadId: id, companyId }, select: { id: true, name: true } }),
+            this.prisma.project.findMany({ where: { projectLeadId: id, companyId }, select: { id: true, name: true } }),
+            this.membershipsService.findCompanies(id),
+        ]);
+
+        // Agents belong to the account, so they keep running while the user still works for another company
+        const keepsDesktopAgents = otherCompanies.some(
+            (membership) => membership.company.id !== companyId && membership.isActive && membership.company.isActive,
+        );
+
+        const desktopAgentsDeactivated = await this.prisma.$transaction(async (prisma) => {
+            for (const assignment of assignments) {
+                const { task } = assignment;
+
+                if (taskSuccessorId) {
+                    const alreadyAssigned = await prisma.taskAssignee.findUnique({
+                        where: { taskId_userId: { taskId: task.id, userId: taskSuccessorId } },
+                    });
+
+                    if (alreadyAssigned) {
+                        await prisma.taskAssignee.delete({ where: { id: assignment.id } });
+                    } else {
+                        await prisma.taskAssignee.update({
+                            where: { id: assignment.id },
+                            data: { userId: taskSuccessorId, assignedById: actorId, assignedAt: new Date() },
+                        });
+                    }
+
+                    await prisma.subProjectMember.upsert({
+                        where: { subProjectId_userId: { subProjectId: task.subProjectId, userId: taskSuccessorId } },
+                        create: { subProjectId: task.subProjectId, userId: taskSuccessorId, role: SubProjectMemberRole.MEMBER },
+                        update: {},
+                    });
+                } else {
+                    await prisma.taskAssignee.delete({ where: { id: assignment.id } });
+                }
+
+                // Update legacy field
+                if (task.assignedToId === id) {
+                    await prisma.task.update({ where: { id: task.id }, data: { assignedToId: taskSuccessorId } });
+                }
+            }
+
+            const subProjectIds = qcSubProjects.map((subProject) => subProject.id);
+            await prisma.subProject.updateMany({ where: { id: { in: subProjectIds } }, data: { qcHeadId: qcSuccessorId } });
+            await prisma.subProjectMember.updateMany({
+                where: { subProjectId: { in: subProjectIds }, userId: id },
+                data: { role: SubProjectMemberRole.MEMBER },
+            });
+            if (qcSuccessorId) {
+                for (const subProjectId of subProjectIds) {
+                    await prisma.subProjectMember.upsert({
+                        where: { subProjectId_userId: { subProjectId, userId: qcSuccessorId } },
+                        create: { subProjectId, userId: qcSuccessorId, role: SubProjectMemberRole.QC_HEAD },
+                        update: { role: SubProjectMemberRole.QC_HEAD },
+                    });
+                }
+            }
+
+            await prisma.department.updateMany({
+                where: { id: { in: departments.map((department) => department.id) } },
+                data: { leadId: successor?.id ?? null },
+            });
+            // A new head joins the department they lead; with several departments it is left to the admin
+            if (successor && departments.length === 1) {
+                await this.membershipsService.setDepartment([successor.id], companyId, departments[0].id, prisma);
+            }
+
+            const projectIds = projects.map((project) => project.id);
+            await prisma.project.updateMany({ where: { id: { in: projectIds } }, data: { projectLeadId: successor?.id ?? null } });
+            await prisma.projectMember.updateMany({
+                where: { projectId: { in: projectIds }, userId: id },
+                data: { role: ProjectMemberRole.MEMBER },
+            });
+            if (successor) {
+                for (const projectId of projectIds) {
+                    await prisma.projectMember.upsert({
+                        where: { projectId_userId: { projectId, userId: successor.id } },
+                        create: { projectId, userId: successor.id, role: ProjectMemberRole.LEAD },
+                        update: { role: ProjectMemberRole.LEAD },
+                    });
+                }
+            }
+
+            if (keepsDesktopAgents) {
+                return 0;
+            }
+
+            const agents = await prisma.desktopAgent.updateMany({
+                where: { userId: id, isActive: true },
+                data: { isActive: false, isOnline: false },
+            });
+            return agents.count;
+        });
+
+        const taskHandover = assignments.map(({ task }) => ({ id: task.id, title: task.title }));
+        const report = {
+            user: { id: user.id, firstName: user.firstName, lastName: user.lastName, email: user.email },
+            successor: successor && { id: successor.id, firstName: successor.firstName, lastName: successor.lastName },
+            offboardedAt: new Date(),
+            timeTracking: { stopped: stoppedSessions },
+            tasks: {
+                reassigned: taskSuccessorId ? taskHandover : [],
+                unassigned: taskSuccessorId ? [] : taskHandover,
+            },
+            qcHead: {
+                reassigned: qcSuccessorId ? qcSubProjects : [],
+                unassigned: qcSuccessorId ? [] : qcSubProjects,
+            },
+            departmentsLed: departments,
+            projectsLed: projects,
+            desktopAgents: { deactivated: desktopAgentsDeactivated, keptForOtherCompanies: keepsDesktopAgents },
+        };
+
+        if (successor && successor.id !== actorId) {
+            await this.prisma.notification.create({
+                data: {
+                    userId: successor.id,
+                    type: NotificationType.SYSTEM,
+                    title: 'Work Handed Over to You',
+                    message: `You took over from ${user.firstName} ${user.lastName}: ${report.tasks.reassigned.length} open tasks, `
+                        + `${report.qcHead.reassigned.length} QC head roles, ${departments.length} departments and ${projects.length} projects.`,
+                    metadata: {
+                        offboardedUserId: id,
+                        taskIds: report.tasks.reassigned.map((task) => task.id),
+                        subProjectIds: report.qcHead.reassigned.map((subProject) => subProject.id),
+                        departmentIds: departments.map((department) => department.id),
+                        projectIds: projects.map((project) => project.id),
+                    },
+                },
+            });
+        }
+
+        await this.prisma.activityLog.create({
+            data: {
+                companyId,
+                userId: actorId,
+                activityType: 'USER_OFFBOARDED',
+                description: `Offboarded ${user.firstName} ${user.lastName}`
+                    + (successor ? `, handing over to ${successor.firstName} ${successor.lastName}` : '')
+                    + (actorId ? '' : ' on their end date'),
+                metadata: {
+                    targetUserId: id,
+                    successorId: successor?.id ?? null,
+                    stoppedSessions: stoppedSessions.length,
+                    tasksReassigned: report.tasks.reassigned.length,
+                    tasksUnassigned: report.tasks.unassigned.length,
+                    qcHeadReassigned: report.qcHead.reassigned.length,
+                    qcHeadUnassigned: report.qcHead.unassigned.length,
+                    departmentsLed: departments.length,
+                    projectsLed: projects.length,
+                    desktopAgentsDeactivated,
+                },
+            },
+        });
+
+        return report;
+    }
+
+    private async findSuccessor(successorId: string, userId: string, companyId: string): Promise<Successor> {
+        if (successorId === userId) {
+            throw new BadRequestException('A user cannot be their own successor');
+        }
+
+        const membership = await this.membershipsService.findMembership(successorId, companyId);
+        if (!membership?.isActive) {
+            throw new BadRequestException('Successor not found or inactive');
+        }
+
+        const successor = await this.prisma.user.findUniqueOrThrow({
+            where: { id: successorId },
+            select: { id: true, firstName: true, lastName: true },
+        });
+
+        return { ...successor, role: membership.role };
+    }
+}
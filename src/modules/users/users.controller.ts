@@ -1,18 +1,31 @@
 // src/modules/users/users.controller.ts
-import { Controller, Get, Put, Patch, Body, Param, UseGuards } from '@nestjs/common';
+import { Controller, Get, Post, Put, Patch, Body, Param, Query, UseGuards } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
 import { UsersService } from './users.service';
+import { UserImportService } from './user-import.service';
+import { UserOffboardingService } from './user-offboarding.service';
+import { EmploymentDatesService } from './employment-dates.service';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 // import { CurrentUser } from '../../common/decorators/current-user.decorator';
 import { UpdateUserDto, UpdateUserRoleDto } from './dto/users.dto';
-import { CurrentUser } from '../auth/guards';
+import { ImportUsersDto } from './dto/user-import.dto';
+import { OffboardUserDto } from './dto/user-offboarding.dto';
+import { DEFAULT_UPCOMING_DAYS, UpcomingEmploymentQueryDto } from './dto/employment-dates.dto';
+import { CurrentUser, BlockWhileImpersonating, Roles } from '../auth/guards';
+import { RolesGuard } from '../auth/guards/roles.guard';
 
 @ApiTags('users')
 @Controller('users')
 @UseGuards(JwtAuthGuard)
 @ApiBearerAuth()
 export class UsersController {
-    constructor(private readonly usersService: UsersService) { }
+    constructor(
+        private readonly usersService: UsersService,
+        private readonly userImportService: UserImportService,
+        private readonly userOffboardingService: UserOffboardingService,
+        private readonly employmentDatesService: EmploymentDatesService,
+    ) { }
 
     @Get()
     @ApiOperation({ summary: 'Get all users in company' })
@@ -20,12 +33,29 @@ export class UsersController {
         return this.usersService.findAll(companyId);
     }
 
+    @Post('import')
+    @BlockWhileImpersonating()
+    @UseGuards(RolesGuard)
+    @Roles(UserRole.COMPANY)
+    @ApiOperation({ summary: 'Bulk import users from CSV or JSON; use dryRun to get the validation report only (Company Admin)' })
+    async import(@Body() dto: ImportUsersDto, @CurrentUser() currentUser: any) {
+        return this.userImportService.import(dto, currentUser);
+    }
+
     @Get('leaderboard')
     @ApiOperation({ summary: 'Get company leaderboard' })
     async getLeaderboard(@CurrentUser('companyId') companyId: string) {
         return this.usersService.getLeaderboard(companyId);
     }
 
+    @Get('upcoming-changes')
+    @UseGuards(RolesGuard)
+    @Roles(UserRole.COMPANY)
+    @ApiOperation({ summary: 'Get members starting or leaving in the coming days, and departments opening or closing (Company Admin)' })
+    async getUpcomingChanges(@Query() query: UpcomingEmploymentQueryDto, @CurrentUser('companyId') companyId: string) {
+        return this.employmentDatesService.getUpcoming(companyId, query.days ?? DEFAULT_UPCOMING_DAYS);
+    }
+
     @Get(':id')
     @ApiOperation({ summary: 'Get user by ID' })
     async findOne(@Param('id') id: string, @CurrentUser('companyId') companyId: string) {
@@ -33,6 +63,7 @@ export class UsersController {
     }
 
     @Put(':id')
+    @BlockWhileImpersonating()
     @ApiOperation({ summary: 'Update user profile' })
     async update(
         @Param('id') id: string,
@@ -44,6 +75,7 @@ export class UsersController {
     }
 
     @Patch(':id/role')
+    @BlockWhileImpersonating()
     @ApiOperation({ summary: 'Update user role' })
     async updateRole(
         @Param('id') id: string,
@@ -54,6 +86,7 @@ export class UsersController {
     }
 
     @Patch(':id/deactivate')
+    @BlockWhileImpersonating()
     @ApiOperation({ summary: 'Deactivate user' })
     async deactivate(
         @Param('id') id: string,
@@ -62,7 +95,21 @@ export class UsersController {
         return this.usersService.deactivate(id, currentUser);
     }
 
+    @Post(':id/offboard')
+    @BlockWhileImpersonating()
+    @UseGuards(RolesGuard)
+    @Roles(UserRole.COMPANY)
+    @ApiOperation({ summary: 'Offboard user: stop timers, hand over tasks and lead roles, deactivate, and get a handover report (Company Admin)' })
+    async offboard(
+        @Param('id') id: string,
+        @Body() dto: OffboardUserDto,
+        @CurrentUser() currentUser: any,
+    ) {
+        return this.userOffboardingService.offboard(id, dto, currentUser);
+    }
+
     @Patch(':id/activate')
+    @BlockWhileImpersonating()
     @ApiOperation({ summary: 'Activate user' })
     async activate(
         @Param('id') id: string,
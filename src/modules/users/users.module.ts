@@ -2,10 +2,15 @@
 import { Module } from '@nestjs/common';
 import { UsersController } from './users.controller';
 import { UsersService } from './users.service';
+import { UserImportService } from './user-import.service';
+import { UserOffboardingService } from './user-offboarding.service';
+import { EmploymentDatesService } from './employment-dates.service';
+import { TimeTrackingModule } from '../time-tracking/time-tracking.module';
 
 @Module({
+    imports: [TimeTrackingModule],
     controllers: [UsersController],
-    providers: [UsersService],
-    exports: [UsersService],
+    providers: [UsersService, UserImportService, UserOffboardingService, EmploymentDatesService],
+    exports: [UsersService, EmploymentDatesService],
 })
 export class UsersModule { }
\ No newline at end of file
@@ -1,14 +1,36 @@
 // src/modules/users/users.service.ts
-import { Injectable, NotFoundException, ForbiddenException } from '@nestjs/common';
+import { Injectable, NotFoundException, ForbiddenException, BadRequestException } from '@nestjs/common';
 import { PrismaService } from '../../prisma/prisma.service';
-import { User, UserRole, NotificationType } from '@prisma/client';
+import { User, UserRole, NotificationType, CustomRole, Prisma } from '@prisma/client';
 import { UpdateUserDto, UpdateUserRoleDto } from './dto/users.dto';
 import { EmailService } from '../email/email.service';
+import { PermissionsService } from '../permissions';
+import { PlansService } from '../plans';
+import { MembershipsService } from '../memberships/memberships.service';
+import { memberOf } from '../memberships/membership.util';
+
+const memberInclude = (companyId: string) => ({
+    department: true,
+    company: true,
+    customRole: { select: { id: true, name: true } },
+    memberships: {
+        where: { companyId },
+        include: { department: true, company: true, customRole: { select: { id: true, name: true } } },
+    },
+});
+
+type MemberPayload = Prisma.UserGetPayload<{ include: ReturnType<typeof memberInclude> }>;
+
+// Role, department and status are those of the company the user is viewed from
+type Member = Omit<MemberPayload, 'memberships'> & { homeCompanyId: string };
 
 @Injectable()
 export class UsersService {
     constructor(private prisma: PrismaService,
         private emailService: EmailService,
+        private permissionsService: PermissionsService,
+        private plansService: PlansService,
+        private membershipsService: MembershipsService,
     ) { }
 
     // ============================================
@@ -36,33 +58,29 @@ export class UsersService {
     // FIND ALL
     // ============================================
     async findAll(companyId: string): Promise<User[]> {
-        return this.prisma.user.findMany({
-            where: { companyId },
-            include: { department: true },
+        const users = await this.prisma.user.findMany({
+            where: memberOf(companyId),
+            include: memberInclude(companyId),
             orderBy: { createdAt: 'desc' },
         });
+
+        return users.map((user) => this.toMember(user, companyId));
     }
 
     // ============================================
     // FIND ONE
     // ============================================
-    async findOne(id: string, companyId: string): Promise<User> {
+    async findOne(id: string, companyId: string): Promise<Member> {
         const user = await this.prisma.user.findFirst({
-            where: {
-                id,
-                companyId,
-            },
-            include: {
-                department: true,
-                company: true,
-            },
+            where: { id, ...memberOf(companyId) },
+            include: memberInclude(companyId),
         });
 
         if (!user) {
             throw new NotFoundException('User not found');
         }
 
-        return user;
+        return this.toMember(user, companyId);
     }
 
     // ============================================
@@ -86,6 +104,11 @@ export class UsersService {
             throw new ForbiddenException('You can only update your own profile');
         }
 
+        // Employment dates activate and deactivate the account (see EmploymentDatesService)
+        if ((updateDto.startDate !== undefined || updateDto.endDate !== undefined) && currentUser.role === UserRole.USER) {
+            throw new ForbiddenException('Only admins can change employment dates');
+        }
+
         const oldDepartmentId = user.departmentId;
         const newDepartmentId = updateDto.departmentId;
         const departmentChanged = newDepartmentId !== undefined && newDepartmentId !== oldDepartmentId;
@@ -105,11 +128,28 @@ export class UsersService {
             }
         }
 
-        const updatedUser = await this.prisma.user.update({
+        // The account itself belongs to the member's home company; other companies only place them in a department
+        const { departmentId, ...accountChanges } = updateDto;
+        const isGuest = user.companyId !== user.homeCompanyId;
+
+        if (isGuest && user.id !== currentUser.id && Object.values(accountChanges).some((value) => value !== undefined)) {
+            throw new ForbiddenException('Only the department of a member from another company can be changed here');
+        }
+
+        await this.prisma.user.update({
             where: { id },
-            data: updateDto,
-            include: { department: true, company: true },
+            data: {
+                ...accountChanges,
+                // A new date is acted on again by the employment date job
+                ...(this.isDateChanged(updateDto.startDate, user.startDate) && { startDateAppliedAt: null }),
+                ...(this.isDateChanged(updateDto.endDate, user.endDate) && { endDateAppliedAt: null }),
+            },
         });
+        if (departmentChanged) {
+            await this.membershipsService.updateMember(id, currentUser.companyId, { departmentId: departmentId || null });
+        }
+
+        const updatedUser = await this.findOne(id, currentUser.companyId);
 
         // ============================================
         // SEND NOTIFICATIONS
@@ -152,18 +192,37 @@ export class UsersService {
             throw new ForbiddenException('Cannot change company admin role');
         }
 
+        const { role: newRole, customRole } = await this.resolveRoleAssignment(updateDto, currentUser.companyId);
+
+        // Platform admins are managed outside of companies
+        if (newRole === UserRole.SUPER_ADMIN || user.role === UserRole.SUPER_ADMIN) {
+            throw new ForbiddenException('The platform admin role cannot be changed here');
+        }
+
         // QC_ADMIN cannot promote to COMPANY
-        if (currentUser.role === UserRole.QC_ADMIN && updateDto.role === UserRole.COMPANY) {
+        if (currentUser.role === UserRole.QC_ADMIN && newRole === UserRole.COMPANY) {
             throw new ForbiddenException('Only company admin can promote to company admin role');
         }
 
+        // QC_ADMIN can only hand out custom roles whose permissions they hold themselves
+        if (currentUser.role === UserRole.QC_ADMIN && customRole) {
+            const subject = await this.permissionsService.resolveSubject({ id: currentUser.id, role: currentUser.role, companyId: currentUser.companyId });
+            for (const permission of this.permissionsService.toPermissions(customRole.permissions)) {
+                if (!(await this.permissionsService.can(subject, permission))) {
+                    throw new ForbiddenException(`Only company admin can assign a role with the ${permission} permission`);
+                }
+            }
+        }
+
         const oldRole = user.role;
+        const previousCustomRole = user.customRoleId
+            ? await this.prisma.customRole.findUnique({ where: { id: user.customRoleId } })
+            : null;
+        const oldRoleName = previousCustomRole?.name ?? oldRole;
+        const newRoleName = customRole?.name ?? newRole;
 
-        const updatedUser = await this.prisma.user.update({
-            where: { id },
-            data: { role: updateDto.role },
-            include: { department: true, company: true },
-        });
+        await this.membershipsService.updateMember(id, currentUser.companyId, { role: newRole, customRoleId: customRole?.id ?? null });
+        const updatedUser = await this.findOne(id, currentUser.companyId);
 
         // ============================================
         // SEND NOTIFICATIONS
@@ -171,20 +230,35 @@ export class UsersService {
 
         // Notify user about role change
         if (id !== currentUser.id) {
-            const isPromotion = this.isRolePromotion(oldRole, updateDto.role);
+            const isPromotion = this.isRolePromotion(oldRole, newRole);
 
             await this.sendNotification(
                 id,
                 NotificationType.ROLE_CHANGE,
                 isPromotion ? 'Role Promotion' : 'Role Updated',
-                `Your role has been changed from ${oldRole.replace('_', ' ')} to ${updateDto.role.replace('_', ' ')}.`,
+                `Your role has been changed from ${oldRoleName.replace('_', ' ')} to ${newRoleName.replace('_', ' ')}.`,
                 {
                     oldRole,
-                    newRole: updateDto.role,
+                    newRole,
+                    oldCustomRoleId: previousCustomRole?.id ?? null,
+                    newCustomRoleId: customRole?.id ?? null,
                     changedBy: currentUser.id,
                     isPromotion,
                 }
             );
+
+            try {
+                await this.emailService.sendRoleChangedEmail(
+                    user.email,
+                    user.firstName,
+                    oldRoleName,
+                    newRoleName,
+                    isPromotion,
+                    currentUser.companyId,
+                );
+            } catch (error) {
+                console.error('Failed to send role changed email:', error);
+            }
         }
 
         // Log activity
@@ -193,11 +267,13 @@ export class UsersService {
                 companyId: currentUser.companyId,
                 userId: currentUser.id,
                 activityType: 'USER_ROLE_CHANGED',
-                description: `Changed ${user.firstName} ${user.lastName}'s role from ${oldRole} to ${updateDto.role}`,
+                description: `Changed ${user.firstName} ${user.lastName}'s role from ${oldRoleName} to ${newRoleName}`,
                 metadata: {
                     targetUserId: id,
                     oldRole,
-                    newRole: updateDto.role,
+                    newRole,
+                    oldCustomRoleId: previousCustomRole?.id ?? null,
+                    newCustomRoleId: customRole?.id ?? null,
                 },
             },
         });
@@ -226,11 +302,8 @@ export class UsersService {
             throw new ForbiddenException('Cannot deactivate company admin');
         }
 
-        const updatedUser = await this.prisma.user.update({
-            where: { id },
-            data: { isActive: false },
-            include: { department: true, company: true },
-        });
+        await this.membershipsService.updateMember(id, currentUser.companyId, { isActive: false });
+        const updatedUser = await this.findOne(id, currentUser.companyId);
 
         // ============================================
         // SEND NOTIFICATIONS
@@ -296,20 +369,14 @@ export class UsersService {
             throw new ForbiddenException('Only company admin can activate users');
         }
 
-        const user = await this.prisma.user.findFirst({
-            where: { id, companyId: currentUser.companyId },
-            include: { department: true },
-        });
+        const user = await this.findOne(id, currentUser.companyId);
 
-        if (!user) {
-            throw new NotFoundException('User not found');
+        if (!user.isActive) {
+            await this.plansService.assertSeatAvailable(currentUser.companyId);
         }
 
-        const updatedUser = await this.prisma.user.update({
-            where: { id },
-            data: { isActive: true },
-            include: { department: true, company: true },
-        });
+        await this.membershipsService.updateMember(id, currentUser.companyId, { isActive: true });
+        const updatedUser = await this.findOne(id, currentUser.companyId);
 
         // ============================================
         // SEND NOTIFICATIONS
@@ -370,16 +437,14 @@ export class UsersService {
     // GET LEADERBOARD
     // ============================================
     async getLeaderboard(companyId: string): Promise<User[]> {
-        return this.prisma.user.findMany({
-            where: { companyId, isActive: true },
+        const users = await this.prisma.user.findMany({
+            where: memberOf(companyId, { isActive: true }),
             orderBy: { points: 'desc' },
             take: 50,
-            include: {
-                department: {
-                    select: { id: true, name: true, tag: true },
-                },
-            },
+            include: memberInclude(companyId),
         });
+
+        return users.map((user) => this.toMember(user, companyId));
     }
 
     // Add after role update method
@@ -389,19 +454,13 @@ export class UsersService {
         currentUserId: string,
         companyId: string,
     ) {
-        const user = await this.prisma.user.findFirst({
-            where: { id: userId, companyId },
-        });
-
-        if (!user) throw new NotFoundException('User not found');
+        const user = await this.findOne(userId, companyId);
 
         const oldRole = user.role;
         const isPromotion = this.isRolePromotion(oldRole, newRole);
 
-        const updatedUser = await this.prisma.user.update({
-            where: { id: userId },
-            data: { role: newRole },
-        });
+        await this.membershipsService.updateMember(userId, companyId, { role: newRole, customRoleId: null });
+        const updatedUser = await this.findOne(userId, companyId);
 
         // Send email notification
         if (userId !== currentUserId) {
@@ -411,6 +470,7 @@ export class UsersService {
                 oldRole,
                 newRole,
                 isPromotion,
+                companyId,
             );
         }
 
@@ -419,33 +479,97 @@ export class UsersService {
 
     // Add activation/deactivation emails
     async activateUser(userId: string, companyId: string) {
-        const user = await this.prisma.user.update({
-            where: { id: userId },
-            data: { isActive: true },
-        });
+        await this.membershipsService.updateMember(userId, companyId, { isActive: true });
+        const user = await this.findOne(userId, companyId);
 
         await this.emailService.sendAccountActivatedEmail(
             user.email,
             user.firstName,
+            companyId,
         );
 
         return user;
     }
 
     async deactivateUser(userId: string, companyId: string) {
-        const user = await this.prisma.user.update({
-            where: { id: userId },
-            data: { isActive: false },
-        });
+        await this.membershipsService.updateMember(userId, companyId, { isActive: false });
+        const user = await this.findOne(userId, companyId);
 
         await this.emailService.sendAccountDeactivatedEmail(
             user.email,
             user.firstName,
+            companyId,
         );
 
         return user;
     }
 
+    // ============================================
+    // Helper: User as a member of one company
+    // ============================================
+    private toMember(user: MemberPayload, companyId: string): Member {
+        const { memberships, ...account } = user;
+        const [membership] = memberships;
+
+        if (user.companyId === companyId || !membership) {
+            return { ...account, homeCompanyId: user.companyId };
+        }
+
+        return {
+            ...account,
+            companyId,
+            role: membership.role,
+            departmentId: membership.departmentId,
+            customRoleId: membership.customRoleId,
+            isActive: membership.isActive,
+            department: membership.department,
+            company: membership.company,
+            customRole: membership.customRole,
+            homeCompanyId: user.companyId,
+        };
+    }
+
+    // ============================================
+    // Helper: Fixed role + custom role for an assignment
+    // ============================================
+    private async resolveRoleAssignment(
+        dto: UpdateUserRoleDto,
+        companyId: string,
+    ): Promise<{ role: UserRole; customRole: CustomRole | null }> {
+        if (!dto.role === !dto.customRoleId) {
+            throw new BadRequestException('Provide either role or customRoleId');
+        }
+
+        if (dto.role) {
+            return { role: dto.role, customRole: null };
+        }
+
+        const customRole = await this.prisma.customRole.findFirst({
+            where: { id: dto.customRoleId, companyId },
+        });
+
+        if (!customRole) {
+            throw new NotFoundException('Role not found');
+        }
+
+        // Built-in roles are plain fixed roles; only custom ones are linked to the user
+        return {
+            role: customRole.baseRole,
+            customRole: customRole.isBuiltIn ? null : customRole,
+        };
+    }
+
+    // ============================================
+    // Helper: Whether an optional date update differs from the stored value
+    // ============================================
+    private isDateChanged(value: Date | string | null | undefined, current: Date | null): boolean {
+        if (value === undefined) {
+            return false;
+        }
+
+        return (value === null ? null : new Date(value).getTime()) !== (current?.getTime() ?? null);
+    }
+
     // ============================================
     // Helper: Check if role change is a promotion
     // ============================================
@@ -0,0 +1,33 @@
+import { mapImportColumns, parseCsv, toImportRow } from './user-import.util';
+
+describe('user-import.util', () => {
+    it('parses quoted cells, escaped quotes and CRLF line endings', () => {
+        const csv = '\uFEFFname,email\r\n"Doe, Jane","jane@acme.com"\r\n\r\n"Bob ""B"" Smith",bob@acme.com\n';
+
+        expect(parseCsv(csv)).toEqual([
+            ['name', 'email'],
+            ['Doe, Jane', 'jane@acme.com'],
+            ['Bob "B" Smith', 'bob@acme.com'],
+        ]);
+    });
+
+    it('maps recognised headers and explicit column names', () => {
+        const header = ['E-mail', 'First Name', 'Surname', 'Team', 'Hire date', 'Work email'];
+
+        expect(mapImportColumns(header)).toEqual({ email: 0, firstName: 1, lastName: 2, department: 3, startDate: 4 });
+        expect(mapImportColumns(header, { email: 'work email' })).toMatchObject({ email: 5 });
+    });
+
+    it('normalizes a row and splits full names and project lists', () => {
+        expect(toImportRow(3, { name: ' Jane  van Doe ', email: ' Jane@Acme.COM', projects: 'Apollo; Gemini|Apollo;' })).toEqual({
+            row: 3,
+            firstName: 'Jane',
+            lastName: 'van Doe',
+            email: 'jane@acme.com',
+            role: null,
+            department: null,
+            startDate: null,
+            projects: ['Apollo', 'Gemini'],
+        });
+    });
+});
@@ -0,0 +1,140 @@
+// src/modules/users/utils/user-import.util.ts
+
+export const IMPORT_FIELDS = ['firstName', 'lastName', 'name', 'email', 'role', 'department', 'startDate', 'projects'] as const;
+
+export type ImportField = (typeof IMPORT_FIELDS)[number];
+
+export type ImportColumnMap = Partial<Record<ImportField, string>>;
+
+// Header names recognised without a column map, compared lowercase without spaces or punctuation
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+    firstName: ['firstname', 'givenname', 'first'],
+    lastName: ['lastname', 'surname', 'familyname', 'last'],
+    name: ['name', 'fullname'],
+    email: ['email', 'emailaddress', 'mail'],
+    role: ['role'],
+    department: ['department', 'dept', 'team'],
+    startDate: ['startdate', 'start', 'hiredate', 'joindate'],
+    projects: ['projects', 'project', 'projectmemberships'],
+};
+
+export interface ImportRowInput {
+    // 1-based position among the data rows (the CSV header is not counted)
+    row: number;
+    firstName: string;
+    lastName: string;
+    email: string;
+    role: string | null;
+    department: string | null;
+    startDate: string | null;
+    projects: string[];
+}
+
+/**
+ * Splits CSV text into rows of cells (RFC 4180 quoting, comma separated); blank lines are dropped
+ */
+export function parseCsv(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let quoted = false;
+
+    const input = text.replace(/^\uFEFF/, '');
+    for (let i = 0; i < input.length; i++) {
+        const char = input[i];
+
+        if (quoted) {
+            if (char === '"' && input[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                cell += char;
+            }
+            continue;
+        }
+
+        if (char === '"') {
+            quoted = true;
+        } else if (char === ',') {
+            row.push(cell);
+            cell = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && input[i + 1] === '\n') {
+                i++;
+            }
+            row.push(cell);
+            rows.push(row);
+            row = [];
+            cell = '';
+        } else {
+            cell += char;
+        }
+    }
+
+    row.push(cell);
+    rows.push(row);
+
+    return rows.filter((cells) => cells.some((value) => value.trim() !== ''));
+}
+
+/**
+ * Column index of each field in a CSV header; explicit mappings win over the recognised header names
+ */
+export function mapImportColumns(header: string[], columns: ImportColumnMap = {}): Partial<Record<ImportField, number>> {
+    const normalized = header.map(normalizeHeader);
+    const indexes: Partial<Record<ImportField, number>> = {};
+
+    for (const field of IMPORT_FIELDS) {
+        const mapped = columns[field];
+        const index = mapped
+            ? normalized.indexOf(normalizeHeader(mapped))
+            : normalized.findIndex((name) => HEADER_ALIASES[field].includes(name));
+
+        if (index !== -1) {
+            indexes[field] = index;
+        }
+    }
+
+    return indexes;
+}
+
+/**
+ * Reads one import row from raw values: trims everything, lowercases the email, splits a full name
+ * when first/last names are missing and splits project lists on `;` or `|`
+ */
+export function toImportRow(row: number, values: Partial<Record<ImportField, string | string[] | undefined>>): ImportRowInput {
+    const text = (field: ImportField) => {
+        const value = values[field];
+        return typeof value === 'string' ? value.trim() : '';
+    };
+
+    let firstName = text('firstName');
+    let lastName = text('lastName');
+    if (!firstName && !lastName && text('name')) {
+        const [first, ...rest] = text('name').split(/\s+/);
+        firstName = first;
+        lastName = rest.join(' ');
+    }
+
+    const projects = Array.isArray(values.projects) ? values.projects : text('projects').split(/[;|]/);
+
+    return {
+        row,
+        firstName,
+        lastName,
+        email: text('email').toLowerCase(),
+        role: text('role') || null,
+        department: text('department') || null,
+        startDate: text('startDate') || null,
+        projects: [...new Set(projects.map((name) => name.trim()).filter(Boolean))],
+    };
+}
+
+// ============================================
+// HELPERS
+// ============================================
+function normalizeHeader(name: string): string {
+    return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}